@@ -1,5 +1,15 @@
 export { AnonymousAuth } from './anonymous.js';
-export { JWTAuth, StaticTokenProvider } from './jwt.js';
-export { SecureKeyAuth } from './secure.js';
+export { decodeTokenExpiry, JWTAuth, RefreshingTokenProvider, StaticTokenProvider } from './jwt.js';
+export type { RefreshedToken, RefreshingTokenProviderOptions } from './jwt.js';
+export type { PrivateKeyInput, PublicKeyInput } from './keys.js';
+export { SecureKeyAuth, verifySecureSignature } from './secure.js';
+export type {
+  SecureSignatureFailure,
+  SecureSignatureVerification,
+  SecureSignedRequest,
+  VerifySecureSignatureOptions,
+} from './secure.js';
+export { KeySigner } from './signer.js';
+export type { Signer } from './signer.js';
 export { SimpleKeyAuth } from './simple.js';
 export type { AuthStrategy, RequestData, TokenProvider } from './types.js';
@@ -1,3 +1,4 @@
+import { FoxnoseAuthError } from '../errors.js';
 import type { AuthStrategy, RequestData, TokenProvider } from './types.js';
 
 /**
@@ -11,8 +12,141 @@ export class StaticTokenProvider implements TokenProvider {
   }
 }
 
+/**
+ * A token returned by a {@link RefreshingTokenProvider} refresh callback.
+ */
+export interface RefreshedToken {
+  token: string;
+  /**
+   * Expiry as epoch milliseconds or a `Date`. When omitted, the JWT `exp`
+   * claim is used; tokens without one are kept until invalidated.
+   */
+  expiresAt?: number | Date;
+}
+
+export interface RefreshingTokenProviderOptions {
+  /** Fetches a new access token, e.g. from a refresh-token endpoint. */
+  refresh: () => Promise<string | RefreshedToken>;
+  /** Refresh this many milliseconds before the token expires. Defaults to 60 000. */
+  refreshMargin?: number;
+  /** Token to use until it is due for refresh, e.g. one issued at login. */
+  initialToken?: string | RefreshedToken;
+}
+
+/**
+ * Reads the `exp` claim of a JWT as epoch milliseconds. Returns `undefined`
+ * for tokens that are not JWTs or carry no numeric `exp`. The signature is
+ * not verified.
+ */
+export function decodeTokenExpiry(token: string): number | undefined {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    return undefined;
+  }
+  try {
+    const base64 = parts[1].replace(/-/g, '+').replace(/_/g, '/');
+    const payload = JSON.parse(atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '=')));
+    return typeof payload?.exp === 'number' ? payload.exp * 1000 : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Token provider that caches an access token and refreshes it ahead of
+ * expiry.
+ *
+ * Concurrent callers share a single in-flight refresh. When the transport
+ * receives a 401, {@link JWTAuth} invalidates the rejected token so the retry
+ * picks up a fresh one.
+ *
+ * @example
+ * ```ts
+ * const provider = new RefreshingTokenProvider({
+ *   refresh: async () => {
+ *     const res = await fetch('https://auth.example.com/token', { method: 'POST' });
+ *     return (await res.json()).access_token;
+ *   },
+ * });
+ * const auth = new JWTAuth(provider);
+ * ```
+ */
+export class RefreshingTokenProvider implements TokenProvider {
+  private readonly refreshFn: () => Promise<string | RefreshedToken>;
+  private readonly refreshMargin: number;
+  private current?: { token: string; expiresAt?: number };
+  private pending?: Promise<string>;
+
+  constructor(options: RefreshingTokenProviderOptions) {
+    if (options.refreshMargin !== undefined && options.refreshMargin < 0) {
+      throw new Error('refreshMargin must not be negative');
+    }
+    this.refreshFn = options.refresh;
+    this.refreshMargin = options.refreshMargin ?? 60_000;
+    if (options.initialToken !== undefined) {
+      this.current = normalizeToken(options.initialToken);
+    }
+  }
+
+  async getToken(): Promise<string> {
+    if (this.current && !this.isDue(this.current.expiresAt)) {
+      return this.current.token;
+    }
+    return this.refresh();
+  }
+
+  /**
+   * Fetches a new token now. Calls made while a refresh is in flight share
+   * its result.
+   */
+  refresh(): Promise<string> {
+    if (!this.pending) {
+      this.pending = this.runRefresh().finally(() => {
+        this.pending = undefined;
+      });
+    }
+    return this.pending;
+  }
+
+  invalidate(token: string): void {
+    if (this.current?.token === token) {
+      this.current = undefined;
+    }
+  }
+
+  private isDue(expiresAt?: number): boolean {
+    return expiresAt !== undefined && Date.now() >= expiresAt - this.refreshMargin;
+  }
+
+  private async runRefresh(): Promise<string> {
+    let result: string | RefreshedToken;
+    try {
+      result = await this.refreshFn();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      throw new FoxnoseAuthError(`Token refresh failed: ${message}`);
+    }
+    const next = normalizeToken(result);
+    if (!next.token) {
+      throw new FoxnoseAuthError('Token refresh returned an empty token');
+    }
+    this.current = next;
+    return next.token;
+  }
+}
+
+function normalizeToken(value: string | RefreshedToken): { token: string; expiresAt?: number } {
+  const token = typeof value === 'string' ? value : value.token;
+  const explicit = typeof value === 'string' ? undefined : value.expiresAt;
+  const expiresAt = explicit instanceof Date ? explicit.getTime() : explicit;
+  return { token, expiresAt: expiresAt ?? decodeTokenExpiry(token) };
+}
+
 /**
  * Adds `Authorization: Bearer` headers using a token provider.
+ *
+ * Headers are built synchronously when the provider returns a string and
+ * asynchronously when it returns a promise.
  */
 export class JWTAuth implements AuthStrategy {
   private readonly provider: TokenProvider;
@@ -23,12 +157,26 @@ export class JWTAuth implements AuthStrategy {
     this.scheme = options?.scheme ?? 'Bearer';
   }
 
-  buildHeaders(_request: RequestData): Record<string, string> {
+  buildHeaders(_request: RequestData): Record<string, string> | Promise<Record<string, string>> {
     const token = this.provider.getToken();
-    if (!token) {
-      throw new Error('Token provider returned an empty token');
+    if (typeof token === 'string') {
+      return this.headersFor(token);
     }
-    return { Authorization: `${this.scheme} ${token}` };
+    return token.then((value) => this.headersFor(value));
+  }
+
+  /**
+   * Invalidates the rejected token and asks for a retry when the provider
+   * can hand out a new one.
+   */
+  onUnauthorized(sentHeaders: Record<string, string>): boolean {
+    if (!this.provider.invalidate) {
+      return false;
+    }
+    const header = sentHeaders.Authorization ?? '';
+    const prefix = `${this.scheme} `;
+    this.provider.invalidate(header.startsWith(prefix) ? header.slice(prefix.length) : header);
+    return true;
   }
 
   /**
@@ -37,4 +185,11 @@ export class JWTAuth implements AuthStrategy {
   static fromStaticToken(token: string, options?: { scheme?: string }): JWTAuth {
     return new JWTAuth(new StaticTokenProvider(token), options);
   }
+
+  private headersFor(token: string): Record<string, string> {
+    if (!token) {
+      throw new Error('Token provider returned an empty token');
+    }
+    return { Authorization: `${this.scheme} ${token}` };
+  }
 }
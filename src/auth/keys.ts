@@ -0,0 +1,220 @@
+import { createPrivateKey, createPublicKey, KeyObject } from 'node:crypto';
+import type { JsonWebKey } from 'node:crypto';
+import { existsSync, readFileSync } from 'node:fs';
+
+import { FoxnoseAuthError } from '../errors.js';
+
+/**
+ * A private key accepted by {@link SecureKeyAuth}: a `KeyObject`, a JWK, DER
+ * bytes, or a string holding PEM (SEC1 or PKCS#8), base64 DER, JWK JSON or
+ * the path of a file with any of these.
+ */
+export type PrivateKeyInput = string | Uint8Array | KeyObject | JsonWebKey;
+
+const BASE64 = /^[A-Za-z0-9+/\s]+={0,2}$/;
+
+function fromPem(pem: string, passphrase: string | undefined, origin: string): KeyObject {
+  const label = /-----BEGIN ([A-Z0-9 ]+)-----/.exec(pem)?.[1] ?? '';
+  if (label.endsWith('PUBLIC KEY') || label === 'CERTIFICATE') {
+    throw new FoxnoseAuthError(`${origin} holds a ${label.toLowerCase()}, not a private key`);
+  }
+  if ((label.startsWith('ENCRYPTED') || pem.includes('Proc-Type: 4,ENCRYPTED')) && !passphrase) {
+    throw new FoxnoseAuthError(`${origin} is encrypted; pass the passphrase option`);
+  }
+  try {
+    return createPrivateKey({ key: pem, format: 'pem', passphrase });
+  } catch (err) {
+    throw new FoxnoseAuthError(
+      `${origin} is not a valid PEM private key: ${(err as Error).message}`,
+    );
+  }
+}
+
+function fromDer(der: Buffer, origin: string): KeyObject {
+  for (const type of ['pkcs8', 'sec1'] as const) {
+    try {
+      return createPrivateKey({ key: der, format: 'der', type });
+    } catch {
+      // Try the next encoding.
+    }
+  }
+  throw new FoxnoseAuthError(`${origin} is neither a PKCS#8 nor a SEC1 DER private key`);
+}
+
+function fromJwk(jwk: JsonWebKey, origin: string): KeyObject {
+  if (jwk.d === undefined) {
+    throw new FoxnoseAuthError(`${origin} is a public JWK; the private "d" member is missing`);
+  }
+  try {
+    return createPrivateKey({ key: jwk, format: 'jwk' });
+  } catch (err) {
+    throw new FoxnoseAuthError(`${origin} is not a valid private JWK: ${(err as Error).message}`);
+  }
+}
+
+function fromText(text: string, passphrase: string | undefined, origin: string): KeyObject {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('-----BEGIN')) {
+    return fromPem(trimmed, passphrase, origin);
+  }
+  if (trimmed.startsWith('{')) {
+    let jwk: JsonWebKey;
+    try {
+      jwk = JSON.parse(trimmed);
+    } catch {
+      throw new FoxnoseAuthError(`${origin} looks like JSON but does not parse as a JWK`);
+    }
+    return fromJwk(jwk, origin);
+  }
+  return fromDer(Buffer.from(trimmed, 'base64'), origin);
+}
+
+function fromFile(path: string, passphrase: string | undefined): KeyObject {
+  let contents: Buffer;
+  try {
+    contents = readFileSync(path);
+  } catch (err) {
+    throw new FoxnoseAuthError(`Cannot read private key file ${path}: ${(err as Error).message}`);
+  }
+  const text = contents.toString('utf8').trim();
+  const origin = `Private key file ${path}`;
+  return text.startsWith('-----BEGIN') || text.startsWith('{') || BASE64.test(text)
+    ? fromText(text, passphrase, origin)
+    : fromDer(contents, origin);
+}
+
+function toKeyObject(input: PrivateKeyInput, passphrase: string | undefined): KeyObject {
+  if (input instanceof KeyObject) {
+    if (input.type !== 'private') {
+      throw new FoxnoseAuthError(`Expected a private KeyObject, got a ${input.type} key`);
+    }
+    return input;
+  }
+  if (input instanceof Uint8Array) {
+    const bytes = Buffer.from(input);
+    const text = bytes.toString('utf8').trim();
+    return text.startsWith('-----BEGIN')
+      ? fromPem(text, passphrase, 'Private key')
+      : fromDer(bytes, 'Private key');
+  }
+  if (typeof input === 'object') {
+    return fromJwk(input, 'Private key');
+  }
+  const text = input.trim();
+  if (text.startsWith('-----BEGIN') || text.startsWith('{')) {
+    return fromText(text, passphrase, 'Private key');
+  }
+  // Base64 may contain `/`, so a path such as `/keys/foxnose` is only taken
+  // as one when it does not decode to a key.
+  if (BASE64.test(text)) {
+    try {
+      return fromText(text, passphrase, 'Private key');
+    } catch (err) {
+      if (!existsSync(text)) {
+        throw err;
+      }
+    }
+  }
+  return fromFile(text, passphrase);
+}
+
+/**
+ * A public key accepted by {@link verifySecureSignature}: a `KeyObject`, a
+ * JWK, DER bytes, or a string holding PEM, base64 SPKI DER or a base64
+ * uncompressed P-256 point.
+ */
+export type PublicKeyInput = string | Uint8Array | KeyObject | JsonWebKey;
+
+function pointToKey(point: Buffer): KeyObject {
+  return createPublicKey({
+    key: {
+      kty: 'EC',
+      crv: 'P-256',
+      x: point.subarray(1, 33).toString('base64url'),
+      y: point.subarray(33).toString('base64url'),
+    },
+    format: 'jwk',
+  });
+}
+
+/**
+ * Decodes a public key, or returns `null` when `input` is not key material
+ * (e.g. an opaque key ID).
+ * @internal
+ */
+export function decodePublicKey(input: PublicKeyInput): KeyObject | null {
+  try {
+    if (input instanceof KeyObject) {
+      return input.type === 'public' ? input : createPublicKey(input);
+    }
+    let der: Buffer;
+    if (input instanceof Uint8Array) {
+      der = Buffer.from(input);
+    } else if (typeof input === 'object') {
+      return createPublicKey({ key: input, format: 'jwk' });
+    } else {
+      const text = input.trim();
+      if (text.startsWith('-----BEGIN')) {
+        return createPublicKey(text);
+      }
+      if (!BASE64.test(text)) {
+        return null;
+      }
+      der = Buffer.from(text, 'base64');
+    }
+    return der.length === 65 && der[0] === 4
+      ? pointToKey(der)
+      : createPublicKey({ key: der, format: 'der', type: 'spki' });
+  } catch {
+    return null;
+  }
+}
+
+function assertP256(key: KeyObject, role: 'Private' | 'Public'): void {
+  const curve = key.asymmetricKeyDetails?.namedCurve;
+  if (key.asymmetricKeyType !== 'ec' || curve !== 'prime256v1') {
+    const actual = key.asymmetricKeyType === 'ec' ? `EC ${curve}` : key.asymmetricKeyType;
+    throw new FoxnoseAuthError(`${role} key must be an EC P-256 key, got ${actual}`);
+  }
+}
+
+/**
+ * Loads the public key that signatures are verified against.
+ *
+ * @throws {FoxnoseAuthError} When `input` is not a P-256 public key.
+ * @internal
+ */
+export function loadVerifyingKey(input: PublicKeyInput): KeyObject {
+  const key = decodePublicKey(input);
+  if (!key) {
+    throw new FoxnoseAuthError(
+      'Public key is not PEM, base64 SPKI DER, an uncompressed P-256 point or a JWK',
+    );
+  }
+  assertP256(key, 'Public');
+  return key;
+}
+
+/**
+ * Loads a private key for {@link SecureKeyAuth} and checks that it is an EC
+ * P-256 key matching `publicKey` (when given and that string encodes a key).
+ *
+ * @throws {FoxnoseAuthError} With the reason the key cannot be used.
+ * @internal
+ */
+export function loadSigningKey(
+  input: PrivateKeyInput,
+  publicKey?: string,
+  passphrase?: string,
+): KeyObject {
+  const key = toKeyObject(input, passphrase);
+  assertP256(key, 'Private');
+  const expected = publicKey ? decodePublicKey(publicKey) : null;
+  if (expected) {
+    const derived = createPublicKey(key).export({ type: 'spki', format: 'der' });
+    if (!derived.equals(expected.export({ type: 'spki', format: 'der' }))) {
+      throw new FoxnoseAuthError('Private key does not match the public key');
+    }
+  }
+  return key;
+}
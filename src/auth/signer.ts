@@ -0,0 +1,42 @@
+import { createSign } from 'node:crypto';
+import type { KeyObject } from 'node:crypto';
+
+import { loadSigningKey } from './keys.js';
+import type { PrivateKeyInput } from './keys.js';
+
+/**
+ * Produces the signatures of {@link SecureKeyAuth}, so the private key can
+ * live outside the process (a KMS, an HSM or a signing service).
+ */
+export interface Signer {
+  /**
+   * Signs `data` with ECDSA P-256 over SHA-256 and returns the DER-encoded
+   * signature. `data` is the payload itself, not its digest.
+   */
+  sign(data: Uint8Array): Promise<Uint8Array>;
+}
+
+/**
+ * Signs in process with a private key, as {@link SecureKeyAuth} does when
+ * given a key instead of a {@link Signer}.
+ */
+export class KeySigner implements Signer {
+  private readonly key: KeyObject;
+
+  /**
+   * @param privateKey - Any {@link PrivateKeyInput}.
+   * @param options.publicKey - When it encodes a key, the private key must match it.
+   * @throws {FoxnoseAuthError} When the key cannot be loaded, is not P-256
+   *   or does not match `publicKey`.
+   */
+  constructor(privateKey: PrivateKeyInput, options?: { publicKey?: string; passphrase?: string }) {
+    this.key = loadSigningKey(privateKey, options?.publicKey, options?.passphrase);
+  }
+
+  async sign(data: Uint8Array): Promise<Uint8Array> {
+    const signer = createSign('SHA256');
+    signer.update(data);
+    signer.end();
+    return signer.sign({ key: this.key, dsaEncoding: 'der' });
+  }
+}
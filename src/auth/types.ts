@@ -12,12 +12,30 @@ export interface RequestData {
  * Interface implemented by every authentication strategy.
  */
 export interface AuthStrategy {
-  buildHeaders(request: RequestData): Record<string, string>;
+  buildHeaders(request: RequestData): Record<string, string> | Promise<Record<string, string>>;
+  /**
+   * Called when a request is rejected with 401. `sentHeaders` are the headers
+   * of the rejected attempt. Returning `true` makes the transport rebuild the
+   * auth headers and retry the request once.
+   */
+  onUnauthorized?(sentHeaders: Record<string, string>): boolean | Promise<boolean>;
+  /**
+   * Called after every response carrying a `Date` header with the estimated
+   * offset of the server clock from the local clock, in milliseconds
+   * (positive when the server is ahead). Called before {@link onUnauthorized}.
+   */
+  onClockOffset?(offset: number): void;
 }
 
 /**
  * Provides access tokens for JWT auth.
  */
 export interface TokenProvider {
-  getToken(): string;
+  getToken(): string | Promise<string>;
+  /**
+   * Discards `token` if it is still the cached one, so the next
+   * {@link getToken} call fetches a fresh token. Providers without this
+   * method are never retried on 401.
+   */
+  invalidate?(token: string): void;
 }
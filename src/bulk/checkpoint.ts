@@ -0,0 +1,82 @@
+import { appendFile, open, readFile } from 'node:fs/promises';
+
+/**
+ * Persists which items of a bulk import are done, so that an interrupted
+ * import can resume. {@link FileCheckpoint} is the file-based default;
+ * implement this interface to keep checkpoints elsewhere.
+ */
+export interface ImportCheckpoint {
+  /** Returns the external IDs recorded so far. */
+  load(): Promise<Iterable<string>>;
+  /** Records external IDs that have been imported. */
+  record(externalIds: string[]): Promise<void>;
+}
+
+/**
+ * Checkpoint stored as a file with one JSON-encoded external ID per line.
+ * Records are appended, so the file survives crashes: a partially written
+ * last line is ignored on load and closed off before the next append. A
+ * missing file means nothing is done yet.
+ */
+export class FileCheckpoint implements ImportCheckpoint {
+  private terminated = false;
+
+  constructor(readonly path: string) {}
+
+  async load(): Promise<string[]> {
+    let text: string;
+    try {
+      text = await readFile(this.path, 'utf8');
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw err;
+    }
+    const ids: string[] = [];
+    for (const line of text.split('\n')) {
+      try {
+        const id = JSON.parse(line);
+        if (typeof id === 'string') {
+          ids.push(id);
+        }
+      } catch {
+        // Blank or truncated line.
+      }
+    }
+    return ids;
+  }
+
+  async record(externalIds: string[]): Promise<void> {
+    if (externalIds.length > 0) {
+      const lines = externalIds.map((id) => `${JSON.stringify(id)}\n`).join('');
+      const prefix = this.terminated || (await this.endsWithNewline()) ? '' : '\n';
+      await appendFile(this.path, prefix + lines);
+      this.terminated = true;
+    }
+  }
+
+  /** Whether the file is missing, empty or ends with a complete line. */
+  private async endsWithNewline(): Promise<boolean> {
+    let file;
+    try {
+      file = await open(this.path, 'r');
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+        return true;
+      }
+      throw err;
+    }
+    try {
+      const { size } = await file.stat();
+      if (size === 0) {
+        return true;
+      }
+      const last = Buffer.alloc(1);
+      await file.read(last, 0, 1, size - 1);
+      return last[0] === 0x0a;
+    } finally {
+      await file.close();
+    }
+  }
+}
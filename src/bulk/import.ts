@@ -0,0 +1,187 @@
+import { callOptions } from '../config.js';
+import type { ManagementClient } from '../management/client.js';
+import type { BatchUpsertOptions } from '../management/batch.js';
+import { runUpsertPool, upsertBatchItem } from '../management/batch.js';
+import type { BatchItemError, BatchUpsertItem, FolderRef } from '../management/models.js';
+import { resolveKey } from '../management/models.js';
+import type { ImportCheckpoint } from './checkpoint.js';
+import { FileCheckpoint } from './checkpoint.js';
+
+export interface ImportProgress {
+  /** Items read from the source so far, including skipped ones. */
+  read: number;
+  succeeded: number;
+  failed: number;
+  /** Items skipped because the checkpoint lists them as imported. */
+  skipped: number;
+  elapsedMs: number;
+  /** Successful upserts per second since the import started. */
+  itemsPerSecond: number;
+}
+
+export interface ImportResourcesOptions extends Omit<BatchUpsertOptions, 'onProgress'> {
+  /**
+   * Checkpoint file path, or a custom {@link ImportCheckpoint}. Imported
+   * external IDs are recorded there, and items already recorded are skipped,
+   * so rerunning an interrupted import resumes it. Failed items are not
+   * recorded and are retried on the next run.
+   */
+  checkpoint?: string | ImportCheckpoint;
+  /** Number of successes buffered before they are written to the checkpoint. Defaults to 100. */
+  checkpointInterval?: number;
+  /** Called at most every `progressInterval` milliseconds, and once at the end. */
+  onProgress?: (progress: ImportProgress) => void;
+  /** Minimum milliseconds between `onProgress` calls. Defaults to 1000. */
+  progressInterval?: number;
+  /**
+   * Called for each item that failed after its retries. `index` is the
+   * item's position in the source.
+   */
+  onFailure?: (failure: BatchItemError) => void;
+}
+
+/**
+ * Upserts resources from a stream of items into a collection, with bounded
+ * memory: items are pulled from `source` only as worker slots free up, using
+ * the same pool, retries and adaptive concurrency as
+ * {@link ManagementClient.batchUpsertResources}. Use {@link readJsonl} or
+ * {@link readCsv} to turn files into items.
+ *
+ * Failures are reported through `onFailure` and counted; the import goes on
+ * unless `failFast` is set. The checkpoint is flushed before returning or
+ * throwing, including on abort.
+ *
+ * @example
+ * ```ts
+ * const result = await importResources(
+ *   client,
+ *   'articles',
+ *   readJsonl(createReadStream('articles.jsonl')),
+ *   {
+ *     checkpoint: 'articles.checkpoint',
+ *     onProgress: (p) => console.log(`${p.succeeded} done, ${p.itemsPerSecond.toFixed(1)}/s`),
+ *     onFailure: (f) => console.error(f.external_id, f.error.message),
+ *   },
+ * );
+ * ```
+ */
+export async function importResources(
+  client: ManagementClient,
+  folderKey: FolderRef,
+  source: AsyncIterable<BatchUpsertItem> | Iterable<BatchUpsertItem>,
+  options: ImportResourcesOptions = {},
+): Promise<ImportProgress> {
+  const collection = resolveKey(folderKey);
+  const validator = client.contentValidator;
+  const checkpoint =
+    typeof options.checkpoint === 'string'
+      ? new FileCheckpoint(options.checkpoint)
+      : options.checkpoint;
+  const done = new Set(checkpoint ? await checkpoint.load() : []);
+  const checkpointInterval = options.checkpointInterval ?? 100;
+  const progressInterval = options.progressInterval ?? 1000;
+
+  const started = Date.now();
+  const counts = { read: 0, succeeded: 0, failed: 0, skipped: 0 };
+  const progress = (): ImportProgress => {
+    const elapsedMs = Date.now() - started;
+    return {
+      ...counts,
+      elapsedMs,
+      itemsPerSecond: elapsedMs > 0 ? (counts.succeeded * 1000) / elapsedMs : 0,
+    };
+  };
+  let lastReport = started;
+
+  // Source position of each item handed to the pool, until its outcome arrives.
+  const positions = new Map<number, number>();
+  let pulled = 0;
+  async function* pending(): AsyncGenerator<BatchUpsertItem> {
+    const iterator =
+      Symbol.asyncIterator in source ? source[Symbol.asyncIterator]() : source[Symbol.iterator]();
+    // Whether the source has handed out an item and not finished yet.
+    let open = false;
+    try {
+      for (;;) {
+        open = false;
+        const result = await iterator.next();
+        if (result.done) {
+          return;
+        }
+        open = true;
+        const item = result.value;
+        const position = counts.read++;
+        if (done.has(item.external_id)) {
+          counts.skipped++;
+          continue;
+        }
+        positions.set(pulled++, position);
+        yield item;
+      }
+    } finally {
+      // The pool returns this generator when it stops early; close the source with it.
+      if (open) {
+        await iterator.return?.();
+      }
+    }
+  }
+
+  // Checkpoint writes are chained so they land in order; the first write
+  // error is rethrown once the import stops.
+  let unsaved: string[] = [];
+  let flushing: Promise<void> = Promise.resolve();
+  let flushError: { error: unknown } | null = null;
+  const flush = () => {
+    if (checkpoint && unsaved.length > 0) {
+      const ids = unsaved;
+      unsaved = [];
+      flushing = flushing
+        .then(() => checkpoint.record(ids))
+        .catch((error) => {
+          flushError ??= { error };
+        });
+    }
+    return flushing;
+  };
+
+  try {
+    await runUpsertPool(
+      pending(),
+      // The pool retries items itself; transport retries would stack on top.
+      (item) => upsertBatchItem(client, collection, item, options),
+      {
+        ...options,
+        validate: validator
+          ? (item) => validator.check(collection, item.payload.data, callOptions(options))
+          : undefined,
+      },
+      (outcome) => {
+        const index = positions.get(outcome.index)!;
+        positions.delete(outcome.index);
+        if (outcome.status === 'succeeded') {
+          counts.succeeded++;
+          unsaved.push(outcome.external_id);
+          if (unsaved.length >= checkpointInterval) {
+            void flush();
+          }
+        } else {
+          counts.failed++;
+          options.onFailure?.({ index, external_id: outcome.external_id, error: outcome.error });
+        }
+        const now = Date.now();
+        if (options.onProgress && now - lastReport >= progressInterval) {
+          lastReport = now;
+          options.onProgress(progress());
+        }
+      },
+    );
+  } finally {
+    await flush();
+  }
+  if (flushError) {
+    throw (flushError as { error: unknown }).error;
+  }
+  const result = progress();
+  options.onProgress?.(result);
+  return result;
+}
@@ -0,0 +1,15 @@
+export { FileCheckpoint } from './checkpoint.js';
+export type { ImportCheckpoint } from './checkpoint.js';
+export { exportResources, exportResourcesToFile } from './export.js';
+export type {
+  ExportedResource,
+  ExportedRevision,
+  ExportResourcesOptions,
+  ExportResourcesToFileOptions,
+  ExportResult,
+} from './export.js';
+export { importResources } from './import.js';
+export type { ImportProgress, ImportResourcesOptions } from './import.js';
+export { restoreResources } from './restore.js';
+export { readCsv, readJsonl } from './sources.js';
+export type { ReadCsvOptions, ReadJsonlOptions, TextSource } from './sources.js';
@@ -0,0 +1,240 @@
+import { BulkDataError } from '../errors.js';
+import type { BatchUpsertItem } from '../management/models.js';
+
+/**
+ * Text or bytes to read from, in chunks: a Node.js readable stream (e.g.
+ * `createReadStream(path)`), a web `ReadableStream`, or any (async) iterable
+ * of strings or `Uint8Array`s. Bytes are decoded as UTF-8.
+ */
+export type TextSource = AsyncIterable<string | Uint8Array> | Iterable<string | Uint8Array>;
+
+export interface ReadJsonlOptions {
+  /**
+   * Converts a parsed line into an item, or returns `null` to skip the line.
+   * Defaults to expecting `{ "external_id": string, "payload": object }` on
+   * every line.
+   */
+  toItem?: (record: any, line: number) => BatchUpsertItem | null;
+}
+
+export interface ReadCsvOptions {
+  /** Field separator. Defaults to `,`. */
+  delimiter?: string;
+  /** Column holding the external ID, used by the default mapping. Defaults to `external_id`. */
+  externalIdColumn?: string;
+  /**
+   * Converts a row, keyed by header, into an item. Defaults to using
+   * `externalIdColumn` as the external ID and the remaining columns as
+   * `payload.data`. Values are strings; convert them here when needed.
+   */
+  toItem?: (row: Record<string, string>, line: number) => BatchUpsertItem;
+}
+
+/** Decodes a {@link TextSource} chunk by chunk. */
+async function* decode(source: TextSource): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  for await (const chunk of source) {
+    yield typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+  }
+  const rest = decoder.decode();
+  if (rest) {
+    yield rest;
+  }
+}
+
+/**
+ * Splits a {@link TextSource} into lines without the `\n` / `\r\n`
+ * terminator, holding at most one partial line in memory.
+ * @internal
+ */
+export async function* readLines(source: TextSource): AsyncGenerator<string> {
+  let buffer = '';
+  for await (const text of decode(source)) {
+    buffer += text;
+    let newline = buffer.indexOf('\n');
+    while (newline !== -1) {
+      yield buffer.slice(0, newline).replace(/\r$/, '');
+      buffer = buffer.slice(newline + 1);
+      newline = buffer.indexOf('\n');
+    }
+  }
+  if (buffer) {
+    yield buffer.replace(/\r$/, '');
+  }
+}
+
+function defaultJsonlItem(record: any, line: number): BatchUpsertItem {
+  if (
+    typeof record !== 'object' ||
+    record === null ||
+    typeof record.external_id !== 'string' ||
+    typeof record.payload !== 'object' ||
+    record.payload === null
+  ) {
+    throw new BulkDataError(
+      `line ${line}: expected an object with a string "external_id" and an object "payload"`,
+    );
+  }
+  return { external_id: record.external_id, payload: record.payload };
+}
+
+/**
+ * Reads JSON Lines into batch items, one item per non-blank line, without
+ * loading the whole input.
+ *
+ * @example
+ * ```ts
+ * const items = readJsonl(createReadStream('articles.jsonl'));
+ * await importResources(client, 'articles', items, { checkpoint: 'articles.checkpoint' });
+ * ```
+ *
+ * @throws {BulkDataError} On a line that is not valid JSON or not an item.
+ */
+export async function* readJsonl(
+  source: TextSource,
+  options: ReadJsonlOptions = {},
+): AsyncGenerator<BatchUpsertItem> {
+  const toItem = options.toItem ?? defaultJsonlItem;
+  let line = 0;
+  for await (const text of readLines(source)) {
+    line++;
+    if (!text.trim()) {
+      continue;
+    }
+    let record: unknown;
+    try {
+      record = JSON.parse(text);
+    } catch (err) {
+      throw new BulkDataError(`line ${line}: invalid JSON (${(err as Error).message})`);
+    }
+    const item = toItem(record, line);
+    if (item) {
+      yield item;
+    }
+  }
+}
+
+/**
+ * Parses RFC 4180 CSV into rows, supporting quoted fields with embedded
+ * delimiters, quotes (`""`) and line breaks. Yields each row with the line
+ * it starts on; blank lines are skipped.
+ */
+async function* readCsvRows(
+  source: TextSource,
+  delimiter: string,
+): AsyncGenerator<{ row: string[]; line: number }> {
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  let inQuotes = false;
+  let quoteSeen = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endField = () => {
+    row.push(field);
+    field = '';
+    quoted = false;
+  };
+
+  for await (const text of decode(source)) {
+    for (const char of text) {
+      if (inQuotes) {
+        if (quoteSeen) {
+          quoteSeen = false;
+          if (char === '"') {
+            field += '"';
+            continue;
+          }
+          inQuotes = false;
+        } else {
+          if (char === '"') {
+            quoteSeen = true;
+          } else {
+            if (char === '\n') {
+              line++;
+            }
+            field += char;
+          }
+          continue;
+        }
+      }
+      if (char === '"' && field === '' && !quoted) {
+        inQuotes = true;
+        quoted = true;
+      } else if (char === delimiter) {
+        endField();
+      } else if (char === '\n') {
+        endField();
+        if (row.length > 1 || row[0] !== '') {
+          yield { row, line: rowLine };
+        }
+        row = [];
+        line++;
+        rowLine = line;
+      } else if (char !== '\r') {
+        field += char;
+      }
+    }
+  }
+  if (inQuotes && !quoteSeen) {
+    throw new BulkDataError(`line ${rowLine}: unterminated quoted field`);
+  }
+  if (field !== '' || quoted || row.length > 0) {
+    endField();
+    yield { row, line: rowLine };
+  }
+}
+
+/**
+ * Reads CSV with a header row into batch items, without loading the whole
+ * input. By default each row becomes
+ * `{ external_id: row.external_id, payload: { data: { ...otherColumns } } }`.
+ *
+ * @example
+ * ```ts
+ * const items = readCsv(createReadStream('products.csv'), {
+ *   toItem: (row) => ({
+ *     external_id: row.sku,
+ *     payload: { data: { title: row.title, price: Number(row.price) } },
+ *   }),
+ * });
+ * ```
+ *
+ * @throws {BulkDataError} On malformed CSV, a row whose column count does not
+ *   match the header, or a missing external ID.
+ */
+export async function* readCsv(
+  source: TextSource,
+  options: ReadCsvOptions = {},
+): AsyncGenerator<BatchUpsertItem> {
+  const delimiter = options.delimiter ?? ',';
+  const idColumn = options.externalIdColumn ?? 'external_id';
+  let header: string[] | null = null;
+
+  for await (const { row, line } of readCsvRows(source, delimiter)) {
+    if (!header) {
+      header = row;
+      if (!options.toItem && !header.includes(idColumn)) {
+        throw new BulkDataError(`line ${line}: header has no "${idColumn}" column`);
+      }
+      continue;
+    }
+    if (row.length !== header.length) {
+      throw new BulkDataError(
+        `line ${line}: expected ${header.length} columns, found ${row.length}`,
+      );
+    }
+    const record: Record<string, string> = {};
+    header.forEach((name, i) => (record[name] = row[i]));
+    if (options.toItem) {
+      yield options.toItem(record, line);
+      continue;
+    }
+    const { [idColumn]: externalId, ...data } = record;
+    if (!externalId) {
+      throw new BulkDataError(`line ${line}: empty "${idColumn}"`);
+    }
+    yield { external_id: externalId, payload: { data } };
+  }
+}
@@ -0,0 +1,6 @@
+#!/usr/bin/env node
+import { runCodegenCli } from './codegen/cli.js';
+
+runCodegenCli(process.argv.slice(2)).then((code) => {
+  process.exitCode = code;
+});
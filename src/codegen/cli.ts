@@ -0,0 +1,104 @@
+import { writeFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import { AnonymousAuth } from '../auth/anonymous.js';
+import { SimpleKeyAuth } from '../auth/simple.js';
+import type { FetchFunction } from '../config.js';
+import { FluxClient } from '../flux/client.js';
+import { generateFluxTypes } from './flux.js';
+
+const USAGE = `Usage: foxnose-codegen --base-url <url> --api-prefix <prefix> [options]
+
+Generates TypeScript types and a typed client from a Flux API's _router and _schema.
+
+Options:
+  --base-url <url>       Flux base URL, e.g. https://<environment>.fxns.io
+  --api-prefix <prefix>  API prefix, e.g. v1
+  --public-key <key>     Flux API public key (or FOXNOSE_FLUX_PUBLIC_KEY)
+  --secret-key <key>     Flux API secret key (or FOXNOSE_FLUX_SECRET_KEY)
+  --out <file>           Write to a file instead of stdout
+  --import-path <path>   Module to import SDK types from (default: @foxnose/sdk)
+  --client-name <name>   Name of the generated class (default: TypedFluxClient)
+  -h, --help             Show this help
+`;
+
+/** I/O used by {@link runCodegenCli}; replaceable in tests. */
+export interface CodegenCliIO {
+  stdout?: (text: string) => void;
+  stderr?: (text: string) => void;
+  env?: Record<string, string | undefined>;
+  fetch?: FetchFunction;
+}
+
+/**
+ * Runs the `foxnose-codegen` command with `argv` (arguments only, without
+ * the node and script paths) and resolves to the process exit code.
+ */
+export async function runCodegenCli(argv: string[], io: CodegenCliIO = {}): Promise<number> {
+  const stdout = io.stdout ?? ((text: string) => process.stdout.write(text));
+  const stderr = io.stderr ?? ((text: string) => process.stderr.write(text));
+  const env = io.env ?? process.env;
+
+  let values: Record<string, string | boolean | undefined>;
+  try {
+    ({ values } = parseArgs({
+      args: argv,
+      options: {
+        'base-url': { type: 'string' },
+        'api-prefix': { type: 'string' },
+        'public-key': { type: 'string' },
+        'secret-key': { type: 'string' },
+        out: { type: 'string' },
+        'import-path': { type: 'string' },
+        'client-name': { type: 'string' },
+        help: { type: 'boolean', short: 'h' },
+      },
+      strict: true,
+    }));
+  } catch (err) {
+    stderr(`${(err as Error).message}\n\n${USAGE}`);
+    return 2;
+  }
+  if (values.help) {
+    stdout(USAGE);
+    return 0;
+  }
+
+  const baseUrl = values['base-url'] as string | undefined;
+  const apiPrefix = values['api-prefix'] as string | undefined;
+  if (!baseUrl || !apiPrefix) {
+    stderr(`--base-url and --api-prefix are required.\n\n${USAGE}`);
+    return 2;
+  }
+  const publicKey = (values['public-key'] as string | undefined) ?? env.FOXNOSE_FLUX_PUBLIC_KEY;
+  const secretKey = (values['secret-key'] as string | undefined) ?? env.FOXNOSE_FLUX_SECRET_KEY;
+  if (Boolean(publicKey) !== Boolean(secretKey)) {
+    stderr('Both a public and a secret key are needed to authenticate.\n');
+    return 2;
+  }
+
+  const client = new FluxClient({
+    baseUrl,
+    apiPrefix,
+    auth: publicKey && secretKey ? new SimpleKeyAuth(publicKey, secretKey) : new AnonymousAuth(),
+    fetch: io.fetch,
+  });
+  try {
+    const source = await generateFluxTypes(client, {
+      importPath: values['import-path'] as string | undefined,
+      clientName: values['client-name'] as string | undefined,
+    });
+    const out = values.out as string | undefined;
+    if (out) {
+      await writeFile(out, source, 'utf8');
+      stderr(`Wrote ${out}\n`);
+    } else {
+      stdout(source);
+    }
+    return 0;
+  } catch (err) {
+    stderr(`foxnose-codegen: ${(err as Error).message}\n`);
+    return 1;
+  } finally {
+    client.close();
+  }
+}
@@ -0,0 +1,222 @@
+import type { RequestOptions } from '../config.js';
+import { callOptions } from '../config.js';
+import { FoxnoseAPIError } from '../errors.js';
+import type { FluxClient } from '../flux/client.js';
+import type { FluxRouteInfo, FluxRouterInfo, FluxSchemaInfo } from '../flux/models.js';
+import { pascalCase, renderInterface } from './typescript.js';
+
+/** A `_router` route with its `_schema`, or `null` when it has none. */
+export interface FluxRouteSchema {
+  route: FluxRouteInfo;
+  schema: FluxSchemaInfo | null;
+}
+
+export interface FluxIntrospection {
+  api: string;
+  routes: FluxRouteSchema[];
+}
+
+export interface FluxCodegenOptions {
+  /** Module the generated file imports SDK types from. Defaults to `@foxnose/sdk`. */
+  importPath?: string;
+  /** Name of the generated wrapper class. Defaults to `TypedFluxClient`. */
+  clientName?: string;
+}
+
+const PARAM_SEGMENT = /^(?::(.+)|\{(.+)\})$/;
+const RESERVED_NAMES = new Set([
+  'FluxClient',
+  'FluxResource',
+  'FluxResourceList',
+  'FluxSearchResponse',
+  'FluxWriteResult',
+  'RequestOptions',
+]);
+const RESERVED_ARGS = new Set(['params', 'options', 'key', 'data', 'body']);
+
+/** Route path relative to the API prefix, e.g. `articles` for `/v1/articles`. */
+function relativePath(route: FluxRouteInfo, apiPrefix: string): string {
+  const path = route.path.replace(/^\/+|\/+$/g, '');
+  return path.startsWith(`${apiPrefix}/`) ? path.slice(apiPrefix.length + 1) : path;
+}
+
+/**
+ * Fetches `_router` and the `_schema` of every route that allows the
+ * `schema` action. Routes whose schema cannot be fetched (404) are kept
+ * with `schema: null` and get an untyped `data`.
+ */
+export async function introspectFlux(
+  client: FluxClient,
+  options?: RequestOptions,
+): Promise<FluxIntrospection> {
+  const router = await client.getRouter<FluxRouterInfo>(options);
+  const routes: FluxRouteSchema[] = [];
+  for (const route of router.routes ?? []) {
+    let schema: FluxSchemaInfo | null = null;
+    if (route.actions?.includes('schema')) {
+      try {
+        schema = await client.getSchema<FluxSchemaInfo>(
+          relativePath(route, client.apiPrefix),
+          options,
+        );
+      } catch (err) {
+        if (!(err instanceof FoxnoseAPIError && err.statusCode === 404)) {
+          throw err;
+        }
+      }
+    }
+    routes.push({ route, schema });
+  }
+  return { api: router.api ?? client.apiPrefix, routes };
+}
+
+function identifier(name: string): string {
+  const words = pascalCase(name);
+  const camel = words ? words[0].toLowerCase() + words.slice(1) : 'param';
+  return RESERVED_ARGS.has(camel) ? `${camel}Param` : camel;
+}
+
+interface RouteModel {
+  typeName: string;
+  /** Template literal source for the relative path. */
+  pathExpression: string;
+  pathArgs: string[];
+  entry: FluxRouteSchema;
+  path: string;
+}
+
+function describeRoutes(introspection: FluxIntrospection): RouteModel[] {
+  const used = new Set<string>();
+  return introspection.routes.map((entry) => {
+    const path = relativePath(entry.route, introspection.api);
+    const segments = path.split('/').filter(Boolean);
+    const pathArgs: string[] = [];
+    const parts = segments.map((segment) => {
+      const match = PARAM_SEGMENT.exec(segment);
+      if (!match) {
+        return segment.replace(/[`\\$]/g, '\\$&');
+      }
+      const arg = identifier(match[1] ?? match[2]);
+      pathArgs.push(arg);
+      return `\${${arg}}`;
+    });
+    const base =
+      pascalCase(segments.filter((segment) => !PARAM_SEGMENT.test(segment)).join(' ')) || 'Root';
+    let typeName = RESERVED_NAMES.has(base) ? `${base}Data` : base;
+    for (let i = 2; used.has(typeName); i++) {
+      typeName = `${base}${i}`;
+    }
+    used.add(typeName);
+    return { typeName, pathExpression: `\`${parts.join('/')}\``, pathArgs, entry, path };
+  });
+}
+
+function methodDoc(text: string | null | undefined, fallback: string): string {
+  const value = (text ?? '').trim() || fallback;
+  return `  /** ${value.replace(/\*\//g, '*\\/').replace(/\s*\n\s*/g, ' ')} */\n`;
+}
+
+function renderMethods(model: RouteModel, imports: Set<string>): string[] {
+  const { typeName, pathExpression, entry } = model;
+  const actions = new Set(entry.route.actions ?? []);
+  const args = model.pathArgs.map((arg) => `${arg}: string, `).join('');
+  const methods: string[] = [];
+  const add = (doc: string, signature: string, body: string) => {
+    methods.push(`${doc}  ${signature} {\n    return this.client.${body};\n  }\n`);
+  };
+
+  if (actions.has('get_many')) {
+    imports.add('FluxResourceList');
+    add(
+      methodDoc(entry.route.description_get_many, `List \`${model.path}\`.`),
+      `list${typeName}(${args}params?: Record<string, any>, options?: RequestOptions): Promise<FluxResourceList<${typeName}>>`,
+      `listResources(${pathExpression}, params, options)`,
+    );
+  }
+  if (actions.has('get_one')) {
+    imports.add('FluxResource');
+    add(
+      methodDoc(entry.route.description_get_one, `Get one \`${model.path}\` resource.`),
+      `get${typeName}(${args}key: string, params?: Record<string, any>, options?: RequestOptions): Promise<FluxResource<${typeName}>>`,
+      `getResource(${pathExpression}, key, params, options)`,
+    );
+  }
+  if (actions.has('search')) {
+    imports.add('FluxSearchResponse');
+    add(
+      methodDoc(entry.route.description_search, `Search \`${model.path}\`.`),
+      `search${typeName}(${args}body: Record<string, any>, options?: RequestOptions): Promise<FluxSearchResponse<${typeName}>>`,
+      `search(${pathExpression}, body, options)`,
+    );
+  }
+  if (actions.has('create')) {
+    imports.add('FluxWriteResult');
+    add(
+      methodDoc(undefined, `Create and publish a \`${model.path}\` resource.`),
+      `create${typeName}(${args}data: ${typeName}, options?: { key?: string } & RequestOptions): Promise<FluxWriteResult>`,
+      `createResource(${pathExpression}, data, options)`,
+    );
+  }
+  if (actions.has('update')) {
+    imports.add('FluxWriteResult');
+    add(
+      methodDoc(undefined, `Replace a \`${model.path}\` resource and publish it.`),
+      `update${typeName}(${args}key: string, data: ${typeName}, options?: RequestOptions): Promise<FluxWriteResult>`,
+      `updateResource(${pathExpression}, key, data, options)`,
+    );
+  }
+  return methods;
+}
+
+/**
+ * Renders TypeScript source for an introspected Flux API: one interface per
+ * route describing its `data`, and a wrapper class around `FluxClient` with
+ * typed methods for the actions each route allows (`list*`, `get*`,
+ * `search*`, `create*`, `update*`).
+ */
+export function renderFluxTypes(
+  introspection: FluxIntrospection,
+  options: FluxCodegenOptions = {},
+): string {
+  const importPath = options.importPath ?? '@foxnose/sdk';
+  const clientName = options.clientName ?? 'TypedFluxClient';
+  const models = describeRoutes(introspection);
+  const imports = new Set(['FluxClient', 'RequestOptions']);
+
+  const interfaces = models.map((model) =>
+    renderInterface(
+      model.typeName,
+      model.entry.schema?.json_schema ?? { type: 'object', additionalProperties: true },
+      `Data of \`${model.entry.route.path}\`${model.entry.route.name ? ` (${model.entry.route.name})` : ''}.`,
+    ),
+  );
+  const methods = models.flatMap((model) => renderMethods(model, imports));
+
+  const lines = [
+    '/* eslint-disable */',
+    `// Generated from the \`${introspection.api}\` Flux API by @foxnose/sdk. Do not edit.`,
+    '',
+    `import type {\n${[...imports]
+      .sort()
+      .map((name) => `  ${name},`)
+      .join('\n')}\n} from '${importPath}';`,
+    '',
+    ...interfaces,
+    `/** Typed wrapper around a \`FluxClient\` for the \`${introspection.api}\` API. */`,
+    `export class ${clientName} {`,
+    '  constructor(readonly client: FluxClient) {}',
+    ...methods.map((method) => `\n${method.trimEnd()}`),
+    '}',
+    '',
+  ];
+  return lines.join('\n');
+}
+
+/** Introspects `client` and renders the result with {@link renderFluxTypes}. */
+export async function generateFluxTypes(
+  client: FluxClient,
+  options: FluxCodegenOptions & RequestOptions = {},
+): Promise<string> {
+  const introspection = await introspectFlux(client, callOptions(options));
+  return renderFluxTypes(introspection, options);
+}
@@ -0,0 +1,5 @@
+export { generateFluxTypes, introspectFlux, renderFluxTypes } from './flux.js';
+export type { FluxCodegenOptions, FluxIntrospection, FluxRouteSchema } from './flux.js';
+export { runCodegenCli } from './cli.js';
+export type { CodegenCliIO } from './cli.js';
+export { schemaToType } from './typescript.js';
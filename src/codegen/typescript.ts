@@ -0,0 +1,141 @@
+/**
+ * Conversion of JSON Schema (the subset Flux `_schema` returns) into
+ * TypeScript type expressions.
+ */
+
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+/** Quotes `name` unless it is a valid property identifier. */
+export function propertyName(name: string): string {
+  return IDENTIFIER.test(name) ? name : JSON.stringify(name);
+}
+
+/**
+ * Converts words in `value` (split on non-alphanumerics) to PascalCase and
+ * prefixes a leading digit with `_`.
+ */
+export function pascalCase(value: string): string {
+  const result = value
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join('');
+  return /^[0-9]/.test(result) ? `_${result}` : result;
+}
+
+function docComment(text: unknown, indent: string): string {
+  if (typeof text !== 'string' || !text.trim()) {
+    return '';
+  }
+  const lines = text.trim().replace(/\*\//g, '*\\/').split('\n');
+  if (lines.length === 1) {
+    return `${indent}/** ${lines[0]} */\n`;
+  }
+  return `${indent}/**\n${lines.map((line) => `${indent} * ${line}`.trimEnd()).join('\n')}\n${indent} */\n`;
+}
+
+function union(types: string[]): string {
+  const unique = [...new Set(types)];
+  if (unique.includes('unknown')) {
+    return 'unknown';
+  }
+  return unique.length === 0 ? 'never' : unique.join(' | ');
+}
+
+function wrapArray(item: string): string {
+  return /^[A-Za-z0-9_$<>[\]]+$/.test(item) ? `${item}[]` : `Array<${item}>`;
+}
+
+function objectType(schema: Record<string, any>, indent: string): string {
+  const properties: Record<string, any> = schema.properties ?? {};
+  const required = new Set<string>(Array.isArray(schema.required) ? schema.required : []);
+  const inner = `${indent}  `;
+  const members = Object.entries(properties).map(([name, child]) => {
+    const optional = required.has(name) ? '' : '?';
+    const type = schemaToType(child, inner);
+    return `${docComment(child?.description, inner)}${inner}${propertyName(name)}${optional}: ${type};`;
+  });
+
+  const extra = schema.additionalProperties;
+  if (extra && typeof extra === 'object') {
+    if (members.length === 0) {
+      return `Record<string, ${schemaToType(extra, inner)}>`;
+    }
+    // Declared properties must stay assignable to the index signature.
+    members.push(`${inner}[key: string]: unknown;`);
+  } else if (members.length === 0) {
+    return extra === false ? 'Record<string, never>' : 'Record<string, unknown>';
+  }
+  return `{\n${members.join('\n')}\n${indent}}`;
+}
+
+function singleType(type: string, schema: Record<string, any>, indent: string): string {
+  switch (type) {
+    case 'string':
+      return 'string';
+    case 'integer':
+    case 'number':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'null':
+      return 'null';
+    case 'array':
+      return schema.items && typeof schema.items === 'object' && !Array.isArray(schema.items)
+        ? wrapArray(schemaToType(schema.items, indent))
+        : 'unknown[]';
+    case 'object':
+      return objectType(schema, indent);
+    default:
+      return 'unknown';
+  }
+}
+
+/**
+ * Returns the TypeScript type for a JSON Schema. Supports `type` (single or
+ * list), `enum`, `const`, `anyOf`/`oneOf`, `properties`/`required`,
+ * `additionalProperties` and `items`; anything else, including `$ref`,
+ * becomes `unknown`. Nested object types are indented relative to `indent`.
+ */
+export function schemaToType(schema: unknown, indent = ''): string {
+  if (schema === true || schema === undefined) {
+    return 'unknown';
+  }
+  if (schema === false) {
+    return 'never';
+  }
+  if (typeof schema !== 'object' || schema === null) {
+    return 'unknown';
+  }
+  const s = schema as Record<string, any>;
+  if ('const' in s) {
+    return JSON.stringify(s.const);
+  }
+  if (Array.isArray(s.enum)) {
+    return union(s.enum.map((value: unknown) => JSON.stringify(value)));
+  }
+  const variants = s.anyOf ?? s.oneOf;
+  if (Array.isArray(variants)) {
+    return union(variants.map((variant: unknown) => schemaToType(variant, indent)));
+  }
+  if (Array.isArray(s.type)) {
+    return union(s.type.map((type: string) => singleType(type, s, indent)));
+  }
+  if (typeof s.type === 'string') {
+    return singleType(s.type, s, indent);
+  }
+  if (s.properties) {
+    return objectType(s, indent);
+  }
+  return 'unknown';
+}
+
+/** Renders `export interface name { ... }` (or a type alias for non-objects). */
+export function renderInterface(name: string, schema: unknown, description?: string): string {
+  const type = schemaToType(schema);
+  const doc = docComment(description, '');
+  if (type.startsWith('{\n')) {
+    return `${doc}export interface ${name} ${type}\n`;
+  }
+  return `${doc}export type ${name} = ${type};\n`;
+}
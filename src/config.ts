@@ -1,3 +1,13 @@
+import type { LoggingOptions } from './logging.js';
+import type { Middleware } from './middleware.js';
+import type { Instrumentation } from './tracing.js';
+
+/**
+ * Signature of the `fetch` implementation used by the transport. Defaults to
+ * the global `fetch`.
+ */
+export type FetchFunction = (url: string, init: RequestInit) => Promise<Response>;
+
 /**
  * Controls HTTP retry behavior for idempotent requests.
  */
@@ -12,6 +22,25 @@ export interface RetryConfig {
   methods: readonly string[];
 }
 
+/**
+ * Per-call options accepted by every client method.
+ */
+export interface RequestOptions {
+  /** Cancels the call, including any pending retry delay. */
+  signal?: AbortSignal;
+  /** Per-attempt timeout in milliseconds, overriding the client's `timeout`. */
+  timeout?: number;
+}
+
+/**
+ * Picks the transport-level fields out of a per-call options bag so that
+ * method-specific options are not forwarded to the transport.
+ * @internal
+ */
+export function callOptions(options?: RequestOptions): RequestOptions {
+  return options ? { signal: options.signal, timeout: options.timeout } : {};
+}
+
 export const DEFAULT_RETRY_CONFIG: Readonly<RetryConfig> = {
   attempts: 3,
   backoffFactor: 0.5,
@@ -35,6 +64,16 @@ export interface FoxnoseConfig {
   defaultHeaders?: Record<string, string>;
   /** User agent string reported to the API. */
   userAgent: string;
+  /** Custom `fetch` implementation (e.g. a proxied or instrumented one). */
+  fetch?: FetchFunction;
+  /** Hooks run around every request attempt, in order. */
+  middleware?: Middleware[];
+  /** Undici dispatcher (agent, proxy agent) forwarded to `fetch` as `dispatcher`. */
+  dispatcher?: unknown;
+  /** Creates spans for every call and attempt. */
+  instrumentation?: Instrumentation;
+  /** Logs requests, retries and errors with secrets redacted. */
+  logging?: LoggingOptions;
 }
 
 /**
@@ -45,6 +84,11 @@ export function createConfig(options: {
   timeout?: number;
   defaultHeaders?: Record<string, string>;
   userAgent?: string;
+  fetch?: FetchFunction;
+  middleware?: Middleware[];
+  dispatcher?: unknown;
+  instrumentation?: Instrumentation;
+  logging?: LoggingOptions;
 }): FoxnoseConfig {
   if (!options.baseUrl) {
     throw new Error('baseUrl must be provided');
@@ -54,5 +98,10 @@ export function createConfig(options: {
     timeout: options.timeout ?? 30_000,
     defaultHeaders: options.defaultHeaders,
     userAgent: options.userAgent ?? DEFAULT_USER_AGENT,
+    fetch: options.fetch,
+    middleware: options.middleware,
+    dispatcher: options.dispatcher,
+    instrumentation: options.instrumentation,
+    logging: options.logging,
   };
 }
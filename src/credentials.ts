@@ -0,0 +1,296 @@
+import { readFile } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import { JWTAuth } from './auth/jwt.js';
+import { SecureKeyAuth } from './auth/secure.js';
+import { SimpleKeyAuth } from './auth/simple.js';
+import type { AuthStrategy } from './auth/types.js';
+import { FoxnoseAuthError } from './errors.js';
+import { FluxClient } from './flux/client.js';
+import type { FluxClientOptions } from './flux/client.js';
+import { ManagementClient } from './management/client.js';
+import type { ManagementClientOptions } from './management/client.js';
+
+export type CredentialAuthType = 'simple' | 'secure' | 'jwt';
+
+/** Settings resolved by {@link resolveCredentials}. */
+export interface FoxnoseCredentials {
+  /** Profile the file settings came from, when the file was used. */
+  profile?: string;
+  /** Where the auth settings came from, e.g. `environment` or `profile "default" of <path>`. */
+  source: string;
+  /** Management API URL. */
+  baseUrl?: string;
+  /** Flux API URL. Defaults to `https://{environmentKey}.fxns.io`. */
+  fluxBaseUrl?: string;
+  environmentKey?: string;
+  /** Flux API prefix, e.g. `v1`. */
+  apiPrefix?: string;
+  authType: CredentialAuthType;
+  publicKey?: string;
+  secretKey?: string;
+  /** Private key for `secure` auth: PEM, base64 DER, JWK JSON or a key file path. */
+  privateKey?: string;
+  /** Access token for `jwt` auth. */
+  token?: string;
+}
+
+export interface ResolveCredentialsOptions {
+  /** Profile to read. Defaults to `FOXNOSE_PROFILE`, then `default`. */
+  profile?: string;
+  /** Profiles file. Defaults to `FOXNOSE_CONFIG_FILE`, then `~/.foxnose/config`. */
+  configFile?: string;
+  /** Variables to read instead of `process.env`. */
+  env?: Record<string, string | undefined>;
+}
+
+type Settings = Partial<Omit<FoxnoseCredentials, 'profile' | 'source' | 'authType'>> & {
+  authType?: string;
+};
+
+const AUTH_KEYS = ['authType', 'publicKey', 'secretKey', 'privateKey', 'token'] as const;
+
+/** `FOXNOSE_*` variable, profile key and credential field of each setting. */
+const SETTINGS: [string, string, keyof Settings][] = [
+  ['FOXNOSE_BASE_URL', 'base_url', 'baseUrl'],
+  ['FOXNOSE_FLUX_URL', 'flux_base_url', 'fluxBaseUrl'],
+  ['FOXNOSE_ENVIRONMENT_KEY', 'environment_key', 'environmentKey'],
+  ['FOXNOSE_API_PREFIX', 'api_prefix', 'apiPrefix'],
+  ['FOXNOSE_AUTH_TYPE', 'auth_type', 'authType'],
+  ['FOXNOSE_PUBLIC_KEY', 'public_key', 'publicKey'],
+  ['FOXNOSE_SECRET_KEY', 'secret_key', 'secretKey'],
+  ['FOXNOSE_PRIVATE_KEY', 'private_key', 'privateKey'],
+  ['FOXNOSE_TOKEN', 'token', 'token'],
+];
+
+/**
+ * Parses an INI-style profiles file: `[name]` (or `[profile name]`)
+ * sections of `key = value` lines, with `#` and `;` comments.
+ * @internal
+ */
+export function parseProfiles(text: string, path: string): Map<string, Record<string, string>> {
+  const profiles = new Map<string, Record<string, string>>();
+  let current: Record<string, string> | null = null;
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = raw.trim();
+    if (!line || line.startsWith('#') || line.startsWith(';')) {
+      return;
+    }
+    const section = /^\[\s*(?:profile\s+)?([^\]]+?)\s*\]$/.exec(line);
+    if (section) {
+      current = profiles.get(section[1]) ?? {};
+      profiles.set(section[1], current);
+      return;
+    }
+    const eq = line.indexOf('=');
+    if (eq === -1 || !current) {
+      throw new FoxnoseAuthError(`Invalid line ${index + 1} in ${path}: ${line}`);
+    }
+    current[line.slice(0, eq).trim().toLowerCase()] = line.slice(eq + 1).trim();
+  });
+  return profiles;
+}
+
+function pick(values: Record<string, string | undefined>, byEnv: boolean): Settings {
+  const settings: Settings = {};
+  for (const [envName, key, field] of SETTINGS) {
+    const value = values[byEnv ? envName : key];
+    if (value) {
+      settings[field] = value;
+    }
+  }
+  return settings;
+}
+
+function hasAuth(settings: Settings): boolean {
+  return AUTH_KEYS.some((key) => settings[key] !== undefined);
+}
+
+async function readProfile(
+  path: string,
+  profile: string,
+  required: boolean,
+): Promise<Settings | null> {
+  let text: string;
+  try {
+    text = await readFile(path, 'utf8');
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT' && !required) {
+      return null;
+    }
+    throw new FoxnoseAuthError(
+      `Cannot read FoxNose config file ${path}: ${(err as Error).message}`,
+    );
+  }
+  const values = parseProfiles(text, path).get(profile);
+  if (!values) {
+    if (!required) {
+      return null;
+    }
+    throw new FoxnoseAuthError(`Profile "${profile}" not found in ${path}`);
+  }
+  return pick(values, false);
+}
+
+function authTypeOf(settings: Settings, source: string): CredentialAuthType {
+  const type =
+    settings.authType?.toLowerCase() ??
+    (settings.token ? 'jwt' : settings.privateKey ? 'secure' : 'simple');
+  if (type !== 'simple' && type !== 'secure' && type !== 'jwt') {
+    throw new FoxnoseAuthError(
+      `Unknown auth type "${settings.authType}" in ${source}; use simple, secure or jwt`,
+    );
+  }
+  const needed: Record<CredentialAuthType, (keyof Settings)[]> = {
+    simple: ['publicKey', 'secretKey'],
+    secure: ['publicKey', 'privateKey'],
+    jwt: ['token'],
+  };
+  const missing = needed[type].filter((key) => !settings[key]);
+  if (missing.length > 0) {
+    const names = SETTINGS.filter(([, , field]) => missing.includes(field)).map(([envName, key]) =>
+      source === 'environment' ? envName : key,
+    );
+    throw new FoxnoseAuthError(`${type} auth from ${source} is missing ${names.join(', ')}`);
+  }
+  return type;
+}
+
+/**
+ * Resolves FoxNose settings from `FOXNOSE_*` environment variables and a
+ * profiles file, so scripts need not hard-code an auth strategy.
+ *
+ * Each setting is taken from its variable (`FOXNOSE_BASE_URL`,
+ * `FOXNOSE_FLUX_URL`, `FOXNOSE_ENVIRONMENT_KEY`, `FOXNOSE_API_PREFIX`) when
+ * set, else from the profile (`base_url`, `flux_base_url`,
+ * `environment_key`, `api_prefix`). Auth settings (`auth_type`,
+ * `public_key`, `secret_key`, `private_key`, `token`) are taken together
+ * from the variables when any is set, else from the profile, so the two
+ * sources are never mixed. A `profile` passed in `options` takes precedence
+ * over the variables instead. Without `auth_type`, a token means `jwt`, a
+ * private key `secure` and otherwise `simple`.
+ *
+ * @example
+ * ```ini
+ * # ~/.foxnose/config
+ * [default]
+ * environment_key = env-1
+ * api_prefix = v1
+ * auth_type = secure
+ * public_key = pk-...
+ * private_key = MHcCAQEE...
+ * ```
+ *
+ * @throws {FoxnoseAuthError} When no credentials are configured, the
+ *   requested profile does not exist, or the settings are incomplete.
+ */
+export async function resolveCredentials(
+  options: ResolveCredentialsOptions = {},
+): Promise<FoxnoseCredentials> {
+  const env = options.env ?? process.env;
+  const profile = options.profile ?? env.FOXNOSE_PROFILE;
+  const path =
+    options.configFile ?? env.FOXNOSE_CONFIG_FILE ?? join(homedir(), '.foxnose', 'config');
+
+  const fromEnv = pick(env, true);
+  const fromFile = await readProfile(path, profile ?? 'default', profile !== undefined);
+  // Highest precedence first; a profile named in code beats the variables.
+  const sources: [Settings | null, string][] = [
+    [fromEnv, 'environment'],
+    [fromFile, `profile "${profile ?? 'default'}" of ${path}`],
+  ];
+  if (options.profile !== undefined) {
+    sources.reverse();
+  }
+  const [auth, source] = sources.find(([settings]) => settings && hasAuth(settings)) ?? [null, ''];
+  if (!auth) {
+    throw new FoxnoseAuthError(
+      `No FoxNose credentials found: set FOXNOSE_PUBLIC_KEY and FOXNOSE_SECRET_KEY ` +
+        `(or FOXNOSE_PRIVATE_KEY, FOXNOSE_TOKEN), or add a [${profile ?? 'default'}] ` +
+        `profile to ${path}`,
+    );
+  }
+
+  const settings: Settings = Object.assign({}, sources[1][0], sources[0][0]);
+  for (const key of AUTH_KEYS) {
+    settings[key] = auth[key];
+  }
+  return {
+    ...(fromFile ? { profile: profile ?? 'default' } : {}),
+    ...settings,
+    source,
+    authType: authTypeOf(settings, source),
+  };
+}
+
+/** Builds the auth strategy described by `credentials`. */
+export function credentialsAuth(credentials: FoxnoseCredentials): AuthStrategy {
+  switch (credentials.authType) {
+    case 'simple':
+      return new SimpleKeyAuth(credentials.publicKey!, credentials.secretKey!);
+    case 'secure':
+      return new SecureKeyAuth(credentials.publicKey!, credentials.privateKey!);
+    case 'jwt':
+      return JWTAuth.fromStaticToken(credentials.token!);
+  }
+}
+
+/**
+ * Creates a {@link ManagementClient} from {@link resolveCredentials}.
+ * `options` override the resolved settings.
+ *
+ * @throws {FoxnoseAuthError} When credentials or the environment key are missing.
+ */
+export async function createManagementClient(
+  options: Partial<ManagementClientOptions> & ResolveCredentialsOptions = {},
+): Promise<ManagementClient> {
+  const { profile, configFile, env, ...clientOptions } = options;
+  const credentials = await resolveCredentials({ profile, configFile, env });
+  const environmentKey = clientOptions.environmentKey ?? credentials.environmentKey;
+  if (!environmentKey) {
+    throw new FoxnoseAuthError(
+      'No environment key configured: set FOXNOSE_ENVIRONMENT_KEY or environment_key',
+    );
+  }
+  return new ManagementClient({
+    baseUrl: credentials.baseUrl,
+    auth: credentialsAuth(credentials),
+    ...clientOptions,
+    environmentKey,
+  });
+}
+
+/**
+ * Creates a {@link FluxClient} from {@link resolveCredentials}. `options`
+ * override the resolved settings.
+ *
+ * @throws {FoxnoseAuthError} When credentials, the Flux URL (or an
+ *   environment key to derive it from) or the API prefix are missing.
+ */
+export async function createFluxClient(
+  options: Partial<FluxClientOptions> & ResolveCredentialsOptions = {},
+): Promise<FluxClient> {
+  const { profile, configFile, env, ...clientOptions } = options;
+  const credentials = await resolveCredentials({ profile, configFile, env });
+  const baseUrl =
+    clientOptions.baseUrl ??
+    credentials.fluxBaseUrl ??
+    (credentials.environmentKey ? `https://${credentials.environmentKey}.fxns.io` : undefined);
+  const apiPrefix = clientOptions.apiPrefix ?? credentials.apiPrefix;
+  if (!baseUrl) {
+    throw new FoxnoseAuthError(
+      'No Flux URL configured: set FOXNOSE_FLUX_URL or flux_base_url, or an environment key',
+    );
+  }
+  if (!apiPrefix) {
+    throw new FoxnoseAuthError(
+      'No Flux API prefix configured: set FOXNOSE_API_PREFIX or api_prefix',
+    );
+  }
+  return new FluxClient({
+    auth: credentialsAuth(credentials),
+    ...clientOptions,
+    baseUrl,
+    apiPrefix,
+  });
+}
@@ -0,0 +1,161 @@
+import { EnvironmentBundleError } from '../errors.js';
+import type { FieldSummary, RolePermission, RolePermissionObject } from '../management/models.js';
+
+/** Format version written by {@link exportEnvironment}. */
+export const ENVIRONMENT_BUNDLE_VERSION = 1;
+
+/** A field as stored in a bundle: the API summary without the derived `json_schema`. */
+export type BundleField = Pick<
+  FieldSummary,
+  | 'key'
+  | 'name'
+  | 'description'
+  | 'path'
+  | 'parent'
+  | 'type'
+  | 'meta'
+  | 'required'
+  | 'nullable'
+  | 'multiple'
+  | 'localizable'
+  | 'searchable'
+  | 'private'
+  | 'vectorizable'
+> &
+  Record<string, any>;
+
+export interface BundleSchemaVersion {
+  /** Key in the source environment; used to remap component pins. */
+  key: string;
+  name: string;
+  description: string | null;
+  /** Whether the version was published (including since-archived versions). */
+  published: boolean;
+  /** Fields ordered parents first. */
+  fields: BundleField[];
+}
+
+export interface BundleLocale {
+  code: string;
+  name: string;
+  is_default: boolean;
+}
+
+export interface BundleComponent {
+  key: string;
+  name: string;
+  description: string | null;
+  content_type: string;
+  /** Oldest first; published versions in publish order, drafts last. */
+  versions: BundleSchemaVersion[];
+}
+
+export interface BundleCollection {
+  key: string;
+  name: string;
+  alias: string;
+  /** Source key of the parent collection. */
+  parent: string | null;
+  content_type: string;
+  strict_reference: boolean;
+  mode?: string | null;
+  auto_remove_revisions?: number | null;
+  auto_remove_schema_versions?: number | null;
+  embedding_model?: string | null;
+  embedding_dimension?: number | null;
+  versions: BundleSchemaVersion[];
+}
+
+export interface BundleApiCollection {
+  /** Source key of the connected collection. */
+  collection: string;
+  allowed_methods: string[] | null;
+  description_get_one: string | null;
+  description_get_many: string | null;
+  description_search: string | null;
+  description_schema: string | null;
+}
+
+export interface BundleApi {
+  key: string;
+  name: string;
+  prefix: string;
+  description: string | null;
+  version: string | null;
+  is_auth_required: boolean;
+  collections: BundleApiCollection[];
+}
+
+export interface BundleRole {
+  key: string;
+  name: string;
+  description: string | null;
+  /** Management roles only. */
+  full_access?: boolean;
+  permissions: RolePermission[];
+  objects: RolePermissionObject[];
+}
+
+/**
+ * Snapshot of an environment's configuration. Keys are those of the source
+ * environment; {@link importEnvironment} maps them to newly created ones.
+ * Content (resources) and API keys are not included.
+ */
+export interface EnvironmentBundle {
+  format: 'foxnose.environment';
+  version: typeof ENVIRONMENT_BUNDLE_VERSION;
+  exported_at: string;
+  source: { environment: string };
+  locales: BundleLocale[];
+  components: BundleComponent[];
+  /** Parents before children. */
+  collections: BundleCollection[];
+  apis: BundleApi[];
+  management_roles: BundleRole[];
+  flux_roles: BundleRole[];
+}
+
+const ARRAYS = [
+  'locales',
+  'components',
+  'collections',
+  'apis',
+  'management_roles',
+  'flux_roles',
+] as const;
+
+/**
+ * Validates a bundle given as a JSON string or parsed value and returns it
+ * typed. Only the envelope and top-level sections are checked.
+ *
+ * @throws {EnvironmentBundleError} When the input is not a supported bundle.
+ */
+export function parseEnvironmentBundle(input: unknown): EnvironmentBundle {
+  let value = input;
+  if (typeof input === 'string') {
+    try {
+      value = JSON.parse(input);
+    } catch (err) {
+      throw new EnvironmentBundleError(`Bundle is not valid JSON: ${String(err)}`);
+    }
+  }
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new EnvironmentBundleError('Bundle must be an object');
+  }
+  const bundle = value as Record<string, any>;
+  if (bundle.format !== 'foxnose.environment') {
+    throw new EnvironmentBundleError('Not an environment bundle (missing format marker)');
+  }
+  if (bundle.version !== ENVIRONMENT_BUNDLE_VERSION) {
+    throw new EnvironmentBundleError(
+      `Unsupported bundle version ${JSON.stringify(bundle.version)}; ` +
+        `this SDK reads version ${ENVIRONMENT_BUNDLE_VERSION}`,
+    );
+  }
+  for (const name of ARRAYS) {
+    if (!Array.isArray(bundle[name])) {
+      throw new EnvironmentBundleError(`Bundle section "${name}" must be an array`);
+    }
+  }
+  return bundle as EnvironmentBundle;
+}
@@ -0,0 +1,544 @@
+import { callOptions } from '../config.js';
+import type { RequestOptions } from '../config.js';
+import { ManagementClient } from '../management/client.js';
+import type { ManagementClientOptions } from '../management/client.js';
+import type { FieldSummary, SchemaVersionSummary } from '../management/models.js';
+import type { FieldAttribute, ModelKind } from '../schema/plan.js';
+import {
+  collectionPaths,
+  deepEqual,
+  diffFieldAttributes,
+  latestPublished,
+  modelOperations,
+} from '../schema/plan.js';
+
+/**
+ * Where an item differs: present only in the source environment, only in the
+ * target environment, or in both with different attributes.
+ */
+export type DiffStatus = 'source-only' | 'target-only' | 'changed';
+
+/** An attribute whose value differs between the two environments. */
+export interface ValueDiff {
+  attribute: string;
+  source: unknown;
+  target: unknown;
+}
+
+export interface FieldDiff {
+  path: string;
+  status: DiffStatus;
+  /** Field type in the source, or in the target for target-only fields. */
+  type: string;
+  diffs: ValueDiff[];
+}
+
+export interface ModelDiff {
+  kind: ModelKind;
+  /** Collection path or component name. */
+  id: string;
+  status: DiffStatus;
+  /** Name of the published version in each environment, `null` if none. */
+  sourceVersion: string | null;
+  targetVersion: string | null;
+  attributes: ValueDiff[];
+  /** Differences between the published versions' fields. */
+  fields: FieldDiff[];
+}
+
+export interface LocaleDiff {
+  code: string;
+  status: DiffStatus;
+  diffs: ValueDiff[];
+}
+
+export interface RouteDiff {
+  /** Route path, `/{prefix}/{collection path}`. */
+  path: string;
+  status: DiffStatus;
+  diffs: ValueDiff[];
+}
+
+export interface ApiDiff {
+  prefix: string;
+  status: DiffStatus;
+  attributes: ValueDiff[];
+  routes: RouteDiff[];
+}
+
+export interface EnvironmentDiff {
+  source: string;
+  target: string;
+  /** Components first, then collections, each sorted by id. */
+  models: ModelDiff[];
+  locales: LocaleDiff[];
+  apis: ApiDiff[];
+  hasDifferences: boolean;
+}
+
+export type EnvironmentDiffOptions = RequestOptions;
+
+export interface FormatEnvironmentDiffOptions {
+  /** Plain text (default) or Markdown suitable for a pull request comment. */
+  format?: 'text' | 'markdown';
+}
+
+/** Field attributes compared between environments. */
+const FIELD_ATTRIBUTES: readonly FieldAttribute[] = [
+  'type',
+  'required',
+  'nullable',
+  'localizable',
+  'vectorizable',
+  'meta',
+];
+
+const ROUTE_ATTRIBUTES = [
+  'allowed_methods',
+  'description_get_one',
+  'description_get_many',
+  'description_search',
+  'description_schema',
+] as const;
+
+interface ModelSnapshot {
+  attributes: Record<string, unknown>;
+  version: SchemaVersionSummary | null;
+  fields: FieldSummary[];
+}
+
+interface EnvironmentSnapshot {
+  environment: string;
+  components: Map<string, ModelSnapshot>;
+  collections: Map<string, ModelSnapshot>;
+  locales: Map<string, Record<string, unknown>>;
+  apis: Map<string, { attributes: Record<string, unknown>; routes: Map<string, any> }>;
+}
+
+function compareValues(
+  source: Record<string, unknown>,
+  target: Record<string, unknown>,
+  attributes: readonly string[],
+): ValueDiff[] {
+  return attributes
+    .filter((attribute) => !deepEqual(source[attribute] ?? null, target[attribute] ?? null))
+    .map((attribute) => ({
+      attribute,
+      source: source[attribute] ?? null,
+      target: target[attribute] ?? null,
+    }));
+}
+
+/**
+ * Replaces component and component-version keys in nested-field meta with
+ * their names, since keys differ between environments.
+ */
+function normalizeMeta(
+  meta: Record<string, any> | null | undefined,
+  components: Map<string, { name: string; versions: Map<string, string> }>,
+): Record<string, any> {
+  const result = { ...(meta ?? {}) };
+  const component = components.get(result.component);
+  if (component) {
+    result.component = component.name;
+    if (typeof result.component_version === 'string') {
+      result.component_version =
+        component.versions.get(result.component_version) ?? result.component_version;
+    }
+  }
+  return result;
+}
+
+async function snapshot(
+  client: ManagementClient,
+  request: RequestOptions,
+): Promise<EnvironmentSnapshot> {
+  const componentNames = new Map<string, { name: string; versions: Map<string, string> }>();
+  const loadModel = async (
+    kind: ModelKind,
+    key: string,
+    attributes: Record<string, unknown>,
+    versions?: SchemaVersionSummary[],
+  ): Promise<ModelSnapshot> => {
+    const ops = modelOperations(client, kind);
+    const version = latestPublished(
+      versions ?? (await ops.iterateVersions(key, request).toArray()),
+    );
+    const fields = version ? await ops.iterateFields(key, version.key, request).toArray() : [];
+    return { attributes, version, fields };
+  };
+
+  const components = new Map<string, ModelSnapshot>();
+  for (const component of await client.iterateComponents(undefined, request).toArray()) {
+    const versions = await client
+      .iterateComponentVersions(component.key, undefined, request)
+      .toArray();
+    componentNames.set(component.key, {
+      name: component.name,
+      versions: new Map(versions.map((v) => [v.key, v.name])),
+    });
+    const attributes = {
+      description: component.description ?? null,
+      content_type: component.content_type,
+    };
+    components.set(
+      component.name,
+      await loadModel('component', component.key, attributes, versions),
+    );
+  }
+
+  const collections = new Map<string, ModelSnapshot>();
+  const liveCollections = await client.iterateCollections(undefined, request).toArray();
+  const paths = collectionPaths(liveCollections);
+  for (const collection of liveCollections) {
+    const attributes = {
+      name: collection.name,
+      content_type: collection.content_type,
+      strict_reference: collection.strict_reference,
+      mode: collection.mode ?? null,
+    };
+    collections.set(
+      paths.get(collection.key)!,
+      await loadModel('collection', collection.key, attributes),
+    );
+  }
+
+  for (const model of [...components.values(), ...collections.values()]) {
+    model.fields = model.fields.map((field) => ({
+      ...field,
+      meta: normalizeMeta(field.meta, componentNames),
+    }));
+  }
+
+  const locales = new Map(
+    (await client.listLocales(request)).map((locale) => [
+      locale.code,
+      { name: locale.name, is_default: locale.is_default },
+    ]),
+  );
+
+  const apis: EnvironmentSnapshot['apis'] = new Map();
+  for (const api of await client.iterateApis(undefined, request).toArray()) {
+    const routes = new Map<string, any>();
+    for (const connection of await client
+      .iterateApiCollections(api.key, undefined, request)
+      .toArray()) {
+      const path = paths.get(connection.folder) ?? connection.folder;
+      routes.set(`/${api.prefix}/${path}`, {
+        ...connection,
+        allowed_methods: connection.allowed_methods ? [...connection.allowed_methods].sort() : null,
+      });
+    }
+    apis.set(api.prefix, {
+      attributes: {
+        name: api.name,
+        description: api.description ?? null,
+        version: api.version ?? null,
+        is_auth_required: api.is_auth_required,
+      },
+      routes,
+    });
+  }
+
+  return { environment: client.environmentKey, components, collections, locales, apis };
+}
+
+/**
+ * Pairs entries of two maps by key, in sorted key order, and reports those
+ * that exist on one side only or for which `compare` returns a difference.
+ */
+function pair<T, D>(
+  source: Map<string, T>,
+  target: Map<string, T>,
+  oneSided: (key: string, status: DiffStatus, value: T) => D,
+  compare: (key: string, source: T, target: T) => D | null,
+): D[] {
+  const keys = [...new Set([...source.keys(), ...target.keys()])].sort();
+  const result: D[] = [];
+  for (const key of keys) {
+    const a = source.get(key);
+    const b = target.get(key);
+    if (a === undefined) {
+      result.push(oneSided(key, 'target-only', b!));
+    } else if (b === undefined) {
+      result.push(oneSided(key, 'source-only', a));
+    } else {
+      const diff = compare(key, a, b);
+      if (diff) {
+        result.push(diff);
+      }
+    }
+  }
+  return result;
+}
+
+function diffModels(
+  kind: ModelKind,
+  source: Map<string, ModelSnapshot>,
+  target: Map<string, ModelSnapshot>,
+): ModelDiff[] {
+  return pair<ModelSnapshot, ModelDiff>(
+    source,
+    target,
+    (id, status, model) => ({
+      kind,
+      id,
+      status,
+      sourceVersion: status === 'source-only' ? (model.version?.name ?? null) : null,
+      targetVersion: status === 'target-only' ? (model.version?.name ?? null) : null,
+      attributes: [],
+      fields: [],
+    }),
+    (id, a, b) => {
+      const attributes = compareValues(a.attributes, b.attributes, Object.keys(a.attributes));
+      if (Boolean(a.version) !== Boolean(b.version)) {
+        attributes.push({
+          attribute: 'published',
+          source: Boolean(a.version),
+          target: Boolean(b.version),
+        });
+      }
+      const fields = pair<FieldSummary, FieldDiff>(
+        new Map(a.fields.map((field) => [field.path, field])),
+        new Map(b.fields.map((field) => [field.path, field])),
+        (path, status, field) => ({ path, status, type: field.type, diffs: [] }),
+        (path, x, y) => {
+          const diffs = diffFieldAttributes(x, y, FIELD_ATTRIBUTES).map(
+            ({ attribute, before, after }) => ({ attribute, source: before, target: after }),
+          );
+          return diffs.length > 0 ? { path, status: 'changed', type: x.type, diffs } : null;
+        },
+      );
+      if (attributes.length === 0 && fields.length === 0) {
+        return null;
+      }
+      return {
+        kind,
+        id,
+        status: 'changed',
+        sourceVersion: a.version?.name ?? null,
+        targetVersion: b.version?.name ?? null,
+        attributes,
+        fields,
+      };
+    },
+  );
+}
+
+function toClient(side: ManagementClient | ManagementClientOptions): ManagementClient {
+  return side instanceof ManagementClient ? side : new ManagementClient(side);
+}
+
+/**
+ * Compares the schema configuration of two environments: collections (by
+ * path), components (by name), their published schema versions and field
+ * definitions, locales, and Flux APIs (by prefix) with their routes.
+ * Component references in nested-field meta are compared by component and
+ * version name, since keys differ between environments.
+ *
+ * Each side is a {@link ManagementClient} or the options to create one.
+ * Read-only. Print the result with {@link formatEnvironmentDiff}.
+ *
+ * @example
+ * ```ts
+ * const diff = await diffEnvironments(
+ *   { environmentKey: 'staging', auth },
+ *   { environmentKey: 'production', auth },
+ * );
+ * console.log(formatEnvironmentDiff(diff, { format: 'markdown' }));
+ * ```
+ */
+export async function diffEnvironments(
+  source: ManagementClient | ManagementClientOptions,
+  target: ManagementClient | ManagementClientOptions,
+  options: EnvironmentDiffOptions = {},
+): Promise<EnvironmentDiff> {
+  const request = callOptions(options);
+  const a = await snapshot(toClient(source), request);
+  const b = await snapshot(toClient(target), request);
+
+  const models = [
+    ...diffModels('component', a.components, b.components),
+    ...diffModels('collection', a.collections, b.collections),
+  ];
+  const locales = pair<Record<string, unknown>, LocaleDiff>(
+    a.locales,
+    b.locales,
+    (code, status) => ({ code, status, diffs: [] }),
+    (code, x, y) => {
+      const diffs = compareValues(x, y, ['name', 'is_default']);
+      return diffs.length > 0 ? { code, status: 'changed', diffs } : null;
+    },
+  );
+  const apis = pair<{ attributes: Record<string, unknown>; routes: Map<string, any> }, ApiDiff>(
+    a.apis,
+    b.apis,
+    (prefix, status) => ({ prefix, status, attributes: [], routes: [] }),
+    (prefix, x, y) => {
+      const attributes = compareValues(x.attributes, y.attributes, Object.keys(x.attributes));
+      const routes = pair<any, RouteDiff>(
+        x.routes,
+        y.routes,
+        (path, status) => ({ path, status, diffs: [] }),
+        (path, r, s) => {
+          const diffs = compareValues(r, s, ROUTE_ATTRIBUTES);
+          return diffs.length > 0 ? { path, status: 'changed', diffs } : null;
+        },
+      );
+      return attributes.length > 0 || routes.length > 0
+        ? { prefix, status: 'changed', attributes, routes }
+        : null;
+    },
+  );
+
+  return {
+    source: a.environment,
+    target: b.environment,
+    models,
+    locales,
+    apis,
+    hasDifferences: models.length > 0 || locales.length > 0 || apis.length > 0,
+  };
+}
+
+function formatValue(value: unknown): string {
+  return JSON.stringify(value);
+}
+
+function formatDiffs(diffs: ValueDiff[], separator: string, code: (text: string) => string) {
+  return diffs
+    .map(
+      (diff) =>
+        `${diff.attribute} ${code(formatValue(diff.source))} ${separator} ${code(formatValue(diff.target))}`,
+    )
+    .join(', ');
+}
+
+function formatText(diff: EnvironmentDiff): string {
+  const symbols: Record<DiffStatus, string> = {
+    'source-only': '-',
+    'target-only': '+',
+    changed: '~',
+  };
+  const values = (diffs: ValueDiff[]) => formatDiffs(diffs, '->', (text) => text);
+  const lines = [`--- ${diff.source}`, `+++ ${diff.target}`];
+
+  for (const model of diff.models) {
+    let header = `${symbols[model.status]} ${model.kind} ${model.id}`;
+    if (model.status === 'changed' && model.sourceVersion !== model.targetVersion) {
+      header += ` (published ${formatValue(model.sourceVersion)} -> ${formatValue(model.targetVersion)})`;
+    }
+    lines.push(header);
+    for (const attribute of model.attributes) {
+      lines.push(`    ~ ${values([attribute])}`);
+    }
+    for (const field of model.fields) {
+      const prefix = `    ${symbols[field.status]} field ${field.path}`;
+      lines.push(
+        field.status === 'changed'
+          ? `${prefix}: ${values(field.diffs)}`
+          : `${prefix} (${field.type})`,
+      );
+    }
+  }
+  for (const locale of diff.locales) {
+    const suffix = locale.status === 'changed' ? `: ${values(locale.diffs)}` : '';
+    lines.push(`${symbols[locale.status]} locale ${locale.code}${suffix}`);
+  }
+  for (const api of diff.apis) {
+    lines.push(`${symbols[api.status]} api ${api.prefix}`);
+    for (const attribute of api.attributes) {
+      lines.push(`    ~ ${values([attribute])}`);
+    }
+    for (const route of api.routes) {
+      const suffix = route.status === 'changed' ? `: ${values(route.diffs)}` : '';
+      lines.push(`    ${symbols[route.status]} route ${route.path}${suffix}`);
+    }
+  }
+  if (!diff.hasDifferences) {
+    lines.push('No differences.');
+  }
+  return lines.join('\n');
+}
+
+function formatMarkdown(diff: EnvironmentDiff): string {
+  const code = (text: string) => `\`${text.replace(/`/g, "'")}\``;
+  const values = (diffs: ValueDiff[]) => formatDiffs(diffs, '→', code);
+  const status = (value: DiffStatus) =>
+    value === 'changed'
+      ? 'changed'
+      : `only in ${code(value === 'source-only' ? diff.source : diff.target)}`;
+  const lines = [`### Environment diff: ${code(diff.source)} → ${code(diff.target)}`, ''];
+  if (!diff.hasDifferences) {
+    lines.push('_No differences._');
+    return lines.join('\n');
+  }
+
+  const section = (title: string, items: string[][]) => {
+    if (items.length > 0) {
+      lines.push(`#### ${title}`, '', ...items.flat(), '');
+    }
+  };
+  const modelItems = (kind: ModelKind) =>
+    diff.models
+      .filter((model) => model.kind === kind)
+      .map((model) => {
+        let header = `- **${model.id}**: ${status(model.status)}`;
+        if (model.status === 'changed' && model.sourceVersion !== model.targetVersion) {
+          header += ` (published ${code(String(model.sourceVersion))} → ${code(String(model.targetVersion))})`;
+        }
+        return [
+          header,
+          ...model.attributes.map((attribute) => `  - ${values([attribute])}`),
+          ...model.fields.map((field) =>
+            field.status === 'changed'
+              ? `  - ${code(field.path)}: ${values(field.diffs)}`
+              : `  - ${code(field.path)} (${field.type}): ${status(field.status)}`,
+          ),
+        ];
+      });
+
+  section('Components', modelItems('component'));
+  section('Collections', modelItems('collection'));
+  section(
+    'Locales',
+    diff.locales.map((locale) => [
+      `- **${locale.code}**: ${locale.status === 'changed' ? values(locale.diffs) : status(locale.status)}`,
+    ]),
+  );
+  section(
+    'Flux APIs',
+    diff.apis.map((api) => [
+      `- **${api.prefix}**: ${status(api.status)}`,
+      ...api.attributes.map((attribute) => `  - ${values([attribute])}`),
+      ...api.routes.map(
+        (route) =>
+          `  - ${code(route.path)}: ${route.status === 'changed' ? values(route.diffs) : status(route.status)}`,
+      ),
+    ]),
+  );
+  return lines.join('\n').trimEnd();
+}
+
+/**
+ * Renders an {@link EnvironmentDiff} as text or Markdown. The text format
+ * reads like a unified diff from source to target:
+ *
+ * ```text
+ * --- staging
+ * +++ production
+ * ~ collection blog/posts (published "v2" -> "v1")
+ *     - field seo (nested)
+ *     ~ field title: required true -> false
+ * + locale fr
+ * ```
+ *
+ * The Markdown format groups differences under a heading per section, for
+ * posting as a pull request comment.
+ */
+export function formatEnvironmentDiff(
+  diff: EnvironmentDiff,
+  options: FormatEnvironmentDiffOptions = {},
+): string {
+  return options.format === 'markdown' ? formatMarkdown(diff) : formatText(diff);
+}
@@ -0,0 +1,239 @@
+import { callOptions } from '../config.js';
+import type { RequestOptions } from '../config.js';
+import type { ManagementClient } from '../management/client.js';
+import type {
+  CollectionSummary,
+  FieldSummary,
+  RolePermission,
+  RolePermissionObject,
+  SchemaVersionSummary,
+} from '../management/models.js';
+import type { ModelKind } from '../schema/plan.js';
+import { modelOperations } from '../schema/plan.js';
+import type {
+  BundleCollection,
+  BundleField,
+  BundleRole,
+  BundleSchemaVersion,
+  EnvironmentBundle,
+} from './bundle.js';
+import { ENVIRONMENT_BUNDLE_VERSION } from './bundle.js';
+
+export interface ExportEnvironmentOptions extends RequestOptions {
+  /**
+   * Include every schema version instead of only the published one and open
+   * drafts. Defaults to `true`, which keeps archived versions that nested
+   * fields may still pin.
+   */
+  includeHistory?: boolean;
+}
+
+/**
+ * Sorts fields so that every parent precedes its children.
+ *
+ * @internal
+ */
+export function parentsFirst<T extends { path: string }>(fields: T[]): T[] {
+  return [...fields].sort((a, b) => a.path.split('.').length - b.path.split('.').length);
+}
+
+function toBundleField(field: FieldSummary): BundleField {
+  const result: BundleField = { ...field };
+  delete result.json_schema;
+  return result;
+}
+
+function versionOrder(a: SchemaVersionSummary, b: SchemaVersionSummary): number {
+  const x = a.version_number ?? Number.POSITIVE_INFINITY;
+  const y = b.version_number ?? Number.POSITIVE_INFINITY;
+  return x !== y ? x - y : a.created_at.localeCompare(b.created_at);
+}
+
+async function exportVersions(
+  client: ManagementClient,
+  kind: ModelKind,
+  key: string,
+  includeHistory: boolean,
+  request: RequestOptions,
+): Promise<BundleSchemaVersion[]> {
+  const ops = modelOperations(client, kind);
+  const versions = (await ops.iterateVersions(key, request).toArray())
+    .filter((v) => includeHistory || !v.archived_at)
+    .sort(versionOrder);
+  const result: BundleSchemaVersion[] = [];
+  for (const version of versions) {
+    const fields = await ops.iterateFields(key, version.key, request).toArray();
+    result.push({
+      key: version.key,
+      name: version.name,
+      description: version.description ?? null,
+      published: Boolean(version.published_at),
+      fields: parentsFirst(fields).map(toBundleField),
+    });
+  }
+  return result;
+}
+
+function toBundleCollection(
+  collection: CollectionSummary,
+  versions: BundleSchemaVersion[],
+): BundleCollection {
+  return {
+    key: collection.key,
+    name: collection.name,
+    alias: collection.alias,
+    parent: collection.parent ?? null,
+    content_type: collection.content_type,
+    strict_reference: collection.strict_reference,
+    mode: collection.mode ?? null,
+    auto_remove_revisions: collection.auto_remove_revisions ?? null,
+    auto_remove_schema_versions: collection.auto_remove_schema_versions ?? null,
+    embedding_model: collection.embedding_model ?? null,
+    embedding_dimension: collection.embedding_dimension ?? null,
+    versions,
+  };
+}
+
+/** Orders collections so that every parent precedes its children. */
+function collectionsParentsFirst(collections: CollectionSummary[]): CollectionSummary[] {
+  const byKey = new Map(collections.map((c) => [c.key, c]));
+  const depth = (collection: CollectionSummary): number => {
+    let level = 0;
+    for (let p = collection.parent; p && byKey.has(p); p = byKey.get(p)!.parent) {
+      level += 1;
+    }
+    return level;
+  };
+  return [...collections].sort((a, b) => depth(a) - depth(b));
+}
+
+async function exportRole(
+  role: { key: string; name: string; description?: string | null; full_access?: boolean },
+  listPermissions: () => Promise<RolePermission[]>,
+  listObjects: (contentType: string) => Promise<RolePermissionObject[]>,
+): Promise<BundleRole> {
+  const permissions = await listPermissions();
+  const objects: RolePermissionObject[] = [];
+  for (const permission of permissions) {
+    if (!permission.all_objects) {
+      objects.push(...(await listObjects(permission.content_type)));
+    }
+  }
+  const result: BundleRole = {
+    key: role.key,
+    name: role.name,
+    description: role.description ?? null,
+    permissions,
+    objects,
+  };
+  if (role.full_access !== undefined) {
+    result.full_access = role.full_access;
+  }
+  return result;
+}
+
+/**
+ * Exports the configuration of the client's environment into a versioned
+ * JSON-serializable bundle: locales, components and collections with their
+ * schema versions and fields, Flux APIs with their connected collections,
+ * and management and Flux roles with permissions. Resources and API keys are
+ * not exported.
+ *
+ * Collections are read from the collection tree and ordered parents first.
+ * Restore the bundle with {@link importEnvironment}.
+ */
+export async function exportEnvironment(
+  client: ManagementClient,
+  options: ExportEnvironmentOptions = {},
+): Promise<EnvironmentBundle> {
+  const request = callOptions(options);
+  const includeHistory = options.includeHistory ?? true;
+
+  const locales = (await client.listLocales(request)).map((locale) => ({
+    code: locale.code,
+    name: locale.name,
+    is_default: locale.is_default,
+  }));
+
+  const components = [];
+  for (const component of await client.iterateComponents(undefined, request).toArray()) {
+    components.push({
+      key: component.key,
+      name: component.name,
+      description: component.description ?? null,
+      content_type: component.content_type,
+      versions: await exportVersions(client, 'component', component.key, includeHistory, request),
+    });
+  }
+
+  const collections = [];
+  const tree = collectionsParentsFirst(
+    await client.iterateCollections(undefined, request).toArray(),
+  );
+  for (const collection of tree) {
+    const versions = await exportVersions(
+      client,
+      'collection',
+      collection.key,
+      includeHistory,
+      request,
+    );
+    collections.push(toBundleCollection(collection, versions));
+  }
+
+  const apis = [];
+  for (const api of await client.iterateApis(undefined, request).toArray()) {
+    const connections = await client.iterateApiCollections(api.key, undefined, request).toArray();
+    apis.push({
+      key: api.key,
+      name: api.name,
+      prefix: api.prefix,
+      description: api.description ?? null,
+      version: api.version ?? null,
+      is_auth_required: api.is_auth_required,
+      collections: connections.map((connection) => ({
+        collection: connection.folder,
+        allowed_methods: connection.allowed_methods ?? null,
+        description_get_one: connection.description_get_one ?? null,
+        description_get_many: connection.description_get_many ?? null,
+        description_search: connection.description_search ?? null,
+        description_schema: connection.description_schema ?? null,
+      })),
+    });
+  }
+
+  const managementRoles = [];
+  for (const role of await client.iterateManagementRoles(undefined, request).toArray()) {
+    managementRoles.push(
+      await exportRole(
+        role,
+        () => client.listManagementRolePermissions(role.key, request),
+        (contentType) => client.listManagementPermissionObjects(role.key, contentType, request),
+      ),
+    );
+  }
+
+  const fluxRoles = [];
+  for (const role of await client.iterateFluxRoles(undefined, request).toArray()) {
+    fluxRoles.push(
+      await exportRole(
+        role,
+        () => client.listFluxRolePermissions(role.key, request),
+        (contentType) => client.listFluxPermissionObjects(role.key, contentType, request),
+      ),
+    );
+  }
+
+  return {
+    format: 'foxnose.environment',
+    version: ENVIRONMENT_BUNDLE_VERSION,
+    exported_at: new Date().toISOString(),
+    source: { environment: client.environmentKey },
+    locales,
+    components,
+    collections,
+    apis,
+    management_roles: managementRoles,
+    flux_roles: fluxRoles,
+  };
+}
@@ -0,0 +1,325 @@
+import { callOptions } from '../config.js';
+import type { RequestOptions } from '../config.js';
+import { EnvironmentBundleError } from '../errors.js';
+import type { ManagementClient } from '../management/client.js';
+import type { RolePermission, RolePermissionObject } from '../management/models.js';
+import type { ModelKind } from '../schema/plan.js';
+import { modelOperations } from '../schema/plan.js';
+import type {
+  BundleComponent,
+  BundleField,
+  BundleRole,
+  BundleSchemaVersion,
+  EnvironmentBundle,
+} from './bundle.js';
+import { parseEnvironmentBundle } from './bundle.js';
+import { parentsFirst } from './export.js';
+
+export type ImportEnvironmentOptions = RequestOptions;
+
+/** Source key → target key, per kind of object. */
+export interface EnvironmentKeyMap {
+  components: Record<string, string>;
+  collections: Record<string, string>;
+  /** Schema versions of both components and collections. */
+  versions: Record<string, string>;
+  apis: Record<string, string>;
+  managementRoles: Record<string, string>;
+  fluxRoles: Record<string, string>;
+}
+
+export interface ImportEnvironmentResult {
+  keys: EnvironmentKeyMap;
+  /** Locale codes that already existed in the target and were left untouched. */
+  skippedLocales: string[];
+}
+
+/** Collects the component keys a set of versions pins through nested fields. */
+function pinnedComponents(versions: BundleSchemaVersion[]): Set<string> {
+  const pinned = new Set<string>();
+  for (const version of versions) {
+    for (const field of version.fields) {
+      if (field.type === 'nested' && typeof field.meta?.component === 'string') {
+        pinned.add(field.meta.component);
+      }
+    }
+  }
+  return pinned;
+}
+
+/**
+ * Orders components so that every component comes after the components its
+ * nested fields pin.
+ */
+function componentsInDependencyOrder(components: BundleComponent[]): BundleComponent[] {
+  const byKey = new Map(components.map((c) => [c.key, c]));
+  const ordered: BundleComponent[] = [];
+  const state = new Map<string, 'visiting' | 'done'>();
+  const visit = (component: BundleComponent, trail: string[]) => {
+    const mark = state.get(component.key);
+    if (mark === 'done') {
+      return;
+    }
+    if (mark === 'visiting') {
+      throw new EnvironmentBundleError(
+        `Components form a cycle: ${[...trail, component.name].join(' -> ')}`,
+      );
+    }
+    state.set(component.key, 'visiting');
+    for (const key of pinnedComponents(component.versions)) {
+      const dependency = byKey.get(key);
+      if (dependency) {
+        visit(dependency, [...trail, component.name]);
+      }
+    }
+    state.set(component.key, 'done');
+    ordered.push(component);
+  };
+  components.forEach((component) => visit(component, []));
+  return ordered;
+}
+
+function remap(map: Record<string, string>, key: string): string {
+  return map[key] ?? key;
+}
+
+function fieldPayload(field: BundleField, keys: EnvironmentKeyMap): Record<string, any> {
+  const payload: Record<string, any> = { ...field };
+  delete payload.path;
+  if (field.type === 'nested' && field.meta) {
+    const meta = { ...field.meta };
+    if (typeof meta.component === 'string') {
+      meta.component = remap(keys.components, meta.component);
+    }
+    if (typeof meta.component_version === 'string') {
+      meta.component_version = remap(keys.versions, meta.component_version);
+    }
+    payload.meta = meta;
+  }
+  return payload;
+}
+
+async function importVersions(
+  client: ManagementClient,
+  kind: ModelKind,
+  modelKey: string,
+  versions: BundleSchemaVersion[],
+  keys: EnvironmentKeyMap,
+  request: RequestOptions,
+): Promise<void> {
+  const ops = modelOperations(client, kind);
+  for (const version of versions) {
+    const created = await ops.createVersion(
+      modelKey,
+      { name: version.name, description: version.description },
+      request,
+    );
+    keys.versions[version.key] = created.key;
+    for (const field of parentsFirst(version.fields)) {
+      await ops.createField(modelKey, created.key, fieldPayload(field, keys), request);
+    }
+    if (version.published) {
+      await ops.publishVersion(modelKey, created.key, request);
+    }
+  }
+}
+
+async function findConflicts(
+  client: ManagementClient,
+  bundle: EnvironmentBundle,
+  request: RequestOptions,
+): Promise<string[]> {
+  const conflicts: string[] = [];
+  const check = (label: string, wanted: string[], existing: Array<string | null | undefined>) => {
+    const taken = new Set(existing);
+    for (const name of wanted) {
+      if (taken.has(name)) {
+        conflicts.push(`${label} "${name}"`);
+      }
+    }
+  };
+
+  const components = await client.iterateComponents(undefined, request).toArray();
+  check(
+    'component',
+    bundle.components.map((c) => c.name),
+    components.map((c) => c.name),
+  );
+  const collections = await client.iterateCollections(undefined, request).toArray();
+  check(
+    'root collection',
+    bundle.collections.filter((c) => !c.parent).map((c) => c.alias),
+    collections.filter((c) => !c.parent).map((c) => c.alias),
+  );
+  const apis = await client.iterateApis(undefined, request).toArray();
+  check(
+    'API prefix',
+    bundle.apis.map((a) => a.prefix),
+    apis.map((a) => a.prefix),
+  );
+  const managementRoles = await client.iterateManagementRoles(undefined, request).toArray();
+  check(
+    'management role',
+    bundle.management_roles.map((r) => r.name),
+    managementRoles.map((r) => r.name),
+  );
+  const fluxRoles = await client.iterateFluxRoles(undefined, request).toArray();
+  check(
+    'Flux role',
+    bundle.flux_roles.map((r) => r.name),
+    fluxRoles.map((r) => r.name),
+  );
+  return conflicts;
+}
+
+async function importRole(
+  role: BundleRole,
+  objectKeys: Record<string, string>,
+  replacePermissions: (permissions: RolePermission[]) => Promise<unknown>,
+  addObject: (object: RolePermissionObject) => Promise<unknown>,
+): Promise<void> {
+  if (role.permissions.length > 0) {
+    await replacePermissions(
+      role.permissions.map((permission) => {
+        const entry = { ...permission };
+        if (Array.isArray(entry.objects)) {
+          entry.objects = entry.objects.map((key) => remap(objectKeys, key));
+        }
+        return entry;
+      }),
+    );
+  }
+  for (const object of role.objects) {
+    await addObject({
+      content_type: object.content_type,
+      object_key: remap(objectKeys, object.object_key),
+    });
+  }
+}
+
+/**
+ * Recreates an {@link EnvironmentBundle} in the client's environment.
+ *
+ * Objects are created in dependency order: locales, components (a component
+ * after those its nested fields pin), collections (parents first), Flux APIs
+ * with their collections, then management and Flux roles. Every schema
+ * version is recreated with its fields and published if it was published in
+ * the source, so version history and the published version carry over.
+ * Keys are assigned by the target; references in nested-field meta, API
+ * connections and role permissions are rewritten through the returned
+ * {@link EnvironmentKeyMap}.
+ *
+ * The target is checked before anything is written: components, root
+ * collections, API prefixes and roles that already exist by name abort the
+ * import. Existing locales are skipped.
+ *
+ * @throws {EnvironmentBundleError} When the bundle is invalid or conflicts
+ *   with the target environment.
+ */
+export async function importEnvironment(
+  client: ManagementClient,
+  input: EnvironmentBundle | string,
+  options: ImportEnvironmentOptions = {},
+): Promise<ImportEnvironmentResult> {
+  const bundle = parseEnvironmentBundle(input);
+  const request = callOptions(options);
+  const components = componentsInDependencyOrder(bundle.components);
+
+  const conflicts = await findConflicts(client, bundle, request);
+  if (conflicts.length > 0) {
+    throw new EnvironmentBundleError(`Target environment already contains ${conflicts.join(', ')}`);
+  }
+
+  const keys: EnvironmentKeyMap = {
+    components: {},
+    collections: {},
+    versions: {},
+    apis: {},
+    managementRoles: {},
+    fluxRoles: {},
+  };
+
+  const existingLocales = new Set((await client.listLocales(request)).map((l) => l.code));
+  const skippedLocales: string[] = [];
+  for (const locale of bundle.locales) {
+    if (existingLocales.has(locale.code)) {
+      skippedLocales.push(locale.code);
+      continue;
+    }
+    await client.createLocale(locale, request);
+  }
+
+  for (const component of components) {
+    const created = await client.createComponent(
+      {
+        name: component.name,
+        description: component.description,
+        content_type: component.content_type,
+      },
+      request,
+    );
+    keys.components[component.key] = created.key;
+    await importVersions(client, 'component', created.key, component.versions, keys, request);
+  }
+
+  for (const collection of bundle.collections) {
+    const { key, versions, parent, ...attributes } = collection;
+    if (parent && !keys.collections[parent]) {
+      throw new EnvironmentBundleError(
+        `Collection "${collection.alias}" is listed before its parent ${parent}`,
+      );
+    }
+    const created = await client.createCollection(
+      { ...attributes, parent: parent ? keys.collections[parent] : null },
+      request,
+    );
+    keys.collections[key] = created.key;
+    await importVersions(client, 'collection', created.key, versions, keys, request);
+  }
+
+  for (const api of bundle.apis) {
+    const { key, collections, ...attributes } = api;
+    const created = await client.createApi(attributes, request);
+    keys.apis[key] = created.key;
+    for (const connection of collections) {
+      await client.addApiCollection(created.key, remap(keys.collections, connection.collection), {
+        ...(connection.allowed_methods ? { allowedMethods: connection.allowed_methods } : {}),
+        descriptionGetOne: connection.description_get_one ?? undefined,
+        descriptionGetMany: connection.description_get_many ?? undefined,
+        descriptionSearch: connection.description_search ?? undefined,
+        descriptionSchema: connection.description_schema ?? undefined,
+        ...request,
+      });
+    }
+  }
+
+  const objectKeys = { ...keys.components, ...keys.collections, ...keys.apis };
+  for (const role of bundle.management_roles) {
+    const created = await client.createManagementRole(
+      { name: role.name, description: role.description, full_access: role.full_access ?? false },
+      request,
+    );
+    keys.managementRoles[role.key] = created.key;
+    await importRole(
+      role,
+      objectKeys,
+      (permissions) => client.replaceManagementRolePermissions(created.key, permissions, request),
+      (object) => client.addManagementPermissionObject(created.key, object, request),
+    );
+  }
+  for (const role of bundle.flux_roles) {
+    const created = await client.createFluxRole(
+      { name: role.name, description: role.description },
+      request,
+    );
+    keys.fluxRoles[role.key] = created.key;
+    await importRole(
+      role,
+      objectKeys,
+      (permissions) => client.replaceFluxRolePermissions(created.key, permissions, request),
+      (object) => client.addFluxPermissionObject(created.key, object, request),
+    );
+  }
+
+  return { keys, skippedLocales };
+}
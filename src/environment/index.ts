@@ -0,0 +1,33 @@
+export { ENVIRONMENT_BUNDLE_VERSION, parseEnvironmentBundle } from './bundle.js';
+export type {
+  BundleApi,
+  BundleApiCollection,
+  BundleCollection,
+  BundleComponent,
+  BundleField,
+  BundleLocale,
+  BundleRole,
+  BundleSchemaVersion,
+  EnvironmentBundle,
+} from './bundle.js';
+export { exportEnvironment } from './export.js';
+export type { ExportEnvironmentOptions } from './export.js';
+export { importEnvironment } from './import.js';
+export type {
+  EnvironmentKeyMap,
+  ImportEnvironmentOptions,
+  ImportEnvironmentResult,
+} from './import.js';
+export { diffEnvironments, formatEnvironmentDiff } from './diff.js';
+export type {
+  ApiDiff,
+  DiffStatus,
+  EnvironmentDiff,
+  EnvironmentDiffOptions,
+  FieldDiff,
+  FormatEnvironmentDiffOptions,
+  LocaleDiff,
+  ModelDiff,
+  RouteDiff,
+  ValueDiff,
+} from './diff.js';
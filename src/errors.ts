@@ -1,3 +1,5 @@
+import type { SchemaVersionDiff } from './schema/versions.js';
+
 /**
  * Base class for all SDK errors.
  */
@@ -183,6 +185,29 @@ export class ContentValidationFailedError extends FoxnoseAPIError {
   }
 }
 
+/**
+ * Raised before a write when content validation is enabled and `data` fails
+ * the collection's published JSON Schema. Nothing is sent. Extends
+ * {@link ContentValidationFailedError} with the same `errors` shape, so one
+ * handler covers both; `statusCode` is 422 as for the server's error.
+ */
+export class LocalValidationError extends ContentValidationFailedError {
+  /** Collection the data was validated against. */
+  readonly collection: string;
+
+  constructor(collection: string, errors: { json_path: string; message: string }[]) {
+    super({
+      message: 'Content validation failed locally.',
+      statusCode: 422,
+      errorCode: 'content_validation_failed',
+      detail: { errors, errors_truncated: false },
+      errors,
+    });
+    this.name = 'LocalValidationError';
+    this.collection = collection;
+  }
+}
+
 /**
  * Raised on HTTP 502 when a write could not be confirmed. The write may or may
  * not have been applied — re-read the resource with a GET before retrying.
@@ -293,7 +318,8 @@ export function buildAPIError(options: APIErrorOptions): FoxnoseAPIError {
 }
 
 /**
- * Raised when authentication headers cannot be generated.
+ * Raised when authentication headers cannot be generated, or when no usable
+ * credentials are configured.
  */
 export class FoxnoseAuthError extends FoxnoseError {
   constructor(message: string) {
@@ -302,6 +328,107 @@ export class FoxnoseAuthError extends FoxnoseError {
   }
 }
 
+/**
+ * Raised when a declarative schema definition is malformed. Thrown before any
+ * request is sent.
+ */
+export class SchemaDefinitionError extends FoxnoseError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SchemaDefinitionError';
+  }
+}
+
+/**
+ * Raised when an environment bundle is malformed or cannot be imported into
+ * the target environment.
+ */
+export class EnvironmentBundleError extends FoxnoseError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EnvironmentBundleError';
+  }
+}
+
+/**
+ * Raised when bulk import or export input, such as a JSONL or CSV line or a
+ * checkpoint file, cannot be read.
+ */
+export class BulkDataError extends FoxnoseError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BulkDataError';
+  }
+}
+
+/**
+ * Raised when a migration cannot be loaded, is missing a `down` step needed
+ * for a rollback, or throws while running. The thrown error is in `cause`.
+ */
+export class MigrationError extends FoxnoseError {
+  /** ID of the migration concerned. */
+  readonly migrationId?: string;
+
+  constructor(message: string, migrationId?: string, cause?: unknown) {
+    super(message);
+    this.name = 'MigrationError';
+    this.migrationId = migrationId;
+    if (cause !== undefined) {
+      this.cause = cause;
+    }
+  }
+}
+
+/**
+ * Raised when the migration lock is held by another process, e.g. a
+ * concurrent deploy.
+ */
+export class MigrationLockError extends FoxnoseError {
+  /** Owner recorded by the process holding the lock. */
+  readonly owner: string;
+  /** When the lock expires and may be taken over (ISO 8601). */
+  readonly expiresAt: string;
+
+  constructor(owner: string, expiresAt: string) {
+    super(`Migrations are locked by ${owner} until ${expiresAt}`);
+    this.name = 'MigrationLockError';
+    this.owner = owner;
+    this.expiresAt = expiresAt;
+  }
+}
+
+/**
+ * Raised by `safePublish` when a schema version has breaking changes for
+ * existing content and publishing was not forced.
+ */
+export class BreakingSchemaChangeError extends FoxnoseError {
+  /** The diff against the published version; see `diff.conflicts`. */
+  readonly diff: SchemaVersionDiff;
+
+  constructor(diff: SchemaVersionDiff) {
+    const reasons = diff.conflicts.map((c) => `${c.field_path} (${c.blocking_reason})`);
+    super(`Version ${diff.toVersion} of ${diff.model} has breaking changes: ${reasons.join(', ')}`);
+    this.name = 'BreakingSchemaChangeError';
+    this.diff = diff;
+  }
+}
+
+/**
+ * Raised by a replaying `Cassette` when a request matches no recorded
+ * interaction. The transport does not retry it.
+ */
+export class CassetteMismatchError extends FoxnoseError {
+  readonly method: string;
+  readonly url: string;
+
+  constructor(method: string, url: string) {
+    super(`No unused cassette interaction matches ${method} ${url}`);
+    this.name = 'CassetteMismatchError';
+    this.method = method;
+    this.url = url;
+  }
+}
+
 /**
  * Raised when the HTTP layer fails before receiving a response.
  */
@@ -311,3 +438,18 @@ export class FoxnoseTransportError extends FoxnoseError {
     this.name = 'FoxnoseTransportError';
   }
 }
+
+/**
+ * Raised when a call is cancelled through the `signal` passed in its options.
+ * Extends {@link FoxnoseTransportError} since no response was received.
+ */
+export class FoxnoseAbortError extends FoxnoseTransportError {
+  /** The `reason` of the aborted signal. */
+  readonly reason: unknown;
+
+  constructor(reason?: unknown) {
+    super('Request aborted');
+    this.name = 'FoxnoseAbortError';
+    this.reason = reason;
+  }
+}
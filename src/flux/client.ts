@@ -1,7 +1,12 @@
 import type { AuthStrategy } from '../auth/types.js';
-import type { RetryConfig } from '../config.js';
-import { createConfig } from '../config.js';
+import type { FetchFunction, RequestOptions, RetryConfig } from '../config.js';
+import { callOptions, createConfig } from '../config.js';
 import { HttpTransport } from '../http.js';
+import type { LoggingOptions } from '../logging.js';
+import type { Middleware } from '../middleware.js';
+import type { Instrumentation } from '../tracing.js';
+import { ContentValidator, fluxSchemaSource } from '../validation/validator.js';
+import type { ContentValidatorOptions } from '../validation/validator.js';
 import type {
   HybridConfig,
   SearchRequest,
@@ -30,6 +35,23 @@ export interface FluxClientOptions {
   timeout?: number;
   retryConfig?: RetryConfig;
   defaultHeaders?: Record<string, string>;
+  /** Custom `fetch` implementation used instead of the global one. */
+  fetch?: FetchFunction;
+  /** Request/response hooks run around every attempt. */
+  middleware?: Middleware[];
+  /** Undici dispatcher forwarded to `fetch` (e.g. a `ProxyAgent`). */
+  dispatcher?: unknown;
+  /** Tracing hooks, e.g. {@link openTelemetryInstrumentation}. */
+  instrumentation?: Instrumentation;
+  /** Logs requests, retries and errors with credentials redacted. */
+  logging?: LoggingOptions;
+  /**
+   * Validate `data` against the route's JSON Schema from `_schema` before
+   * `createResource` and `updateResource`, throwing
+   * {@link LocalValidationError} without sending the request. Pass options
+   * to set how long schemas are cached.
+   */
+  validateContent?: boolean | ContentValidatorOptions;
 }
 
 export interface VectorSearchOptions {
@@ -98,6 +120,8 @@ function stripUndefined(obj: Record<string, any>): Record<string, any> {
  */
 export class FluxClient {
   readonly apiPrefix: string;
+  /** Validator used before writes, when `validateContent` is set. */
+  readonly contentValidator: ContentValidator | null;
   private readonly transport: HttpTransport;
 
   constructor(options: FluxClientOptions) {
@@ -106,12 +130,23 @@ export class FluxClient {
       baseUrl: options.baseUrl,
       timeout: options.timeout ?? 15_000,
       defaultHeaders: options.defaultHeaders,
+      fetch: options.fetch,
+      middleware: options.middleware,
+      dispatcher: options.dispatcher,
+      instrumentation: options.instrumentation,
+      logging: options.logging,
     });
     this.transport = new HttpTransport({
       config,
       auth: options.auth,
       retryConfig: options.retryConfig,
     });
+    this.contentValidator = options.validateContent
+      ? new ContentValidator(
+          fluxSchemaSource(this),
+          options.validateContent === true ? {} : options.validateContent,
+        )
+      : null;
   }
 
   private buildPath(folderPath: string, suffix = ''): string {
@@ -120,23 +155,49 @@ export class FluxClient {
     return suffix ? `${base}${suffix}` : base;
   }
 
-  async listResources<T = any>(folderPath: string, params?: Record<string, any>): Promise<T> {
+  /** Route template for tracing, e.g. `/v1/{collection}/{resource}`. */
+  private buildRoute(suffix = ''): string {
+    return `/${this.apiPrefix}/{collection}${suffix}`;
+  }
+
+  async listResources<T = any>(
+    folderPath: string,
+    params?: Record<string, any>,
+    options?: RequestOptions,
+  ): Promise<T> {
     const path = this.buildPath(folderPath);
-    return this.transport.request('GET', path, { params });
+    return this.transport.request('GET', path, {
+      params,
+      route: this.buildRoute(),
+      ...callOptions(options),
+    });
   }
 
   async getResource<T = any>(
     folderPath: string,
     resourceKey: string,
     params?: Record<string, any>,
+    options?: RequestOptions,
   ): Promise<T> {
     const path = this.buildPath(folderPath, `/${resourceKey}`);
-    return this.transport.request('GET', path, { params });
+    return this.transport.request('GET', path, {
+      params,
+      route: this.buildRoute('/{resource}'),
+      ...callOptions(options),
+    });
   }
 
-  async search<T = any>(folderPath: string, body: Record<string, any>): Promise<T> {
+  async search<T = any>(
+    folderPath: string,
+    body: Record<string, any>,
+    options?: RequestOptions,
+  ): Promise<T> {
     const path = this.buildPath(folderPath, '/_search');
-    return this.transport.request('POST', path, { jsonBody: body });
+    return this.transport.request('POST', path, {
+      jsonBody: body,
+      route: this.buildRoute('/_search'),
+      ...callOptions(options),
+    });
   }
 
   /**
@@ -159,14 +220,20 @@ export class FluxClient {
   async createResource<T = any>(
     folderPath: string,
     data: Record<string, any>,
-    options?: { key?: string },
+    options?: { key?: string } & RequestOptions,
   ): Promise<T> {
+    await this.contentValidator?.check(normalizeFolderPath(folderPath), data, options);
     const path = this.buildPath(folderPath, '/');
     const body: Record<string, any> = { data };
     if (options?.key !== undefined) {
       body.key = options.key;
     }
-    return this.transport.request('POST', path, { jsonBody: body, allowRetries: false });
+    return this.transport.request('POST', path, {
+      jsonBody: body,
+      allowRetries: false,
+      route: this.buildRoute(),
+      ...callOptions(options),
+    });
   }
 
   /**
@@ -184,13 +251,24 @@ export class FluxClient {
     folderPath: string,
     resourceKey: string,
     data: Record<string, any>,
+    options?: RequestOptions,
   ): Promise<T> {
+    await this.contentValidator?.check(normalizeFolderPath(folderPath), data, options);
     const path = this.buildPath(folderPath, `/${resourceKey}/`);
-    return this.transport.request('PUT', path, { jsonBody: { data }, allowRetries: false });
+    return this.transport.request('PUT', path, {
+      jsonBody: { data },
+      allowRetries: false,
+      route: this.buildRoute('/{resource}'),
+      ...callOptions(options),
+    });
   }
 
   /** Semantic search using auto-generated embeddings. */
-  async vectorSearch<T = any>(folderPath: string, options: VectorSearchOptions): Promise<T> {
+  async vectorSearch<T = any>(
+    folderPath: string,
+    options: VectorSearchOptions,
+    requestOptions?: RequestOptions,
+  ): Promise<T> {
     const { query, fields, top_k = 10, similarity_threshold, limit, offset, ...rest } = options;
     const extra = stripUndefined(rest);
     const vs: VectorSearch = { query, fields, top_k, similarity_threshold };
@@ -201,13 +279,14 @@ export class FluxClient {
       offset,
     };
     const body = mergeExtra(buildSearchBody(req), extra);
-    return this.search(folderPath, body);
+    return this.search(folderPath, body, requestOptions);
   }
 
   /** Search using custom pre-computed embeddings. */
   async vectorFieldSearch<T = any>(
     folderPath: string,
     options: VectorFieldSearchOptions,
+    requestOptions?: RequestOptions,
   ): Promise<T> {
     const {
       field,
@@ -227,11 +306,15 @@ export class FluxClient {
       offset,
     };
     const body = mergeExtra(buildSearchBody(req), extra);
-    return this.search(folderPath, body);
+    return this.search(folderPath, body, requestOptions);
   }
 
   /** Blended text + vector search with configurable weights. */
-  async hybridSearch<T = any>(folderPath: string, options: HybridSearchOptions): Promise<T> {
+  async hybridSearch<T = any>(
+    folderPath: string,
+    options: HybridSearchOptions,
+    requestOptions?: RequestOptions,
+  ): Promise<T> {
     const {
       query,
       find_text,
@@ -257,11 +340,15 @@ export class FluxClient {
       offset,
     };
     const body = mergeExtra(buildSearchBody(req), extra);
-    return this.search(folderPath, body);
+    return this.search(folderPath, body, requestOptions);
   }
 
   /** Text search with results boosted by vector similarity. */
-  async boostedSearch<T = any>(folderPath: string, options: BoostedSearchOptions): Promise<T> {
+  async boostedSearch<T = any>(
+    folderPath: string,
+    options: BoostedSearchOptions,
+    requestOptions?: RequestOptions,
+  ): Promise<T> {
     const {
       find_text,
       query,
@@ -318,17 +405,20 @@ export class FluxClient {
       offset,
     };
     const body = mergeExtra(buildSearchBody(req), extra);
-    return this.search(folderPath, body);
+    return this.search(folderPath, body, requestOptions);
   }
 
-  async getRouter<T = any>(): Promise<T> {
+  async getRouter<T = any>(options?: RequestOptions): Promise<T> {
     const path = `/${this.apiPrefix}/_router`;
-    return this.transport.request('GET', path);
+    return this.transport.request('GET', path, { route: path, ...callOptions(options) });
   }
 
-  async getSchema<T = any>(folderPath: string): Promise<T> {
+  async getSchema<T = any>(folderPath: string, options?: RequestOptions): Promise<T> {
     const path = this.buildPath(folderPath, '/_schema');
-    return this.transport.request('GET', path);
+    return this.transport.request('GET', path, {
+      route: this.buildRoute('/_schema'),
+      ...callOptions(options),
+    });
   }
 
   close(): void {
@@ -13,4 +13,12 @@ export type {
   VectorBoostConfig,
   HybridConfig,
   SearchRequest,
+  FluxResourceSys,
+  FluxResource,
+  FluxResourceList,
+  FluxSearchResponse,
+  FluxWriteResult,
+  FluxRouteInfo,
+  FluxRouterInfo,
+  FluxSchemaInfo,
 } from './models.js';
@@ -1,5 +1,6 @@
 /**
- * Types and validation for Flux vector search requests.
+ * Types and validation for Flux vector search requests, plus the shapes of
+ * Flux responses.
  */
 
 /** Search mode for the Flux search endpoint. */
@@ -230,3 +231,81 @@ export function mergeExtra(
   }
   return { ...validated, ...extra };
 }
+
+// ---------------------------------------------------------------------------
+// Responses
+// ---------------------------------------------------------------------------
+
+/** System metadata returned with every Flux resource. */
+export interface FluxResourceSys {
+  key: string;
+  folder: string;
+  created_at: string;
+  updated_at: string;
+  external_id?: string | null;
+  [extra: string]: any;
+}
+
+/** A published resource as returned by Flux. */
+export interface FluxResource<T = Record<string, any>> {
+  _sys: FluxResourceSys;
+  data: T;
+}
+
+/** A page of resources returned by `listResources`. */
+export interface FluxResourceList<T = Record<string, any>> {
+  count?: number;
+  next?: string | null;
+  previous?: string | null;
+  results: FluxResource<T>[];
+  [extra: string]: any;
+}
+
+/** Results returned by `search` and the vector/hybrid search helpers. */
+export interface FluxSearchResponse<T = Record<string, any>> {
+  results: FluxResource<T>[];
+  limit?: number;
+  offset?: number;
+  count?: number;
+  [extra: string]: any;
+}
+
+/** Result of `createResource` and `updateResource`. */
+export interface FluxWriteResult {
+  resource_key: string;
+  revision_key: string;
+  write_units: number;
+  published: boolean;
+}
+
+/** One route of the `_router` catalog. */
+export interface FluxRouteInfo {
+  /** Full route path including the API prefix, e.g. `/v1/articles`. */
+  path: string;
+  collection?: string;
+  name?: string;
+  /** Allowed actions: `get_many`, `get_one`, `search`, `schema`, `create`, `update`. */
+  actions: string[];
+  description_get_one?: string | null;
+  description_get_many?: string | null;
+  description_search?: string | null;
+  description_schema?: string | null;
+  [extra: string]: any;
+}
+
+/** Response of `getRouter`. */
+export interface FluxRouterInfo {
+  api: string;
+  routes: FluxRouteInfo[];
+  [extra: string]: any;
+}
+
+/** Response of `getSchema`. */
+export interface FluxSchemaInfo {
+  json_schema: Record<string, any>;
+  searchable_fields: string[];
+  non_searchable_fields: string[];
+  path: string;
+  actions: string[];
+  [extra: string]: any;
+}
@@ -2,7 +2,21 @@ import { AnonymousAuth } from './auth/anonymous.js';
 import type { AuthStrategy, RequestData } from './auth/types.js';
 import type { FoxnoseConfig, RetryConfig } from './config.js';
 import { DEFAULT_RETRY_CONFIG } from './config.js';
-import { buildAPIError, FoxnoseTransportError } from './errors.js';
+import { buildAPIError, FoxnoseAbortError, FoxnoseError, FoxnoseTransportError } from './errors.js';
+import type { FoxnoseAPIError } from './errors.js';
+import { RequestLogger } from './logging.js';
+import type { MiddlewareContext } from './middleware.js';
+import { runAfterResponse, runBeforeRequest, runOnError } from './middleware.js';
+import type { Instrumentation, InstrumentationSpan } from './tracing.js';
+import { recordSpanError, SPAN_STATUS_ERROR } from './tracing.js';
+
+/** Spans of one traced call, threaded through its attempts. */
+interface CallTrace {
+  instrumentation: Instrumentation;
+  span: InstrumentationSpan;
+  route: string;
+  attempts: number;
+}
 
 /**
  * Shared HTTP transport with retry logic built on native `fetch`.
@@ -11,11 +25,13 @@ export class HttpTransport {
   private readonly config: FoxnoseConfig;
   private readonly auth: AuthStrategy;
   private readonly retry: RetryConfig;
+  private readonly log: RequestLogger | null;
 
   constructor(options: { config: FoxnoseConfig; auth?: AuthStrategy; retryConfig?: RetryConfig }) {
     this.config = options.config;
     this.auth = options.auth ?? new AnonymousAuth();
     this.retry = options.retryConfig ?? { ...DEFAULT_RETRY_CONFIG };
+    this.log = options.config.logging ? new RequestLogger(options.config.logging) : null;
   }
 
   async request(
@@ -28,11 +44,40 @@ export class HttpTransport {
       headers?: Record<string, string>;
       parseJson?: boolean;
       allowRetries?: boolean;
+      signal?: AbortSignal;
+      timeout?: number;
+      /** Route template recorded on spans, e.g. `/v1/{environment}/locales`. Defaults to `path`. */
+      route?: string;
     },
   ): Promise<any> {
     const parseJson = options?.parseJson ?? true;
-    const response = await this.sendWithRetries(method, path, options);
-    return this.maybeDecodeResponse(response, parseJson);
+    const instrumentation = this.config.instrumentation;
+    if (!instrumentation) {
+      const response = await this.sendWithRetries(method, path, options);
+      return this.maybeDecodeResponse(response, parseJson);
+    }
+
+    const route = options?.route ?? path;
+    const span = instrumentation.startSpan(`${method.toUpperCase()} ${route}`, {
+      kind: 'internal',
+      attributes: { 'http.request.method': method.toUpperCase(), 'http.route': route },
+    });
+    const trace: CallTrace = { instrumentation, span, route, attempts: 0 };
+    try {
+      const response = await this.sendWithRetries(method, path, options, trace);
+      span.setAttribute('http.response.status_code', response.status);
+      const result = await this.maybeDecodeResponse(response, parseJson);
+      if (typeof result?.write_units === 'number') {
+        span.setAttribute('foxnose.write_units', result.write_units);
+      }
+      return result;
+    } catch (err) {
+      recordSpanError(span, err);
+      throw err;
+    } finally {
+      span.setAttribute('foxnose.retry_count', Math.max(trace.attempts - 1, 0));
+      span.end();
+    }
   }
 
   // eslint-disable-next-line @typescript-eslint/no-empty-function
@@ -53,7 +98,7 @@ export class HttpTransport {
     return qs ? `${base}?${qs}` : base;
   }
 
-  private buildRequest(
+  private async buildRequest(
     method: string,
     path: string,
     options?: {
@@ -62,7 +107,7 @@ export class HttpTransport {
       content?: Uint8Array;
       headers?: Record<string, string>;
     },
-  ): { url: string; init: RequestInit; body: Uint8Array } {
+  ): Promise<{ url: string; init: RequestInit; body: Uint8Array }> {
     const headers: Record<string, string> = {};
 
     if (this.config.defaultHeaders) {
@@ -96,7 +141,7 @@ export class HttpTransport {
       body,
     };
 
-    const authHeaders = this.auth.buildHeaders(requestData);
+    const authHeaders = await this.auth.buildHeaders(requestData);
     if (authHeaders) {
       Object.assign(headers, authHeaders);
     }
@@ -167,39 +212,142 @@ export class HttpTransport {
       content?: Uint8Array;
       headers?: Record<string, string>;
       allowRetries?: boolean;
+      signal?: AbortSignal;
+      timeout?: number;
     },
+    trace?: CallTrace,
   ): Promise<Response> {
     const allowRetries = options?.allowRetries !== false;
+    const middleware = this.config.middleware ?? [];
+    const fetchFn = this.config.fetch ?? globalThis.fetch;
+    const signal = options?.signal;
+    const timeout = options?.timeout ?? this.config.timeout;
+    let reauthenticated = false;
     for (let attempt = 1; attempt <= this.retry.attempts; attempt++) {
-      const { url, init } = this.buildRequest(method, path, options);
-
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), this.config.timeout);
-      init.signal = controller.signal;
-
+      if (signal?.aborted) {
+        throw new FoxnoseAbortError(signal.reason);
+      }
+      const { url, init, body } = await this.buildRequest(method, path, options);
+      const attemptSpan = trace && this.startAttemptSpan(trace, init, url);
+      const context: MiddlewareContext = {
+        method: init.method as string,
+        url,
+        path,
+        headers: init.headers as Record<string, string>,
+        body,
+        attempt,
+      };
+      // Ends the attempt span once, whichever way the attempt goes; a throwing
+      // middleware marks it as failed.
+      let attemptOpen = attemptSpan !== undefined;
+      const endAttempt = (error?: unknown) => {
+        if (attemptSpan && attemptOpen) {
+          attemptOpen = false;
+          if (error !== undefined) {
+            recordSpanError(attemptSpan, error);
+          }
+          attemptSpan.end();
+        }
+      };
       let response: Response;
+      let startedAt: number;
       try {
-        response = await fetch(url, init);
-      } catch (err) {
-        clearTimeout(timeoutId);
-        const delay = this.handleTransportError(err, method, attempt, !allowRetries);
-        if (delay > 0) {
-          await this.sleep(delay);
+        await runBeforeRequest(middleware, context);
+        init.headers = context.headers;
+        this.log?.request(context);
+        startedAt = Date.now();
+        if (this.config.dispatcher !== undefined) {
+          Object.assign(init, { dispatcher: this.config.dispatcher });
         }
-        continue;
+
+        // The internal controller fires on timeout or when the caller's signal
+        // aborts; only the latter stops the retry loop.
+        const controller = new AbortController();
+        const timeoutId = setTimeout(() => controller.abort(), timeout);
+        const onAbort = () => controller.abort(signal?.reason);
+        if (signal?.aborted) {
+          onAbort();
+        } else {
+          signal?.addEventListener('abort', onAbort, { once: true });
+        }
+        init.signal = controller.signal;
+
+        try {
+          response = await fetchFn(context.url, init);
+        } catch (err) {
+          clearTimeout(timeoutId);
+          endAttempt(err);
+          await runOnError(middleware, context, err);
+          if (signal?.aborted) {
+            throw new FoxnoseAbortError(signal.reason);
+          }
+          // SDK errors raised inside fetch (e.g. a cassette mismatch) are not
+          // network failures: they are neither wrapped nor retried.
+          if (err instanceof FoxnoseError) {
+            this.log?.failure(context, err);
+            throw err;
+          }
+          let delay: number;
+          try {
+            delay = this.handleTransportError(err, method, attempt, !allowRetries);
+          } catch (transportError) {
+            this.log?.failure(context, transportError);
+            throw transportError;
+          }
+          this.log?.retry(context, delay, { error: err });
+          if (delay > 0) {
+            await sleep(delay, signal);
+          }
+          continue;
+        } finally {
+          clearTimeout(timeoutId);
+          signal?.removeEventListener('abort', onAbort);
+        }
+
+        response = await runAfterResponse(middleware, context, response);
+        this.log?.response(context, response.status, Date.now() - startedAt);
+        if (attemptSpan) {
+          attemptSpan.setAttribute('http.response.status_code', response.status);
+          if (response.status >= 400) {
+            attemptSpan.setAttribute('error.type', String(response.status));
+            attemptSpan.setStatus?.({ code: SPAN_STATUS_ERROR });
+          }
+        }
+      } catch (err) {
+        endAttempt(err);
+        throw err;
       } finally {
-        clearTimeout(timeoutId);
+        endAttempt();
+      }
+      this.reportClockOffset(response, startedAt);
+
+      if (
+        response.status === 401 &&
+        !reauthenticated &&
+        this.auth.onUnauthorized &&
+        (await this.auth.onUnauthorized(context.headers))
+      ) {
+        // A rejected token never reached the handler, so even writes are
+        // safe to resend. This retry does not count against `attempts`.
+        this.log?.reauthenticate(context);
+        reauthenticated = true;
+        attempt--;
+        continue;
       }
 
       if (response.status >= 400) {
         if (allowRetries && this.shouldRetry(method, response.status) && attempt < this.retry.attempts) {
           const delay = this.computeDelay(attempt, response.headers.get('Retry-After'));
+          this.log?.retry(context, delay, { status: response.status });
           if (delay > 0) {
-            await this.sleep(delay);
+            await sleep(delay, signal);
           }
           continue;
         }
-        await this.raiseAPIError(response);
+        const error = await this.readAPIError(response);
+        this.log?.failure(context, error);
+        await runOnError(middleware, context, error);
+        throw error;
       }
 
       return response;
@@ -208,6 +356,40 @@ export class HttpTransport {
     throw new FoxnoseTransportError('All retry attempts exhausted');
   }
 
+  /**
+   * Estimates the server clock offset from the `Date` header, taking the
+   * server time as the middle of its one-second resolution and the local
+   * time as the middle of the round trip.
+   */
+  private reportClockOffset(response: Response, startedAt: number): void {
+    const date = response.headers.get('Date');
+    const serverTime = date ? Date.parse(date) : NaN;
+    if (!this.auth.onClockOffset || Number.isNaN(serverTime)) {
+      return;
+    }
+    this.auth.onClockOffset(serverTime + 500 - (startedAt + Date.now()) / 2);
+  }
+
+  /** Starts the span of one attempt under the call span and injects its trace context. */
+  private startAttemptSpan(trace: CallTrace, init: RequestInit, url: string): InstrumentationSpan {
+    const attributes: Record<string, string | number> = {
+      'http.request.method': init.method as string,
+      'http.route': trace.route,
+      'url.full': url,
+    };
+    if (trace.attempts > 0) {
+      attributes['http.request.resend_count'] = trace.attempts;
+    }
+    trace.attempts++;
+    const span = trace.instrumentation.startSpan(
+      init.method as string,
+      { kind: 'client', attributes },
+      trace.span,
+    );
+    trace.instrumentation.inject?.(span, init.headers as Record<string, string>);
+    return span;
+  }
+
   private handleTransportError(
     err: unknown,
     method: string,
@@ -225,7 +407,7 @@ export class HttpTransport {
     return this.computeDelay(attempt);
   }
 
-  private async raiseAPIError(response: Response): Promise<never> {
+  private async readAPIError(response: Response): Promise<FoxnoseAPIError> {
     let message = '';
     let errorCode: string | undefined;
     let detail: unknown;
@@ -256,7 +438,7 @@ export class HttpTransport {
       responseHeaders[key] = value;
     });
 
-    throw buildAPIError({
+    return buildAPIError({
       message: message || 'API request failed',
       statusCode: response.status,
       errorCode,
@@ -265,8 +447,27 @@ export class HttpTransport {
       responseBody: body,
     });
   }
+}
 
-  private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
-  }
+/**
+ * Resolves after `ms` milliseconds, or rejects with {@link FoxnoseAbortError}
+ * as soon as `signal` aborts.
+ * @internal
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new FoxnoseAbortError(signal.reason));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new FoxnoseAbortError(signal?.reason));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
 }
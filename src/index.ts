@@ -1,15 +1,43 @@
 // Auth
 export {
   AnonymousAuth,
+  decodeTokenExpiry,
   JWTAuth,
+  KeySigner,
+  RefreshingTokenProvider,
   SecureKeyAuth,
   SimpleKeyAuth,
   StaticTokenProvider,
+  verifySecureSignature,
 } from './auth/index.js';
-export type { AuthStrategy, RequestData, TokenProvider } from './auth/index.js';
+export type {
+  AuthStrategy,
+  PrivateKeyInput,
+  PublicKeyInput,
+  RefreshedToken,
+  RefreshingTokenProviderOptions,
+  RequestData,
+  SecureSignatureFailure,
+  SecureSignatureVerification,
+  SecureSignedRequest,
+  Signer,
+  TokenProvider,
+  VerifySecureSignatureOptions,
+} from './auth/index.js';
+export {
+  createFluxClient,
+  createManagementClient,
+  credentialsAuth,
+  resolveCredentials,
+} from './credentials.js';
+export type {
+  CredentialAuthType,
+  FoxnoseCredentials,
+  ResolveCredentialsOptions,
+} from './credentials.js';
 
 // Config
-export type { FoxnoseConfig, RetryConfig } from './config.js';
+export type { FetchFunction, FoxnoseConfig, RequestOptions, RetryConfig } from './config.js';
 export { createConfig, DEFAULT_RETRY_CONFIG, DEFAULT_USER_AGENT, SDK_VERSION } from './config.js';
 
 // Errors
@@ -18,6 +46,7 @@ export {
   FoxnoseAPIError,
   FoxnoseAuthError,
   FoxnoseTransportError,
+  FoxnoseAbortError,
   SpendCapExceededError,
   PlanExhaustedError,
   PlanLimitExceededError,
@@ -25,18 +54,39 @@ export {
   CollectionNotWritableError,
   ExternalIdConflictError,
   ContentValidationFailedError,
+  LocalValidationError,
   UpstreamError,
+  SchemaDefinitionError,
+  EnvironmentBundleError,
+  BulkDataError,
+  MigrationError,
+  MigrationLockError,
+  BreakingSchemaChangeError,
+  CassetteMismatchError,
 } from './errors.js';
 
 // HTTP Transport
 export { HttpTransport } from './http.js';
+export type { Middleware, MiddlewareContext } from './middleware.js';
+export type { Logger, LoggingOptions, LogLevel } from './logging.js';
+export { openTelemetryInstrumentation } from './tracing.js';
+export type {
+  Instrumentation,
+  InstrumentationSpan,
+  OpenTelemetryApi,
+  SpanAttributeValue,
+  StartSpanOptions,
+} from './tracing.js';
 
 // Management Client
-export { ManagementClient } from './management/index.js';
+export { ManagementClient, PageIterator } from './management/index.js';
 export type {
   ApiFolderOptions,
   ApiFolderRouteDescriptionOptions,
+  BatchUpsertOptions,
   ManagementClientOptions,
+  PageFetcher,
+  PaginateOptions,
 } from './management/index.js';
 
 // Flux Client
@@ -55,6 +105,14 @@ export type {
   VectorBoostConfig,
   HybridConfig,
   SearchRequest,
+  FluxResourceSys,
+  FluxResource,
+  FluxResourceList,
+  FluxSearchResponse,
+  FluxWriteResult,
+  FluxRouteInfo,
+  FluxRouterInfo,
+  FluxSchemaInfo,
 } from './flux/index.js';
 
 // Models
@@ -116,6 +174,7 @@ export type {
   CurrentUsage,
   BatchUpsertItem,
   BatchItemError,
+  BatchItemOutcome,
   BatchUpsertResult,
   // Ref types
   FolderRef,
@@ -136,4 +195,181 @@ export type {
 
 export { resolveKey, nestedFieldMeta } from './management/models.js';
 
+// Field builders
+export {
+  field,
+  FieldBuilder,
+  NestedFieldBuilder,
+  NumberFieldBuilder,
+  ObjectFieldBuilder,
+  ReferenceFieldBuilder,
+  SelectFieldBuilder,
+  TextFieldBuilder,
+  VectorFieldBuilder,
+} from './management/index.js';
+export type { FieldPayload, FieldType } from './management/index.js';
+
+// Schema as code
+export {
+  applySchemaPlan,
+  componentGraph,
+  componentImpact,
+  defineSchema,
+  diffSchemaVersions,
+  formatSchemaPlan,
+  parseSchemaDefinition,
+  planSchema,
+  safePublish,
+  syncComponentDependents,
+} from './schema/index.js';
+export type {
+  AppliedModel,
+  AttributeDiff,
+  BlockingReason,
+  CollectionDefinition,
+  ComponentDefinition,
+  ComponentDependent,
+  ComponentGraph,
+  ComponentGraphOptions,
+  ComponentImpact,
+  ComponentNode,
+  ComponentSyncReport,
+  DependentSyncResult,
+  DiffSchemaVersionsOptions,
+  FieldChange,
+  FieldDefinition,
+  ModelKind,
+  ModelPlan,
+  SafePublishOptions,
+  SafePublishResult,
+  SchemaApplyOptions,
+  SchemaApplyResult,
+  SchemaDefinition,
+  SchemaPlan,
+  SchemaPlanOptions,
+  SchemaVersionDiff,
+  SchemaVersionFieldChange,
+  SyncComponentDependentsOptions,
+} from './schema/index.js';
+
+// Code generation
+export {
+  generateFluxTypes,
+  introspectFlux,
+  renderFluxTypes,
+  schemaToType,
+} from './codegen/index.js';
+export type { FluxCodegenOptions, FluxIntrospection, FluxRouteSchema } from './codegen/index.js';
+
+// Environments
+export {
+  ENVIRONMENT_BUNDLE_VERSION,
+  diffEnvironments,
+  exportEnvironment,
+  formatEnvironmentDiff,
+  importEnvironment,
+  parseEnvironmentBundle,
+} from './environment/index.js';
+export type {
+  ApiDiff,
+  BundleApi,
+  BundleApiCollection,
+  BundleCollection,
+  BundleComponent,
+  BundleField,
+  BundleLocale,
+  BundleRole,
+  BundleSchemaVersion,
+  DiffStatus,
+  EnvironmentBundle,
+  EnvironmentDiff,
+  EnvironmentDiffOptions,
+  EnvironmentKeyMap,
+  ExportEnvironmentOptions,
+  FieldDiff,
+  FormatEnvironmentDiffOptions,
+  ImportEnvironmentOptions,
+  ImportEnvironmentResult,
+  LocaleDiff,
+  ModelDiff,
+  RouteDiff,
+  ValueDiff,
+} from './environment/index.js';
+
+// Bulk import and export
+export {
+  exportResources,
+  exportResourcesToFile,
+  FileCheckpoint,
+  importResources,
+  readCsv,
+  readJsonl,
+  restoreResources,
+} from './bulk/index.js';
+export type {
+  ExportedResource,
+  ExportedRevision,
+  ExportResourcesOptions,
+  ExportResourcesToFileOptions,
+  ExportResult,
+  ImportCheckpoint,
+  ImportProgress,
+  ImportResourcesOptions,
+  ReadCsvOptions,
+  ReadJsonlOptions,
+  TextSource,
+} from './bulk/index.js';
+
+// Migrations
+export {
+  CollectionMigrationStore,
+  FileMigrationStore,
+  loadMigrations,
+  migrate,
+  migrationStatus,
+  rollbackMigrations,
+  transformResources,
+} from './migrations/index.js';
+export type {
+  AppliedMigration,
+  CollectionMigrationStoreOptions,
+  LoadMigrationsOptions,
+  MigrateOptions,
+  Migration,
+  MigrationLock,
+  MigrationRunOptions,
+  MigrationStatus,
+  MigrationStore,
+  ResourceTransform,
+  RollbackOptions,
+  TransformResourcesOptions,
+  TransformResourcesResult,
+} from './migrations/index.js';
+
+// Content validation
+export {
+  ContentValidator,
+  fluxSchemaSource,
+  managementSchemaSource,
+  validateJsonSchema,
+} from './validation/index.js';
+export type {
+  ContentValidationIssue,
+  ContentValidatorOptions,
+  SchemaSource,
+} from './validation/index.js';
+
+// Testing
+export { FakeFoxnoseServer } from './testing/index.js';
+export type { FakeFailure, FakeFoxnoseServerOptions, FakeRequestRecord } from './testing/index.js';
+export { Cassette } from './testing/index.js';
+export type {
+  CassetteBody,
+  CassetteInteraction,
+  CassetteMode,
+  CassetteOptions,
+} from './testing/index.js';
+export { FakeSigner } from './testing/index.js';
+export type { FakeSignerOptions } from './testing/index.js';
+
 export { SDK_VERSION as VERSION } from './config.js';
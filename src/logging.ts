@@ -0,0 +1,274 @@
+/**
+ * Request logging run by {@link HttpTransport}, with secrets redacted before
+ * anything reaches the logger.
+ */
+
+import type { MiddlewareContext } from './middleware.js';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Receives log records as a message plus structured fields. `console`
+ * satisfies it, as do winston-style loggers.
+ */
+export interface Logger {
+  debug(message: string, fields?: Record<string, unknown>): void;
+  info(message: string, fields?: Record<string, unknown>): void;
+  warn(message: string, fields?: Record<string, unknown>): void;
+  error(message: string, fields?: Record<string, unknown>): void;
+}
+
+export interface LoggingOptions {
+  /** Defaults to `console`. */
+  logger?: Logger;
+  /**
+   * Lowest level logged. `debug` logs every attempt and response, `info`
+   * re-authentication, `warn` retries with their backoff delay and `error`
+   * failed calls. Defaults to `info`.
+   */
+  level?: LogLevel | 'silent';
+  /**
+   * Extra body field names to redact, on top of `secret_key`, `private_key`,
+   * `password`, `token`, `access_token` and `refresh_token`. Matched at any
+   * depth, ignoring case.
+   */
+  redactFields?: string[];
+  /**
+   * Also log each attempt as a `curl` command through `logger.debug`,
+   * whatever the level. Credentials are redacted, so add them back to replay
+   * it.
+   */
+  curl?: boolean;
+}
+
+const LEVELS: Record<LogLevel | 'silent', number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: 50,
+};
+
+const REDACTED = '[REDACTED]';
+
+const SECRET_HEADERS = new Set(['authorization', 'proxy-authorization', 'cookie', 'set-cookie']);
+
+const SECRET_FIELDS = [
+  'secret_key',
+  'private_key',
+  'password',
+  'token',
+  'access_token',
+  'refresh_token',
+];
+
+const PRIVATE_KEY_PATTERN =
+  /-----BEGIN ([A-Z ]*)PRIVATE KEY-----[\s\S]*?(?:-----END \1PRIVATE KEY-----|$)/g;
+
+/**
+ * Replaces PEM private key blocks in `text`.
+ * @internal
+ */
+export function redactPrivateKeys(text: string): string {
+  return text.replace(PRIVATE_KEY_PATTERN, '[REDACTED PRIVATE KEY]');
+}
+
+/**
+ * Copies `headers` with credentials redacted. `Authorization` keeps its
+ * scheme (`Simple`, `Secure`, `Bearer`) so the auth method stays visible.
+ * @internal
+ */
+export function redactHeaders(headers: Record<string, string>): Record<string, string> {
+  const redacted: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    const lower = name.toLowerCase();
+    if (lower === 'authorization' || lower === 'proxy-authorization') {
+      const scheme = /^(\S+)\s+\S/.exec(value)?.[1];
+      redacted[name] = scheme ? `${scheme} ${REDACTED}` : REDACTED;
+    } else {
+      redacted[name] = SECRET_HEADERS.has(lower) ? REDACTED : value;
+    }
+  }
+  return redacted;
+}
+
+/**
+ * Copies a decoded JSON value with the values of `fields` (lower case)
+ * and any private keys redacted.
+ * @internal
+ */
+export function redactValue(value: unknown, fields: ReadonlySet<string>): unknown {
+  if (typeof value === 'string') {
+    return redactPrivateKeys(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redactValue(item, fields));
+  }
+  if (value && typeof value === 'object') {
+    const redacted: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      redacted[key] = fields.has(key.toLowerCase()) ? REDACTED : redactValue(item, fields);
+    }
+    return redacted;
+  }
+  return value;
+}
+
+/**
+ * Formats a request as a shell-quoted `curl` command.
+ * @internal
+ */
+export function formatCurl(
+  method: string,
+  url: string,
+  headers: Record<string, string>,
+  body?: string,
+): string {
+  const quote = (text: string) => `'${text.replace(/'/g, `'\\''`)}'`;
+  const parts = ['curl'];
+  if (method !== 'GET') {
+    parts.push('-X', method);
+  }
+  parts.push(quote(url));
+  for (const [name, value] of Object.entries(headers)) {
+    parts.push('-H', quote(`${name}: ${value}`));
+  }
+  if (body !== undefined) {
+    parts.push('--data-raw', quote(body));
+  }
+  return parts.join(' ');
+}
+
+/**
+ * Writes the transport's log records at the configured level, redacting
+ * headers, bodies and error messages.
+ * @internal
+ */
+export class RequestLogger {
+  private readonly logger: Logger;
+  private readonly level: number;
+  private readonly fields: ReadonlySet<string>;
+  private readonly curl: boolean;
+
+  constructor(options: LoggingOptions) {
+    this.logger = options.logger ?? console;
+    this.level = LEVELS[options.level ?? 'info'];
+    this.fields = new Set(
+      [...SECRET_FIELDS, ...(options.redactFields ?? [])].map((field) => field.toLowerCase()),
+    );
+    this.curl = options.curl ?? false;
+  }
+
+  /** Logs an attempt about to be sent. */
+  request(context: MiddlewareContext): void {
+    const debug = this.enabled('debug');
+    if (!debug && !this.curl) {
+      return;
+    }
+    const headers = redactHeaders(context.headers);
+    const body = this.redactBody(context);
+    if (debug) {
+      this.logger.debug('FoxNose request', {
+        method: context.method,
+        url: context.url,
+        attempt: context.attempt,
+        headers,
+        body,
+      });
+    }
+    if (this.curl) {
+      const data =
+        body === undefined ? undefined : typeof body === 'string' ? body : JSON.stringify(body);
+      this.logger.debug(formatCurl(context.method, context.url, headers, data));
+    }
+  }
+
+  /** Logs the response to an attempt. */
+  response(context: MiddlewareContext, status: number, durationMs: number): void {
+    if (this.enabled('debug')) {
+      this.logger.debug('FoxNose response', {
+        method: context.method,
+        url: context.url,
+        attempt: context.attempt,
+        status,
+        durationMs,
+      });
+    }
+  }
+
+  /** Logs an attempt resent with refreshed credentials after a 401. */
+  reauthenticate(context: MiddlewareContext): void {
+    if (this.enabled('info')) {
+      this.logger.info('FoxNose re-authenticating', {
+        method: context.method,
+        url: context.url,
+        attempt: context.attempt,
+      });
+    }
+  }
+
+  /** Logs a failed attempt that will be retried after `delayMs`. */
+  retry(
+    context: MiddlewareContext,
+    delayMs: number,
+    reason: { status: number } | { error: unknown },
+  ): void {
+    if (this.enabled('warn')) {
+      this.logger.warn('FoxNose retry', {
+        method: context.method,
+        url: context.url,
+        attempt: context.attempt,
+        ...('status' in reason ? { status: reason.status } : this.describe(reason.error)),
+        delayMs: Math.round(delayMs),
+      });
+    }
+  }
+
+  /** Logs the error a call fails with. */
+  failure(context: MiddlewareContext, error: unknown): void {
+    if (this.enabled('error')) {
+      this.logger.error('FoxNose request failed', {
+        method: context.method,
+        url: context.url,
+        attempt: context.attempt,
+        ...this.describe(error),
+      });
+    }
+  }
+
+  private enabled(level: LogLevel): boolean {
+    return LEVELS[level] >= this.level;
+  }
+
+  private describe(error: unknown): Record<string, unknown> {
+    const { statusCode, errorCode } = (error ?? {}) as {
+      statusCode?: unknown;
+      errorCode?: unknown;
+    };
+    return {
+      ...(typeof statusCode === 'number' ? { status: statusCode } : {}),
+      ...(typeof errorCode === 'string' ? { errorCode } : {}),
+      error: redactPrivateKeys(error instanceof Error ? error.message : String(error)),
+    };
+  }
+
+  /** The body as redacted JSON or text, or a byte count for binary content. */
+  private redactBody(context: MiddlewareContext): unknown {
+    if (context.body.length === 0) {
+      return undefined;
+    }
+    const contentType =
+      Object.entries(context.headers).find(
+        ([name]) => name.toLowerCase() === 'content-type',
+      )?.[1] ?? '';
+    if (!/json|^text\//.test(contentType)) {
+      return `[${context.body.length} bytes]`;
+    }
+    const text = new TextDecoder().decode(context.body);
+    try {
+      return redactValue(JSON.parse(text), this.fields);
+    } catch {
+      return redactPrivateKeys(text);
+    }
+  }
+}
@@ -0,0 +1,302 @@
+import type { RequestOptions } from '../config.js';
+import { callOptions } from '../config.js';
+import {
+  FoxnoseAbortError,
+  FoxnoseAPIError,
+  FoxnoseTransportError,
+  RateLimitExceededError,
+} from '../errors.js';
+import { sleep } from '../http.js';
+import type { ManagementClient } from './client.js';
+import type { BatchItemOutcome, BatchUpsertItem, ResourceSummary } from './models.js';
+import { managementPaths } from './paths.js';
+
+export interface BatchUpsertOptions extends RequestOptions {
+  /** Upper bound on concurrent requests. Defaults to 5. */
+  maxConcurrency?: number;
+  /** Stop starting new items after the first item fails for good and rethrow its error. */
+  failFast?: boolean;
+  /** Called each time an item finishes, successfully or not. */
+  onProgress?: (completed: number, total: number) => void;
+  /**
+   * Retries per item after a retryable failure: rate limiting (429), server
+   * errors (5xx) and network errors. Defaults to 3.
+   */
+  maxRetries?: number;
+  /**
+   * Multiplier, in seconds, for the exponential backoff between retries of
+   * an item. A 429 with `Retry-After` waits that long instead. Defaults to 0.5.
+   */
+  backoffFactor?: number;
+  /**
+   * Halve the concurrency on every 429 and grow it back by one after a run
+   * of successes. Defaults to `true`.
+   */
+  adaptiveConcurrency?: boolean;
+}
+
+function isRateLimited(err: unknown): boolean {
+  return err instanceof FoxnoseAPIError && err.statusCode === 429;
+}
+
+/** Whether a failed upsert is worth retrying. */
+function isRetryable(err: unknown): boolean {
+  if (err instanceof FoxnoseAbortError) {
+    return false;
+  }
+  if (err instanceof FoxnoseAPIError) {
+    return isRateLimited(err) || err.statusCode >= 500;
+  }
+  return err instanceof FoxnoseTransportError;
+}
+
+function retryDelay(err: unknown, attempt: number, backoffFactor: number): number {
+  if (err instanceof RateLimitExceededError && err.retryAfter !== undefined) {
+    return err.retryAfter * 1000;
+  }
+  const base = backoffFactor * Math.pow(2, attempt - 1) * 1000;
+  return base * (0.5 + Math.random() * 0.5);
+}
+
+/**
+ * Concurrency limit that halves on rate limiting and recovers by one slot
+ * once as many items as the current limit have succeeded in a row.
+ */
+class ConcurrencyLimit {
+  current: number;
+  private streak = 0;
+
+  constructor(
+    private readonly max: number,
+    private readonly adaptive: boolean,
+  ) {
+    this.current = max;
+  }
+
+  rateLimited(): void {
+    if (this.adaptive) {
+      this.current = Math.max(1, Math.floor(this.current / 2));
+      this.streak = 0;
+    }
+  }
+
+  succeeded(): void {
+    if (this.adaptive && this.current < this.max && ++this.streak >= this.current) {
+      this.current += 1;
+      this.streak = 0;
+    }
+  }
+}
+
+/** Options of {@link runUpsertPool}. @internal */
+export type UpsertPoolOptions = Omit<BatchUpsertOptions, 'onProgress'> & {
+  /** Checks each item as it is pulled, before it takes a slot; a rejection fails the item. */
+  validate?: (item: BatchUpsertItem) => Promise<void>;
+};
+
+/**
+ * Upserts items pulled from `source` through a sliding worker pool: a new
+ * item is pulled as soon as a slot frees up, so one slow item never holds
+ * back the others and only in-flight items are held in memory. An item that
+ * fails with a retryable error gives up its slot while it waits and is
+ * retried ahead of items not yet started. `onOutcome` receives each item's
+ * final outcome as it completes; `index` is the item's position in `source`.
+ *
+ * Rejects with the first failure under `failFast`, with
+ * {@link FoxnoseAbortError} when `signal` aborts, or with the error thrown by
+ * `source`, after in-flight items settle.
+ *
+ * @internal
+ */
+export async function runUpsertPool(
+  source: Iterator<BatchUpsertItem> | AsyncIterator<BatchUpsertItem>,
+  upsert: (item: BatchUpsertItem) => Promise<ResourceSummary>,
+  options: UpsertPoolOptions,
+  onOutcome: (outcome: BatchItemOutcome) => void,
+): Promise<void> {
+  const maxConcurrency = options.maxConcurrency ?? 5;
+  if (maxConcurrency < 1) {
+    throw new Error('maxConcurrency must be at least 1');
+  }
+  const maxRetries = options.maxRetries ?? 3;
+  const backoffFactor = options.backoffFactor ?? 0.5;
+  const limit = new ConcurrencyLimit(maxConcurrency, options.adaptiveConcurrency ?? true);
+  const signal = options.signal;
+  // Cancels pending retry delays once the pool stops early.
+  const stop = new AbortController();
+
+  const inFlight = new Map<number, { item: BatchUpsertItem; attempts: number }>();
+  const ready: number[] = [];
+  const pending = new Set<Promise<void>>();
+  let pulled = 0;
+  let exhausted = false;
+  let active = 0;
+  let fatal: { error: unknown } | null = null;
+
+  const halt = (error: unknown) => {
+    if (!fatal) {
+      fatal = { error };
+      stop.abort();
+    }
+  };
+  const track = (promise: Promise<void>) => {
+    const task = promise.finally(() => pending.delete(task));
+    pending.add(task);
+  };
+  // An error thrown by `onOutcome` (and the callbacks behind it) stops the
+  // pool and is rethrown; it says nothing about the item itself.
+  const finish = (outcome: BatchItemOutcome) => {
+    inFlight.delete(outcome.index);
+    try {
+      onOutcome(outcome);
+    } catch (err) {
+      halt(err);
+    }
+  };
+  const fail = (index: number, error: unknown) => {
+    const { item, attempts } = inFlight.get(index)!;
+    finish({
+      index,
+      external_id: item.external_id,
+      status: 'failed',
+      error: error instanceof Error ? error : new Error(String(error)),
+      attempts,
+    });
+    if (options.failFast || error instanceof FoxnoseAbortError) {
+      halt(error);
+    }
+  };
+
+  const attempt = async (index: number): Promise<void> => {
+    const entry = inFlight.get(index)!;
+    active++;
+    entry.attempts++;
+    let resource: ResourceSummary;
+    try {
+      resource = await upsert(entry.item);
+    } catch (err) {
+      if (isRateLimited(err)) {
+        limit.rateLimited();
+      }
+      if (entry.attempts > maxRetries || !isRetryable(err) || fatal) {
+        fail(index, err);
+        return;
+      }
+      track(
+        sleep(retryDelay(err, entry.attempts, backoffFactor), stop.signal).then(
+          () => {
+            ready.push(index);
+          },
+          () => fail(index, err),
+        ),
+      );
+      return;
+    } finally {
+      active--;
+    }
+    limit.succeeded();
+    finish({
+      index,
+      external_id: entry.item.external_id,
+      status: 'succeeded',
+      resource,
+      attempts: entry.attempts,
+    });
+  };
+
+  const onAbort = () => stop.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+  try {
+    while (!fatal) {
+      if (signal?.aborted) {
+        halt(new FoxnoseAbortError(signal.reason));
+        break;
+      }
+      if (active < limit.current && ready.length > 0) {
+        track(attempt(ready.shift()!));
+        continue;
+      }
+      if (active < limit.current && !exhausted) {
+        let result: IteratorResult<BatchUpsertItem>;
+        try {
+          result = await source.next();
+        } catch (err) {
+          halt(err);
+          break;
+        }
+        if (result.done) {
+          exhausted = true;
+        } else {
+          const index = pulled++;
+          inFlight.set(index, { item: result.value, attempts: 0 });
+          try {
+            await options.validate?.(result.value);
+          } catch (err) {
+            fail(index, err);
+            continue;
+          }
+          track(attempt(index));
+        }
+        continue;
+      }
+      if (pending.size === 0) {
+        break;
+      }
+      await Promise.race(pending);
+    }
+    await Promise.all(pending);
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+    // Close a source left unfinished, e.g. a file stream, when stopping early.
+    if (!exhausted) {
+      await source.return?.();
+    }
+  }
+
+  if (fatal) {
+    throw (fatal as { error: unknown }).error;
+  }
+}
+
+/**
+ * Upserts one item of a batch with a single request. The pool retries
+ * failed items itself, so transport retries are turned off to keep its
+ * attempt counts and 429 backoff accurate.
+ *
+ * @internal Used by {@link ManagementClient.batchUpsertResources} and `importResources`.
+ */
+export function upsertBatchItem(
+  client: ManagementClient,
+  collection: string,
+  item: BatchUpsertItem,
+  options?: RequestOptions,
+): Promise<ResourceSummary> {
+  const path = `${managementPaths(client.environmentKey).resourceBase(collection)}/`;
+  return client.request('PUT', path, {
+    params: { external_id: item.external_id },
+    jsonBody: item.payload,
+    allowRetries: false,
+    ...callOptions(options),
+  });
+}
+
+/**
+ * Runs {@link runUpsertPool} over an array and returns the outcomes in input
+ * order.
+ *
+ * @internal Used by {@link ManagementClient.batchUpsertResources}.
+ */
+export async function runBatchUpsert(
+  items: BatchUpsertItem[],
+  upsert: (item: BatchUpsertItem) => Promise<ResourceSummary>,
+  options: BatchUpsertOptions & Pick<UpsertPoolOptions, 'validate'> = {},
+): Promise<BatchItemOutcome[]> {
+  const outcomes: BatchItemOutcome[] = new Array(items.length);
+  let completed = 0;
+  await runUpsertPool(items[Symbol.iterator](), upsert, options, (outcome) => {
+    outcomes[outcome.index] = outcome;
+    completed++;
+    options.onProgress?.(completed, items.length);
+  });
+  return outcomes;
+}
@@ -1,7 +1,12 @@
 import type { AuthStrategy } from '../auth/types.js';
-import type { RetryConfig } from '../config.js';
-import { createConfig } from '../config.js';
+import type { FetchFunction, RequestOptions, RetryConfig } from '../config.js';
+import { callOptions, createConfig } from '../config.js';
 import { HttpTransport } from '../http.js';
+import type { LoggingOptions } from '../logging.js';
+import type { Middleware } from '../middleware.js';
+import type { Instrumentation } from '../tracing.js';
+import { ContentValidator, managementSchemaSource } from '../validation/validator.js';
+import type { ContentValidatorOptions } from '../validation/validator.js';
 import { warnDeprecatedMethod } from '../_deprecation.js';
 import type {
   APICollectionList,
@@ -65,7 +70,12 @@ import type {
   SyncComponentResponse,
 } from './models.js';
 import { resolveKey } from './models.js';
-import { managementPaths } from './paths.js';
+import { runBatchUpsert, upsertBatchItem } from './batch.js';
+import { FieldBuilder } from './fields.js';
+import type { BatchUpsertOptions } from './batch.js';
+import { nextPagePath, PageIterator } from './pagination.js';
+import type { PaginateOptions } from './pagination.js';
+import { managementPaths, managementRouteTemplate } from './paths.js';
 import type { ManagementPaths } from './paths.js';
 
 export interface ManagementClientOptions {
@@ -75,6 +85,24 @@ export interface ManagementClientOptions {
   timeout?: number;
   retryConfig?: RetryConfig;
   defaultHeaders?: Record<string, string>;
+  /** Custom `fetch` implementation used instead of the global one. */
+  fetch?: FetchFunction;
+  /** Request/response hooks run around every attempt. */
+  middleware?: Middleware[];
+  /** Undici dispatcher forwarded to `fetch` (e.g. a `ProxyAgent`). */
+  dispatcher?: unknown;
+  /** Tracing hooks, e.g. {@link openTelemetryInstrumentation}. */
+  instrumentation?: Instrumentation;
+  /** Logs requests, retries and errors with credentials redacted. */
+  logging?: LoggingOptions;
+  /**
+   * Validate `data` against the collection's published JSON Schema before
+   * `createResource`, `upsertResource` and `createRevision`, throwing
+   * {@link LocalValidationError} without sending the request.
+   * `batchUpsertResources` reports invalid items as failed instead. Pass
+   * options to set how long schemas are cached.
+   */
+  validateContent?: boolean | ContentValidatorOptions;
 }
 
 export interface ApiFolderRouteDescriptionOptions {
@@ -95,8 +123,12 @@ export interface ApiFolderOptions extends ApiFolderRouteDescriptionOptions {
  */
 export class ManagementClient {
   readonly environmentKey: string;
+  /** Validator used before writes, when `validateContent` is set. */
+  readonly contentValidator: ContentValidator | null;
   private readonly transport: HttpTransport;
   private readonly paths: ManagementPaths;
+  private readonly routeOf: ((path: string) => string) | null;
+  private readonly baseUrl: string;
 
   constructor(options: ManagementClientOptions) {
     if (!options.environmentKey) {
@@ -107,6 +139,11 @@ export class ManagementClient {
       baseUrl: options.baseUrl ?? 'https://api.foxnose.net',
       timeout: options.timeout,
       defaultHeaders: options.defaultHeaders,
+      fetch: options.fetch,
+      middleware: options.middleware,
+      dispatcher: options.dispatcher,
+      instrumentation: options.instrumentation,
+      logging: options.logging,
     });
     this.transport = new HttpTransport({
       config,
@@ -114,6 +151,14 @@ export class ManagementClient {
       retryConfig: options.retryConfig,
     });
     this.paths = managementPaths(options.environmentKey);
+    this.routeOf = options.instrumentation ? managementRouteTemplate() : null;
+    this.baseUrl = config.baseUrl;
+    this.contentValidator = options.validateContent
+      ? new ContentValidator(
+          managementSchemaSource(this),
+          options.validateContent === true ? {} : options.validateContent,
+        )
+      : null;
   }
 
   /**
@@ -127,15 +172,66 @@ export class ManagementClient {
       jsonBody?: any;
       headers?: Record<string, string>;
       parseJson?: boolean;
+      /** Set to `false` to send the request once, without transport retries. */
+      allowRetries?: boolean;
+      signal?: AbortSignal;
+      timeout?: number;
     },
   ): Promise<any> {
-    return this.transport.request(method, path, options);
+    return this.transport.request(method, path, { ...options, route: this.routeOf?.(path) });
   }
 
   close(): void {
     this.transport.close();
   }
 
+  /**
+   * Creates a field from a payload or builder. The child fields of an
+   * `object` builder are created after it, parents first; the summary of
+   * the top-level field is returned.
+   */
+  private async createFields(
+    path: string,
+    payload: Record<string, any> | FieldBuilder,
+    options?: RequestOptions,
+  ): Promise<FieldSummary> {
+    const [first, ...children] = payload instanceof FieldBuilder ? payload.flatten() : [payload];
+    const created = await this.request('POST', path, {
+      jsonBody: first,
+      ...callOptions(options),
+    });
+    for (const child of children) {
+      await this.request('POST', path, { jsonBody: child, ...callOptions(options) });
+    }
+    return created;
+  }
+
+  /**
+   * Builds a {@link PageIterator} for a list endpoint. The first request
+   * carries `params` (plus `limit` when `pageSize` is set); later requests
+   * follow the server's `next` links verbatim.
+   */
+  private paginate<T>(
+    path: string,
+    params?: Record<string, any>,
+    options?: PaginateOptions,
+  ): PageIterator<T> {
+    if (options?.pageSize !== undefined && options.pageSize < 1) {
+      throw new Error('pageSize must be at least 1');
+    }
+    const firstParams: Record<string, any> = { ...params };
+    if (options?.pageSize !== undefined) {
+      firstParams.limit = options.pageSize;
+    }
+    return new PageIterator<T>(
+      (next) =>
+        next === null
+          ? this.request('GET', path, { params: firstParams, ...callOptions(options) })
+          : this.request('GET', nextPagePath(next, this.baseUrl), callOptions(options)),
+      { maxItems: options?.maxItems },
+    );
+  }
+
   private normalizeListPayload<T>(payload: unknown): T[] {
     if (Array.isArray(payload)) {
       return payload as T[];
@@ -179,81 +275,119 @@ export class ManagementClient {
   // Organization operations
   // ------------------------------------------------------------------ //
 
-  async listOrganizations(): Promise<OrganizationList> {
-    const payload = (await this.request('GET', '/organizations/')) ?? [];
+  async listOrganizations(options?: RequestOptions): Promise<OrganizationList> {
+    const payload = (await this.request('GET', '/organizations/', callOptions(options))) ?? [];
     return Array.isArray(payload) ? payload : [payload];
   }
 
-  async getOrganization(orgKey: OrgRef): Promise<OrganizationSummary> {
+  async getOrganization(orgKey: OrgRef, options?: RequestOptions): Promise<OrganizationSummary> {
     const key = resolveKey(orgKey);
-    return this.request('GET', `${this.paths.orgRoot(key)}/`);
+    return this.request('GET', `${this.paths.orgRoot(key)}/`, callOptions(options));
   }
 
   async updateOrganization(
     orgKey: OrgRef,
     payload: Record<string, any>,
+    options?: RequestOptions,
   ): Promise<OrganizationSummary> {
     const key = resolveKey(orgKey);
-    return this.request('PUT', `${this.paths.orgRoot(key)}/`, { jsonBody: payload });
+    return this.request('PUT', `${this.paths.orgRoot(key)}/`, {
+      jsonBody: payload,
+      ...callOptions(options),
+    });
   }
 
-  async listRegions(): Promise<RegionInfo[]> {
-    const payload = (await this.request('GET', '/regions/')) ?? [];
+  async listRegions(options?: RequestOptions): Promise<RegionInfo[]> {
+    const payload = (await this.request('GET', '/regions/', callOptions(options))) ?? [];
     return Array.isArray(payload) ? payload : [payload];
   }
 
-  async getAvailablePlans(): Promise<OrganizationPlanStatus> {
-    return this.request('GET', '/plans/');
+  async getAvailablePlans(options?: RequestOptions): Promise<OrganizationPlanStatus> {
+    return this.request('GET', '/plans/', callOptions(options));
   }
 
-  async getOrganizationPlan(orgKey: OrgRef): Promise<OrganizationPlanStatus> {
+  async getOrganizationPlan(
+    orgKey: OrgRef,
+    options?: RequestOptions,
+  ): Promise<OrganizationPlanStatus> {
     const key = resolveKey(orgKey);
-    return this.request('GET', `${this.paths.orgRoot(key)}/plan/`);
+    return this.request('GET', `${this.paths.orgRoot(key)}/plan/`, callOptions(options));
   }
 
-  async setOrganizationPlan(orgKey: OrgRef, planCode: string): Promise<OrganizationPlanStatus> {
+  async setOrganizationPlan(
+    orgKey: OrgRef,
+    planCode: string,
+    options?: RequestOptions,
+  ): Promise<OrganizationPlanStatus> {
     const key = resolveKey(orgKey);
-    return this.request('POST', `${this.paths.orgRoot(key)}/plan/${planCode}/`);
+    return this.request(
+      'POST',
+      `${this.paths.orgRoot(key)}/plan/${planCode}/`,
+      callOptions(options),
+    );
   }
 
-  async getOrganizationUsage(orgKey: OrgRef): Promise<OrganizationUsage> {
+  async getOrganizationUsage(orgKey: OrgRef, options?: RequestOptions): Promise<OrganizationUsage> {
     const key = resolveKey(orgKey);
-    return this.request('GET', `${this.paths.orgRoot(key)}/usage/`);
+    return this.request('GET', `${this.paths.orgRoot(key)}/usage/`, callOptions(options));
   }
 
   // ------------------------------------------------------------------ //
   // Management API key operations
   // ------------------------------------------------------------------ //
 
-  async listManagementApiKeys(params?: Record<string, any>): Promise<ManagementAPIKeyList> {
-    return this.request('GET', `${this.paths.managementApiKeysRoot()}/`, { params });
+  async listManagementApiKeys(
+    params?: Record<string, any>,
+    options?: RequestOptions,
+  ): Promise<ManagementAPIKeyList> {
+    return this.request('GET', `${this.paths.managementApiKeysRoot()}/`, {
+      params,
+      ...callOptions(options),
+    });
+  }
+
+  iterateManagementApiKeys(
+    params?: Record<string, any>,
+    options?: PaginateOptions,
+  ): PageIterator<ManagementAPIKeySummary> {
+    return this.paginate(`${this.paths.managementApiKeysRoot()}/`, params, options);
   }
 
-  async createManagementApiKey(payload: Record<string, any>): Promise<ManagementAPIKeySummary> {
+  async createManagementApiKey(
+    payload: Record<string, any>,
+    options?: RequestOptions,
+  ): Promise<ManagementAPIKeySummary> {
     return this.request('POST', `${this.paths.managementApiKeysRoot()}/`, {
       jsonBody: payload,
+      ...callOptions(options),
     });
   }
 
-  async getManagementApiKey(key: ManagementAPIKeyRef): Promise<ManagementAPIKeySummary> {
+  async getManagementApiKey(
+    key: ManagementAPIKeyRef,
+    options?: RequestOptions,
+  ): Promise<ManagementAPIKeySummary> {
     const k = resolveKey(key);
-    return this.request('GET', `${this.paths.managementApiKeyRoot(k)}/`);
+    return this.request('GET', `${this.paths.managementApiKeyRoot(k)}/`, callOptions(options));
   }
 
   async updateManagementApiKey(
     key: ManagementAPIKeyRef,
     payload: Record<string, any>,
+    options?: RequestOptions,
   ): Promise<ManagementAPIKeySummary> {
     const k = resolveKey(key);
     return this.request('PUT', `${this.paths.managementApiKeyRoot(k)}/`, {
       jsonBody: payload,
+      ...callOptions(options),
     });
   }
 
-  async deleteManagementApiKey(key: ManagementAPIKeyRef): Promise<void> {
+  async deleteManagementApiKey(key: ManagementAPIKeyRef, options?: RequestOptions): Promise<void> {
     const k = resolveKey(key);
     await this.request('DELETE', `${this.paths.managementApiKeyRoot(k)}/`, {
       parseJson: false,
+      ...callOptions(options),
     });
   }
 
@@ -261,57 +395,100 @@ export class ManagementClient {
   // Flux API key operations
   // ------------------------------------------------------------------ //
 
-  async listFluxApiKeys(params?: Record<string, any>): Promise<FluxAPIKeyList> {
-    return this.request('GET', `${this.paths.fluxApiKeysRoot()}/`, { params });
+  async listFluxApiKeys(
+    params?: Record<string, any>,
+    options?: RequestOptions,
+  ): Promise<FluxAPIKeyList> {
+    return this.request('GET', `${this.paths.fluxApiKeysRoot()}/`, {
+      params,
+      ...callOptions(options),
+    });
+  }
+
+  iterateFluxApiKeys(
+    params?: Record<string, any>,
+    options?: PaginateOptions,
+  ): PageIterator<FluxAPIKeySummary> {
+    return this.paginate(`${this.paths.fluxApiKeysRoot()}/`, params, options);
   }
 
-  async createFluxApiKey(payload: Record<string, any>): Promise<FluxAPIKeySummary> {
-    return this.request('POST', `${this.paths.fluxApiKeysRoot()}/`, { jsonBody: payload });
+  async createFluxApiKey(
+    payload: Record<string, any>,
+    options?: RequestOptions,
+  ): Promise<FluxAPIKeySummary> {
+    return this.request('POST', `${this.paths.fluxApiKeysRoot()}/`, {
+      jsonBody: payload,
+      ...callOptions(options),
+    });
   }
 
-  async getFluxApiKey(key: FluxAPIKeyRef): Promise<FluxAPIKeySummary> {
+  async getFluxApiKey(key: FluxAPIKeyRef, options?: RequestOptions): Promise<FluxAPIKeySummary> {
     const k = resolveKey(key);
-    return this.request('GET', `${this.paths.fluxApiKeyRoot(k)}/`);
+    return this.request('GET', `${this.paths.fluxApiKeyRoot(k)}/`, callOptions(options));
   }
 
   async updateFluxApiKey(
     key: FluxAPIKeyRef,
     payload: Record<string, any>,
+    options?: RequestOptions,
   ): Promise<FluxAPIKeySummary> {
     const k = resolveKey(key);
-    return this.request('PUT', `${this.paths.fluxApiKeyRoot(k)}/`, { jsonBody: payload });
+    return this.request('PUT', `${this.paths.fluxApiKeyRoot(k)}/`, {
+      jsonBody: payload,
+      ...callOptions(options),
+    });
   }
 
-  async deleteFluxApiKey(key: FluxAPIKeyRef): Promise<void> {
+  async deleteFluxApiKey(key: FluxAPIKeyRef, options?: RequestOptions): Promise<void> {
     const k = resolveKey(key);
-    await this.request('DELETE', `${this.paths.fluxApiKeyRoot(k)}/`, { parseJson: false });
+    await this.request('DELETE', `${this.paths.fluxApiKeyRoot(k)}/`, {
+      parseJson: false,
+      ...callOptions(options),
+    });
   }
 
   // ------------------------------------------------------------------ //
   // API management operations
   // ------------------------------------------------------------------ //
 
-  async listApis(params?: Record<string, any>): Promise<APIList> {
-    return this.request('GET', `${this.paths.apisRoot()}/`, { params });
+  async listApis(params?: Record<string, any>, options?: RequestOptions): Promise<APIList> {
+    return this.request('GET', `${this.paths.apisRoot()}/`, { params, ...callOptions(options) });
   }
 
-  async createApi(payload: Record<string, any>): Promise<APIInfo> {
-    return this.request('POST', `${this.paths.apisRoot()}/`, { jsonBody: payload });
+  iterateApis(params?: Record<string, any>, options?: PaginateOptions): PageIterator<APIInfo> {
+    return this.paginate(`${this.paths.apisRoot()}/`, params, options);
   }
 
-  async getApi(apiKey: APIRef): Promise<APIInfo> {
+  async createApi(payload: Record<string, any>, options?: RequestOptions): Promise<APIInfo> {
+    return this.request('POST', `${this.paths.apisRoot()}/`, {
+      jsonBody: payload,
+      ...callOptions(options),
+    });
+  }
+
+  async getApi(apiKey: APIRef, options?: RequestOptions): Promise<APIInfo> {
     const key = resolveKey(apiKey);
-    return this.request('GET', `${this.paths.apiRoot(key)}/`);
+    return this.request('GET', `${this.paths.apiRoot(key)}/`, callOptions(options));
   }
 
-  async updateApi(apiKey: APIRef, payload: Record<string, any>): Promise<APIInfo> {
+  async updateApi(
+    apiKey: APIRef,
+    payload: Record<string, any>,
+    options?: RequestOptions,
+  ): Promise<APIInfo> {
     const key = resolveKey(apiKey);
-    return this.request('PUT', `${this.paths.apiRoot(key)}/`, { jsonBody: payload });
+    return this.request('PUT', `${this.paths.apiRoot(key)}/`, {
+      jsonBody: payload,
+      ...callOptions(options),
+    });
   }
 
-  async deleteApi(apiKey: APIRef): Promise<void> {
+  async deleteApi(apiKey: APIRef, options?: RequestOptions): Promise<void> {
     const key = resolveKey(apiKey);
-    await this.request('DELETE', `${this.paths.apiRoot(key)}/`, { parseJson: false });
+    await this.request('DELETE', `${this.paths.apiRoot(key)}/`, {
+      parseJson: false,
+      ...callOptions(options),
+    });
   }
 
   // ------------------------------------------------------------------ //
@@ -321,15 +498,28 @@ export class ManagementClient {
   async listApiCollections(
     apiKey: APIRef,
     params?: Record<string, any>,
+    options?: RequestOptions,
   ): Promise<APICollectionList> {
     const key = resolveKey(apiKey);
-    return this.request('GET', `${this.paths.apiCollectionsRoot(key)}/`, { params });
+    return this.request('GET', `${this.paths.apiCollectionsRoot(key)}/`, {
+      params,
+      ...callOptions(options),
+    });
+  }
+
+  iterateApiCollections(
+    apiKey: APIRef,
+    params?: Record<string, any>,
+    options?: PaginateOptions,
+  ): PageIterator<APICollectionSummary> {
+    const key = resolveKey(apiKey);
+    return this.paginate(`${this.paths.apiCollectionsRoot(key)}/`, params, options);
   }
 
   async addApiCollection(
     apiKey: APIRef,
     collectionKey: CollectionRef,
-    options?: ApiFolderOptions,
+    options?: ApiFolderOptions & RequestOptions,
   ): Promise<APICollectionSummary> {
     const aKey = resolveKey(apiKey);
     const cKey = resolveKey(collectionKey);
@@ -352,22 +542,28 @@ export class ManagementClient {
     }
     return this.request('POST', `${this.paths.apiCollectionsRoot(aKey)}/`, {
       jsonBody: body,
+      ...callOptions(options),
     });
   }
 
   async getApiCollection(
     apiKey: APIRef,
     collectionKey: CollectionRef,
+    options?: RequestOptions,
   ): Promise<APICollectionSummary> {
     const aKey = resolveKey(apiKey);
     const cKey = resolveKey(collectionKey);
-    return this.request('GET', `${this.paths.apiCollectionsRoot(aKey)}/${cKey}/`);
+    return this.request(
+      'GET',
+      `${this.paths.apiCollectionsRoot(aKey)}/${cKey}/`,
+      callOptions(options),
+    );
   }
 
   async updateApiCollection(
     apiKey: APIRef,
     collectionKey: CollectionRef,
-    options?: ApiFolderOptions,
+    options?: ApiFolderOptions & RequestOptions,
   ): Promise<APICollectionSummary> {
     const aKey = resolveKey(apiKey);
     const cKey = resolveKey(collectionKey);
@@ -389,20 +585,21 @@ export class ManagementClient {
     }
     return this.request('PUT', `${this.paths.apiCollectionsRoot(aKey)}/${cKey}/`, {
       jsonBody: body,
+      ...callOptions(options),
     });
   }
 
   async removeApiCollection(
     apiKey: APIRef,
     collectionKey: CollectionRef,
+    options?: RequestOptions,
   ): Promise<void> {
     const aKey = resolveKey(apiKey);
     const cKey = resolveKey(collectionKey);
-    await this.request(
-      'DELETE',
-      `${this.paths.apiCollectionsRoot(aKey)}/${cKey}/`,
-      { parseJson: false },
-    );
+    await this.request('DELETE', `${this.paths.apiCollectionsRoot(aKey)}/${cKey}/`, {
+      parseJson: false,
+      ...callOptions(options),
+    });
   }
 
   // ------------------------------------------------------------------ //
@@ -410,17 +607,24 @@ export class ManagementClient {
   // ------------------------------------------------------------------ //
 
   /** @deprecated Use {@link listApiCollections} instead. */
-  async listApiFolders(apiKey: APIRef, params?: Record<string, any>): Promise<APIFolderList> {
+  async listApiFolders(
+    apiKey: APIRef,
+    params?: Record<string, any>,
+    options?: RequestOptions,
+  ): Promise<APIFolderList> {
     warnDeprecatedMethod('listApiFolders', 'listApiCollections');
     const key = resolveKey(apiKey);
-    return this.request('GET', `${this.paths.apiFoldersRoot(key)}/`, { params });
+    return this.request('GET', `${this.paths.apiFoldersRoot(key)}/`, {
+      params,
+      ...callOptions(options),
+    });
   }
 
   /** @deprecated Use {@link addApiCollection} instead. */
   async addApiFolder(
     apiKey: APIRef,
     folderKey: FolderRef,
-    options?: ApiFolderOptions,
+    options?: ApiFolderOptions & RequestOptions,
   ): Promise<APIFolderSummary> {
     warnDeprecatedMethod('addApiFolder', 'addApiCollection');
     const aKey = resolveKey(apiKey);
@@ -441,22 +645,29 @@ export class ManagementClient {
     if (options?.descriptionSchema !== undefined) {
       body.description_schema = options.descriptionSchema;
     }
-    return this.request('POST', `${this.paths.apiFoldersRoot(aKey)}/`, { jsonBody: body });
+    return this.request('POST', `${this.paths.apiFoldersRoot(aKey)}/`, {
+      jsonBody: body,
+      ...callOptions(options),
+    });
   }
 
   /** @deprecated Use {@link getApiCollection} instead. */
-  async getApiFolder(apiKey: APIRef, folderKey: FolderRef): Promise<APIFolderSummary> {
+  async getApiFolder(
+    apiKey: APIRef,
+    folderKey: FolderRef,
+    options?: RequestOptions,
+  ): Promise<APIFolderSummary> {
     warnDeprecatedMethod('getApiFolder', 'getApiCollection');
     const aKey = resolveKey(apiKey);
     const fKey = resolveKey(folderKey);
-    return this.request('GET', `${this.paths.apiFoldersRoot(aKey)}/${fKey}/`);
+    return this.request('GET', `${this.paths.apiFoldersRoot(aKey)}/${fKey}/`, callOptions(options));
   }
 
   /** @deprecated Use {@link updateApiCollection} instead. */
   async updateApiFolder(
     apiKey: APIRef,
     folderKey: FolderRef,
-    options?: ApiFolderOptions,
+    options?: ApiFolderOptions & RequestOptions,
   ): Promise<APIFolderSummary> {
     warnDeprecatedMethod('updateApiFolder', 'updateApiCollection');
     const aKey = resolveKey(apiKey);
@@ -479,16 +690,22 @@ export class ManagementClient {
     }
     return this.request('PUT', `${this.paths.apiFoldersRoot(aKey)}/${fKey}/`, {
       jsonBody: body,
+      ...callOptions(options),
     });
   }
 
   /** @deprecated Use {@link removeApiCollection} instead. */
-  async removeApiFolder(apiKey: APIRef, folderKey: FolderRef): Promise<void> {
+  async removeApiFolder(
+    apiKey: APIRef,
+    folderKey: FolderRef,
+    options?: RequestOptions,
+  ): Promise<void> {
     warnDeprecatedMethod('removeApiFolder', 'removeApiCollection');
     const aKey = resolveKey(apiKey);
     const fKey = resolveKey(folderKey);
     await this.request('DELETE', `${this.paths.apiFoldersRoot(aKey)}/${fKey}/`, {
       parseJson: false,
+      ...callOptions(options),
     });
   }
 
@@ -496,74 +713,111 @@ export class ManagementClient {
   // Management role operations
   // ------------------------------------------------------------------ //
 
-  async listManagementRoles(params?: Record<string, any>): Promise<ManagementRoleList> {
-    return this.request('GET', `${this.paths.managementRolesRoot()}/`, { params });
+  async listManagementRoles(
+    params?: Record<string, any>,
+    options?: RequestOptions,
+  ): Promise<ManagementRoleList> {
+    return this.request('GET', `${this.paths.managementRolesRoot()}/`, {
+      params,
+      ...callOptions(options),
+    });
   }
 
-  async createManagementRole(payload: Record<string, any>): Promise<ManagementRoleSummary> {
+  iterateManagementRoles(
+    params?: Record<string, any>,
+    options?: PaginateOptions,
+  ): PageIterator<ManagementRoleSummary> {
+    return this.paginate(`${this.paths.managementRolesRoot()}/`, params, options);
+  }
+
+  async createManagementRole(
+    payload: Record<string, any>,
+    options?: RequestOptions,
+  ): Promise<ManagementRoleSummary> {
     return this.request('POST', `${this.paths.managementRolesRoot()}/`, {
       jsonBody: payload,
+      ...callOptions(options),
     });
   }
 
-  async getManagementRole(roleKey: ManagementRoleRef): Promise<ManagementRoleSummary> {
+  async getManagementRole(
+    roleKey: ManagementRoleRef,
+    options?: RequestOptions,
+  ): Promise<ManagementRoleSummary> {
     const key = resolveKey(roleKey);
-    return this.request('GET', `${this.paths.managementRoleRoot(key)}/`);
+    return this.request('GET', `${this.paths.managementRoleRoot(key)}/`, callOptions(options));
   }
 
   async updateManagementRole(
     roleKey: ManagementRoleRef,
     payload: Record<string, any>,
+    options?: RequestOptions,
   ): Promise<ManagementRoleSummary> {
     const key = resolveKey(roleKey);
     return this.request('PUT', `${this.paths.managementRoleRoot(key)}/`, {
       jsonBody: payload,
+      ...callOptions(options),
     });
   }
 
-  async deleteManagementRole(roleKey: ManagementRoleRef): Promise<void> {
+  async deleteManagementRole(roleKey: ManagementRoleRef, options?: RequestOptions): Promise<void> {
     const key = resolveKey(roleKey);
     await this.request('DELETE', `${this.paths.managementRoleRoot(key)}/`, {
       parseJson: false,
+      ...callOptions(options),
     });
   }
 
   // Management role permissions
 
-  async listManagementRolePermissions(roleKey: ManagementRoleRef): Promise<RolePermission[]> {
+  async listManagementRolePermissions(
+    roleKey: ManagementRoleRef,
+    options?: RequestOptions,
+  ): Promise<RolePermission[]> {
     const key = resolveKey(roleKey);
-    const payload = (await this.request('GET', `${this.paths.rolePermissionsRoot(key)}/`)) ?? [];
+    const payload =
+      (await this.request(
+        'GET',
+        `${this.paths.rolePermissionsRoot(key)}/`,
+        callOptions(options),
+      )) ?? [];
     return Array.isArray(payload) ? payload : [payload];
   }
 
   async upsertManagementRolePermission(
     roleKey: ManagementRoleRef,
     payload: Record<string, any>,
+    options?: RequestOptions,
   ): Promise<RolePermission> {
     const key = resolveKey(roleKey);
     return this.request('POST', `${this.paths.rolePermissionsRoot(key)}/`, {
       jsonBody: payload,
+      ...callOptions(options),
     });
   }
 
   async deleteManagementRolePermission(
     roleKey: ManagementRoleRef,
     contentType: string,
+    options?: RequestOptions,
   ): Promise<void> {
     const key = resolveKey(roleKey);
     await this.request('DELETE', `${this.paths.rolePermissionsRoot(key)}/`, {
       params: { content_type: contentType },
       parseJson: false,
+      ...callOptions(options),
     });
   }
 
   async replaceManagementRolePermissions(
     roleKey: ManagementRoleRef,
     permissions: Array<Record<string, any>>,
+    options?: RequestOptions,
   ): Promise<RolePermission[]> {
     const key = resolveKey(roleKey);
     const payload = await this.request('POST', `${this.paths.rolePermissionsBatch(key)}/`, {
       jsonBody: permissions,
+      ...callOptions(options),
     });
     return Array.isArray(payload) ? payload : [];
   }
@@ -573,10 +827,12 @@ export class ManagementClient {
   async listManagementPermissionObjects(
     roleKey: ManagementRoleRef,
     contentType: string,
+    options?: RequestOptions,
   ): Promise<RolePermissionObject[]> {
     const key = resolveKey(roleKey);
     const payload = await this.request('GET', `${this.paths.rolePermissionObjectsRoot(key)}/`, {
       params: { content_type: contentType },
+      ...callOptions(options),
     });
     return this.normalizePermissionObjectListPayload(payload);
   }
@@ -584,10 +840,12 @@ export class ManagementClient {
   async addManagementPermissionObject(
     roleKey: ManagementRoleRef,
     payload: Record<string, any>,
+    options?: RequestOptions,
   ): Promise<RolePermissionObject> {
     const key = resolveKey(roleKey);
     const data = await this.request('POST', `${this.paths.rolePermissionObjectsRoot(key)}/`, {
       jsonBody: payload,
+      ...callOptions(options),
     });
     return this.normalizePermissionObjectPayload(data, payload);
   }
@@ -595,11 +853,13 @@ export class ManagementClient {
   async deleteManagementPermissionObject(
     roleKey: ManagementRoleRef,
     payload: Record<string, any>,
+    options?: RequestOptions,
   ): Promise<void> {
     const key = resolveKey(roleKey);
     await this.request('DELETE', `${this.paths.rolePermissionObjectsRoot(key)}/`, {
       jsonBody: payload,
       parseJson: false,
+      ...callOptions(options),
     });
   }
 
@@ -607,66 +867,108 @@ export class ManagementClient {
   // Flux role operations
   // ------------------------------------------------------------------ //
 
-  async listFluxRoles(params?: Record<string, any>): Promise<FluxRoleList> {
-    return this.request('GET', `${this.paths.fluxRolesRoot()}/`, { params });
+  async listFluxRoles(
+    params?: Record<string, any>,
+    options?: RequestOptions,
+  ): Promise<FluxRoleList> {
+    return this.request('GET', `${this.paths.fluxRolesRoot()}/`, {
+      params,
+      ...callOptions(options),
+    });
+  }
+
+  iterateFluxRoles(
+    params?: Record<string, any>,
+    options?: PaginateOptions,
+  ): PageIterator<FluxRoleSummary> {
+    return this.paginate(`${this.paths.fluxRolesRoot()}/`, params, options);
   }
 
-  async createFluxRole(payload: Record<string, any>): Promise<FluxRoleSummary> {
-    return this.request('POST', `${this.paths.fluxRolesRoot()}/`, { jsonBody: payload });
+  async createFluxRole(
+    payload: Record<string, any>,
+    options?: RequestOptions,
+  ): Promise<FluxRoleSummary> {
+    return this.request('POST', `${this.paths.fluxRolesRoot()}/`, {
+      jsonBody: payload,
+      ...callOptions(options),
+    });
   }
 
-  async getFluxRole(roleKey: FluxRoleRef): Promise<FluxRoleSummary> {
+  async getFluxRole(roleKey: FluxRoleRef, options?: RequestOptions): Promise<FluxRoleSummary> {
     const key = resolveKey(roleKey);
-    return this.request('GET', `${this.paths.fluxRoleRoot(key)}/`);
+    return this.request('GET', `${this.paths.fluxRoleRoot(key)}/`, callOptions(options));
   }
 
   async updateFluxRole(
     roleKey: FluxRoleRef,
     payload: Record<string, any>,
+    options?: RequestOptions,
   ): Promise<FluxRoleSummary> {
     const key = resolveKey(roleKey);
-    return this.request('PUT', `${this.paths.fluxRoleRoot(key)}/`, { jsonBody: payload });
+    return this.request('PUT', `${this.paths.fluxRoleRoot(key)}/`, {
+      jsonBody: payload,
+      ...callOptions(options),
+    });
   }
 
-  async deleteFluxRole(roleKey: FluxRoleRef): Promise<void> {
+  async deleteFluxRole(roleKey: FluxRoleRef, options?: RequestOptions): Promise<void> {
     const key = resolveKey(roleKey);
-    await this.request('DELETE', `${this.paths.fluxRoleRoot(key)}/`, { parseJson: false });
+    await this.request('DELETE', `${this.paths.fluxRoleRoot(key)}/`, {
+      parseJson: false,
+      ...callOptions(options),
+    });
   }
 
   // Flux role permissions
 
-  async listFluxRolePermissions(roleKey: FluxRoleRef): Promise<RolePermission[]> {
+  async listFluxRolePermissions(
+    roleKey: FluxRoleRef,
+    options?: RequestOptions,
+  ): Promise<RolePermission[]> {
     const key = resolveKey(roleKey);
     const payload =
-      (await this.request('GET', `${this.paths.fluxRolePermissionsRoot(key)}/`)) ?? [];
+      (await this.request(
+        'GET',
+        `${this.paths.fluxRolePermissionsRoot(key)}/`,
+        callOptions(options),
+      )) ?? [];
     return Array.isArray(payload) ? payload : [payload];
   }
 
   async upsertFluxRolePermission(
     roleKey: FluxRoleRef,
     payload: Record<string, any>,
+    options?: RequestOptions,
   ): Promise<RolePermission> {
     const key = resolveKey(roleKey);
     return this.request('POST', `${this.paths.fluxRolePermissionsRoot(key)}/`, {
       jsonBody: payload,
+      ...callOptions(options),
     });
   }
 
-  async deleteFluxRolePermission(roleKey: FluxRoleRef, contentType: string): Promise<void> {
+  async deleteFluxRolePermission(
+    roleKey: FluxRoleRef,
+    contentType: string,
+    options?: RequestOptions,
+  ): Promise<void> {
     const key = resolveKey(roleKey);
     await this.request('DELETE', `${this.paths.fluxRolePermissionsRoot(key)}/`, {
       params: { content_type: contentType },
       parseJson: false,
+      ...callOptions(options),
     });
   }
 
   async replaceFluxRolePermissions(
     roleKey: FluxRoleRef,
     permissions: Array<Record<string, any>>,
+    options?: RequestOptions,
   ): Promise<RolePermission[]> {
     const key = resolveKey(roleKey);
     const payload = await this.request('POST', `${this.paths.fluxRolePermissionsBatch(key)}/`, {
       jsonBody: permissions,
+      ...callOptions(options),
     });
     return Array.isArray(payload) ? payload : [];
   }
@@ -676,10 +978,12 @@ export class ManagementClient {
   async listFluxPermissionObjects(
     roleKey: FluxRoleRef,
     contentType: string,
+    options?: RequestOptions,
   ): Promise<RolePermissionObject[]> {
     const key = resolveKey(roleKey);
     const payload = await this.request('GET', `${this.paths.fluxRolePermissionObjectsRoot(key)}/`, {
       params: { content_type: contentType },
+      ...callOptions(options),
     });
     return this.normalizePermissionObjectListPayload(payload);
   }
@@ -687,10 +991,12 @@ export class ManagementClient {
   async addFluxPermissionObject(
     roleKey: FluxRoleRef,
     payload: Record<string, any>,
+    options?: RequestOptions,
   ): Promise<RolePermissionObject> {
     const key = resolveKey(roleKey);
     const data = await this.request('POST', `${this.paths.fluxRolePermissionObjectsRoot(key)}/`, {
       jsonBody: payload,
+      ...callOptions(options),
     });
     return this.normalizePermissionObjectPayload(data, payload);
   }
@@ -698,11 +1004,13 @@ export class ManagementClient {
   async deleteFluxPermissionObject(
     roleKey: FluxRoleRef,
     payload: Record<string, any>,
+    options?: RequestOptions,
   ): Promise<void> {
     const key = resolveKey(roleKey);
     await this.request('DELETE', `${this.paths.fluxRolePermissionObjectsRoot(key)}/`, {
       jsonBody: payload,
       parseJson: false,
+      ...callOptions(options),
     });
   }
 
@@ -710,54 +1018,82 @@ export class ManagementClient {
   // Collection operations (canonical)
   // ------------------------------------------------------------------ //
 
-  async listCollections(params?: Record<string, any>): Promise<CollectionList> {
-    return this.request('GET', `${this.paths.collectionsTreeRoot()}/`, { params });
+  async listCollections(
+    params?: Record<string, any>,
+    options?: RequestOptions,
+  ): Promise<CollectionList> {
+    return this.request('GET', `${this.paths.collectionsTreeRoot()}/`, {
+      params,
+      ...callOptions(options),
+    });
+  }
+
+  iterateCollections(
+    params?: Record<string, any>,
+    options?: PaginateOptions,
+  ): PageIterator<CollectionSummary> {
+    return this.paginate(`${this.paths.collectionsTreeRoot()}/`, params, options);
   }
 
-  async getCollection(collectionKey: CollectionRef): Promise<CollectionSummary> {
+  async getCollection(
+    collectionKey: CollectionRef,
+    options?: RequestOptions,
+  ): Promise<CollectionSummary> {
     const key = resolveKey(collectionKey);
     return this.request('GET', `${this.paths.collectionsTreeItem()}/`, {
       params: { key },
+      ...callOptions(options),
     });
   }
 
-  async getCollectionByPath(path: string): Promise<CollectionSummary> {
+  async getCollectionByPath(path: string, options?: RequestOptions): Promise<CollectionSummary> {
     return this.request('GET', `${this.paths.collectionsTreeItem()}/`, {
       params: { path },
+      ...callOptions(options),
     });
   }
 
   async listCollectionTree(
-    options?: { key?: string; mode?: string },
+    options?: { key?: string; mode?: string } & RequestOptions,
   ): Promise<CollectionList> {
     const params: Record<string, any> = {};
     if (options?.key) params.key = options.key;
     if (options?.mode) params.mode = options.mode;
-    return this.request('GET', `${this.paths.collectionsTreeRoot()}/`, { params });
+    return this.request('GET', `${this.paths.collectionsTreeRoot()}/`, {
+      params,
+      ...callOptions(options),
+    });
   }
 
-  async createCollection(payload: Record<string, any>): Promise<CollectionSummary> {
+  async createCollection(
+    payload: Record<string, any>,
+    options?: RequestOptions,
+  ): Promise<CollectionSummary> {
     return this.request('POST', `${this.paths.collectionsTreeRoot()}/`, {
       jsonBody: payload,
+      ...callOptions(options),
     });
   }
 
   async updateCollection(
     collectionKey: CollectionRef,
     payload: Record<string, any>,
+    options?: RequestOptions,
   ): Promise<CollectionSummary> {
     const key = resolveKey(collectionKey);
     return this.request('PUT', `${this.paths.collectionsTreeItem()}/`, {
       params: { key },
       jsonBody: payload,
+      ...callOptions(options),
     });
   }
 
-  async deleteCollection(collectionKey: CollectionRef): Promise<void> {
+  async deleteCollection(collectionKey: CollectionRef, options?: RequestOptions): Promise<void> {
     const key = resolveKey(collectionKey);
     await this.request('DELETE', `${this.paths.collectionsTreeItem()}/`, {
       params: { key },
       parseJson: false,
+      ...callOptions(options),
     });
   }
 
@@ -768,17 +1104,28 @@ export class ManagementClient {
   async listCollectionVersions(
     collectionKey: CollectionRef,
     params?: Record<string, any>,
+    options?: RequestOptions,
   ): Promise<SchemaVersionList> {
     const key = resolveKey(collectionKey);
     return this.request('GET', `${this.paths.collectionVersionsBase(key)}/`, {
       params,
+      ...callOptions(options),
     });
   }
 
+  iterateCollectionVersions(
+    collectionKey: CollectionRef,
+    params?: Record<string, any>,
+    options?: PaginateOptions,
+  ): PageIterator<SchemaVersionSummary> {
+    const key = resolveKey(collectionKey);
+    return this.paginate(`${this.paths.collectionVersionsBase(key)}/`, params, options);
+  }
+
   async createCollectionVersion(
     collectionKey: CollectionRef,
     payload: Record<string, any>,
-    options?: { copyFrom?: SchemaVersionRef },
+    options?: { copyFrom?: SchemaVersionRef } & RequestOptions,
   ): Promise<SchemaVersionSummary> {
     const key = resolveKey(collectionKey);
     const params: Record<string, any> = {};
@@ -788,13 +1135,14 @@ export class ManagementClient {
     return this.request('POST', `${this.paths.collectionVersionsBase(key)}/`, {
       jsonBody: payload,
       params: Object.keys(params).length > 0 ? params : undefined,
+      ...callOptions(options),
     });
   }
 
   async getCollectionVersion(
     collectionKey: CollectionRef,
     versionKey: SchemaVersionRef,
-    options?: { includeSchema?: boolean },
+    options?: { includeSchema?: boolean } & RequestOptions,
   ): Promise<SchemaVersionSummary> {
     const cKey = resolveKey(collectionKey);
     const vKey = resolveKey(versionKey);
@@ -802,51 +1150,50 @@ export class ManagementClient {
     if (options?.includeSchema !== undefined) {
       params.include_schema = options.includeSchema;
     }
-    return this.request(
-      'GET',
-      `${this.paths.collectionVersionsBase(cKey)}/${vKey}/`,
-      {
-        params: Object.keys(params).length > 0 ? params : undefined,
-      },
-    );
+    return this.request('GET', `${this.paths.collectionVersionsBase(cKey)}/${vKey}/`, {
+      params: Object.keys(params).length > 0 ? params : undefined,
+      ...callOptions(options),
+    });
   }
 
   async updateCollectionVersion(
     collectionKey: CollectionRef,
     versionKey: SchemaVersionRef,
     payload: Record<string, any>,
+    options?: RequestOptions,
   ): Promise<SchemaVersionSummary> {
     const cKey = resolveKey(collectionKey);
     const vKey = resolveKey(versionKey);
-    return this.request(
-      'PUT',
-      `${this.paths.collectionVersionsBase(cKey)}/${vKey}/`,
-      { jsonBody: payload },
-    );
+    return this.request('PUT', `${this.paths.collectionVersionsBase(cKey)}/${vKey}/`, {
+      jsonBody: payload,
+      ...callOptions(options),
+    });
   }
 
   async deleteCollectionVersion(
     collectionKey: CollectionRef,
     versionKey: SchemaVersionRef,
+    options?: RequestOptions,
   ): Promise<void> {
     const cKey = resolveKey(collectionKey);
     const vKey = resolveKey(versionKey);
-    await this.request(
-      'DELETE',
-      `${this.paths.collectionVersionsBase(cKey)}/${vKey}/`,
-      { parseJson: false },
-    );
+    await this.request('DELETE', `${this.paths.collectionVersionsBase(cKey)}/${vKey}/`, {
+      parseJson: false,
+      ...callOptions(options),
+    });
   }
 
   async publishCollectionVersion(
     collectionKey: CollectionRef,
     versionKey: SchemaVersionRef,
+    options?: RequestOptions,
   ): Promise<SchemaVersionSummary> {
     const cKey = resolveKey(collectionKey);
     const vKey = resolveKey(versionKey);
     return this.request(
       'POST',
       `${this.paths.collectionVersionsBase(cKey)}/${vKey}/publish/`,
+      callOptions(options),
     );
   }
 
@@ -898,7 +1245,7 @@ export class ManagementClient {
     options: {
       fieldPaths?: string[];
       toVersions?: Record<string, string>;
-    } = {},
+    } & RequestOptions = {},
   ): Promise<SyncComponentResponse> {
     const cKey = resolveKey(collectionKey);
     // Client-side invariant (mirrors the server validator): every key in
@@ -922,11 +1269,10 @@ export class ManagementClient {
     if (options.toVersions !== undefined) {
       body.to_versions = options.toVersions;
     }
-    return this.request(
-      'POST',
-      `${this.paths.collectionSyncComponent(cKey)}/`,
-      { jsonBody: body },
-    );
+    return this.request('POST', `${this.paths.collectionSyncComponent(cKey)}/`, {
+      jsonBody: body,
+      ...callOptions(options),
+    });
   }
 
   // ------------------------------------------------------------------ //
@@ -937,42 +1283,50 @@ export class ManagementClient {
     collectionKey: CollectionRef,
     versionKey: SchemaVersionRef,
     params?: Record<string, any>,
+    options?: RequestOptions,
   ): Promise<FieldList> {
     const cKey = resolveKey(collectionKey);
     const vKey = resolveKey(versionKey);
-    return this.request(
-      'GET',
-      `${this.paths.collectionSchemaTree(cKey, vKey)}/`,
-      { params },
-    );
+    return this.request('GET', `${this.paths.collectionSchemaTree(cKey, vKey)}/`, {
+      params,
+      ...callOptions(options),
+    });
+  }
+
+  iterateCollectionFields(
+    collectionKey: CollectionRef,
+    versionKey: SchemaVersionRef,
+    params?: Record<string, any>,
+    options?: PaginateOptions,
+  ): PageIterator<FieldSummary> {
+    const cKey = resolveKey(collectionKey);
+    const vKey = resolveKey(versionKey);
+    return this.paginate(`${this.paths.collectionSchemaTree(cKey, vKey)}/`, params, options);
   }
 
   async createCollectionField(
     collectionKey: CollectionRef,
     versionKey: SchemaVersionRef,
-    payload: Record<string, any>,
+    payload: Record<string, any> | FieldBuilder,
+    options?: RequestOptions,
   ): Promise<FieldSummary> {
     const cKey = resolveKey(collectionKey);
     const vKey = resolveKey(versionKey);
-    return this.request(
-      'POST',
-      `${this.paths.collectionSchemaTree(cKey, vKey)}/`,
-      { jsonBody: payload },
-    );
+    return this.createFields(`${this.paths.collectionSchemaTree(cKey, vKey)}/`, payload, options);
   }
 
   async getCollectionField(
     collectionKey: CollectionRef,
     versionKey: SchemaVersionRef,
     fieldPath: string,
+    options?: RequestOptions,
   ): Promise<FieldSummary> {
     const cKey = resolveKey(collectionKey);
     const vKey = resolveKey(versionKey);
-    return this.request(
-      'GET',
-      `${this.paths.collectionSchemaTree(cKey, vKey)}/field/`,
-      { params: { path: fieldPath } },
-    );
+    return this.request('GET', `${this.paths.collectionSchemaTree(cKey, vKey)}/field/`, {
+      params: { path: fieldPath },
+      ...callOptions(options),
+    });
   }
 
   async updateCollectionField(
@@ -980,28 +1334,30 @@ export class ManagementClient {
     versionKey: SchemaVersionRef,
     fieldPath: string,
     payload: Record<string, any>,
+    options?: RequestOptions,
   ): Promise<FieldSummary> {
     const cKey = resolveKey(collectionKey);
     const vKey = resolveKey(versionKey);
-    return this.request(
-      'PUT',
-      `${this.paths.collectionSchemaTree(cKey, vKey)}/field/`,
-      { params: { path: fieldPath }, jsonBody: payload },
-    );
+    return this.request('PUT', `${this.paths.collectionSchemaTree(cKey, vKey)}/field/`, {
+      params: { path: fieldPath },
+      jsonBody: payload,
+      ...callOptions(options),
+    });
   }
 
   async deleteCollectionField(
     collectionKey: CollectionRef,
     versionKey: SchemaVersionRef,
     fieldPath: string,
+    options?: RequestOptions,
   ): Promise<void> {
     const cKey = resolveKey(collectionKey);
     const vKey = resolveKey(versionKey);
-    await this.request(
-      'DELETE',
-      `${this.paths.collectionSchemaTree(cKey, vKey)}/field/`,
-      { params: { path: fieldPath }, parseJson: false },
-    );
+    await this.request('DELETE', `${this.paths.collectionSchemaTree(cKey, vKey)}/field/`, {
+      params: { path: fieldPath },
+      parseJson: false,
+      ...callOptions(options),
+    });
   }
 
   // ------------------------------------------------------------------ //
@@ -1009,60 +1365,82 @@ export class ManagementClient {
   // ------------------------------------------------------------------ //
 
   /** @deprecated Use {@link listCollections} instead. */
-  async listFolders(params?: Record<string, any>): Promise<FolderList> {
+  async listFolders(params?: Record<string, any>, options?: RequestOptions): Promise<FolderList> {
     warnDeprecatedMethod('listFolders', 'listCollections');
-    return this.request('GET', `${this.paths.foldersTreeRoot()}/`, { params });
+    return this.request('GET', `${this.paths.foldersTreeRoot()}/`, {
+      params,
+      ...callOptions(options),
+    });
   }
 
   /** @deprecated Use {@link getCollection} instead. */
-  async getFolder(folderKey: FolderRef): Promise<FolderSummary> {
+  async getFolder(folderKey: FolderRef, options?: RequestOptions): Promise<FolderSummary> {
     warnDeprecatedMethod('getFolder', 'getCollection');
     const key = resolveKey(folderKey);
     return this.request('GET', `${this.paths.foldersTreeItem()}/`, {
       params: { key },
+      ...callOptions(options),
     });
   }
 
   /** @deprecated Use {@link getCollectionByPath} instead. */
-  async getFolderByPath(path: string): Promise<FolderSummary> {
+  async getFolderByPath(path: string, options?: RequestOptions): Promise<FolderSummary> {
     warnDeprecatedMethod('getFolderByPath', 'getCollectionByPath');
     return this.request('GET', `${this.paths.foldersTreeItem()}/`, {
       params: { path },
+      ...callOptions(options),
     });
   }
 
   /** @deprecated Use {@link listCollectionTree} instead. */
-  async listFolderTree(options?: { key?: string; mode?: string }): Promise<FolderList> {
+  async listFolderTree(
+    options?: { key?: string; mode?: string } & RequestOptions,
+  ): Promise<FolderList> {
     warnDeprecatedMethod('listFolderTree', 'listCollectionTree');
     const params: Record<string, any> = {};
     if (options?.key) params.key = options.key;
     if (options?.mode) params.mode = options.mode;
-    return this.request('GET', `${this.paths.foldersTreeRoot()}/`, { params });
+    return this.request('GET', `${this.paths.foldersTreeRoot()}/`, {
+      params,
+      ...callOptions(options),
+    });
   }
 
   /** @deprecated Use {@link createCollection} instead. */
-  async createFolder(payload: Record<string, any>): Promise<FolderSummary> {
+  async createFolder(
+    payload: Record<string, any>,
+    options?: RequestOptions,
+  ): Promise<FolderSummary> {
     warnDeprecatedMethod('createFolder', 'createCollection');
-    return this.request('POST', `${this.paths.foldersTreeRoot()}/`, { jsonBody: payload });
+    return this.request('POST', `${this.paths.foldersTreeRoot()}/`, {
+      jsonBody: payload,
+      ...callOptions(options),
+    });
   }
 
   /** @deprecated Use {@link updateCollection} instead. */
-  async updateFolder(folderKey: FolderRef, payload: Record<string, any>): Promise<FolderSummary> {
+  async updateFolder(
+    folderKey: FolderRef,
+    payload: Record<string, any>,
+    options?: RequestOptions,
+  ): Promise<FolderSummary> {
     warnDeprecatedMethod('updateFolder', 'updateCollection');
     const key = resolveKey(folderKey);
     return this.request('PUT', `${this.paths.foldersTreeItem()}/`, {
       params: { key },
       jsonBody: payload,
+      ...callOptions(options),
     });
   }
 
   /** @deprecated Use {@link deleteCollection} instead. */
-  async deleteFolder(folderKey: FolderRef): Promise<void> {
+  async deleteFolder(folderKey: FolderRef, options?: RequestOptions): Promise<void> {
     warnDeprecatedMethod('deleteFolder', 'deleteCollection');
     const key = resolveKey(folderKey);
     await this.request('DELETE', `${this.paths.foldersTreeItem()}/`, {
       params: { key },
       parseJson: false,
+      ...callOptions(options),
     });
   }
 
@@ -1074,17 +1452,21 @@ export class ManagementClient {
   async listFolderVersions(
     folderKey: FolderRef,
     params?: Record<string, any>,
+    options?: RequestOptions,
   ): Promise<SchemaVersionList> {
     warnDeprecatedMethod('listFolderVersions', 'listCollectionVersions');
     const key = resolveKey(folderKey);
-    return this.request('GET', `${this.paths.folderVersionsBase(key)}/`, { params });
+    return this.request('GET', `${this.paths.folderVersionsBase(key)}/`, {
+      params,
+      ...callOptions(options),
+    });
   }
 
   /** @deprecated Use {@link createCollectionVersion} instead. */
   async createFolderVersion(
     folderKey: FolderRef,
     payload: Record<string, any>,
-    options?: { copyFrom?: SchemaVersionRef },
+    options?: { copyFrom?: SchemaVersionRef } & RequestOptions,
   ): Promise<SchemaVersionSummary> {
     warnDeprecatedMethod('createFolderVersion', 'createCollectionVersion');
     const key = resolveKey(folderKey);
@@ -1095,6 +1477,7 @@ export class ManagementClient {
     return this.request('POST', `${this.paths.folderVersionsBase(key)}/`, {
       jsonBody: payload,
       params: Object.keys(params).length > 0 ? params : undefined,
+      ...callOptions(options),
     });
   }
 
@@ -1102,7 +1485,7 @@ export class ManagementClient {
   async getFolderVersion(
     folderKey: FolderRef,
     versionKey: SchemaVersionRef,
-    options?: { includeSchema?: boolean },
+    options?: { includeSchema?: boolean } & RequestOptions,
   ): Promise<SchemaVersionSummary> {
     warnDeprecatedMethod('getFolderVersion', 'getCollectionVersion');
     const fKey = resolveKey(folderKey);
@@ -1113,6 +1496,7 @@ export class ManagementClient {
     }
     return this.request('GET', `${this.paths.folderVersionsBase(fKey)}/${vKey}/`, {
       params: Object.keys(params).length > 0 ? params : undefined,
+      ...callOptions(options),
     });
   }
 
@@ -1121,22 +1505,29 @@ export class ManagementClient {
     folderKey: FolderRef,
     versionKey: SchemaVersionRef,
     payload: Record<string, any>,
+    options?: RequestOptions,
   ): Promise<SchemaVersionSummary> {
     warnDeprecatedMethod('updateFolderVersion', 'updateCollectionVersion');
     const fKey = resolveKey(folderKey);
     const vKey = resolveKey(versionKey);
     return this.request('PUT', `${this.paths.folderVersionsBase(fKey)}/${vKey}/`, {
       jsonBody: payload,
+      ...callOptions(options),
     });
   }
 
   /** @deprecated Use {@link deleteCollectionVersion} instead. */
-  async deleteFolderVersion(folderKey: FolderRef, versionKey: SchemaVersionRef): Promise<void> {
+  async deleteFolderVersion(
+    folderKey: FolderRef,
+    versionKey: SchemaVersionRef,
+    options?: RequestOptions,
+  ): Promise<void> {
     warnDeprecatedMethod('deleteFolderVersion', 'deleteCollectionVersion');
     const fKey = resolveKey(folderKey);
     const vKey = resolveKey(versionKey);
     await this.request('DELETE', `${this.paths.folderVersionsBase(fKey)}/${vKey}/`, {
       parseJson: false,
+      ...callOptions(options),
     });
   }
 
@@ -1144,11 +1535,16 @@ export class ManagementClient {
   async publishFolderVersion(
     folderKey: FolderRef,
     versionKey: SchemaVersionRef,
+    options?: RequestOptions,
   ): Promise<SchemaVersionSummary> {
     warnDeprecatedMethod('publishFolderVersion', 'publishCollectionVersion');
     const fKey = resolveKey(folderKey);
     const vKey = resolveKey(versionKey);
-    return this.request('POST', `${this.paths.folderVersionsBase(fKey)}/${vKey}/publish/`);
+    return this.request(
+      'POST',
+      `${this.paths.folderVersionsBase(fKey)}/${vKey}/publish/`,
+      callOptions(options),
+    );
   }
 
   // ------------------------------------------------------------------ //
@@ -1160,11 +1556,15 @@ export class ManagementClient {
     folderKey: FolderRef,
     versionKey: SchemaVersionRef,
     params?: Record<string, any>,
+    options?: RequestOptions,
   ): Promise<FieldList> {
     warnDeprecatedMethod('listFolderFields', 'listCollectionFields');
     const fKey = resolveKey(folderKey);
     const vKey = resolveKey(versionKey);
-    return this.request('GET', `${this.paths.folderSchemaTree(fKey, vKey)}/`, { params });
+    return this.request('GET', `${this.paths.folderSchemaTree(fKey, vKey)}/`, {
+      params,
+      ...callOptions(options),
+    });
   }
 
   /** @deprecated Use {@link createCollectionField} instead. */
@@ -1172,12 +1572,14 @@ export class ManagementClient {
     folderKey: FolderRef,
     versionKey: SchemaVersionRef,
     payload: Record<string, any>,
+    options?: RequestOptions,
   ): Promise<FieldSummary> {
     warnDeprecatedMethod('createFolderField', 'createCollectionField');
     const fKey = resolveKey(folderKey);
     const vKey = resolveKey(versionKey);
     return this.request('POST', `${this.paths.folderSchemaTree(fKey, vKey)}/`, {
       jsonBody: payload,
+      ...callOptions(options),
     });
   }
 
@@ -1186,12 +1588,14 @@ export class ManagementClient {
     folderKey: FolderRef,
     versionKey: SchemaVersionRef,
     fieldPath: string,
+    options?: RequestOptions,
   ): Promise<FieldSummary> {
     warnDeprecatedMethod('getFolderField', 'getCollectionField');
     const fKey = resolveKey(folderKey);
     const vKey = resolveKey(versionKey);
     return this.request('GET', `${this.paths.folderSchemaTree(fKey, vKey)}/field/`, {
       params: { path: fieldPath },
+      ...callOptions(options),
     });
   }
 
@@ -1201,6 +1605,7 @@ export class ManagementClient {
     versionKey: SchemaVersionRef,
     fieldPath: string,
     payload: Record<string, any>,
+    options?: RequestOptions,
   ): Promise<FieldSummary> {
     warnDeprecatedMethod('updateFolderField', 'updateCollectionField');
     const fKey = resolveKey(folderKey);
@@ -1208,6 +1613,7 @@ export class ManagementClient {
     return this.request('PUT', `${this.paths.folderSchemaTree(fKey, vKey)}/field/`, {
       params: { path: fieldPath },
       jsonBody: payload,
+      ...callOptions(options),
     });
   }
 
@@ -1216,6 +1622,7 @@ export class ManagementClient {
     folderKey: FolderRef,
     versionKey: SchemaVersionRef,
     fieldPath: string,
+    options?: RequestOptions,
   ): Promise<void> {
     warnDeprecatedMethod('deleteFolderField', 'deleteCollectionField');
     const fKey = resolveKey(folderKey);
@@ -1223,6 +1630,7 @@ export class ManagementClient {
     await this.request('DELETE', `${this.paths.folderSchemaTree(fKey, vKey)}/field/`, {
       params: { path: fieldPath },
       parseJson: false,
+      ...callOptions(options),
     });
   }
 
@@ -1230,30 +1638,59 @@ export class ManagementClient {
   // Component operations
   // ------------------------------------------------------------------ //
 
-  async listComponents(params?: Record<string, any>): Promise<ComponentList> {
-    return this.request('GET', `${this.paths.componentsRoot()}/`, { params });
+  async listComponents(
+    params?: Record<string, any>,
+    options?: RequestOptions,
+  ): Promise<ComponentList> {
+    return this.request('GET', `${this.paths.componentsRoot()}/`, {
+      params,
+      ...callOptions(options),
+    });
+  }
+
+  iterateComponents(
+    params?: Record<string, any>,
+    options?: PaginateOptions,
+  ): PageIterator<ComponentSummary> {
+    return this.paginate(`${this.paths.componentsRoot()}/`, params, options);
   }
 
-  async getComponent(componentKey: ComponentRef): Promise<ComponentSummary> {
+  async getComponent(
+    componentKey: ComponentRef,
+    options?: RequestOptions,
+  ): Promise<ComponentSummary> {
     const key = resolveKey(componentKey);
-    return this.request('GET', `${this.paths.componentRoot(key)}/`);
+    return this.request('GET', `${this.paths.componentRoot(key)}/`, callOptions(options));
   }
 
-  async createComponent(payload: Record<string, any>): Promise<ComponentSummary> {
-    return this.request('POST', `${this.paths.componentsRoot()}/`, { jsonBody: payload });
+  async createComponent(
+    payload: Record<string, any>,
+    options?: RequestOptions,
+  ): Promise<ComponentSummary> {
+    return this.request('POST', `${this.paths.componentsRoot()}/`, {
+      jsonBody: payload,
+      ...callOptions(options),
+    });
   }
 
   async updateComponent(
     componentKey: ComponentRef,
     payload: Record<string, any>,
+    options?: RequestOptions,
   ): Promise<ComponentSummary> {
     const key = resolveKey(componentKey);
-    return this.request('PUT', `${this.paths.componentRoot(key)}/`, { jsonBody: payload });
+    return this.request('PUT', `${this.paths.componentRoot(key)}/`, {
+      jsonBody: payload,
+      ...callOptions(options),
+    });
   }
 
-  async deleteComponent(componentKey: ComponentRef): Promise<void> {
+  async deleteComponent(componentKey: ComponentRef, options?: RequestOptions): Promise<void> {
     const key = resolveKey(componentKey);
-    await this.request('DELETE', `${this.paths.componentRoot(key)}/`, { parseJson: false });
+    await this.request('DELETE', `${this.paths.componentRoot(key)}/`, {
+      parseJson: false,
+      ...callOptions(options),
+    });
   }
 
   // ------------------------------------------------------------------ //
@@ -1263,15 +1700,28 @@ export class ManagementClient {
   async listComponentVersions(
     componentKey: ComponentRef,
     params?: Record<string, any>,
+    options?: RequestOptions,
   ): Promise<SchemaVersionList> {
     const key = resolveKey(componentKey);
-    return this.request('GET', `${this.paths.componentVersionsBase(key)}/`, { params });
+    return this.request('GET', `${this.paths.componentVersionsBase(key)}/`, {
+      params,
+      ...callOptions(options),
+    });
+  }
+
+  iterateComponentVersions(
+    componentKey: ComponentRef,
+    params?: Record<string, any>,
+    options?: PaginateOptions,
+  ): PageIterator<SchemaVersionSummary> {
+    const key = resolveKey(componentKey);
+    return this.paginate(`${this.paths.componentVersionsBase(key)}/`, params, options);
   }
 
   async createComponentVersion(
     componentKey: ComponentRef,
     payload: Record<string, any>,
-    options?: { copyFrom?: SchemaVersionRef },
+    options?: { copyFrom?: SchemaVersionRef } & RequestOptions,
   ): Promise<SchemaVersionSummary> {
     const key = resolveKey(componentKey);
     const params: Record<string, any> = {};
@@ -1281,13 +1731,14 @@ export class ManagementClient {
     return this.request('POST', `${this.paths.componentVersionsBase(key)}/`, {
       jsonBody: payload,
       params: Object.keys(params).length > 0 ? params : undefined,
+      ...callOptions(options),
     });
   }
 
   async getComponentVersion(
     componentKey: ComponentRef,
     versionKey: SchemaVersionRef,
-    options?: { includeSchema?: boolean },
+    options?: { includeSchema?: boolean } & RequestOptions,
   ): Promise<SchemaVersionSummary> {
     const cKey = resolveKey(componentKey);
     const vKey = resolveKey(versionKey);
@@ -1297,38 +1748,48 @@ export class ManagementClient {
     }
     return this.request('GET', `${this.paths.componentVersionsBase(cKey)}/${vKey}/`, {
       params: Object.keys(params).length > 0 ? params : undefined,
+      ...callOptions(options),
     });
   }
 
   async publishComponentVersion(
     componentKey: ComponentRef,
     versionKey: SchemaVersionRef,
+    options?: RequestOptions,
   ): Promise<SchemaVersionSummary> {
     const cKey = resolveKey(componentKey);
     const vKey = resolveKey(versionKey);
-    return this.request('POST', `${this.paths.componentVersionsBase(cKey)}/${vKey}/publish/`);
+    return this.request(
+      'POST',
+      `${this.paths.componentVersionsBase(cKey)}/${vKey}/publish/`,
+      callOptions(options),
+    );
   }
 
   async updateComponentVersion(
     componentKey: ComponentRef,
     versionKey: SchemaVersionRef,
     payload: Record<string, any>,
+    options?: RequestOptions,
   ): Promise<SchemaVersionSummary> {
     const cKey = resolveKey(componentKey);
     const vKey = resolveKey(versionKey);
     return this.request('PUT', `${this.paths.componentVersionsBase(cKey)}/${vKey}/`, {
       jsonBody: payload,
+      ...callOptions(options),
     });
   }
 
   async deleteComponentVersion(
     componentKey: ComponentRef,
     versionKey: SchemaVersionRef,
+    options?: RequestOptions,
   ): Promise<void> {
     const cKey = resolveKey(componentKey);
     const vKey = resolveKey(versionKey);
     await this.request('DELETE', `${this.paths.componentVersionsBase(cKey)}/${vKey}/`, {
       parseJson: false,
+      ...callOptions(options),
     });
   }
 
@@ -1340,33 +1801,49 @@ export class ManagementClient {
     componentKey: ComponentRef,
     versionKey: SchemaVersionRef,
     params?: Record<string, any>,
+    options?: RequestOptions,
   ): Promise<FieldList> {
     const cKey = resolveKey(componentKey);
     const vKey = resolveKey(versionKey);
-    return this.request('GET', `${this.paths.componentSchemaTree(cKey, vKey)}/`, { params });
+    return this.request('GET', `${this.paths.componentSchemaTree(cKey, vKey)}/`, {
+      params,
+      ...callOptions(options),
+    });
+  }
+
+  iterateComponentFields(
+    componentKey: ComponentRef,
+    versionKey: SchemaVersionRef,
+    params?: Record<string, any>,
+    options?: PaginateOptions,
+  ): PageIterator<FieldSummary> {
+    const cKey = resolveKey(componentKey);
+    const vKey = resolveKey(versionKey);
+    return this.paginate(`${this.paths.componentSchemaTree(cKey, vKey)}/`, params, options);
   }
 
   async createComponentField(
     componentKey: ComponentRef,
     versionKey: SchemaVersionRef,
-    payload: Record<string, any>,
+    payload: Record<string, any> | FieldBuilder,
+    options?: RequestOptions,
   ): Promise<FieldSummary> {
     const cKey = resolveKey(componentKey);
     const vKey = resolveKey(versionKey);
-    return this.request('POST', `${this.paths.componentSchemaTree(cKey, vKey)}/`, {
-      jsonBody: payload,
-    });
+    return this.createFields(`${this.paths.componentSchemaTree(cKey, vKey)}/`, payload, options);
   }
 
   async getComponentField(
     componentKey: ComponentRef,
     versionKey: SchemaVersionRef,
     fieldPath: string,
+    options?: RequestOptions,
   ): Promise<FieldSummary> {
     const cKey = resolveKey(componentKey);
     const vKey = resolveKey(versionKey);
     return this.request('GET', `${this.paths.componentSchemaTree(cKey, vKey)}/field/`, {
       params: { path: fieldPath },
+      ...callOptions(options),
     });
   }
 
@@ -1375,12 +1852,14 @@ export class ManagementClient {
     versionKey: SchemaVersionRef,
     fieldPath: string,
     payload: Record<string, any>,
+    options?: RequestOptions,
   ): Promise<FieldSummary> {
     const cKey = resolveKey(componentKey);
     const vKey = resolveKey(versionKey);
     return this.request('PUT', `${this.paths.componentSchemaTree(cKey, vKey)}/field/`, {
       params: { path: fieldPath },
       jsonBody: payload,
+      ...callOptions(options),
     });
   }
 
@@ -1388,12 +1867,14 @@ export class ManagementClient {
     componentKey: ComponentRef,
     versionKey: SchemaVersionRef,
     fieldPath: string,
+    options?: RequestOptions,
   ): Promise<void> {
     const cKey = resolveKey(componentKey);
     const vKey = resolveKey(versionKey);
     await this.request('DELETE', `${this.paths.componentSchemaTree(cKey, vKey)}/field/`, {
       params: { path: fieldPath },
       parseJson: false,
+      ...callOptions(options),
     });
   }
 
@@ -1401,21 +1882,41 @@ export class ManagementClient {
   // Resource operations
   // ------------------------------------------------------------------ //
 
-  async listResources(folderKey: FolderRef, params?: Record<string, any>): Promise<ResourceList> {
+  async listResources(
+    folderKey: FolderRef,
+    params?: Record<string, any>,
+    options?: RequestOptions,
+  ): Promise<ResourceList> {
     const key = resolveKey(folderKey);
-    return this.request('GET', `${this.paths.resourceBase(key)}/`, { params });
+    return this.request('GET', `${this.paths.resourceBase(key)}/`, {
+      params,
+      ...callOptions(options),
+    });
   }
 
-  async getResource(folderKey: FolderRef, resourceKey: ResourceRef): Promise<ResourceSummary> {
+  iterateResources(
+    folderKey: FolderRef,
+    params?: Record<string, any>,
+    options?: PaginateOptions,
+  ): PageIterator<ResourceSummary> {
+    const key = resolveKey(folderKey);
+    return this.paginate(`${this.paths.resourceBase(key)}/`, params, options);
+  }
+
+  async getResource(
+    folderKey: FolderRef,
+    resourceKey: ResourceRef,
+    options?: RequestOptions,
+  ): Promise<ResourceSummary> {
     const fKey = resolveKey(folderKey);
     const rKey = resolveKey(resourceKey);
-    return this.request('GET', `${this.paths.resourceBase(fKey)}/${rKey}/`);
+    return this.request('GET', `${this.paths.resourceBase(fKey)}/${rKey}/`, callOptions(options));
   }
 
   async createResource(
     folderKey: FolderRef,
     payload: Record<string, any>,
-    options?: { externalId?: string },
+    options?: { externalId?: string } & RequestOptions,
   ): Promise<ResourceSummary> {
     // Defensive runtime check: TypeScript callers are protected by the interface
     // but JS callers (or TS callers using `as any`) can still pass `component`.
@@ -1428,19 +1929,21 @@ export class ManagementClient {
       );
     }
     const key = resolveKey(folderKey);
+    await this.contentValidator?.check(key, payload.data, options);
     const body = { ...payload };
     if (options?.externalId) {
       body.external_id = options.externalId;
     }
     return this.request('POST', `${this.paths.resourceBase(key)}/`, {
       jsonBody: body,
+      ...callOptions(options),
     });
   }
 
   async upsertResource(
     folderKey: FolderRef,
     payload: Record<string, any>,
-    options: { externalId: string },
+    options: { externalId: string } & RequestOptions,
   ): Promise<ResourceSummary> {
     // Defensive runtime check: TypeScript callers are protected by the interface
     // but JS callers (or TS callers using `as any`) can still pass `component`.
@@ -1453,21 +1956,26 @@ export class ManagementClient {
       );
     }
     const key = resolveKey(folderKey);
+    await this.contentValidator?.check(key, payload.data, options);
     const params: Record<string, string> = { external_id: options.externalId };
     return this.request('PUT', `${this.paths.resourceBase(key)}/`, {
       params,
       jsonBody: payload,
+      ...callOptions(options),
     });
   }
 
+  /**
+   * Upserts many resources by `external_id` through a sliding worker pool of
+   * up to `maxConcurrency` requests. Items that fail with a rate limit, a
+   * server error or a network error are retried with backoff, and the pool
+   * shrinks on 429 responses and grows back as requests succeed. See
+   * {@link BatchUpsertOptions}.
+   */
   async batchUpsertResources(
     folderKey: FolderRef,
     items: BatchUpsertItem[],
-    options?: {
-      maxConcurrency?: number;
-      failFast?: boolean;
-      onProgress?: (completed: number, total: number) => void;
-    },
+    options?: BatchUpsertOptions,
   ): Promise<BatchUpsertResult> {
     // Defensive runtime check: TypeScript callers are protected by the interface
     // but JS callers (or TS callers using `as any`) can still pass `component`
@@ -1482,90 +1990,71 @@ export class ManagementClient {
       }
     }
     const fKey = resolveKey(folderKey);
-    const maxConcurrency = options?.maxConcurrency ?? 5;
-    if (maxConcurrency < 1) {
-      throw new Error('maxConcurrency must be at least 1');
-    }
-    if (items.length === 0) {
-      return { succeeded: [], failed: [] };
-    }
-    const failFast = options?.failFast ?? false;
-    const onProgress = options?.onProgress;
-
+    const validator = this.contentValidator;
+    const results = await runBatchUpsert(
+      items,
+      (item) => upsertBatchItem(this, fKey, item, options),
+      {
+        ...options,
+        validate: validator
+          ? (item) => validator.check(fKey, item.payload.data, callOptions(options))
+          : undefined,
+      },
+    );
     const succeeded: ResourceSummary[] = [];
     const failed: BatchItemError[] = [];
-    let completed = 0;
-
-    const queue = [...items.entries()];
-
-    const processItem = async (index: number, item: BatchUpsertItem): Promise<void> => {
-      try {
-        const params: Record<string, string> = { external_id: item.external_id };
-        const result: ResourceSummary = await this.request(
-          'PUT',
-          `${this.paths.resourceBase(fKey)}/`,
-          { params, jsonBody: item.payload },
-        );
-        succeeded.push(result);
-      } catch (err) {
-        failed.push({
-          index,
-          external_id: item.external_id,
-          error: err instanceof Error ? err : new Error(String(err)),
-        });
-        if (failFast) {
-          throw err;
-        }
-      } finally {
-        completed++;
-        onProgress?.(completed, items.length);
+    for (const outcome of results) {
+      if (outcome.status === 'succeeded') {
+        succeeded.push(outcome.resource);
+      } else {
+        const { index, external_id, error } = outcome;
+        failed.push({ index, external_id, error });
       }
-    };
-
-    // Process in batches of maxConcurrency
-    let i = 0;
-    while (i < queue.length) {
-      const batch = queue.slice(i, i + maxConcurrency);
-      try {
-        await Promise.all(batch.map(([index, item]) => processItem(index, item)));
-      } catch (err) {
-        if (failFast) throw err;
-      }
-      i += maxConcurrency;
     }
-
-    return { succeeded, failed };
+    return { succeeded, failed, results };
   }
 
   async updateResource(
     folderKey: FolderRef,
     resourceKey: ResourceRef,
     payload: Record<string, any>,
+    options?: RequestOptions,
   ): Promise<ResourceSummary> {
     const fKey = resolveKey(folderKey);
     const rKey = resolveKey(resourceKey);
     await this.request('PUT', `${this.paths.resourceBase(fKey)}/${rKey}/`, {
       jsonBody: payload,
       parseJson: false,
+      ...callOptions(options),
     });
-    return this.getResource(fKey, rKey);
+    return this.getResource(fKey, rKey, options);
   }
 
-  async deleteResource(folderKey: FolderRef, resourceKey: ResourceRef): Promise<void> {
+  async deleteResource(
+    folderKey: FolderRef,
+    resourceKey: ResourceRef,
+    options?: RequestOptions,
+  ): Promise<void> {
     const fKey = resolveKey(folderKey);
     const rKey = resolveKey(resourceKey);
     await this.request('DELETE', `${this.paths.resourceBase(fKey)}/${rKey}/`, {
       parseJson: false,
+      ...callOptions(options),
     });
   }
 
   async getResourceData(
     folderKey: FolderRef,
     resourceKey: ResourceRef,
+    options?: RequestOptions,
   ): Promise<Record<string, any>> {
     const fKey = resolveKey(folderKey);
     const rKey = resolveKey(resourceKey);
-    return this.request('GET', `${this.paths.resourceBase(fKey)}/${rKey}/data/`);
+    return this.request(
+      'GET',
+      `${this.paths.resourceBase(fKey)}/${rKey}/data/`,
+      callOptions(options),
+    );
   }
 
   // ------------------------------------------------------------------ //
@@ -1576,21 +2065,39 @@ export class ManagementClient {
     folderKey: FolderRef,
     resourceKey: ResourceRef,
     params?: Record<string, any>,
+    options?: RequestOptions,
   ): Promise<RevisionList> {
     const fKey = resolveKey(folderKey);
     const rKey = resolveKey(resourceKey);
-    return this.request('GET', `${this.paths.revisionBase(fKey, rKey)}/`, { params });
+    return this.request('GET', `${this.paths.revisionBase(fKey, rKey)}/`, {
+      params,
+      ...callOptions(options),
+    });
+  }
+
+  iterateRevisions(
+    folderKey: FolderRef,
+    resourceKey: ResourceRef,
+    params?: Record<string, any>,
+    options?: PaginateOptions,
+  ): PageIterator<RevisionSummary> {
+    const fKey = resolveKey(folderKey);
+    const rKey = resolveKey(resourceKey);
+    return this.paginate(`${this.paths.revisionBase(fKey, rKey)}/`, params, options);
   }
 
   async createRevision(
     folderKey: FolderRef,
     resourceKey: ResourceRef,
     payload: Record<string, any>,
+    options?: RequestOptions,
   ): Promise<RevisionSummary> {
     const fKey = resolveKey(folderKey);
     const rKey = resolveKey(resourceKey);
+    await this.contentValidator?.check(fKey, payload.data, options);
     return this.request('POST', `${this.paths.revisionBase(fKey, rKey)}/`, {
       jsonBody: payload,
+      ...callOptions(options),
     });
   }
 
@@ -1598,11 +2105,16 @@ export class ManagementClient {
     folderKey: FolderRef,
     resourceKey: ResourceRef,
     revisionKey: RevisionRef,
+    options?: RequestOptions,
   ): Promise<RevisionSummary> {
     const fKey = resolveKey(folderKey);
     const rKey = resolveKey(resourceKey);
     const rvKey = resolveKey(revisionKey);
-    return this.request('GET', `${this.paths.revisionBase(fKey, rKey)}/${rvKey}/`);
+    return this.request(
+      'GET',
+      `${this.paths.revisionBase(fKey, rKey)}/${rvKey}/`,
+      callOptions(options),
+    );
   }
 
   async updateRevision(
@@ -1610,12 +2122,14 @@ export class ManagementClient {
     resourceKey: ResourceRef,
     revisionKey: RevisionRef,
     payload: Record<string, any>,
+    options?: RequestOptions,
   ): Promise<RevisionSummary> {
     const fKey = resolveKey(folderKey);
     const rKey = resolveKey(resourceKey);
     const rvKey = resolveKey(revisionKey);
     return this.request('PUT', `${this.paths.revisionBase(fKey, rKey)}/${rvKey}/`, {
       jsonBody: payload,
+      ...callOptions(options),
     });
   }
 
@@ -1623,12 +2137,14 @@ export class ManagementClient {
     folderKey: FolderRef,
     resourceKey: ResourceRef,
     revisionKey: RevisionRef,
+    options?: RequestOptions,
   ): Promise<void> {
     const fKey = resolveKey(folderKey);
     const rKey = resolveKey(resourceKey);
     const rvKey = resolveKey(revisionKey);
     await this.request('DELETE', `${this.paths.revisionBase(fKey, rKey)}/${rvKey}/`, {
       parseJson: false,
+      ...callOptions(options),
     });
   }
 
@@ -1637,101 +2153,162 @@ export class ManagementClient {
     resourceKey: ResourceRef,
     revisionKey: RevisionRef,
     payload?: Record<string, any>,
+    options?: RequestOptions,
   ): Promise<RevisionSummary> {
     const fKey = resolveKey(folderKey);
     const rKey = resolveKey(resourceKey);
     const rvKey = resolveKey(revisionKey);
-    return this.request(
-      'POST',
-      `${this.paths.revisionBase(fKey, rKey)}/${rvKey}/publish/`,
-      payload ? { jsonBody: payload } : undefined,
-    );
+    return this.request('POST', `${this.paths.revisionBase(fKey, rKey)}/${rvKey}/publish/`, {
+      ...(payload ? { jsonBody: payload } : {}),
+      ...callOptions(options),
+    });
   }
 
   async validateRevision(
     folderKey: FolderRef,
     resourceKey: ResourceRef,
     revisionKey: RevisionRef,
+    options?: RequestOptions,
   ): Promise<Record<string, any>> {
     const fKey = resolveKey(folderKey);
     const rKey = resolveKey(resourceKey);
     const rvKey = resolveKey(revisionKey);
-    return this.request('POST', `${this.paths.revisionBase(fKey, rKey)}/${rvKey}/validate/`);
+    return this.request(
+      'POST',
+      `${this.paths.revisionBase(fKey, rKey)}/${rvKey}/validate/`,
+      callOptions(options),
+    );
   }
 
   async getRevisionData(
     folderKey: FolderRef,
     resourceKey: ResourceRef,
     revisionKey: RevisionRef,
+    options?: RequestOptions,
   ): Promise<Record<string, any>> {
     const fKey = resolveKey(folderKey);
     const rKey = resolveKey(resourceKey);
     const rvKey = resolveKey(revisionKey);
-    return this.request('GET', `${this.paths.revisionBase(fKey, rKey)}/${rvKey}/data/`);
+    return this.request(
+      'GET',
+      `${this.paths.revisionBase(fKey, rKey)}/${rvKey}/data/`,
+      callOptions(options),
+    );
   }
 
   // ------------------------------------------------------------------ //
   // Locale operations
   // ------------------------------------------------------------------ //
 
-  async listLocales(): Promise<LocaleList> {
-    const payload = (await this.request('GET', `${this.paths.localesRoot()}/`)) ?? [];
+  async listLocales(options?: RequestOptions): Promise<LocaleList> {
+    const payload =
+      (await this.request('GET', `${this.paths.localesRoot()}/`, callOptions(options))) ?? [];
     return Array.isArray(payload) ? payload : [payload];
   }
 
-  async createLocale(payload: Record<string, any>): Promise<LocaleSummary> {
-    return this.request('POST', `${this.paths.localesRoot()}/`, { jsonBody: payload });
+  async createLocale(
+    payload: Record<string, any>,
+    options?: RequestOptions,
+  ): Promise<LocaleSummary> {
+    return this.request('POST', `${this.paths.localesRoot()}/`, {
+      jsonBody: payload,
+      ...callOptions(options),
+    });
   }
 
-  async getLocale(code: string): Promise<LocaleSummary> {
-    return this.request('GET', `${this.paths.localeRoot(code)}/`);
+  async getLocale(code: string, options?: RequestOptions): Promise<LocaleSummary> {
+    return this.request('GET', `${this.paths.localeRoot(code)}/`, callOptions(options));
   }
 
-  async updateLocale(code: string, payload: Record<string, any>): Promise<LocaleSummary> {
-    return this.request('PUT', `${this.paths.localeRoot(code)}/`, { jsonBody: payload });
+  async updateLocale(
+    code: string,
+    payload: Record<string, any>,
+    options?: RequestOptions,
+  ): Promise<LocaleSummary> {
+    return this.request('PUT', `${this.paths.localeRoot(code)}/`, {
+      jsonBody: payload,
+      ...callOptions(options),
+    });
   }
 
-  async deleteLocale(code: string): Promise<void> {
-    await this.request('DELETE', `${this.paths.localeRoot(code)}/`, { parseJson: false });
+  async deleteLocale(code: string, options?: RequestOptions): Promise<void> {
+    await this.request('DELETE', `${this.paths.localeRoot(code)}/`, {
+      parseJson: false,
+      ...callOptions(options),
+    });
   }
 
   // ------------------------------------------------------------------ //
   // Project operations
   // ------------------------------------------------------------------ //
 
-  async listProjects(orgKey: OrgRef, params?: Record<string, any>): Promise<ProjectList> {
+  async listProjects(
+    orgKey: OrgRef,
+    params?: Record<string, any>,
+    options?: RequestOptions,
+  ): Promise<ProjectList> {
     const key = resolveKey(orgKey);
-    return this.request('GET', `${this.paths.projectsBase(key)}/`, { params });
+    return this.request('GET', `${this.paths.projectsBase(key)}/`, {
+      params,
+      ...callOptions(options),
+    });
   }
 
-  async getProject(orgKey: OrgRef, projectKey: ProjectRef): Promise<ProjectSummary> {
+  iterateProjects(
+    orgKey: OrgRef,
+    params?: Record<string, any>,
+    options?: PaginateOptions,
+  ): PageIterator<ProjectSummary> {
+    const key = resolveKey(orgKey);
+    return this.paginate(`${this.paths.projectsBase(key)}/`, params, options);
+  }
+
+  async getProject(
+    orgKey: OrgRef,
+    projectKey: ProjectRef,
+    options?: RequestOptions,
+  ): Promise<ProjectSummary> {
     const oKey = resolveKey(orgKey);
     const pKey = resolveKey(projectKey);
-    return this.request('GET', `${this.paths.projectRoot(oKey, pKey)}/`);
+    return this.request('GET', `${this.paths.projectRoot(oKey, pKey)}/`, callOptions(options));
   }
 
-  async createProject(orgKey: OrgRef, payload: Record<string, any>): Promise<ProjectSummary> {
+  async createProject(
+    orgKey: OrgRef,
+    payload: Record<string, any>,
+    options?: RequestOptions,
+  ): Promise<ProjectSummary> {
     const key = resolveKey(orgKey);
-    return this.request('POST', `${this.paths.projectsBase(key)}/`, { jsonBody: payload });
+    return this.request('POST', `${this.paths.projectsBase(key)}/`, {
+      jsonBody: payload,
+      ...callOptions(options),
+    });
   }
 
   async updateProject(
     orgKey: OrgRef,
     projectKey: ProjectRef,
     payload: Record<string, any>,
+    options?: RequestOptions,
   ): Promise<ProjectSummary> {
     const oKey = resolveKey(orgKey);
     const pKey = resolveKey(projectKey);
     return this.request('PUT', `${this.paths.projectRoot(oKey, pKey)}/`, {
       jsonBody: payload,
+      ...callOptions(options),
     });
   }
 
-  async deleteProject(orgKey: OrgRef, projectKey: ProjectRef): Promise<void> {
+  async deleteProject(
+    orgKey: OrgRef,
+    projectKey: ProjectRef,
+    options?: RequestOptions,
+  ): Promise<void> {
     const oKey = resolveKey(orgKey);
     const pKey = resolveKey(projectKey);
     await this.request('DELETE', `${this.paths.projectRoot(oKey, pKey)}/`, {
       parseJson: false,
+      ...callOptions(options),
     });
   }
 
@@ -1739,11 +2316,19 @@ export class ManagementClient {
   // Environment operations
   // ------------------------------------------------------------------ //
 
-  async listEnvironments(orgKey: OrgRef, projectKey: ProjectRef): Promise<EnvironmentList> {
+  async listEnvironments(
+    orgKey: OrgRef,
+    projectKey: ProjectRef,
+    options?: RequestOptions,
+  ): Promise<EnvironmentList> {
     const oKey = resolveKey(orgKey);
     const pKey = resolveKey(projectKey);
     const payload =
-      (await this.request('GET', `${this.paths.environmentsBase(oKey, pKey)}/`)) ?? [];
+      (await this.request(
+        'GET',
+        `${this.paths.environmentsBase(oKey, pKey)}/`,
+        callOptions(options),
+      )) ?? [];
     if (Array.isArray(payload)) {
       return payload;
     }
@@ -1757,22 +2342,29 @@ export class ManagementClient {
     orgKey: OrgRef,
     projectKey: ProjectRef,
     envKey: EnvironmentRef,
+    options?: RequestOptions,
   ): Promise<EnvironmentSummary> {
     const oKey = resolveKey(orgKey);
     const pKey = resolveKey(projectKey);
     const eKey = resolveKey(envKey);
-    return this.request('GET', `${this.paths.environmentRoot(oKey, pKey, eKey)}/`);
+    return this.request(
+      'GET',
+      `${this.paths.environmentRoot(oKey, pKey, eKey)}/`,
+      callOptions(options),
+    );
   }
 
   async createEnvironment(
     orgKey: OrgRef,
     projectKey: ProjectRef,
     payload: Record<string, any>,
+    options?: RequestOptions,
   ): Promise<EnvironmentSummary> {
     const oKey = resolveKey(orgKey);
     const pKey = resolveKey(projectKey);
     return this.request('POST', `${this.paths.environmentsBase(oKey, pKey)}/`, {
       jsonBody: payload,
+      ...callOptions(options),
     });
   }
 
@@ -1781,12 +2373,14 @@ export class ManagementClient {
     projectKey: ProjectRef,
     envKey: EnvironmentRef,
     payload: Record<string, any>,
+    options?: RequestOptions,
   ): Promise<EnvironmentSummary> {
     const oKey = resolveKey(orgKey);
     const pKey = resolveKey(projectKey);
     const eKey = resolveKey(envKey);
     return this.request('PUT', `${this.paths.environmentRoot(oKey, pKey, eKey)}/`, {
       jsonBody: payload,
+      ...callOptions(options),
     });
   }
 
@@ -1794,12 +2388,14 @@ export class ManagementClient {
     orgKey: OrgRef,
     projectKey: ProjectRef,
     envKey: EnvironmentRef,
+    options?: RequestOptions,
   ): Promise<void> {
     const oKey = resolveKey(orgKey);
     const pKey = resolveKey(projectKey);
     const eKey = resolveKey(envKey);
     await this.request('DELETE', `${this.paths.environmentRoot(oKey, pKey, eKey)}/`, {
       parseJson: false,
+      ...callOptions(options),
     });
   }
 
@@ -1808,12 +2404,14 @@ export class ManagementClient {
     projectKey: ProjectRef,
     envKey: EnvironmentRef,
     isEnabled: boolean,
+    options?: RequestOptions,
   ): Promise<void> {
     const oKey = resolveKey(orgKey);
     const pKey = resolveKey(projectKey);
     const eKey = resolveKey(envKey);
     await this.request('POST', `${this.paths.environmentRoot(oKey, pKey, eKey)}/toggle/`, {
       jsonBody: { is_enabled: isEnabled },
+      ...callOptions(options),
     });
   }
 
@@ -1821,7 +2419,7 @@ export class ManagementClient {
     orgKey: OrgRef,
     projectKey: ProjectRef,
     envKey: EnvironmentRef,
-    options: { protectionLevel: string; protectionReason?: string },
+    options: { protectionLevel: string; protectionReason?: string } & RequestOptions,
   ): Promise<EnvironmentSummary> {
     const oKey = resolveKey(orgKey);
     const pKey = resolveKey(projectKey);
@@ -1832,6 +2430,7 @@ export class ManagementClient {
     }
     return this.request('PATCH', `${this.paths.environmentRoot(oKey, pKey, eKey)}/protection/`, {
       jsonBody: body,
+      ...callOptions(options),
     });
   }
 
@@ -1839,8 +2438,10 @@ export class ManagementClient {
     orgKey: OrgRef,
     projectKey: ProjectRef,
     envKey: EnvironmentRef,
+    options?: RequestOptions,
   ): Promise<EnvironmentSummary> {
     return this.updateEnvironmentProtection(orgKey, projectKey, envKey, {
+      ...callOptions(options),
       protectionLevel: 'none',
     });
   }
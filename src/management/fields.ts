@@ -0,0 +1,461 @@
+import { SchemaDefinitionError } from '../errors.js';
+import type { FieldDefinition } from '../schema/definition.js';
+import type { CollectionRef, NestedFieldMeta } from './models.js';
+import { resolveKey } from './models.js';
+
+/** Field types accepted by collection and component schemas. */
+export type FieldType =
+  | 'string'
+  | 'text'
+  | 'html'
+  | 'markdown'
+  | 'email'
+  | 'url'
+  | 'slug'
+  | 'select'
+  | 'reference'
+  | 'date'
+  | 'datetime'
+  | 'time'
+  | 'integer'
+  | 'number'
+  | 'float'
+  | 'decimal'
+  | 'boolean'
+  | 'vector'
+  | 'object'
+  | 'array'
+  | 'nested';
+
+/** Body of a create or update field request. */
+export interface FieldPayload {
+  key: string;
+  name: string;
+  type: FieldType;
+  description?: string | null;
+  required?: boolean;
+  nullable?: boolean;
+  multiple?: boolean;
+  localizable?: boolean;
+  searchable?: boolean;
+  private?: boolean;
+  vectorizable?: boolean;
+  meta?: Record<string, any>;
+  /** Path of the parent `object` field. */
+  parent?: string;
+}
+
+const FLAGS = [
+  'required',
+  'nullable',
+  'multiple',
+  'localizable',
+  'searchable',
+  'private',
+  'vectorizable',
+] as const;
+
+type Flag = (typeof FLAGS)[number];
+
+function invalid(key: string, message: string): never {
+  throw new SchemaDefinitionError(`field "${key}": ${message}`);
+}
+
+function checkCount(key: string, name: string, value: number | undefined): void {
+  if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+    invalid(key, `${name} must be a non-negative integer, got ${value}`);
+  }
+}
+
+/**
+ * Fluent builder for a schema field; create one with {@link field}. Flag
+ * methods default to `true`, so `.required()` makes a field required and
+ * `.required(false)` sends `required: false`. Unset flags are left out of
+ * the payload and take the API defaults.
+ */
+export class FieldBuilder<T extends FieldType = FieldType> {
+  protected readonly flags: Partial<Record<Flag, boolean>> = {};
+  protected readonly extraMeta: Record<string, any> = {};
+  private displayName?: string;
+  private text?: string | null;
+
+  constructor(
+    readonly type: T,
+    readonly key: string,
+  ) {}
+
+  /** Display name. Defaults to the key. */
+  name(name: string): this {
+    this.displayName = name;
+    return this;
+  }
+
+  description(description: string | null): this {
+    this.text = description;
+    return this;
+  }
+
+  required(value = true): this {
+    return this.flag('required', value);
+  }
+
+  nullable(value = true): this {
+    return this.flag('nullable', value);
+  }
+
+  /** Hold a list of values instead of one. */
+  multiple(value = true): this {
+    return this.flag('multiple', value);
+  }
+
+  /** Hold one value per locale. */
+  localizable(value = true): this {
+    return this.flag('localizable', value);
+  }
+
+  searchable(value = true): this {
+    return this.flag('searchable', value);
+  }
+
+  /** Hide the field from Flux API responses. */
+  private(value = true): this {
+    return this.flag('private', value);
+  }
+
+  /** Include the field in the resource's embeddings for vector search. */
+  vectorizable(value = true): this {
+    return this.flag('vectorizable', value);
+  }
+
+  /**
+   * Sets additional `meta` keys the API accepts for this field type. Keys
+   * managed by typed methods, such as `options` on select fields, cannot be
+   * overridden here.
+   */
+  meta(meta: Record<string, any>): this {
+    Object.assign(this.extraMeta, meta);
+    return this;
+  }
+
+  /**
+   * Validates the field and returns its payload. Child fields of `object`
+   * fields are not included; see {@link FieldBuilder.flatten}.
+   *
+   * @param parent Path of the parent `object` field, if any.
+   * @throws {SchemaDefinitionError} When the field is invalid.
+   */
+  build(parent?: string): FieldPayload {
+    if (!this.key || this.key.includes('.')) {
+      invalid(this.key, 'key must be non-empty and must not contain "."');
+    }
+    this.validate();
+    const payload: FieldPayload = {
+      key: this.key,
+      name: this.displayName ?? this.key,
+      type: this.type,
+    };
+    if (this.text !== undefined) {
+      payload.description = this.text;
+    }
+    for (const flag of FLAGS) {
+      if (this.flags[flag] !== undefined) {
+        payload[flag] = this.flags[flag];
+      }
+    }
+    const typed = this.typedMeta();
+    const managed = Object.keys(this.extraMeta).filter((name) => name in typed);
+    if (managed.length > 0) {
+      invalid(this.key, `meta keys ${managed.join(', ')} must be set through the builder`);
+    }
+    const meta = { ...this.extraMeta, ...typed };
+    if (Object.keys(meta).length > 0) {
+      payload.meta = meta;
+    }
+    if (parent !== undefined) {
+      payload.parent = parent;
+    }
+    return payload;
+  }
+
+  /**
+   * Returns the payloads of this field and, for `object` fields, all its
+   * descendants, parents first, ready to be created in order.
+   */
+  flatten(parent?: string): FieldPayload[] {
+    return [this.build(parent)];
+  }
+
+  /** Converts the field to a {@link FieldDefinition} for {@link defineSchema}. */
+  toDefinition(): FieldDefinition {
+    const payload = this.build();
+    const definition: FieldDefinition = { key: payload.key, type: payload.type };
+    if (payload.name !== payload.key) {
+      definition.name = payload.name;
+    }
+    if (payload.description !== undefined) {
+      definition.description = payload.description;
+    }
+    for (const flag of FLAGS) {
+      if (payload[flag] !== undefined) {
+        definition[flag] = payload[flag];
+      }
+    }
+    if (payload.meta) {
+      definition.meta = payload.meta;
+    }
+    return definition;
+  }
+
+  /** Meta keys set through typed methods. */
+  protected typedMeta(): Record<string, any> {
+    return {};
+  }
+
+  /** Type-specific checks, run by {@link FieldBuilder.build}. */
+  protected validate(): void {}
+
+  private flag(flag: Flag, value: boolean): this {
+    this.flags[flag] = value;
+    return this;
+  }
+}
+
+type TextType = 'string' | 'text' | 'html' | 'markdown' | 'email' | 'url' | 'slug';
+
+/** Builder for text-like fields, with length limits. */
+export class TextFieldBuilder<T extends TextType = TextType> extends FieldBuilder<T> {
+  private min?: number;
+  private max?: number;
+
+  minLength(length: number): this {
+    this.min = length;
+    return this;
+  }
+
+  maxLength(length: number): this {
+    this.max = length;
+    return this;
+  }
+
+  protected typedMeta(): Record<string, any> {
+    const meta: Record<string, any> = {};
+    if (this.min !== undefined) {
+      meta.min_length = this.min;
+    }
+    if (this.max !== undefined) {
+      meta.max_length = this.max;
+    }
+    return meta;
+  }
+
+  protected validate(): void {
+    checkCount(this.key, 'minLength', this.min);
+    checkCount(this.key, 'maxLength', this.max);
+    if (this.min !== undefined && this.max !== undefined && this.min > this.max) {
+      invalid(this.key, `minLength ${this.min} is greater than maxLength ${this.max}`);
+    }
+  }
+}
+
+type NumberType = 'integer' | 'number' | 'float' | 'decimal';
+
+/** Builder for numeric fields, with value bounds. */
+export class NumberFieldBuilder<T extends NumberType = NumberType> extends FieldBuilder<T> {
+  private minimum?: number;
+  private maximum?: number;
+
+  min(value: number): this {
+    this.minimum = value;
+    return this;
+  }
+
+  max(value: number): this {
+    this.maximum = value;
+    return this;
+  }
+
+  protected typedMeta(): Record<string, any> {
+    const meta: Record<string, any> = {};
+    if (this.minimum !== undefined) {
+      meta.min_value = this.minimum;
+    }
+    if (this.maximum !== undefined) {
+      meta.max_value = this.maximum;
+    }
+    return meta;
+  }
+
+  protected validate(): void {
+    for (const [name, value] of [
+      ['min', this.minimum],
+      ['max', this.maximum],
+    ] as const) {
+      if (value !== undefined && !Number.isFinite(value)) {
+        invalid(this.key, `${name} must be a finite number, got ${value}`);
+      }
+      if (this.type === 'integer' && value !== undefined && !Number.isInteger(value)) {
+        invalid(this.key, `${name} of an integer field must be an integer, got ${value}`);
+      }
+    }
+    if (this.minimum !== undefined && this.maximum !== undefined && this.minimum > this.maximum) {
+      invalid(this.key, `min ${this.minimum} is greater than max ${this.maximum}`);
+    }
+  }
+}
+
+/** Builder for `select` fields, whose value is one of `options`. */
+export class SelectFieldBuilder extends FieldBuilder<'select'> {
+  constructor(
+    key: string,
+    private readonly options: readonly string[],
+  ) {
+    super('select', key);
+  }
+
+  protected typedMeta(): Record<string, any> {
+    return { options: [...this.options] };
+  }
+
+  protected validate(): void {
+    if (this.options.length === 0) {
+      invalid(this.key, 'select fields need at least one option');
+    }
+    const seen = new Set<string>();
+    for (const option of this.options) {
+      if (typeof option !== 'string' || option === '') {
+        invalid(this.key, 'select options must be non-empty strings');
+      }
+      if (seen.has(option)) {
+        invalid(this.key, `duplicate select option "${option}"`);
+      }
+      seen.add(option);
+    }
+  }
+}
+
+/** Builder for `reference` fields, pointing to resources of a collection. */
+export class ReferenceFieldBuilder extends FieldBuilder<'reference'> {
+  private readonly collection: string;
+
+  constructor(key: string, collection: CollectionRef) {
+    super('reference', key);
+    this.collection = resolveKey(collection);
+  }
+
+  protected typedMeta(): Record<string, any> {
+    return { collection: this.collection };
+  }
+
+  protected validate(): void {
+    if (!this.collection) {
+      invalid(this.key, 'reference fields need a collection');
+    }
+  }
+}
+
+/** Builder for `vector` fields holding embeddings of a fixed size. */
+export class VectorFieldBuilder extends FieldBuilder<'vector'> {
+  constructor(
+    key: string,
+    private readonly dimensions: number,
+  ) {
+    super('vector', key);
+  }
+
+  protected typedMeta(): Record<string, any> {
+    return { dimensions: this.dimensions };
+  }
+
+  protected validate(): void {
+    if (!Number.isInteger(this.dimensions) || this.dimensions < 1) {
+      invalid(this.key, `dimensions must be a positive integer, got ${this.dimensions}`);
+    }
+  }
+}
+
+/** Builder for `nested` fields embedding a component; see {@link nestedFieldMeta}. */
+export class NestedFieldBuilder extends FieldBuilder<'nested'> {
+  constructor(
+    key: string,
+    private readonly nested: NestedFieldMeta,
+  ) {
+    super('nested', key);
+  }
+
+  protected typedMeta(): Record<string, any> {
+    return { ...this.nested };
+  }
+
+  protected validate(): void {
+    if (!this.nested.component || !this.nested.component_version) {
+      invalid(this.key, 'nested fields need a component and a component_version');
+    }
+  }
+}
+
+/** Builder for `object` fields, grouping child fields. */
+export class ObjectFieldBuilder extends FieldBuilder<'object'> {
+  constructor(
+    key: string,
+    private readonly children: readonly FieldBuilder[],
+  ) {
+    super('object', key);
+  }
+
+  flatten(parent?: string): FieldPayload[] {
+    const path = parent === undefined ? this.key : `${parent}.${this.key}`;
+    return [this.build(parent), ...this.children.flatMap((child) => child.flatten(path))];
+  }
+
+  toDefinition(): FieldDefinition {
+    return { ...super.toDefinition(), fields: this.children.map((child) => child.toDefinition()) };
+  }
+
+  protected validate(): void {
+    const keys = new Set<string>();
+    for (const child of this.children) {
+      if (keys.has(child.key)) {
+        invalid(this.key, `duplicate child field "${child.key}"`);
+      }
+      keys.add(child.key);
+    }
+  }
+}
+
+/**
+ * Typed builders for schema fields, one per field type.
+ *
+ * @example
+ * ```ts
+ * const seo = nestedFieldMeta({ component: 'cmp-seo', componentVersion: 'ver-1' });
+ * await client.createCollectionField('articles', draft, field.text('title').required());
+ * await client.createCollectionField('articles', draft, field.nested('seo', seo));
+ *
+ * // Creates `author`, then `author.name` and `author.email`.
+ * const author = field.object('author', [field.string('name'), field.email('email')]);
+ * await client.createCollectionField('articles', draft, author);
+ * ```
+ */
+export const field = {
+  string: (key: string) => new TextFieldBuilder('string', key),
+  text: (key: string) => new TextFieldBuilder('text', key),
+  html: (key: string) => new TextFieldBuilder('html', key),
+  markdown: (key: string) => new TextFieldBuilder('markdown', key),
+  email: (key: string) => new TextFieldBuilder('email', key),
+  url: (key: string) => new TextFieldBuilder('url', key),
+  slug: (key: string) => new TextFieldBuilder('slug', key),
+  select: (key: string, options: readonly string[]) => new SelectFieldBuilder(key, options),
+  reference: (key: string, collection: CollectionRef) => new ReferenceFieldBuilder(key, collection),
+  date: (key: string) => new FieldBuilder('date', key),
+  datetime: (key: string) => new FieldBuilder('datetime', key),
+  time: (key: string) => new FieldBuilder('time', key),
+  integer: (key: string) => new NumberFieldBuilder('integer', key),
+  number: (key: string) => new NumberFieldBuilder('number', key),
+  float: (key: string) => new NumberFieldBuilder('float', key),
+  decimal: (key: string) => new NumberFieldBuilder('decimal', key),
+  boolean: (key: string) => new FieldBuilder('boolean', key),
+  vector: (key: string, dimensions: number) => new VectorFieldBuilder(key, dimensions),
+  object: (key: string, fields: readonly FieldBuilder[]) => new ObjectFieldBuilder(key, fields),
+  array: (key: string) => new FieldBuilder('array', key),
+  nested: (key: string, meta: NestedFieldMeta) => new NestedFieldBuilder(key, meta),
+};
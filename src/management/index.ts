@@ -1,9 +1,24 @@
+export type { BatchUpsertOptions } from './batch.js';
 export { ManagementClient } from './client.js';
 export type {
   ApiFolderOptions,
   ApiFolderRouteDescriptionOptions,
   ManagementClientOptions,
 } from './client.js';
+export {
+  field,
+  FieldBuilder,
+  NestedFieldBuilder,
+  NumberFieldBuilder,
+  ObjectFieldBuilder,
+  ReferenceFieldBuilder,
+  SelectFieldBuilder,
+  TextFieldBuilder,
+  VectorFieldBuilder,
+} from './fields.js';
+export type { FieldPayload, FieldType } from './fields.js';
 export * from './models.js';
+export { PageIterator } from './pagination.js';
+export type { PageFetcher, PaginateOptions } from './pagination.js';
 export { managementPaths } from './paths.js';
 export type { ManagementPaths } from './paths.js';
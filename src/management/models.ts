@@ -534,9 +534,33 @@ export interface BatchItemError {
   error: Error;
 }
 
+/**
+ * Final outcome of one batch item, after any retries. `attempts` is 0 for
+ * items rejected by local validation before being sent.
+ */
+export type BatchItemOutcome =
+  | {
+      index: number;
+      external_id: string;
+      status: 'succeeded';
+      resource: ResourceSummary;
+      attempts: number;
+    }
+  | {
+      index: number;
+      external_id: string;
+      status: 'failed';
+      error: Error;
+      attempts: number;
+    };
+
 export interface BatchUpsertResult {
+  /** Upserted resources, in input order. */
   succeeded: ResourceSummary[];
+  /** Items that failed after their retries, in input order. */
   failed: BatchItemError[];
+  /** One outcome per input item, indexed like the input. */
+  results: BatchItemOutcome[];
 }
 
 // ---------------------------------------------------------------------------
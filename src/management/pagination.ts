@@ -0,0 +1,128 @@
+/**
+ * Async iteration over paginated Management API list endpoints.
+ *
+ * List endpoints return `{ count, next, previous, results }` pages. A
+ * {@link PageIterator} follows the `next` links until the server reports no
+ * further page, yielding either individual items or whole pages.
+ */
+
+import type { RequestOptions } from '../config.js';
+import type { PaginatedResponse } from './models.js';
+
+/**
+ * Options accepted by every `iterate*` method on the Management client.
+ * `signal` and `timeout` apply to each page request.
+ */
+export interface PaginateOptions extends RequestOptions {
+  /** Page size requested from the API (sent as the `limit` query parameter). */
+  pageSize?: number;
+  /** Stop after this many items have been yielded in total. */
+  maxItems?: number;
+}
+
+/**
+ * Fetches one page. Receives `null` for the first page and the previous
+ * page's `next` link afterwards.
+ */
+export type PageFetcher<T> = (next: string | null) => Promise<PaginatedResponse<T> | T[] | null>;
+
+function normalizePage<T>(payload: PaginatedResponse<T> | T[] | null): PaginatedResponse<T> {
+  if (Array.isArray(payload)) {
+    return { count: payload.length, next: null, previous: null, results: payload };
+  }
+  if (!payload || !Array.isArray(payload.results)) {
+    return { count: 0, next: null, previous: null, results: [] };
+  }
+  return payload;
+}
+
+/**
+ * Lazily walks a paginated list endpoint.
+ *
+ * Iterating the object yields items; {@link pages} yields whole pages.
+ * Breaking out of a `for await` loop stops further requests.
+ *
+ * @example
+ * ```ts
+ * for await (const resource of client.iterateResources('articles', {}, { pageSize: 100 })) {
+ *   if (resource.external_id === 'stop') break;
+ * }
+ *
+ * for await (const page of client.iterateResources('articles').pages()) {
+ *   console.log(page.results.length, 'of', page.count);
+ * }
+ * ```
+ */
+export class PageIterator<T> implements AsyncIterable<T> {
+  private readonly fetchPage: PageFetcher<T>;
+  private readonly maxItems?: number;
+
+  constructor(fetchPage: PageFetcher<T>, options?: { maxItems?: number }) {
+    if (options?.maxItems !== undefined && options.maxItems < 0) {
+      throw new Error('maxItems must not be negative');
+    }
+    this.fetchPage = fetchPage;
+    this.maxItems = options?.maxItems;
+  }
+
+  /**
+   * Yields each page in turn. When `maxItems` is set, the final page is
+   * trimmed so the total number of results never exceeds it.
+   */
+  async *pages(): AsyncGenerator<PaginatedResponse<T>, void, undefined> {
+    let remaining = this.maxItems ?? Infinity;
+    let next: string | null = null;
+    const visited = new Set<string>();
+
+    while (remaining > 0) {
+      const page: PaginatedResponse<T> = normalizePage(await this.fetchPage(next));
+      const results =
+        page.results.length > remaining ? page.results.slice(0, remaining) : page.results;
+      remaining -= results.length;
+      yield results === page.results ? page : { ...page, results };
+
+      if (!page.next || visited.has(page.next)) {
+        return;
+      }
+      visited.add(page.next);
+      next = page.next;
+    }
+  }
+
+  async *[Symbol.asyncIterator](): AsyncGenerator<T, void, undefined> {
+    for await (const page of this.pages()) {
+      yield* page.results;
+    }
+  }
+
+  /** Collects every item into an array. */
+  async toArray(): Promise<T[]> {
+    const items: T[] = [];
+    for await (const item of this) {
+      items.push(item);
+    }
+    return items;
+  }
+}
+
+/**
+ * Converts a `next` link into a path the transport can request against
+ * `baseUrl`. Absolute links are reduced to their path and query, with any
+ * path prefix already present in `baseUrl` removed.
+ * @internal
+ */
+export function nextPagePath(next: string, baseUrl: string): string {
+  if (next.startsWith(baseUrl)) {
+    return next.slice(baseUrl.length) || '/';
+  }
+  if (!/^https?:\/\//i.test(next)) {
+    return next;
+  }
+  const url = new URL(next);
+  const basePath = new URL(baseUrl).pathname.replace(/\/+$/, '');
+  const path =
+    basePath && url.pathname.startsWith(`${basePath}/`)
+      ? url.pathname.slice(basePath.length)
+      : url.pathname;
+  return `${path}${url.search}`;
+}
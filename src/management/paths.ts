@@ -92,3 +92,65 @@ export function managementPaths(environmentKey: string) {
 }
 
 export type ManagementPaths = ReturnType<typeof managementPaths>;
+
+/**
+ * Returns a function mapping a request path to its route template for
+ * tracing, e.g. `/v1/env-1/folders/f-1/resources/r-1/data/` to
+ * `/v1/{environment}/folders/{folder}/resources/{resource}/data`. The longest
+ * {@link managementPaths} template matching the start of the path supplies
+ * the placeholders; past its end, a segment following a listing such as
+ * `resources` is taken as a key.
+ * @internal
+ */
+export function managementRouteTemplate(): (path: string) => string {
+  const KEY = '\u0000';
+  const ENV = '\u0001';
+  const templates = Object.values(managementPaths(ENV)).map((build) =>
+    (build as (...keys: string[]) => string)(...Array(build.length).fill(KEY))
+      .split('/')
+      .filter(Boolean),
+  );
+  // Placeholder name by the listing segment before it: `folders` -> `folder`.
+  // Base paths ending in a plural, such as `.../revisions`, are listings too.
+  const listings = new Map<string, string>();
+  for (const segments of templates) {
+    segments.forEach((segment, i) => {
+      if (segment === ENV) {
+        listings.set(segments[i - 1], 'environment');
+      } else if (segment === KEY) {
+        listings.set(segments[i - 1], segments[i - 1].replace(/s$/, ''));
+      } else if (i === segments.length - 1 && segment.endsWith('s') && !listings.has(segment)) {
+        listings.set(segment, segment.slice(0, -1));
+      }
+    });
+  }
+  const isKey = (segment: string) => segment === KEY || segment === ENV;
+
+  return (path) => {
+    const segments = path.split('?')[0].split('/').filter(Boolean);
+    let best: string[] = [];
+    for (const template of templates) {
+      if (
+        template.length > best.length &&
+        template.length <= segments.length &&
+        template.every((segment, i) => isKey(segment) || segment === segments[i])
+      ) {
+        best = template;
+      }
+    }
+    // Past the template, only a literal segment can name the key after it,
+    // so a key that happens to equal a listing (`v1`, `resources`) does not.
+    let previousIsKey = false;
+    const route = segments.map((segment, i) => {
+      let name: string | undefined;
+      if (i < best.length) {
+        name = isKey(best[i]) ? listings.get(best[i - 1]) : undefined;
+      } else if (i > 0 && !previousIsKey) {
+        name = listings.get(segments[i - 1]);
+      }
+      previousIsKey = name !== undefined;
+      return name ? `{${name}}` : segment;
+    });
+    return `/${route.join('/')}`;
+  };
+}
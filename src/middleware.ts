@@ -0,0 +1,90 @@
+/**
+ * Request/response hooks run by {@link HttpTransport} around every attempt.
+ */
+
+/**
+ * Mutable view of an outbound attempt passed to middleware.
+ *
+ * Hooks may change `url` or `headers` in `beforeRequest`; the transport sends
+ * whatever they hold afterwards. Auth headers are already applied, so
+ * changing the body-bearing parts of a signed request invalidates its
+ * signature.
+ */
+export interface MiddlewareContext {
+  method: string;
+  url: string;
+  /** Path relative to the configured base URL (without query string). */
+  path: string;
+  headers: Record<string, string>;
+  body: Uint8Array;
+  /** 1-based attempt number; greater than 1 for retries. */
+  attempt: number;
+}
+
+/**
+ * A set of optional hooks. Hooks run in registration order and may be async.
+ */
+export interface Middleware {
+  /** Runs before each attempt is sent. */
+  beforeRequest?(context: MiddlewareContext): void | Promise<void>;
+  /**
+   * Runs after each attempt receives a response (including error statuses,
+   * before retry or error mapping). Returning a `Response` replaces the one
+   * seen by later hooks and the transport.
+   */
+  afterResponse?(
+    context: MiddlewareContext,
+    response: Response,
+  ): Response | void | Promise<Response | void>;
+  /**
+   * Runs when an attempt fails: for network errors (whether or not the
+   * attempt is retried) and for the API error about to be thrown.
+   */
+  onError?(context: MiddlewareContext, error: unknown): void | Promise<void>;
+}
+
+/**
+ * Runs `beforeRequest` hooks in order.
+ * @internal
+ */
+export async function runBeforeRequest(
+  middleware: readonly Middleware[],
+  context: MiddlewareContext,
+): Promise<void> {
+  for (const mw of middleware) {
+    await mw.beforeRequest?.(context);
+  }
+}
+
+/**
+ * Runs `afterResponse` hooks in order, threading replacement responses.
+ * @internal
+ */
+export async function runAfterResponse(
+  middleware: readonly Middleware[],
+  context: MiddlewareContext,
+  response: Response,
+): Promise<Response> {
+  let current = response;
+  for (const mw of middleware) {
+    const replaced = await mw.afterResponse?.(context, current);
+    if (replaced) {
+      current = replaced;
+    }
+  }
+  return current;
+}
+
+/**
+ * Runs `onError` hooks in order. Errors thrown by a hook propagate.
+ * @internal
+ */
+export async function runOnError(
+  middleware: readonly Middleware[],
+  context: MiddlewareContext,
+  error: unknown,
+): Promise<void> {
+  for (const mw of middleware) {
+    await mw.onError?.(context, error);
+  }
+}
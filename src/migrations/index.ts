@@ -0,0 +1,22 @@
+export { loadMigrations } from './migration.js';
+export type { LoadMigrationsOptions, Migration } from './migration.js';
+export { migrate, migrationStatus, rollbackMigrations } from './run.js';
+export type {
+  MigrateOptions,
+  MigrationRunOptions,
+  MigrationStatus,
+  RollbackOptions,
+} from './run.js';
+export { CollectionMigrationStore, FileMigrationStore } from './store.js';
+export type {
+  AppliedMigration,
+  CollectionMigrationStoreOptions,
+  MigrationLock,
+  MigrationStore,
+} from './store.js';
+export { transformResources } from './transform.js';
+export type {
+  ResourceTransform,
+  TransformResourcesOptions,
+  TransformResourcesResult,
+} from './transform.js';
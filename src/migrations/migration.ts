@@ -0,0 +1,72 @@
+import { readdir } from 'node:fs/promises';
+import { extname, join, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { MigrationError } from '../errors.js';
+import type { ManagementClient } from '../management/client.js';
+
+/**
+ * One migration. `up` applies it and `down`, when present, reverts it. Both
+ * should be safe to run again after a partial failure, e.g. by using
+ * {@link transformResources}, which skips resources already in shape.
+ */
+export interface Migration {
+  /** Unique ID; migrations run in ascending ID order. */
+  id: string;
+  description?: string;
+  up(client: ManagementClient): Promise<void> | void;
+  down?(client: ManagementClient): Promise<void> | void;
+}
+
+export interface LoadMigrationsOptions {
+  /** File extensions to load. Defaults to `.js`, `.mjs` and `.cjs`. */
+  extensions?: string[];
+}
+
+/** Sorts migrations by ID and rejects duplicate IDs. @internal */
+export function sortMigrations(migrations: Migration[]): Migration[] {
+  const sorted = [...migrations].sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+  for (let i = 1; i < sorted.length; i++) {
+    if (sorted[i].id === sorted[i - 1].id) {
+      throw new MigrationError(`Duplicate migration ID "${sorted[i].id}"`, sorted[i].id);
+    }
+  }
+  return sorted;
+}
+
+/**
+ * Loads the migrations in `directory`, one per file. Each file exports an
+ * `up(client)` function and optionally `down(client)` and `description`; its
+ * ID is the file name without extension, so prefix names with a timestamp or
+ * sequence number (`001-add-slugs.js`) to order them.
+ *
+ * @throws {MigrationError} When a file does not export `up`.
+ */
+export async function loadMigrations(
+  directory: string,
+  options: LoadMigrationsOptions = {},
+): Promise<Migration[]> {
+  const extensions = options.extensions ?? ['.js', '.mjs', '.cjs'];
+  const files = (await readdir(directory)).filter((file) => extensions.includes(extname(file)));
+  const migrations: Migration[] = [];
+  for (const file of files) {
+    const id = file.slice(0, -extname(file).length);
+    const module = await import(pathToFileURL(resolve(join(directory, file))).href);
+    const exports = module.up === undefined && module.default ? module.default : module;
+    if (typeof exports.up !== 'function') {
+      throw new MigrationError(`Migration "${id}" (${file}) does not export an up() function`, id);
+    }
+    if (exports.down !== undefined && typeof exports.down !== 'function') {
+      throw new MigrationError(
+        `Migration "${id}" (${file}) exports a down that is not a function`,
+        id,
+      );
+    }
+    migrations.push({
+      id,
+      description: typeof exports.description === 'string' ? exports.description : undefined,
+      up: exports.up,
+      down: exports.down,
+    });
+  }
+  return sortMigrations(migrations);
+}
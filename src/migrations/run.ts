@@ -0,0 +1,187 @@
+import { hostname } from 'node:os';
+import { MigrationError } from '../errors.js';
+import type { ManagementClient } from '../management/client.js';
+import type { Migration } from './migration.js';
+import { loadMigrations, sortMigrations } from './migration.js';
+import type { MigrationStore } from './store.js';
+
+export interface MigrationRunOptions {
+  store: MigrationStore;
+  /** Recorded with the lock to tell who holds it. Defaults to `<hostname>:<pid>`. */
+  owner?: string;
+  /** How long the lock is held before others may take it over, in milliseconds. Defaults to 15 minutes. */
+  lockTtl?: number;
+  /** Called before each migration runs. */
+  onMigration?: (migration: Migration, direction: 'up' | 'down') => void;
+}
+
+export interface MigrateOptions extends MigrationRunOptions {
+  /** Stop after applying this migration. Defaults to applying every pending one. */
+  to?: string;
+}
+
+export interface RollbackOptions extends MigrationRunOptions {
+  /** Number of applied migrations to roll back, latest first. Defaults to 1. */
+  steps?: number;
+  /** Roll back every migration applied after this one instead of `steps`. */
+  to?: string;
+}
+
+export interface MigrationStatus {
+  id: string;
+  description?: string;
+  /** `missing` means the store lists it as applied but no migration has this ID. */
+  status: 'applied' | 'pending' | 'missing';
+  appliedAt: string | null;
+}
+
+type Migrations = Migration[] | string;
+
+async function resolveMigrations(migrations: Migrations): Promise<Migration[]> {
+  return typeof migrations === 'string' ? loadMigrations(migrations) : sortMigrations(migrations);
+}
+
+function findMigration(migrations: Migration[], id: string): Migration {
+  const migration = migrations.find((m) => m.id === id);
+  if (!migration) {
+    throw new MigrationError(`Unknown migration "${id}"`, id);
+  }
+  return migration;
+}
+
+/** Runs `body` while holding the store's lock. */
+async function withLock<T>(options: MigrationRunOptions, body: () => Promise<T>): Promise<T> {
+  const owner = options.owner ?? `${hostname()}:${process.pid}`;
+  const lock = await options.store.lock(owner, options.lockTtl ?? 15 * 60 * 1000);
+  try {
+    return await body();
+  } finally {
+    await lock.release();
+  }
+}
+
+async function run(
+  client: ManagementClient,
+  migration: Migration,
+  direction: 'up' | 'down',
+): Promise<void> {
+  try {
+    await migration[direction]!(client);
+  } catch (err) {
+    throw new MigrationError(
+      `Migration "${migration.id}" failed (${direction}): ${(err as Error)?.message ?? err}`,
+      migration.id,
+      err,
+    );
+  }
+}
+
+/**
+ * Lists every known migration with whether it has been applied, followed by
+ * applied migrations that no longer exist. `migrations` is an array or a
+ * directory to {@link loadMigrations | load} them from.
+ */
+export async function migrationStatus(
+  migrations: Migrations,
+  options: { store: MigrationStore },
+): Promise<MigrationStatus[]> {
+  const known = await resolveMigrations(migrations);
+  const applied = new Map((await options.store.applied()).map((m) => [m.id, m]));
+  const statuses: MigrationStatus[] = known.map((migration) => ({
+    id: migration.id,
+    description: migration.description,
+    status: applied.has(migration.id) ? 'applied' : 'pending',
+    appliedAt: applied.get(migration.id)?.appliedAt ?? null,
+  }));
+  const ids = new Set(known.map((m) => m.id));
+  for (const migration of applied.values()) {
+    if (!ids.has(migration.id)) {
+      statuses.push({ id: migration.id, status: 'missing', appliedAt: migration.appliedAt });
+    }
+  }
+  return statuses;
+}
+
+/**
+ * Applies pending migrations in ID order while holding the store's lock,
+ * recording each one as soon as it succeeds. Stops at the first failure;
+ * running it again resumes with the failed migration. Returns the IDs of the
+ * migrations applied.
+ *
+ * @example
+ * ```ts
+ * const store = new CollectionMigrationStore(client);
+ * await migrate(client, './migrations', { store });
+ * ```
+ *
+ * @throws {MigrationLockError} When another process is running migrations.
+ * @throws {MigrationError} When a migration fails.
+ */
+export async function migrate(
+  client: ManagementClient,
+  migrations: Migrations,
+  options: MigrateOptions,
+): Promise<string[]> {
+  const known = await resolveMigrations(migrations);
+  const last =
+    options.to === undefined ? known.length - 1 : known.indexOf(findMigration(known, options.to));
+  return withLock(options, async () => {
+    const applied = new Set((await options.store.applied()).map((m) => m.id));
+    const done: string[] = [];
+    for (const migration of known.slice(0, last + 1)) {
+      if (applied.has(migration.id)) {
+        continue;
+      }
+      options.onMigration?.(migration, 'up');
+      await run(client, migration, 'up');
+      await options.store.markApplied({ id: migration.id, appliedAt: new Date().toISOString() });
+      done.push(migration.id);
+    }
+    return done;
+  });
+}
+
+/**
+ * Reverts the latest applied migrations with their `down` functions, while
+ * holding the store's lock. Returns the IDs rolled back, latest first.
+ *
+ * @throws {MigrationLockError} When another process is running migrations.
+ * @throws {MigrationError} When a migration to roll back is unknown or has no
+ *   `down`, checked before anything runs, or when `down` fails.
+ */
+export async function rollbackMigrations(
+  client: ManagementClient,
+  migrations: Migrations,
+  options: RollbackOptions,
+): Promise<string[]> {
+  const known = await resolveMigrations(migrations);
+  if (options.to !== undefined) {
+    findMigration(known, options.to);
+  }
+  return withLock(options, async () => {
+    const applied = (await options.store.applied())
+      .map((m) => m.id)
+      .sort()
+      .reverse();
+    const to = options.to;
+    const ids =
+      to === undefined ? applied.slice(0, options.steps ?? 1) : applied.filter((id) => id > to);
+    const targets = ids.map((id) => findMigration(known, id));
+    for (const migration of targets) {
+      if (!migration.down) {
+        throw new MigrationError(
+          `Migration "${migration.id}" has no down() to roll back`,
+          migration.id,
+        );
+      }
+    }
+    const done: string[] = [];
+    for (const migration of targets) {
+      options.onMigration?.(migration, 'down');
+      await run(client, migration, 'down');
+      await options.store.markRolledBack(migration.id);
+      done.push(migration.id);
+    }
+    return done;
+  });
+}
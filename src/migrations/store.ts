@@ -0,0 +1,261 @@
+import { randomUUID } from 'node:crypto';
+import { link, open, readFile, rename, unlink, writeFile } from 'node:fs/promises';
+import { ExternalIdConflictError, FoxnoseAPIError, MigrationLockError } from '../errors.js';
+import type { ManagementClient } from '../management/client.js';
+import type { ResourceSummary } from '../management/models.js';
+import { applySchemaPlan } from '../schema/apply.js';
+import { defineSchema } from '../schema/definition.js';
+import { planSchema } from '../schema/plan.js';
+
+export interface AppliedMigration {
+  id: string;
+  /** When the migration was applied (ISO 8601). */
+  appliedAt: string;
+}
+
+/** A held migration lock. */
+export interface MigrationLock {
+  release(): Promise<void>;
+}
+
+/**
+ * Records which migrations have been applied and guards runs with a lock.
+ * {@link FileMigrationStore} and {@link CollectionMigrationStore} are the
+ * built-in implementations.
+ */
+export interface MigrationStore {
+  /** Returns the applied migrations. */
+  applied(): Promise<AppliedMigration[]>;
+  markApplied(migration: AppliedMigration): Promise<void>;
+  markRolledBack(id: string): Promise<void>;
+  /**
+   * Takes the lock for `ttlMs` milliseconds. A lock older than its TTL is
+   * considered abandoned and taken over.
+   *
+   * @throws {MigrationLockError} When another owner holds the lock.
+   */
+  lock(owner: string, ttlMs: number): Promise<MigrationLock>;
+}
+
+interface LockRecord {
+  owner: string;
+  expires_at: string;
+}
+
+function expired(lock: LockRecord): boolean {
+  return Date.parse(lock.expires_at) <= Date.now();
+}
+
+/** Reads a lock file; `null` when it is gone or not fully written. */
+async function readLock(path: string): Promise<LockRecord | null> {
+  try {
+    return JSON.parse(await readFile(path, 'utf8'));
+  } catch {
+    return null;
+  }
+}
+
+function lockRecord(owner: string, ttlMs: number): LockRecord {
+  return { owner, expires_at: new Date(Date.now() + ttlMs).toISOString() };
+}
+
+/**
+ * Keeps applied migrations in a local JSON file, and the lock in a
+ * `<path>.lock` file created exclusively. Suited to a single machine or a
+ * shared volume; use {@link CollectionMigrationStore} when deploys run on
+ * several machines.
+ */
+export class FileMigrationStore implements MigrationStore {
+  constructor(readonly path: string) {}
+
+  async applied(): Promise<AppliedMigration[]> {
+    try {
+      return JSON.parse(await readFile(this.path, 'utf8')).applied ?? [];
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw err;
+    }
+  }
+
+  async markApplied(migration: AppliedMigration): Promise<void> {
+    const applied = (await this.applied()).filter((m) => m.id !== migration.id);
+    await this.save([...applied, migration]);
+  }
+
+  async markRolledBack(id: string): Promise<void> {
+    await this.save((await this.applied()).filter((m) => m.id !== id));
+  }
+
+  async lock(owner: string, ttlMs: number): Promise<MigrationLock> {
+    const path = `${this.path}.lock`;
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const file = await open(path, 'wx');
+        try {
+          await file.writeFile(JSON.stringify(lockRecord(owner, ttlMs)));
+        } finally {
+          await file.close();
+        }
+        return { release: () => unlink(path).catch(() => {}) };
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code !== 'EEXIST' || attempt >= 2) {
+          throw err;
+        }
+      }
+      const held = await readLock(path);
+      if (!held) {
+        // Released meanwhile, or still being written: try again.
+        continue;
+      }
+      if (!expired(held)) {
+        throw new MigrationLockError(held.owner, held.expires_at);
+      }
+      // Move the abandoned lock aside rather than deleting it: only one
+      // process can rename it, and a lock taken since it was read is put back.
+      const stale = `${path}.${randomUUID()}`;
+      try {
+        await rename(path, stale);
+      } catch {
+        continue;
+      }
+      const moved = await readLock(stale);
+      if (!moved || !expired(moved)) {
+        await link(stale, path).catch(() => {});
+      }
+      await unlink(stale).catch(() => {});
+    }
+  }
+
+  /** Writes through a temporary file so the state is never half written. */
+  private async save(applied: AppliedMigration[]): Promise<void> {
+    const temporary = `${this.path}.tmp`;
+    await writeFile(temporary, `${JSON.stringify({ applied }, null, 2)}\n`);
+    await rename(temporary, this.path);
+  }
+}
+
+export interface CollectionMigrationStoreOptions {
+  /** Alias of the collection holding the migration state. Defaults to `migrations`. */
+  collection?: string;
+}
+
+const LOCK_ID = 'lock';
+const MIGRATION_PREFIX = 'migration:';
+
+/**
+ * Keeps applied migrations in a dedicated FoxNose collection of the
+ * environment being migrated, so every deploy sees the same state. Each
+ * applied migration is a resource with external ID `migration:<id>`; the
+ * lock is a resource with external ID `lock`, whose creation fails while
+ * another process holds it. The collection is created on first use.
+ */
+export class CollectionMigrationStore implements MigrationStore {
+  private readonly alias: string;
+  private folder: Promise<string> | null = null;
+
+  constructor(
+    private readonly client: ManagementClient,
+    options: CollectionMigrationStoreOptions = {},
+  ) {
+    this.alias = options.collection ?? 'migrations';
+  }
+
+  async applied(): Promise<AppliedMigration[]> {
+    return (await this.records())
+      .filter((resource) => resource.external_id?.startsWith(MIGRATION_PREFIX))
+      .map((resource) => ({
+        id: resource.external_id!.slice(MIGRATION_PREFIX.length),
+        appliedAt: resource.created_at,
+      }));
+  }
+
+  async markApplied(migration: AppliedMigration): Promise<void> {
+    await this.client.upsertResource(
+      await this.folderKey(),
+      { data: { migration: migration.id, applied_at: migration.appliedAt } },
+      { externalId: `${MIGRATION_PREFIX}${migration.id}` },
+    );
+  }
+
+  async markRolledBack(id: string): Promise<void> {
+    const record = (await this.records()).find(
+      (resource) => resource.external_id === `${MIGRATION_PREFIX}${id}`,
+    );
+    if (record) {
+      await this.client.deleteResource(await this.folderKey(), record.key);
+    }
+  }
+
+  async lock(owner: string, ttlMs: number): Promise<MigrationLock> {
+    const folder = await this.folderKey();
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const lock = await this.client.createResource(
+          folder,
+          { data: lockRecord(owner, ttlMs) },
+          { externalId: LOCK_ID },
+        );
+        return { release: () => this.client.deleteResource(folder, lock.key) };
+      } catch (err) {
+        if (!(err instanceof ExternalIdConflictError) || attempt >= 2) {
+          throw err;
+        }
+      }
+      const held = (await this.records()).find((resource) => resource.external_id === LOCK_ID);
+      if (held) {
+        const lock = (await this.client.getResourceData(folder, held.key)) as LockRecord;
+        if (!expired(lock)) {
+          throw new MigrationLockError(lock.owner, lock.expires_at);
+        }
+        // Deleting by key only removes the abandoned lock, never one that
+        // another process took over meanwhile.
+        await this.client.deleteResource(folder, held.key).catch((err) => {
+          if (!(err instanceof FoxnoseAPIError && err.statusCode === 404)) {
+            throw err;
+          }
+        });
+      }
+    }
+  }
+
+  private async records(): Promise<ResourceSummary[]> {
+    return this.client.iterateResources(await this.folderKey()).toArray();
+  }
+
+  /** Creates the state collection if needed and returns its key. */
+  private folderKey(): Promise<string> {
+    this.folder ??= this.ensureCollection().catch((err) => {
+      this.folder = null;
+      throw err;
+    });
+    return this.folder;
+  }
+
+  private async ensureCollection(): Promise<string> {
+    const definition = defineSchema({
+      collections: [
+        {
+          alias: this.alias,
+          name: 'Migrations',
+          fields: [
+            { key: 'migration', type: 'string' },
+            { key: 'applied_at', type: 'string' },
+            { key: 'owner', type: 'string' },
+            { key: 'expires_at', type: 'string' },
+          ],
+        },
+      ],
+    });
+    const plan = await planSchema(this.client, definition, { prune: false });
+    const [model] = plan.models;
+    if (model.action === 'noop' && model.key) {
+      return model.key;
+    }
+    const { models } = await applySchemaPlan(this.client, plan, {
+      versionName: 'Migration state',
+    });
+    return models[0].key;
+  }
+}
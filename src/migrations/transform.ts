@@ -0,0 +1,104 @@
+import { callOptions } from '../config.js';
+import type { RequestOptions } from '../config.js';
+import type { ManagementClient } from '../management/client.js';
+import type { FolderRef, ResourceSummary } from '../management/models.js';
+import { resolveKey } from '../management/models.js';
+import { deepEqual } from '../schema/plan.js';
+
+/**
+ * Returns the new content of a resource, or `undefined` to leave it as is.
+ * Receives a copy of the current content, so it may be modified in place.
+ */
+export type ResourceTransform = (
+  data: Record<string, any>,
+  resource: ResourceSummary,
+) => Record<string, any> | undefined | Promise<Record<string, any> | undefined>;
+
+export interface TransformResourcesOptions extends RequestOptions {
+  /** Resources processed concurrently. Defaults to 5. */
+  maxConcurrency?: number;
+  /** Compute the changes without writing them. Defaults to `false`. */
+  dryRun?: boolean;
+}
+
+export interface TransformResourcesResult {
+  /** Resources that got a new published revision (or would, in a dry run). */
+  updated: number;
+  /** Resources left as they were, including those with no published content. */
+  unchanged: number;
+}
+
+/**
+ * Rewrites the content of every resource in a collection: for each resource
+ * with published content, `transform` computes the new content, which is
+ * saved with `createRevision` and published with `publishRevision`.
+ * Resources whose content would not change are skipped, so a migration using
+ * it can be run again after a partial failure. Stops at the first error once
+ * in-flight resources settle.
+ *
+ * @example
+ * ```ts
+ * export async function up(client: ManagementClient) {
+ *   await transformResources(client, 'articles', (data) => {
+ *     data.slug ??= slugify(data.title);
+ *     return data;
+ *   });
+ * }
+ * ```
+ */
+export async function transformResources(
+  client: ManagementClient,
+  folderKey: FolderRef,
+  transform: ResourceTransform,
+  options: TransformResourcesOptions = {},
+): Promise<TransformResourcesResult> {
+  const maxConcurrency = options.maxConcurrency ?? 5;
+  if (maxConcurrency < 1) {
+    throw new Error('maxConcurrency must be at least 1');
+  }
+  const key = resolveKey(folderKey);
+  const request = callOptions(options);
+  const resources = client.iterateResources(key, undefined, request)[Symbol.asyncIterator]();
+  const result: TransformResourcesResult = { updated: 0, unchanged: 0 };
+  let failed = false;
+
+  const update = async (resource: ResourceSummary): Promise<void> => {
+    if (!resource.current_revision) {
+      result.unchanged++;
+      return;
+    }
+    const data = await client.getResourceData(key, resource.key, request);
+    const next = await transform(structuredClone(data), resource);
+    if (next === undefined || deepEqual(next, data)) {
+      result.unchanged++;
+      return;
+    }
+    if (!options.dryRun) {
+      const revision = await client.createRevision(key, resource.key, { data: next }, request);
+      await client.publishRevision(key, resource.key, revision.key, undefined, request);
+    }
+    result.updated++;
+  };
+
+  // Workers share one iterator; async generators queue concurrent next() calls.
+  const worker = async (): Promise<void> => {
+    while (!failed) {
+      const { done, value } = await resources.next();
+      if (done) {
+        return;
+      }
+      try {
+        await update(value);
+      } catch (err) {
+        failed = true;
+        throw err;
+      }
+    }
+  };
+  const outcomes = await Promise.allSettled(Array.from({ length: maxConcurrency }, worker));
+  const rejected = outcomes.find((outcome) => outcome.status === 'rejected');
+  if (rejected) {
+    throw (rejected as PromiseRejectedResult).reason;
+  }
+  return result;
+}
@@ -0,0 +1,133 @@
+import { callOptions } from '../config.js';
+import type { RequestOptions } from '../config.js';
+import type { ManagementClient } from '../management/client.js';
+import type { SchemaVersionSummary } from '../management/models.js';
+import type { ModelKind, ModelOperations, ModelPlan, SchemaPlan } from './plan.js';
+import { modelOperations } from './plan.js';
+
+export interface SchemaApplyOptions extends RequestOptions {
+  /** Name of the draft versions created. Defaults to `Schema update <ISO timestamp>`. */
+  versionName?: string;
+  /** Publish the drafts once all field changes succeed. Defaults to `true`. */
+  publish?: boolean;
+}
+
+export interface AppliedModel {
+  kind: ModelKind;
+  id: string;
+  key: string;
+  /** The draft (or published) version holding the field changes, if any. */
+  version: SchemaVersionSummary | null;
+}
+
+export interface SchemaApplyResult {
+  models: AppliedModel[];
+}
+
+async function createModel(
+  client: ManagementClient,
+  model: ModelPlan,
+  keys: Map<string, string>,
+  request: RequestOptions,
+): Promise<string> {
+  if (model.kind === 'component') {
+    return (await client.createComponent(model.payload, request)).key;
+  }
+  const payload = { ...model.payload };
+  if (model.parent !== null && payload.parent === undefined) {
+    payload.parent = keys.get(model.parent);
+  }
+  return (await client.createCollection(payload, request)).key;
+}
+
+async function applyFields(
+  ops: ModelOperations,
+  key: string,
+  version: string,
+  model: ModelPlan,
+  request: RequestOptions,
+): Promise<void> {
+  for (const change of model.fields) {
+    switch (change.action) {
+      case 'delete':
+        await ops.deleteField(key, version, change.path, request);
+        break;
+      case 'replace':
+        await ops.deleteField(key, version, change.path, request);
+        await ops.createField(key, version, change.payload ?? {}, request);
+        break;
+      case 'add':
+        await ops.createField(key, version, change.payload ?? {}, request);
+        break;
+      case 'update':
+        await ops.updateField(key, version, change.path, change.payload ?? {}, request);
+        break;
+    }
+  }
+}
+
+/**
+ * Applies a plan from {@link planSchema}. For each changed model it creates
+ * the model if needed, updates its attributes, then creates a draft version
+ * (copied from the published one), applies the field changes and publishes
+ * it. Models are processed in plan order and the first failure stops the
+ * run; the draft of the failing model is deleted on a best-effort basis,
+ * while models applied before it stay applied.
+ *
+ * Apply a fresh plan: changes made to the environment after planning are not
+ * detected and may make individual requests fail.
+ */
+export async function applySchemaPlan(
+  client: ManagementClient,
+  plan: SchemaPlan,
+  options: SchemaApplyOptions = {},
+): Promise<SchemaApplyResult> {
+  const request = callOptions(options);
+  const versionName = options.versionName ?? `Schema update ${new Date().toISOString()}`;
+  const keys = new Map<string, string>();
+  const applied: AppliedModel[] = [];
+
+  for (const model of plan.models) {
+    if (model.key !== null && model.kind === 'collection') {
+      keys.set(model.id, model.key);
+    }
+    if (model.action === 'noop') {
+      continue;
+    }
+
+    let key = model.key;
+    if (key === null) {
+      key = await createModel(client, model, keys, request);
+      if (model.kind === 'collection') {
+        keys.set(model.id, key);
+      }
+    } else if (model.attributes.length > 0) {
+      if (model.kind === 'collection') {
+        await client.updateCollection(key, model.payload, request);
+      } else {
+        await client.updateComponent(key, model.payload, request);
+      }
+    }
+
+    let version: SchemaVersionSummary | null = null;
+    if (model.fields.length > 0) {
+      const ops = modelOperations(client, model.kind);
+      version = await ops.createVersion(
+        key,
+        { name: versionName },
+        { copyFrom: model.baseVersion ?? undefined, ...request },
+      );
+      try {
+        await applyFields(ops, key, version.key, model, request);
+      } catch (err) {
+        await ops.deleteVersion(key, version.key, request).catch(() => undefined);
+        throw err;
+      }
+      if (options.publish ?? true) {
+        version = await ops.publishVersion(key, version.key, request);
+      }
+    }
+    applied.push({ kind: model.kind, id: model.id, key, version });
+  }
+  return { models: applied };
+}
@@ -0,0 +1,181 @@
+import { SchemaDefinitionError } from '../errors.js';
+
+/**
+ * Declarative description of one schema field. Children of `object` fields
+ * are listed in `fields`; their API path is `parent.key`.
+ *
+ * Omitted flags mean `false` and an omitted `name` defaults to `key`, so
+ * removing an attribute from the definition reverts it on the next apply.
+ * `meta` is compared key by key: only the keys listed here are managed.
+ */
+export interface FieldDefinition {
+  key: string;
+  type: string;
+  name?: string;
+  description?: string | null;
+  required?: boolean;
+  nullable?: boolean;
+  multiple?: boolean;
+  localizable?: boolean;
+  searchable?: boolean;
+  private?: boolean;
+  vectorizable?: boolean;
+  meta?: Record<string, any>;
+  fields?: FieldDefinition[];
+}
+
+/**
+ * A collection, identified by its path: `alias`, prefixed with the `parent`
+ * collection path for nested collections (e.g. `users/memories`).
+ */
+export interface CollectionDefinition {
+  alias: string;
+  /** Path of the parent collection. Omit for top-level collections. */
+  parent?: string;
+  /** Display name. Defaults to `alias`. */
+  name?: string;
+  /** Sent when the collection is created; not diffed afterwards. */
+  contentType?: string;
+  fields: FieldDefinition[];
+}
+
+/** A component, identified by its `name`. */
+export interface ComponentDefinition {
+  name: string;
+  description?: string | null;
+  /** Sent when the component is created; not diffed afterwards. */
+  contentType?: string;
+  fields: FieldDefinition[];
+}
+
+export interface SchemaDefinition {
+  components?: ComponentDefinition[];
+  collections?: CollectionDefinition[];
+}
+
+/** Returns `definition` unchanged; exists for type checking in schema files. */
+export function defineSchema(definition: SchemaDefinition): SchemaDefinition {
+  return definition;
+}
+
+/** Path that identifies a collection definition. */
+export function collectionDefinitionPath(definition: CollectionDefinition): string {
+  return definition.parent ? `${definition.parent}/${definition.alias}` : definition.alias;
+}
+
+/**
+ * Validates a schema definition given as a JSON string or an already parsed
+ * value (for example the output of a YAML parser) and returns it typed.
+ *
+ * @throws {SchemaDefinitionError} When the structure is invalid.
+ */
+export function parseSchemaDefinition(input: unknown): SchemaDefinition {
+  let value = input;
+  if (typeof input === 'string') {
+    try {
+      value = JSON.parse(input);
+    } catch (err) {
+      throw new SchemaDefinitionError(`Schema definition is not valid JSON: ${String(err)}`);
+    }
+  }
+  validateSchemaDefinition(value);
+  return value as SchemaDefinition;
+}
+
+function fail(where: string, message: string): never {
+  throw new SchemaDefinitionError(`${where}: ${message}`);
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function checkString(value: unknown, where: string, name: string, optional = false): void {
+  if (value === undefined && optional) {
+    return;
+  }
+  if (typeof value !== 'string' || value.length === 0) {
+    fail(where, `"${name}" must be a non-empty string`);
+  }
+}
+
+function validateFields(fields: unknown, where: string): void {
+  if (!Array.isArray(fields)) {
+    fail(where, '"fields" must be an array');
+  }
+  const seen = new Set<string>();
+  fields.forEach((field, i) => {
+    const at = `${where}.fields[${i}]`;
+    if (!isObject(field)) {
+      fail(at, 'must be an object');
+    }
+    checkString(field.key, at, 'key');
+    checkString(field.type, at, 'type');
+    checkString(field.name, at, 'name', true);
+    if (field.key.includes('.')) {
+      fail(at, `key "${field.key}" must not contain "."`);
+    }
+    if (seen.has(field.key)) {
+      fail(at, `duplicate field key "${field.key}"`);
+    }
+    seen.add(field.key);
+    if (field.meta !== undefined && !isObject(field.meta)) {
+      fail(at, '"meta" must be an object');
+    }
+    if (field.fields !== undefined) {
+      if (field.type !== 'object') {
+        fail(at, `only "object" fields can have child fields, got "${field.type}"`);
+      }
+      validateFields(field.fields, at);
+    }
+  });
+}
+
+/** @throws {SchemaDefinitionError} When `value` is not a valid definition. */
+export function validateSchemaDefinition(value: unknown): asserts value is SchemaDefinition {
+  if (!isObject(value)) {
+    fail('schema', 'must be an object');
+  }
+  const components = value.components ?? [];
+  const collections = value.collections ?? [];
+  if (!Array.isArray(components)) {
+    fail('schema', '"components" must be an array');
+  }
+  if (!Array.isArray(collections)) {
+    fail('schema', '"collections" must be an array');
+  }
+
+  const names = new Set<string>();
+  components.forEach((component, i) => {
+    const at = `components[${i}]`;
+    if (!isObject(component)) {
+      fail(at, 'must be an object');
+    }
+    checkString(component.name, at, 'name');
+    if (names.has(component.name)) {
+      fail(at, `duplicate component "${component.name}"`);
+    }
+    names.add(component.name);
+    validateFields(component.fields, at);
+  });
+
+  const paths = new Set<string>();
+  collections.forEach((collection, i) => {
+    const at = `collections[${i}]`;
+    if (!isObject(collection)) {
+      fail(at, 'must be an object');
+    }
+    checkString(collection.alias, at, 'alias');
+    checkString(collection.parent, at, 'parent', true);
+    checkString(collection.name, at, 'name', true);
+    if (collection.alias.includes('/')) {
+      fail(at, `alias "${collection.alias}" must not contain "/"`);
+    }
+    const path = collectionDefinitionPath(collection as CollectionDefinition);
+    if (paths.has(path)) {
+      fail(at, `duplicate collection "${path}"`);
+    }
+    paths.add(path);
+    validateFields(collection.fields, at);
+  });
+}
@@ -0,0 +1,317 @@
+import { callOptions } from '../config.js';
+import type { RequestOptions } from '../config.js';
+import { FoxnoseAPIError } from '../errors.js';
+import type { ManagementClient } from '../management/client.js';
+import type {
+  ComponentRef,
+  ComponentSyncConflictDetail,
+  SyncComponentSkippedItem,
+} from '../management/models.js';
+import { resolveKey } from '../management/models.js';
+import { collectionPaths, latestPublished } from './plan.js';
+import { diffSchemaVersions } from './versions.js';
+
+/** A `nested` field of a collection's published version that embeds a component. */
+export interface ComponentDependent {
+  /** Collection key. */
+  collection: string;
+  /** Collection path (`parent/alias`). */
+  collectionPath: string;
+  /** Published collection version the field belongs to. */
+  schemaVersion: string;
+  fieldPath: string;
+  /** Component version the field is pinned to (`meta.component_version`). */
+  pinnedVersion: string;
+  /** Whether the field follows new component versions (`meta.auto_update`). */
+  autoUpdate: boolean;
+  /** Whether the pin is behind the component's `current_version`. */
+  outdated: boolean;
+}
+
+export interface ComponentNode {
+  /** Component key. */
+  component: string;
+  name: string;
+  /** Published component version, `null` if none. */
+  currentVersion: string | null;
+  /** Nested fields embedding the component, by collection path and field path. */
+  dependents: ComponentDependent[];
+}
+
+export interface ComponentGraph {
+  components: ComponentNode[];
+  /** Nested fields embedding a component that does not exist. */
+  unresolved: ComponentDependent[];
+}
+
+export interface ComponentImpact extends ComponentNode {
+  /** The dependents pinned behind `currentVersion`. */
+  outdated: ComponentDependent[];
+}
+
+export interface ComponentGraphOptions extends RequestOptions {
+  /** Use this graph instead of reading the environment again. */
+  graph?: ComponentGraph;
+}
+
+export interface SyncComponentDependentsOptions extends ComponentGraphOptions {
+  /**
+   * Report what would be synced or skipped without syncing. The report's
+   * `conflicts` then lists the breaking changes between each pinned version
+   * and `currentVersion`. Defaults to `false`.
+   */
+  dryRun?: boolean;
+}
+
+export interface DependentSyncResult {
+  collection: string;
+  collectionPath: string;
+  /** Field paths advanced to the current component version (or that would be). */
+  synced: string[];
+  /** Field paths left alone, with the same reasons as `syncCollectionComponent`. */
+  skipped: SyncComponentSkippedItem[];
+  /** New published collection version, `null` if nothing was synced or in a dry run. */
+  schemaVersion: string | null;
+  /** Breaking changes the sync would run into; only computed in a dry run. */
+  conflicts: ComponentSyncConflictDetail[];
+  /** Why the sync failed, e.g. a 409 `component_sync_conflict`. */
+  error: FoxnoseAPIError | null;
+}
+
+export interface ComponentSyncReport {
+  component: string;
+  currentVersion: string | null;
+  dryRun: boolean;
+  collections: DependentSyncResult[];
+}
+
+/**
+ * Builds the dependency graph between components and the collections that
+ * embed them through `nested` fields, from the published version of every
+ * collection. Read-only.
+ *
+ * @example
+ * ```ts
+ * const graph = await componentGraph(client);
+ * for (const node of graph.components) {
+ *   console.log(node.name, node.dependents.map((d) => `${d.collectionPath}.${d.fieldPath}`));
+ * }
+ * ```
+ */
+export async function componentGraph(
+  client: ManagementClient,
+  options: RequestOptions = {},
+): Promise<ComponentGraph> {
+  const request = callOptions(options);
+  const components = await client.iterateComponents(undefined, request).toArray();
+  const collections = await client.iterateCollections(undefined, request).toArray();
+  const paths = collectionPaths(collections);
+  const nodes = new Map<string, ComponentNode>(
+    components.map((component) => [
+      component.key,
+      {
+        component: component.key,
+        name: component.name,
+        currentVersion: component.current_version ?? null,
+        dependents: [],
+      },
+    ]),
+  );
+  const unresolved: ComponentDependent[] = [];
+
+  for (const collection of collections) {
+    const versions = await client
+      .iterateCollectionVersions(collection.key, undefined, request)
+      .toArray();
+    const published = latestPublished(versions);
+    if (!published) {
+      continue;
+    }
+    const fields = client.iterateCollectionFields(
+      collection.key,
+      published.key,
+      undefined,
+      request,
+    );
+    for await (const field of fields) {
+      if (field.type !== 'nested' || !field.meta?.component) {
+        continue;
+      }
+      const node = nodes.get(field.meta.component);
+      const pinnedVersion = field.meta.component_version;
+      const dependent: ComponentDependent = {
+        collection: collection.key,
+        collectionPath: paths.get(collection.key)!,
+        schemaVersion: published.key,
+        fieldPath: field.path,
+        pinnedVersion,
+        autoUpdate: !!field.meta.auto_update,
+        outdated: !!node?.currentVersion && pinnedVersion !== node.currentVersion,
+      };
+      (node ? node.dependents : unresolved).push(dependent);
+    }
+  }
+
+  const byLocation = (a: ComponentDependent, b: ComponentDependent) => {
+    const x = `${a.collectionPath}\0${a.fieldPath}`;
+    const y = `${b.collectionPath}\0${b.fieldPath}`;
+    return x < y ? -1 : x > y ? 1 : 0;
+  };
+  for (const node of nodes.values()) {
+    node.dependents.sort(byLocation);
+  }
+  return { components: [...nodes.values()], unresolved: unresolved.sort(byLocation) };
+}
+
+/** The graph node of a component; throws the API's 404 if it does not exist. */
+async function findNode(
+  client: ManagementClient,
+  component: ComponentRef,
+  options: ComponentGraphOptions,
+): Promise<ComponentNode> {
+  const key = resolveKey(component);
+  const graph = options.graph ?? (await componentGraph(client, options));
+  const node = graph.components.find((candidate) => candidate.component === key);
+  if (node) {
+    return node;
+  }
+  // Not in a graph passed by the caller, which may predate the component.
+  const summary = await client.getComponent(key, callOptions(options));
+  return {
+    component: summary.key,
+    name: summary.name,
+    currentVersion: summary.current_version ?? null,
+    dependents: [],
+  };
+}
+
+/**
+ * Lists the collections embedding a component, and which of them are pinned
+ * behind its `current_version`. Reads the whole environment unless `graph`
+ * is given.
+ */
+export async function componentImpact(
+  client: ManagementClient,
+  component: ComponentRef,
+  options: ComponentGraphOptions = {},
+): Promise<ComponentImpact> {
+  const node = await findNode(client, component, options);
+  return { ...node, outdated: node.dependents.filter((dependent) => dependent.outdated) };
+}
+
+/** Groups dependents by collection, keeping their order. */
+function byCollection(dependents: ComponentDependent[]): ComponentDependent[][] {
+  const groups = new Map<string, ComponentDependent[]>();
+  for (const dependent of dependents) {
+    const group = groups.get(dependent.collection) ?? [];
+    group.push(dependent);
+    groups.set(dependent.collection, group);
+  }
+  return [...groups.values()];
+}
+
+/** What `syncCollectionComponent` would skip, mirroring the server's rules. */
+function skipReason(dependent: ComponentDependent, currentVersion: string | null): string | null {
+  if (dependent.autoUpdate) {
+    return 'auto_update_mode';
+  }
+  if (!currentVersion) {
+    return 'component_unpublished';
+  }
+  return dependent.pinnedVersion === currentVersion ? 'already_at_target' : null;
+}
+
+/**
+ * Advances every pinned `nested` field embedding a component to the
+ * component's `current_version`, typically right after publishing it, with
+ * one `syncCollectionComponent` call per dependent collection. Only the
+ * component's own fields are synced. A collection whose sync fails with an
+ * API error, such as a `component_sync_conflict`, gets the error in its
+ * result and the others are still synced.
+ *
+ * With `dryRun`, nothing is written: the report lists what would be synced
+ * or skipped and the breaking changes each sync would run into.
+ *
+ * @example
+ * ```ts
+ * await client.publishComponentVersion('cmp-seo', draft);
+ * const report = await syncComponentDependents(client, 'cmp-seo', { dryRun: true });
+ * ```
+ */
+export async function syncComponentDependents(
+  client: ManagementClient,
+  component: ComponentRef,
+  options: SyncComponentDependentsOptions = {},
+): Promise<ComponentSyncReport> {
+  const request = callOptions(options);
+  const node = await findNode(client, component, options);
+  const dryRun = !!options.dryRun;
+  const report: ComponentSyncReport = {
+    component: node.component,
+    currentVersion: node.currentVersion,
+    dryRun,
+    collections: [],
+  };
+  // Conflicts between a pinned version and the current one, shared by fields
+  // pinned to the same version.
+  const conflicts = new Map<string, Promise<ComponentSyncConflictDetail[]>>();
+  const conflictsFrom = (pinned: string) => {
+    if (!conflicts.has(pinned)) {
+      conflicts.set(
+        pinned,
+        diffSchemaVersions(client, node.component, pinned, node.currentVersion!, {
+          kind: 'component',
+          ...request,
+        }).then((diff) => diff.conflicts),
+      );
+    }
+    return conflicts.get(pinned)!;
+  };
+
+  for (const dependents of byCollection(node.dependents)) {
+    const result: DependentSyncResult = {
+      collection: dependents[0].collection,
+      collectionPath: dependents[0].collectionPath,
+      synced: [],
+      skipped: [],
+      schemaVersion: null,
+      conflicts: [],
+      error: null,
+    };
+    report.collections.push(result);
+
+    if (dryRun) {
+      for (const dependent of dependents) {
+        const reason = skipReason(dependent, node.currentVersion);
+        if (reason) {
+          result.skipped.push({ path: dependent.fieldPath, reason });
+          continue;
+        }
+        result.synced.push(dependent.fieldPath);
+        for (const conflict of await conflictsFrom(dependent.pinnedVersion)) {
+          result.conflicts.push({
+            ...conflict,
+            field_path: `${dependent.fieldPath}.${conflict.field_path}`,
+          });
+        }
+      }
+      continue;
+    }
+
+    try {
+      const response = await client.syncCollectionComponent(result.collection, {
+        fieldPaths: dependents.map((dependent) => dependent.fieldPath),
+        ...request,
+      });
+      result.synced = response.synced_paths;
+      result.skipped = response.skipped.filter((item) => item.reason !== 'not_requested');
+      result.schemaVersion = response.schema_version;
+    } catch (err) {
+      if (!(err instanceof FoxnoseAPIError)) {
+        throw err;
+      }
+      result.error = err;
+    }
+  }
+  return report;
+}
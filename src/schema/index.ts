@@ -0,0 +1,43 @@
+export {
+  collectionDefinitionPath,
+  defineSchema,
+  parseSchemaDefinition,
+  validateSchemaDefinition,
+} from './definition.js';
+export type {
+  CollectionDefinition,
+  ComponentDefinition,
+  FieldDefinition,
+  SchemaDefinition,
+} from './definition.js';
+export { formatSchemaPlan, planSchema } from './plan.js';
+export type {
+  AttributeDiff,
+  FieldChange,
+  ModelKind,
+  ModelPlan,
+  SchemaPlan,
+  SchemaPlanOptions,
+} from './plan.js';
+export { applySchemaPlan } from './apply.js';
+export type { AppliedModel, SchemaApplyOptions, SchemaApplyResult } from './apply.js';
+export { diffSchemaVersions, safePublish } from './versions.js';
+export type {
+  BlockingReason,
+  DiffSchemaVersionsOptions,
+  SafePublishOptions,
+  SafePublishResult,
+  SchemaVersionDiff,
+  SchemaVersionFieldChange,
+} from './versions.js';
+export { componentGraph, componentImpact, syncComponentDependents } from './dependencies.js';
+export type {
+  ComponentDependent,
+  ComponentGraph,
+  ComponentGraphOptions,
+  ComponentImpact,
+  ComponentNode,
+  ComponentSyncReport,
+  DependentSyncResult,
+  SyncComponentDependentsOptions,
+} from './dependencies.js';
@@ -0,0 +1,606 @@
+import { callOptions } from '../config.js';
+import type { RequestOptions } from '../config.js';
+import { SchemaDefinitionError } from '../errors.js';
+import type { ManagementClient } from '../management/client.js';
+import type {
+  CollectionSummary,
+  ComponentSummary,
+  FieldSummary,
+  SchemaVersionSummary,
+} from '../management/models.js';
+import type { PageIterator } from '../management/pagination.js';
+import type {
+  CollectionDefinition,
+  ComponentDefinition,
+  FieldDefinition,
+  SchemaDefinition,
+} from './definition.js';
+import { collectionDefinitionPath, validateSchemaDefinition } from './definition.js';
+
+export type ModelKind = 'collection' | 'component';
+
+/** A single attribute whose live value differs from the definition. */
+export interface AttributeDiff {
+  attribute: string;
+  before: unknown;
+  after: unknown;
+}
+
+/**
+ * One field operation. `replace` is planned when the type changes, since a
+ * field's type cannot be updated in place; it deletes and re-creates the
+ * field (and its children).
+ */
+export interface FieldChange {
+  action: 'add' | 'update' | 'delete' | 'replace';
+  path: string;
+  parent: string | null;
+  /** Field payload sent on add, replace and update. */
+  payload?: Record<string, any>;
+  /** Changed attributes, for update and replace. */
+  diffs: AttributeDiff[];
+}
+
+export interface ModelPlan {
+  kind: ModelKind;
+  /** Collection path or component name. */
+  id: string;
+  action: 'create' | 'update' | 'noop';
+  /** Key of the live model, `null` when it will be created. */
+  key: string | null;
+  /** Parent collection path, for nested collections. */
+  parent: string | null;
+  /** Create payload for new models, or the changed attributes for existing ones. */
+  payload: Record<string, any>;
+  /** Model-level attributes that differ (collection name, component description). */
+  attributes: AttributeDiff[];
+  /** Published version the draft is copied from, `null` if none exists. */
+  baseVersion: string | null;
+  fields: FieldChange[];
+}
+
+export interface SchemaPlan {
+  /** Components first, then collections, parents before children. */
+  models: ModelPlan[];
+  hasChanges: boolean;
+}
+
+export interface SchemaPlanOptions extends RequestOptions {
+  /**
+   * Delete live fields that are not in the definition. Defaults to `true`.
+   * Models missing from the definition are never deleted.
+   */
+  prune?: boolean;
+}
+
+const FIELD_FLAGS = [
+  'required',
+  'nullable',
+  'multiple',
+  'localizable',
+  'searchable',
+  'private',
+  'vectorizable',
+] as const;
+
+/**
+ * Collection and component endpoints behind one interface, so planning and
+ * applying work the same way for both.
+ * @internal
+ */
+export interface ModelOperations {
+  iterateVersions(key: string, options?: RequestOptions): PageIterator<SchemaVersionSummary>;
+  getVersion(
+    key: string,
+    version: string,
+    options: { includeSchema?: boolean } & RequestOptions,
+  ): Promise<SchemaVersionSummary>;
+  createVersion(
+    key: string,
+    payload: Record<string, any>,
+    options: { copyFrom?: string } & RequestOptions,
+  ): Promise<SchemaVersionSummary>;
+  deleteVersion(key: string, version: string, options?: RequestOptions): Promise<void>;
+  publishVersion(
+    key: string,
+    version: string,
+    options?: RequestOptions,
+  ): Promise<SchemaVersionSummary>;
+  iterateFields(key: string, version: string, options?: RequestOptions): PageIterator<FieldSummary>;
+  createField(
+    key: string,
+    version: string,
+    payload: Record<string, any>,
+    options?: RequestOptions,
+  ): Promise<FieldSummary>;
+  updateField(
+    key: string,
+    version: string,
+    path: string,
+    payload: Record<string, any>,
+    options?: RequestOptions,
+  ): Promise<FieldSummary>;
+  deleteField(key: string, version: string, path: string, options?: RequestOptions): Promise<void>;
+}
+
+/** @internal */
+export function modelOperations(client: ManagementClient, kind: ModelKind): ModelOperations {
+  if (kind === 'collection') {
+    return {
+      iterateVersions: (key, options) => client.iterateCollectionVersions(key, undefined, options),
+      getVersion: (key, version, options) => client.getCollectionVersion(key, version, options),
+      createVersion: (key, payload, options) =>
+        client.createCollectionVersion(key, payload, options),
+      deleteVersion: (key, version, options) =>
+        client.deleteCollectionVersion(key, version, options),
+      publishVersion: (key, version, options) =>
+        client.publishCollectionVersion(key, version, options),
+      iterateFields: (key, version, options) =>
+        client.iterateCollectionFields(key, version, undefined, options),
+      createField: (key, version, payload, options) =>
+        client.createCollectionField(key, version, payload, options),
+      updateField: (key, version, path, payload, options) =>
+        client.updateCollectionField(key, version, path, payload, options),
+      deleteField: (key, version, path, options) =>
+        client.deleteCollectionField(key, version, path, options),
+    };
+  }
+  return {
+    iterateVersions: (key, options) => client.iterateComponentVersions(key, undefined, options),
+    getVersion: (key, version, options) => client.getComponentVersion(key, version, options),
+    createVersion: (key, payload, options) => client.createComponentVersion(key, payload, options),
+    deleteVersion: (key, version, options) => client.deleteComponentVersion(key, version, options),
+    publishVersion: (key, version, options) =>
+      client.publishComponentVersion(key, version, options),
+    iterateFields: (key, version, options) =>
+      client.iterateComponentFields(key, version, undefined, options),
+    createField: (key, version, payload, options) =>
+      client.createComponentField(key, version, payload, options),
+    updateField: (key, version, path, payload, options) =>
+      client.updateComponentField(key, version, path, payload, options),
+    deleteField: (key, version, path, options) =>
+      client.deleteComponentField(key, version, path, options),
+  };
+}
+
+/** @internal */
+export function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+    return false;
+  }
+  if (Array.isArray(a) !== Array.isArray(b)) {
+    return false;
+  }
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  return (
+    keysA.length === keysB.length &&
+    keysA.every((key) => deepEqual((a as any)[key], (b as any)[key]))
+  );
+}
+
+interface FlatField {
+  path: string;
+  parent: string | null;
+  definition: FieldDefinition;
+}
+
+/** Field attributes compared by {@link diffFieldAttributes}. @internal */
+export type FieldAttribute =
+  | 'type'
+  | 'name'
+  | 'description'
+  | 'meta'
+  | (typeof FIELD_FLAGS)[number];
+
+/**
+ * A field attribute with the API defaults filled in: flags default to
+ * `false`, `description` to `null`, `meta` to `{}` and `name` to the key.
+ *
+ * @internal
+ */
+export function fieldAttribute(
+  field: FieldDefinition | FieldSummary,
+  attribute: FieldAttribute,
+): unknown {
+  switch (attribute) {
+    case 'type':
+      return field.type;
+    case 'name':
+      return field.name ?? field.key;
+    case 'description':
+      return field.description ?? null;
+    case 'meta':
+      return field.meta ?? {};
+    default:
+      return field[attribute] ?? false;
+  }
+}
+
+/**
+ * Compares two fields on `attributes`, with defaults filled in by
+ * {@link fieldAttribute}.
+ *
+ * @internal
+ */
+export function diffFieldAttributes(
+  before: FieldDefinition | FieldSummary,
+  after: FieldDefinition | FieldSummary,
+  attributes: readonly FieldAttribute[],
+): AttributeDiff[] {
+  const diffs: AttributeDiff[] = [];
+  for (const attribute of attributes) {
+    const a = fieldAttribute(before, attribute);
+    const b = fieldAttribute(after, attribute);
+    if (!deepEqual(a, b)) {
+      diffs.push({ attribute, before: a, after: b });
+    }
+  }
+  return diffs;
+}
+
+/** Flattens nested definitions depth-first, so parents precede children. */
+function flattenFields(
+  fields: FieldDefinition[],
+  parent: string | null = null,
+  out: FlatField[] = [],
+): FlatField[] {
+  for (const definition of fields) {
+    const path = parent ? `${parent}.${definition.key}` : definition.key;
+    out.push({ path, parent, definition });
+    if (definition.fields) {
+      flattenFields(definition.fields, path, out);
+    }
+  }
+  return out;
+}
+
+/** The API payload for a field definition, with defaults filled in. */
+function fieldPayload(definition: FieldDefinition, parent: string | null): Record<string, any> {
+  const payload: Record<string, any> = {
+    key: definition.key,
+    name: fieldAttribute(definition, 'name'),
+    type: definition.type,
+    description: fieldAttribute(definition, 'description'),
+  };
+  for (const flag of FIELD_FLAGS) {
+    payload[flag] = fieldAttribute(definition, flag);
+  }
+  if (definition.meta !== undefined) {
+    payload.meta = definition.meta;
+  }
+  if (parent !== null) {
+    payload.parent = parent;
+  }
+  return payload;
+}
+
+function diffField(live: FieldSummary, definition: FieldDefinition): AttributeDiff[] {
+  const diffs = diffFieldAttributes(live, definition, [
+    'type',
+    'name',
+    'description',
+    ...FIELD_FLAGS,
+  ]);
+  // Only meta keys set in the definition are managed by it.
+  for (const [key, value] of Object.entries(definition.meta ?? {})) {
+    if (!deepEqual(live.meta?.[key], value)) {
+      diffs.push({ attribute: `meta.${key}`, before: live.meta?.[key], after: value });
+    }
+  }
+  return diffs;
+}
+
+/**
+ * Diffs definition fields against live fields. Deletions come first (only
+ * the top-most deleted path, since children go with their parent), followed
+ * by adds, replaces and updates in definition order.
+ */
+function planFields(
+  definitions: FieldDefinition[],
+  live: FieldSummary[],
+  prune: boolean,
+): FieldChange[] {
+  const liveByPath = new Map(live.map((field) => [field.path, field]));
+  const wanted = flattenFields(definitions);
+  const wantedPaths = new Set(wanted.map((field) => field.path));
+
+  const changes: FieldChange[] = [];
+  const recreated = new Set<string>();
+  for (const { path, parent, definition } of wanted) {
+    const current = liveByPath.get(path);
+    const payload = fieldPayload(definition, parent);
+    if (!current || (parent !== null && recreated.has(parent))) {
+      recreated.add(path);
+      changes.push({ action: 'add', path, parent, payload, diffs: [] });
+      continue;
+    }
+    const diffs = diffField(current, definition);
+    if (diffs.some((diff) => diff.attribute === 'type')) {
+      recreated.add(path);
+      changes.push({ action: 'replace', path, parent, payload, diffs });
+    } else if (diffs.length > 0) {
+      delete payload.key;
+      delete payload.parent;
+      if (definition.meta !== undefined) {
+        payload.meta = { ...current.meta, ...definition.meta };
+      }
+      changes.push({ action: 'update', path, parent, payload, diffs });
+    }
+  }
+
+  // Children of deleted or replaced fields disappear with their parent.
+  const removed = new Set(recreated);
+  const underRemoved = (path: string) => {
+    const parts = path.split('.');
+    return parts.some((_, i) => i > 0 && removed.has(parts.slice(0, i).join('.')));
+  };
+  const deletes: FieldChange[] = [];
+  if (prune) {
+    const unwanted = live
+      .filter((field) => !wantedPaths.has(field.path))
+      .sort((a, b) => a.path.split('.').length - b.path.split('.').length);
+    for (const field of unwanted) {
+      if (!underRemoved(field.path)) {
+        removed.add(field.path);
+        deletes.push({ action: 'delete', path: field.path, parent: field.parent, diffs: [] });
+      }
+    }
+  }
+  return [...deletes, ...changes];
+}
+
+/**
+ * The published, non-archived version among `versions`, if any.
+ * @internal
+ */
+export function latestPublished(versions: SchemaVersionSummary[]): SchemaVersionSummary | null {
+  let latest: SchemaVersionSummary | null = null;
+  for (const version of versions) {
+    if (version.published_at && !version.archived_at) {
+      if (!latest || (version.version_number ?? 0) > (latest.version_number ?? 0)) {
+        latest = version;
+      }
+    }
+  }
+  return latest;
+}
+
+/** The published, non-archived version of a model, if any. */
+async function publishedVersion(
+  ops: ModelOperations,
+  key: string,
+  options: RequestOptions,
+): Promise<SchemaVersionSummary | null> {
+  return latestPublished(await ops.iterateVersions(key, options).toArray());
+}
+
+async function planModel(
+  client: ManagementClient,
+  kind: ModelKind,
+  id: string,
+  live: { key: string } | undefined,
+  fields: FieldDefinition[],
+  options: SchemaPlanOptions,
+): Promise<Omit<ModelPlan, 'payload' | 'attributes' | 'parent'>> {
+  if (!live) {
+    return {
+      kind,
+      id,
+      action: 'create',
+      key: null,
+      baseVersion: null,
+      fields: planFields(fields, [], false),
+    };
+  }
+  const ops = modelOperations(client, kind);
+  const request = callOptions(options);
+  const base = await publishedVersion(ops, live.key, request);
+  const liveFields = base ? await ops.iterateFields(live.key, base.key, request).toArray() : [];
+  return {
+    kind,
+    id,
+    action: 'noop',
+    key: live.key,
+    baseVersion: base?.key ?? null,
+    fields: planFields(fields, liveFields, options.prune ?? true),
+  };
+}
+
+function finish(plan: ModelPlan): ModelPlan {
+  if (plan.action === 'noop' && (plan.attributes.length > 0 || plan.fields.length > 0)) {
+    return { ...plan, action: 'update' };
+  }
+  return plan;
+}
+
+async function planComponent(
+  client: ManagementClient,
+  definition: ComponentDefinition,
+  live: ComponentSummary | undefined,
+  options: SchemaPlanOptions,
+): Promise<ModelPlan> {
+  const base = await planModel(
+    client,
+    'component',
+    definition.name,
+    live,
+    definition.fields,
+    options,
+  );
+  const attributes: AttributeDiff[] = [];
+  const payload: Record<string, any> = {};
+  if (!live) {
+    payload.name = definition.name;
+    payload.description = definition.description ?? null;
+    if (definition.contentType !== undefined) {
+      payload.content_type = definition.contentType;
+    }
+  } else if ((live.description ?? null) !== (definition.description ?? null)) {
+    attributes.push({
+      attribute: 'description',
+      before: live.description ?? null,
+      after: definition.description ?? null,
+    });
+    payload.description = definition.description ?? null;
+  }
+  return finish({ ...base, parent: null, payload, attributes });
+}
+
+async function planCollection(
+  client: ManagementClient,
+  definition: CollectionDefinition,
+  live: CollectionSummary | undefined,
+  parentKey: string | null,
+  options: SchemaPlanOptions,
+): Promise<ModelPlan> {
+  const id = collectionDefinitionPath(definition);
+  const base = await planModel(client, 'collection', id, live, definition.fields, options);
+  const name = definition.name ?? definition.alias;
+  const attributes: AttributeDiff[] = [];
+  const payload: Record<string, any> = {};
+  if (!live) {
+    payload.name = name;
+    payload.alias = definition.alias;
+    if (parentKey !== null) {
+      payload.parent = parentKey;
+    }
+    if (definition.contentType !== undefined) {
+      payload.content_type = definition.contentType;
+    }
+  } else if (live.name !== name) {
+    attributes.push({ attribute: 'name', before: live.name, after: name });
+    payload.name = name;
+  }
+  return finish({ ...base, parent: definition.parent ?? null, payload, attributes });
+}
+
+/**
+ * Maps each collection key to its path (`parent/alias`), using the `path`
+ * returned by the API when present.
+ * @internal
+ */
+export function collectionPaths(collections: CollectionSummary[]): Map<string, string> {
+  const byKey = new Map(collections.map((collection) => [collection.key, collection]));
+  const pathOf = (collection: CollectionSummary): string => {
+    if (collection.path) {
+      return collection.path;
+    }
+    const parent = collection.parent ? byKey.get(collection.parent) : undefined;
+    return parent ? `${pathOf(parent)}/${collection.alias}` : collection.alias;
+  };
+  return new Map(collections.map((collection) => [collection.key, pathOf(collection)]));
+}
+
+/**
+ * Computes the changes needed to make the environment match `definition`.
+ * Read-only: lists collections, components, their published versions and
+ * fields, but writes nothing. Pass the result to {@link applySchemaPlan} and
+ * print it with {@link formatSchemaPlan}.
+ *
+ * @throws {SchemaDefinitionError} When the definition is malformed.
+ */
+export async function planSchema(
+  client: ManagementClient,
+  definition: SchemaDefinition,
+  options: SchemaPlanOptions = {},
+): Promise<SchemaPlan> {
+  validateSchemaDefinition(definition);
+  const request = callOptions(options);
+  const models: ModelPlan[] = [];
+
+  if (definition.components?.length) {
+    const live = await client.iterateComponents(undefined, request).toArray();
+    const byName = new Map(live.map((component) => [component.name, component]));
+    for (const component of definition.components) {
+      models.push(await planComponent(client, component, byName.get(component.name), options));
+    }
+  }
+
+  if (definition.collections?.length) {
+    const live = await client.iterateCollections(undefined, request).toArray();
+    const paths = collectionPaths(live);
+    const byPath = new Map(live.map((collection) => [paths.get(collection.key)!, collection]));
+    const ordered = [...definition.collections].sort(
+      (a, b) =>
+        collectionDefinitionPath(a).split('/').length -
+        collectionDefinitionPath(b).split('/').length,
+    );
+    const defined = new Set(ordered.map(collectionDefinitionPath));
+    for (const collection of ordered) {
+      const path = collectionDefinitionPath(collection);
+      let parentKey: string | null = null;
+      if (collection.parent) {
+        parentKey = byPath.get(collection.parent)?.key ?? null;
+        if (parentKey === null && !defined.has(collection.parent)) {
+          throw new SchemaDefinitionError(
+            `collections: parent "${collection.parent}" of "${path}" is neither defined nor live`,
+          );
+        }
+      }
+      models.push(await planCollection(client, collection, byPath.get(path), parentKey, options));
+    }
+  }
+
+  return { models, hasChanges: models.some((model) => model.action !== 'noop') };
+}
+
+function formatValue(value: unknown): string {
+  return value === undefined ? 'unset' : JSON.stringify(value);
+}
+
+/**
+ * Renders a plan as text, one line per change:
+ *
+ * ```text
+ * + collection articles
+ *     + field title (string)
+ * ~ component seo
+ *     ~ field slug: required false -> true
+ *     - field legacy
+ * Plan: 1 to create, 1 to update, 0 unchanged.
+ * ```
+ */
+export function formatSchemaPlan(plan: SchemaPlan): string {
+  const lines: string[] = [];
+  const counts = { create: 0, update: 0, noop: 0 };
+  const symbols = { create: '+', update: '~', noop: ' ', add: '+', delete: '-', replace: '-/+' };
+
+  for (const model of plan.models) {
+    counts[model.action] += 1;
+    if (model.action === 'noop') {
+      continue;
+    }
+    lines.push(`${symbols[model.action]} ${model.kind} ${model.id}`);
+    for (const diff of model.attributes) {
+      lines.push(
+        `    ~ ${diff.attribute}: ${formatValue(diff.before)} -> ${formatValue(diff.after)}`,
+      );
+    }
+    for (const change of model.fields) {
+      const prefix = `    ${symbols[change.action]} field ${change.path}`;
+      if (change.action === 'add') {
+        lines.push(`${prefix} (${change.payload?.type})`);
+      } else if (change.action === 'delete') {
+        lines.push(prefix);
+      } else {
+        const diffs = change.diffs
+          .map(
+            (diff) => `${diff.attribute} ${formatValue(diff.before)} -> ${formatValue(diff.after)}`,
+          )
+          .join(', ');
+        lines.push(`${prefix}: ${diffs}`);
+      }
+    }
+  }
+  if (!plan.hasChanges) {
+    lines.push('No changes.');
+  }
+  lines.push(
+    `Plan: ${counts.create} to create, ${counts.update} to update, ${counts.noop} unchanged.`,
+  );
+  return lines.join('\n');
+}
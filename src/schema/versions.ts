@@ -0,0 +1,327 @@
+import { callOptions } from '../config.js';
+import type { RequestOptions } from '../config.js';
+import { BreakingSchemaChangeError } from '../errors.js';
+import type { ManagementClient } from '../management/client.js';
+import type {
+  CollectionRef,
+  ComponentRef,
+  ComponentSyncConflictDetail,
+  FieldSummary,
+  SchemaVersionRef,
+  SchemaVersionSummary,
+} from '../management/models.js';
+import { resolveKey } from '../management/models.js';
+import type { AttributeDiff, ModelKind } from './plan.js';
+import { deepEqual, diffFieldAttributes, latestPublished, modelOperations } from './plan.js';
+
+/**
+ * Why a change breaks content written against the previous version, in the
+ * vocabulary of {@link ComponentSyncConflictDetail.blocking_reason}:
+ *
+ * - `field_removed`: the field no longer exists.
+ * - `required_field_added_no_default`: a new required field without a
+ *   default, which existing content lacks.
+ * - `type_narrowed`: the field accepts fewer values than before, e.g. a type
+ *   change other than a widening (`integer` to `number`, `email` to
+ *   `string`), a field becoming required or non-nullable, fewer select
+ *   options or tighter bounds.
+ */
+export type BlockingReason = 'field_removed' | 'required_field_added_no_default' | 'type_narrowed';
+
+export interface SchemaVersionFieldChange {
+  path: string;
+  change: 'added' | 'removed' | 'changed';
+  /** Field type in the newer version, or in the older one for removed fields. */
+  type: string;
+  /** Changed attributes, for changed fields. */
+  diffs: AttributeDiff[];
+  /** Why the change is breaking, or `null` when existing content stays valid. */
+  blockingReason: BlockingReason | null;
+}
+
+export interface SchemaVersionDiff {
+  kind: ModelKind;
+  /** Collection or component key. */
+  model: string;
+  fromVersion: string;
+  toVersion: string;
+  /** Field changes, sorted by path. */
+  changes: SchemaVersionFieldChange[];
+  /** The breaking changes, shaped like the API's sync conflicts. */
+  conflicts: ComponentSyncConflictDetail[];
+  breaking: boolean;
+  /** Whether the versions' JSON Schemas differ. */
+  jsonSchemaChanged: boolean;
+}
+
+export interface DiffSchemaVersionsOptions extends RequestOptions {
+  /** Whether `model` is a collection or a component. Defaults to `collection`. */
+  kind?: ModelKind;
+}
+
+export interface SafePublishOptions extends DiffSchemaVersionsOptions {
+  /** Publish even if the version has breaking changes. Defaults to `false`. */
+  force?: boolean;
+}
+
+export interface SafePublishResult {
+  version: SchemaVersionSummary;
+  /** Diff against the previously published version, `null` on first publish. */
+  diff: SchemaVersionDiff | null;
+}
+
+const FLAGS = ['nullable', 'multiple', 'localizable', 'required'] as const;
+
+/** String types that accept any string. */
+const FREE_TEXT = new Set(['string', 'text', 'html', 'markdown']);
+/** String types whose values are a subset of any string. */
+const CONSTRAINED_TEXT = new Set(['email', 'url', 'slug', 'select', 'date', 'datetime', 'time']);
+const NUMBERS = new Set(['number', 'float', 'decimal']);
+
+/** Whether every value of type `from` is a valid value of type `to`. */
+function typeWidens(from: string, to: string): boolean {
+  if (from === to) {
+    return true;
+  }
+  if (FREE_TEXT.has(to)) {
+    return FREE_TEXT.has(from) || CONSTRAINED_TEXT.has(from);
+  }
+  if (NUMBERS.has(to)) {
+    return NUMBERS.has(from) || from === 'integer';
+  }
+  return false;
+}
+
+function jsonTypes(schema: Record<string, any>): Set<string> | null {
+  if (schema.type === undefined) {
+    return null;
+  }
+  return new Set(Array.isArray(schema.type) ? schema.type : [schema.type]);
+}
+
+/** Whether `after` rejects values that `before` accepted, as far as can be told. */
+function schemaNarrows(before: Record<string, any>, after: Record<string, any>): boolean {
+  const from = jsonTypes(before);
+  const to = jsonTypes(after);
+  if (
+    to &&
+    (!from || [...from].some((t) => !to.has(t) && !(t === 'integer' && to.has('number'))))
+  ) {
+    return true;
+  }
+  if (
+    Array.isArray(after.enum) &&
+    (!Array.isArray(before.enum) ||
+      before.enum.some((v: unknown) => !after.enum.some((w: unknown) => deepEqual(v, w))))
+  ) {
+    return true;
+  }
+  for (const bound of ['maxLength', 'maximum', 'maxItems']) {
+    if (
+      after[bound] !== undefined &&
+      !(before[bound] !== undefined && after[bound] >= before[bound])
+    ) {
+      return true;
+    }
+  }
+  for (const bound of ['minLength', 'minimum', 'minItems']) {
+    if (
+      after[bound] !== undefined &&
+      !(before[bound] !== undefined && after[bound] <= before[bound])
+    ) {
+      return true;
+    }
+  }
+  if (after.format !== undefined && after.format !== before.format) {
+    return true;
+  }
+  for (const nested of ['items', 'additionalProperties']) {
+    const b = before[nested];
+    const a = after[nested];
+    if (b && a && typeof b === 'object' && typeof a === 'object' && schemaNarrows(b, a)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/** Whether a change of `meta` rejects values that were valid before. */
+function metaNarrows(before: Record<string, any>, after: Record<string, any>): boolean {
+  if (Array.isArray(after.options)) {
+    const options: unknown[] = Array.isArray(before.options) ? before.options : [];
+    if (options.some((option) => !after.options.includes(option))) {
+      return true;
+    }
+  }
+  const tighter = (key: string, lower: boolean) =>
+    typeof after[key] === 'number' &&
+    (typeof before[key] !== 'number' ||
+      (lower ? after[key] > before[key] : after[key] < before[key]));
+  return (
+    tighter('min_length', true) ||
+    tighter('min_value', true) ||
+    tighter('max_length', false) ||
+    tighter('max_value', false)
+  );
+}
+
+function attributeDiffs(from: FieldSummary, to: FieldSummary): AttributeDiff[] {
+  return diffFieldAttributes(from, to, [
+    'type',
+    'name',
+    'description',
+    ...FLAGS,
+    'searchable',
+    'private',
+    'vectorizable',
+    'meta',
+  ]);
+}
+
+function changedReason(from: FieldSummary, to: FieldSummary): BlockingReason | null {
+  const narrowed =
+    !typeWidens(from.type, to.type) ||
+    (!from.required && to.required) ||
+    (from.nullable && !to.nullable) ||
+    !!from.multiple !== !!to.multiple ||
+    !!from.localizable !== !!to.localizable ||
+    metaNarrows(from.meta ?? {}, to.meta ?? {}) ||
+    (!!from.json_schema && !!to.json_schema && schemaNarrows(from.json_schema, to.json_schema));
+  return narrowed ? 'type_narrowed' : null;
+}
+
+function hasDefault(field: FieldSummary): boolean {
+  return field.meta?.default !== undefined || field.json_schema?.default !== undefined;
+}
+
+/**
+ * Compares the fields of two versions. A field added under a parent that is
+ * itself new only counts against the parent, which existing content lacks
+ * as a whole.
+ */
+function diffFields(from: FieldSummary[], to: FieldSummary[]): SchemaVersionFieldChange[] {
+  const before = new Map(from.map((field) => [field.path, field]));
+  const after = new Map(to.map((field) => [field.path, field]));
+  const changes: SchemaVersionFieldChange[] = [];
+
+  for (const [path, field] of before) {
+    if (!after.has(path)) {
+      const parentRemoved = field.parent !== null && !after.has(field.parent);
+      changes.push({
+        path,
+        change: 'removed',
+        type: field.type,
+        diffs: [],
+        blockingReason: parentRemoved ? null : 'field_removed',
+      });
+    }
+  }
+  for (const [path, field] of after) {
+    const previous = before.get(path);
+    if (!previous) {
+      const parentExisted = field.parent === null || before.has(field.parent);
+      changes.push({
+        path,
+        change: 'added',
+        type: field.type,
+        diffs: [],
+        blockingReason:
+          parentExisted && field.required && !hasDefault(field)
+            ? 'required_field_added_no_default'
+            : null,
+      });
+      continue;
+    }
+    const diffs = attributeDiffs(previous, field);
+    if (diffs.length > 0) {
+      changes.push({
+        path,
+        change: 'changed',
+        type: field.type,
+        diffs,
+        blockingReason: changedReason(previous, field),
+      });
+    }
+  }
+  return changes.sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0));
+}
+
+/**
+ * Compares two schema versions of a collection (or, with `kind:
+ * 'component'`, a component) field by field and classifies each change as
+ * breaking or not for content written against `fromVersion`. Read-only.
+ *
+ * @example
+ * ```ts
+ * const diff = await diffSchemaVersions(client, 'articles', published, draft);
+ * for (const conflict of diff.conflicts) {
+ *   console.log(`${conflict.field_path}: ${conflict.blocking_reason}`);
+ * }
+ * ```
+ */
+export async function diffSchemaVersions(
+  client: ManagementClient,
+  model: CollectionRef | ComponentRef,
+  fromVersion: SchemaVersionRef,
+  toVersion: SchemaVersionRef,
+  options: DiffSchemaVersionsOptions = {},
+): Promise<SchemaVersionDiff> {
+  const kind = options.kind ?? 'collection';
+  const ops = modelOperations(client, kind);
+  const request = callOptions(options);
+  const key = resolveKey(model);
+  const from = resolveKey(fromVersion);
+  const to = resolveKey(toVersion);
+
+  const [fromSummary, toSummary, fromFields, toFields] = await Promise.all([
+    ops.getVersion(key, from, { includeSchema: true, ...request }),
+    ops.getVersion(key, to, { includeSchema: true, ...request }),
+    ops.iterateFields(key, from, request).toArray(),
+    ops.iterateFields(key, to, request).toArray(),
+  ]);
+  const changes = diffFields(fromFields, toFields);
+  const conflicts = changes
+    .filter((change) => change.blockingReason !== null)
+    .map((change) => ({ field_path: change.path, blocking_reason: change.blockingReason! }));
+  return {
+    kind,
+    model: key,
+    fromVersion: from,
+    toVersion: to,
+    changes,
+    conflicts,
+    breaking: conflicts.length > 0,
+    jsonSchemaChanged: !deepEqual(fromSummary.json_schema ?? null, toSummary.json_schema ?? null),
+  };
+}
+
+/**
+ * Publishes a schema version after checking it against the currently
+ * published one with {@link diffSchemaVersions}. Breaking changes are
+ * refused unless `force` is set. Publishes directly when nothing is
+ * published yet.
+ *
+ * @throws {BreakingSchemaChangeError} When the version has breaking changes
+ *   and `force` is not set. Nothing is published.
+ */
+export async function safePublish(
+  client: ManagementClient,
+  model: CollectionRef | ComponentRef,
+  version: SchemaVersionRef,
+  options: SafePublishOptions = {},
+): Promise<SafePublishResult> {
+  const ops = modelOperations(client, options.kind ?? 'collection');
+  const request = callOptions(options);
+  const key = resolveKey(model);
+  const target = resolveKey(version);
+
+  const current = latestPublished(await ops.iterateVersions(key, request).toArray());
+  const diff =
+    current && current.key !== target
+      ? await diffSchemaVersions(client, key, current.key, target, options)
+      : null;
+  if (diff?.breaking && !options.force) {
+    throw new BreakingSchemaChangeError(diff);
+  }
+  return { version: await ops.publishVersion(key, target, request), diff };
+}
@@ -0,0 +1,201 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type { FetchFunction } from '../config.js';
+import { CassetteMismatchError } from '../errors.js';
+import { redactHeaders } from '../logging.js';
+
+export type CassetteMode = 'record' | 'replay';
+
+export interface CassetteOptions {
+  /**
+   * `record` sends requests through `fetch` and writes each pair to the
+   * file; `replay` answers from the file without touching the network.
+   */
+  mode: CassetteMode;
+  /** Sends requests in record mode. Defaults to the global `fetch`. */
+  fetch?: FetchFunction;
+  /**
+   * Request headers left out of matching, on top of `authorization`, `date`,
+   * `user-agent`, `traceparent` and `tracestate`.
+   */
+  ignoreHeaders?: string[];
+}
+
+/** A body as stored in a cassette: parsed JSON, or raw text when not JSON. */
+export interface CassetteBody {
+  body?: unknown;
+  text?: string;
+}
+
+/** A recorded request/response pair. Credentials are redacted. */
+export interface CassetteInteraction {
+  request: { method: string; url: string; headers: Record<string, string> } & CassetteBody;
+  response: { status: number; headers: Record<string, string> } & CassetteBody;
+}
+
+const VOLATILE_HEADERS = ['authorization', 'date', 'user-agent', 'traceparent', 'tracestate'];
+
+// Bodies are stored decoded, so these no longer describe them.
+const ENCODING_HEADERS = new Set(['content-encoding', 'content-length', 'transfer-encoding']);
+
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304]);
+
+function toBody(text: string): CassetteBody {
+  if (!text) {
+    return {};
+  }
+  try {
+    return { body: JSON.parse(text) };
+  } catch {
+    return { text };
+  }
+}
+
+function fromBody(stored: CassetteBody): string {
+  if (stored.text !== undefined) {
+    return stored.text;
+  }
+  return stored.body === undefined ? '' : JSON.stringify(stored.body);
+}
+
+function requestText(body: RequestInit['body']): string {
+  if (body === undefined || body === null) {
+    return '';
+  }
+  return typeof body === 'string' ? body : new TextDecoder().decode(body as Uint8Array);
+}
+
+function headerRecord(headers: RequestInit['headers']): Record<string, string> {
+  const result: Record<string, string> = {};
+  new Headers(headers).forEach((value, key) => {
+    result[key] = value;
+  });
+  return redactHeaders(result);
+}
+
+/**
+ * Records HTTP traffic to a JSON file once, then replays it for offline,
+ * deterministic tests. Pass {@link fetch} to `ManagementClient` or
+ * `FluxClient`.
+ *
+ * Requests match a recorded interaction by method, URL, body and headers,
+ * except volatile ones such as `Date` and the `Authorization` signature of
+ * `SecureKeyAuth`. Each interaction is replayed once, in recorded order, so
+ * repeated requests get the responses they got while recording. An unmatched
+ * request fails with {@link CassetteMismatchError}.
+ *
+ * @example
+ * ```ts
+ * const cassette = new Cassette('tests/cassettes/articles.json', {
+ *   mode: process.env.RECORD ? 'record' : 'replay',
+ * });
+ * const client = new ManagementClient({
+ *   baseUrl: 'https://staging.api.foxnose.net',
+ *   environmentKey: 'env-1',
+ *   auth,
+ *   fetch: cassette.fetch,
+ * });
+ * ```
+ */
+export class Cassette {
+  readonly path: string;
+  readonly mode: CassetteMode;
+  /** `fetch`-compatible entry point; safe to pass around unbound. */
+  readonly fetch: FetchFunction;
+
+  private readonly send: FetchFunction;
+  private readonly ignored: Set<string>;
+  private interactions: Promise<CassetteInteraction[]> | null = null;
+  private readonly used = new Set<number>();
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(path: string, options: CassetteOptions) {
+    this.path = path;
+    this.mode = options.mode;
+    this.send = options.fetch ?? ((url, init) => globalThis.fetch(url, init));
+    this.ignored = new Set(
+      [...VOLATILE_HEADERS, ...(options.ignoreHeaders ?? [])].map((name) => name.toLowerCase()),
+    );
+    this.fetch = (url, init) =>
+      this.mode === 'record' ? this.record(url, init) : this.replay(url, init);
+  }
+
+  /** The interactions recorded so far, or loaded from the file when replaying. */
+  async load(): Promise<CassetteInteraction[]> {
+    if (!this.interactions) {
+      this.interactions =
+        this.mode === 'record'
+          ? Promise.resolve([])
+          : readFile(this.path, 'utf8').then((text) => JSON.parse(text).interactions ?? []);
+    }
+    return this.interactions;
+  }
+
+  private async record(url: string, init: RequestInit): Promise<Response> {
+    const response = await this.send(url, init);
+    const text = await response.text();
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, key) => {
+      if (!ENCODING_HEADERS.has(key)) {
+        headers[key] = value;
+      }
+    });
+    const interactions = await this.load();
+    interactions.push({
+      request: {
+        method: (init.method ?? 'GET').toUpperCase(),
+        url,
+        headers: headerRecord(init.headers),
+        ...toBody(requestText(init.body)),
+      },
+      response: { status: response.status, headers, ...toBody(text) },
+    });
+    // Writes are chained so concurrent requests never interleave them.
+    this.saving = this.saving.then(async () => {
+      await mkdir(dirname(this.path), { recursive: true });
+      await writeFile(this.path, `${JSON.stringify({ interactions }, null, 2)}\n`);
+    });
+    await this.saving;
+    return new Response(NULL_BODY_STATUSES.has(response.status) ? null : text, {
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+    });
+  }
+
+  private async replay(url: string, init: RequestInit): Promise<Response> {
+    if (init.signal?.aborted) {
+      throw init.signal.reason ?? new DOMException('The operation was aborted.', 'AbortError');
+    }
+    const method = (init.method ?? 'GET').toUpperCase();
+    const headers = this.matchedHeaders(headerRecord(init.headers));
+    const body = fromBody(toBody(requestText(init.body)));
+    const interactions = await this.load();
+    const index = interactions.findIndex(
+      ({ request }, i) =>
+        !this.used.has(i) &&
+        request.method === method &&
+        request.url === url &&
+        fromBody(request) === body &&
+        this.matchedHeaders(request.headers) === headers,
+    );
+    if (index === -1) {
+      throw new CassetteMismatchError(method, url);
+    }
+    this.used.add(index);
+    const { response } = interactions[index];
+    return new Response(NULL_BODY_STATUSES.has(response.status) ? null : fromBody(response), {
+      status: response.status,
+      headers: response.headers,
+    });
+  }
+
+  /** Canonical form of the headers that take part in matching. */
+  private matchedHeaders(headers: Record<string, string>): string {
+    const kept = Object.entries(headers)
+      .map(([name, value]) => [name.toLowerCase(), value])
+      .filter(([name]) => !this.ignored.has(name))
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return JSON.stringify(kept);
+  }
+}
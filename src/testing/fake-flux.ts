@@ -0,0 +1,318 @@
+/**
+ * Flux delivery API routes of {@link FakeFoxnoseServer}.
+ * @internal
+ */
+
+import type { FakeRequest, FakeResult } from './fake-http.js';
+import { FakeHttpError, notFound, ok, paginate, validationError } from './fake-http.js';
+import {
+  checkContent,
+  createResource,
+  currentRevision,
+  publishNewRevision,
+} from './fake-management.js';
+import type { ApiRecord, CollectionRecord, FakeState, ResourceRecord } from './fake-state.js';
+import { buildJsonSchema } from './fake-state.js';
+
+const SEARCH_MODES = new Set(['text', 'vector', 'hybrid', 'vector_boosted']);
+const TEXT_TYPES = new Set(['string', 'text', 'html', 'markdown', 'email', 'url', 'slug']);
+
+interface FluxRoute {
+  api: ApiRecord;
+  collection: CollectionRecord;
+  allowedMethods: string[];
+}
+
+function resourceOut(collection: CollectionRecord, resource: ResourceRecord) {
+  const revision = currentRevision(resource);
+  return {
+    _sys: {
+      key: resource.summary.key,
+      folder: collection.summary.key,
+      created_at: resource.summary.created_at,
+      updated_at: revision?.summary.published_at ?? resource.summary.created_at,
+      external_id: resource.summary.external_id ?? null,
+    },
+    data: revision?.data ?? {},
+  };
+}
+
+function publishedResources(collection: CollectionRecord): ResourceRecord[] {
+  return [...collection.resources.values()].filter((r) => currentRevision(r));
+}
+
+function requireAction(route: FluxRoute, action: string): void {
+  if (route.allowedMethods.includes(action)) {
+    return;
+  }
+  if (action === 'create' || action === 'update') {
+    throw new FakeHttpError(
+      403,
+      'collection_not_writable',
+      'This collection does not accept writes through this API.',
+    );
+  }
+  throw new FakeHttpError(403, 'access_denied', 'This action is not allowed on this route.');
+}
+
+// ---------------------------------------------------------------------------
+// Search
+// ---------------------------------------------------------------------------
+
+function getPath(data: any, path: string): unknown {
+  return path.split('.').reduce((value, key) => (value == null ? undefined : value[key]), data);
+}
+
+function compare(value: any, operator: string, expected: any): boolean {
+  switch (operator) {
+    case '$eq':
+      return value === expected;
+    case '$ne':
+      return value !== expected;
+    case '$in':
+      return Array.isArray(expected) && expected.includes(value);
+    case '$nin':
+      return Array.isArray(expected) && !expected.includes(value);
+    case '$gt':
+      return value > expected;
+    case '$gte':
+      return value >= expected;
+    case '$lt':
+      return value < expected;
+    case '$lte':
+      return value <= expected;
+    case '$contains':
+      return Array.isArray(value)
+        ? value.includes(expected)
+        : typeof value === 'string' && value.includes(String(expected));
+    case '$exists':
+      return (value !== undefined) === Boolean(expected);
+    default:
+      throw validationError({ where: [`Unsupported operator "${operator}".`] });
+  }
+}
+
+function matchesWhere(data: any, where: Record<string, any>): boolean {
+  return Object.entries(where).every(([key, condition]) => {
+    if (key === '$and' && Array.isArray(condition)) {
+      return condition.every((c) => matchesWhere(data, c));
+    }
+    if (key === '$or' && Array.isArray(condition)) {
+      return condition.some((c) => matchesWhere(data, c));
+    }
+    const value = getPath(data, key);
+    if (condition !== null && typeof condition === 'object' && !Array.isArray(condition)) {
+      return Object.entries(condition).every(([op, expected]) => compare(value, op, expected));
+    }
+    return value === condition;
+  });
+}
+
+function textOf(data: any, fields: string[]): string {
+  return fields
+    .map((field) => getPath(data, field))
+    .filter((value) => typeof value === 'string')
+    .join(' ')
+    .toLowerCase();
+}
+
+function sortItems(items: Array<{ data: any }>, sort: unknown): void {
+  const keys = (Array.isArray(sort) ? sort : typeof sort === 'string' ? sort.split(',') : [])
+    .map((s) => String(s).trim())
+    .filter(Boolean);
+  if (keys.length === 0) {
+    return;
+  }
+  items.sort((a, b) => {
+    for (const key of keys) {
+      const desc = key.startsWith('-');
+      const path = desc ? key.slice(1) : key;
+      const x = getPath(a.data, path) as any;
+      const y = getPath(b.data, path) as any;
+      if (x !== y) {
+        const order = x === undefined ? 1 : y === undefined ? -1 : x < y ? -1 : 1;
+        return desc ? -order : order;
+      }
+    }
+    return 0;
+  });
+}
+
+/**
+ * Evaluates a search body. Text queries are case-insensitive substring
+ * matches; vector modes have no embeddings here and fall back to matching
+ * `vector_search.query` as text (`vector_field_search` matches everything).
+ */
+function search(state: FakeState, req: FakeRequest, route: FluxRoute): FakeResult {
+  const body = req.body ?? {};
+  const mode = body.search_mode ?? 'text';
+  if (!SEARCH_MODES.has(mode)) {
+    throw validationError({ search_mode: [`"${mode}" is not a valid choice.`] });
+  }
+  const version = state.publishedVersion(route.collection);
+  const searchable = version
+    ? [...version.fields.values()]
+        .filter((f) => f.searchable && TEXT_TYPES.has(f.type))
+        .map((f) => f.path)
+    : [];
+
+  const terms = [body.find_text?.query, body.vector_search?.query]
+    .filter((q): q is string => typeof q === 'string' && q.length > 0)
+    .map((q) => q.toLowerCase());
+  let items = publishedResources(route.collection).map((r) => resourceOut(route.collection, r));
+  if (body.where) {
+    items = items.filter((item) => matchesWhere(item.data, body.where));
+  }
+  if (terms.length > 0) {
+    items = items.filter((item) => {
+      const fields =
+        body.find_text?.fields ??
+        body.vector_search?.fields ??
+        (searchable.length > 0 ? searchable : Object.keys(item.data));
+      const text = textOf(item.data, fields);
+      return terms.some((term) => text.includes(term));
+    });
+  }
+  sortItems(items, body.sort);
+  const offset = Number(body.offset ?? 0);
+  const limit = Number(body.limit ?? items.length);
+  return ok({ limit, offset, count: items.length, results: items.slice(offset, offset + limit) });
+}
+
+// ---------------------------------------------------------------------------
+// Routing
+// ---------------------------------------------------------------------------
+
+function resolveRoute(state: FakeState, api: ApiRecord, path: string): FluxRoute | undefined {
+  const collection = state.findCollectionByPath(path);
+  const connection = collection && api.collections.get(collection.summary.key);
+  if (!collection || !connection) {
+    return undefined;
+  }
+  return { api, collection, allowedMethods: connection.allowed_methods ?? [] };
+}
+
+function routerPayload(state: FakeState, api: ApiRecord) {
+  const routes = [...api.collections.values()].flatMap((connection) => {
+    const collection = state.collections.get(connection.folder);
+    if (!collection) {
+      return [];
+    }
+    return [
+      {
+        path: `/${api.info.prefix}/${state.collectionPath(collection)}`,
+        collection: collection.summary.key,
+        name: collection.summary.name,
+        actions: connection.allowed_methods ?? [],
+        description_get_one: connection.description_get_one ?? null,
+        description_get_many: connection.description_get_many ?? null,
+        description_search: connection.description_search ?? null,
+        description_schema: connection.description_schema ?? null,
+      },
+    ];
+  });
+  return { api: api.info.prefix, routes };
+}
+
+function schemaPayload(state: FakeState, route: FluxRoute) {
+  const version = state.publishedVersion(route.collection);
+  const fields = version ? [...version.fields.values()] : [];
+  return {
+    json_schema: buildJsonSchema(fields),
+    searchable_fields: fields.filter((f) => f.searchable).map((f) => f.path),
+    non_searchable_fields: fields.filter((f) => !f.searchable).map((f) => f.path),
+    path: `/${route.api.info.prefix}/${state.collectionPath(route.collection)}`,
+    actions: route.allowedMethods,
+  };
+}
+
+/**
+ * Handles a Flux request. `req.path` starts with the API prefix, e.g.
+ * `/v1/articles/_search`.
+ */
+export function handleFlux(state: FakeState, req: FakeRequest, pageSize: number): FakeResult {
+  const segments = req.path.split('/').filter(Boolean);
+  const prefix = segments.shift();
+  const api = [...state.apis.values()].find((a) => a.info.prefix === prefix);
+  if (!api) {
+    throw notFound('API');
+  }
+  if (api.info.is_auth_required && !req.headers.authorization) {
+    throw new FakeHttpError(
+      401,
+      'authentication_required',
+      'Authentication credentials were not provided.',
+    );
+  }
+  if (segments.length === 1 && segments[0] === '_router' && req.method === 'GET') {
+    return ok(routerPayload(state, api));
+  }
+
+  const last = segments[segments.length - 1];
+  if (last === '_schema' || last === '_search') {
+    const route = resolveRoute(state, api, segments.slice(0, -1).join('/'));
+    if (!route) {
+      throw notFound('Route');
+    }
+    if (last === '_schema' && req.method === 'GET') {
+      requireAction(route, 'schema');
+      return ok(schemaPayload(state, route));
+    }
+    if (last === '_search' && req.method === 'POST') {
+      requireAction(route, 'search');
+      return search(state, req, route);
+    }
+    throw new FakeHttpError(405, 'method_not_allowed', `Method "${req.method}" not allowed.`);
+  }
+
+  const listRoute = resolveRoute(state, api, segments.join('/'));
+  if (listRoute) {
+    if (req.method === 'GET') {
+      requireAction(listRoute, 'get_many');
+      const items = publishedResources(listRoute.collection).map((r) =>
+        resourceOut(listRoute.collection, r),
+      );
+      return paginate(req, items, pageSize);
+    }
+    if (req.method === 'POST') {
+      requireAction(listRoute, 'create');
+      const resource = createResource(state, listRoute.collection, req.body?.data, {
+        externalId: req.body?.key,
+      });
+      return ok(writeResult(resource), 201);
+    }
+    throw new FakeHttpError(405, 'method_not_allowed', `Method "${req.method}" not allowed.`);
+  }
+
+  const itemRoute = resolveRoute(state, api, segments.slice(0, -1).join('/'));
+  if (!itemRoute) {
+    throw notFound('Route');
+  }
+  const resource = itemRoute.collection.resources.get(last);
+  if (req.method === 'GET') {
+    requireAction(itemRoute, 'get_one');
+    if (!resource || !currentRevision(resource)) {
+      throw notFound('Resource');
+    }
+    return ok(resourceOut(itemRoute.collection, resource));
+  }
+  if (req.method === 'PUT') {
+    requireAction(itemRoute, 'update');
+    if (!resource) {
+      throw notFound('Resource');
+    }
+    checkContent(state, itemRoute.collection, req.body?.data);
+    publishNewRevision(state, itemRoute.collection, resource, req.body.data);
+    return ok(writeResult(resource));
+  }
+  throw new FakeHttpError(405, 'method_not_allowed', `Method "${req.method}" not allowed.`);
+}
+
+function writeResult(resource: ResourceRecord) {
+  return {
+    resource_key: resource.summary.key,
+    revision_key: resource.summary.current_revision,
+    write_units: 1,
+    published: true,
+  };
+}
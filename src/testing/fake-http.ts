@@ -0,0 +1,185 @@
+/**
+ * Request routing and response helpers shared by the fake server handlers.
+ * @internal
+ */
+
+/** Parsed view of a request received by the fake server. */
+export interface FakeRequest {
+  method: string;
+  url: URL;
+  /** Path below the API root, always starting with `/`. */
+  path: string;
+  query: URLSearchParams;
+  headers: Record<string, string>;
+  body: any;
+}
+
+/** A response produced by a handler before it is turned into a `Response`. */
+export interface FakeResult {
+  status: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Thrown by handlers to produce an error payload in the API's
+ * `{ message, error_code, detail }` shape.
+ */
+export class FakeHttpError extends Error {
+  readonly status: number;
+  readonly errorCode: string;
+  readonly detail: unknown;
+  readonly headers?: Record<string, string>;
+
+  constructor(
+    status: number,
+    errorCode: string,
+    message: string,
+    detail: unknown = null,
+    headers?: Record<string, string>,
+  ) {
+    super(message);
+    this.name = 'FakeHttpError';
+    this.status = status;
+    this.errorCode = errorCode;
+    this.detail = detail;
+    this.headers = headers;
+  }
+
+  toResult(): FakeResult {
+    return {
+      status: this.status,
+      body: { message: this.message, error_code: this.errorCode, detail: this.detail },
+      headers: this.headers,
+    };
+  }
+}
+
+export function ok(body: unknown, status = 200): FakeResult {
+  return { status, body };
+}
+
+export function noContent(): FakeResult {
+  return { status: 204 };
+}
+
+export function notFound(what: string): FakeHttpError {
+  return new FakeHttpError(404, 'not_found', `${what} not found.`);
+}
+
+/** A 422 `validation_error` with DRF-style per-field messages. */
+export function validationError(fields: Record<string, string[]>): FakeHttpError {
+  return new FakeHttpError(422, 'validation_error', 'Validation error.', fields);
+}
+
+/** Throws a `validation_error` unless every listed body field is present. */
+export function requireFields(body: any, ...names: string[]): void {
+  const missing: Record<string, string[]> = {};
+  for (const name of names) {
+    if (body?.[name] === undefined || body?.[name] === null || body?.[name] === '') {
+      missing[name] = ['This field is required.'];
+    }
+  }
+  if (Object.keys(missing).length > 0) {
+    throw validationError(missing);
+  }
+}
+
+/** Reads a required query parameter or throws a `validation_error`. */
+export function requireQuery(req: FakeRequest, name: string): string {
+  const value = req.query.get(name);
+  if (!value) {
+    throw validationError({ [name]: ['This query parameter is required.'] });
+  }
+  return value;
+}
+
+/**
+ * Slices `items` by the `limit`/`offset` query parameters and returns a
+ * `{ count, next, previous, results }` page with absolute links.
+ */
+export function paginate<T>(req: FakeRequest, items: T[], defaultLimit: number): FakeResult {
+  const limit = positiveInt(req.query.get('limit')) ?? defaultLimit;
+  const offset = positiveInt(req.query.get('offset')) ?? 0;
+  const link = (value: number) => {
+    const url = new URL(req.url);
+    url.searchParams.set('limit', String(limit));
+    url.searchParams.set('offset', String(value));
+    return url.toString();
+  };
+  return ok({
+    count: items.length,
+    next: offset + limit < items.length ? link(offset + limit) : null,
+    previous: offset > 0 ? link(Math.max(0, offset - limit)) : null,
+    results: items.slice(offset, offset + limit),
+  });
+}
+
+function positiveInt(value: string | null): number | undefined {
+  if (value === null) {
+    return undefined;
+  }
+  const parsed = Number.parseInt(value, 10);
+  return Number.isNaN(parsed) || parsed < 0 ? undefined : parsed;
+}
+
+export type RouteHandler = (req: FakeRequest, params: Record<string, string>) => FakeResult;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  names: string[];
+  handler: RouteHandler;
+}
+
+/**
+ * Minimal method + path router. Patterns use `:name` for a single path
+ * segment and are matched with or without a trailing slash.
+ */
+export class Router {
+  private readonly routes: Route[] = [];
+
+  add(method: string, pattern: string, handler: RouteHandler): this {
+    const names: string[] = [];
+    const source = pattern
+      .replace(/\/+$/, '')
+      .split('/')
+      .map((segment) => {
+        if (segment.startsWith(':')) {
+          names.push(segment.slice(1));
+          return '([^/]+)';
+        }
+        return segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      })
+      .join('/');
+    this.routes.push({ method, pattern: new RegExp(`^${source}/?$`), names, handler });
+    return this;
+  }
+
+  /**
+   * Dispatches to the first matching route. Throws 405 when the path exists
+   * for other methods and 404 when it does not exist at all.
+   */
+  dispatch(req: FakeRequest): FakeResult {
+    let pathMatched = false;
+    for (const route of this.routes) {
+      const match = route.pattern.exec(req.path);
+      if (!match) {
+        continue;
+      }
+      pathMatched = true;
+      if (route.method !== req.method) {
+        continue;
+      }
+      const params: Record<string, string> = {};
+      route.names.forEach((name, i) => {
+        params[name] = decodeURIComponent(match[i + 1]);
+      });
+      return route.handler(req, params);
+    }
+    if (pathMatched) {
+      throw new FakeHttpError(405, 'method_not_allowed', `Method "${req.method}" not allowed.`);
+    }
+    throw notFound('Endpoint');
+  }
+}
@@ -0,0 +1,1092 @@
+/**
+ * Management API routes of {@link FakeFoxnoseServer}. Paths are relative to
+ * `/v1/{environmentKey}`.
+ * @internal
+ */
+
+import type {
+  APIFolderSummary,
+  CollectionSummary,
+  FieldSummary,
+  RolePermission,
+  RolePermissionObject,
+} from '../management/models.js';
+import type { FakeRequest, FakeResult } from './fake-http.js';
+import {
+  FakeHttpError,
+  noContent,
+  notFound,
+  ok,
+  paginate,
+  requireFields,
+  requireQuery,
+  Router,
+  validationError,
+} from './fake-http.js';
+import type {
+  CollectionRecord,
+  FakeState,
+  ModelRecord,
+  ResourceRecord,
+  RevisionRecord,
+  RoleRecord,
+  VersionRecord,
+} from './fake-state.js';
+import { buildJsonSchema, fieldSchema, validateContent } from './fake-state.js';
+
+const DEFAULT_ALLOWED_METHODS = ['get_many', 'get_one', 'search', 'schema'];
+
+function lookup<T>(map: Map<string, T>, key: string, what: string): T {
+  const value = map.get(key);
+  if (value === undefined) {
+    throw notFound(what);
+  }
+  return value;
+}
+
+function conflict(errorCode: string, message: string): FakeHttpError {
+  return new FakeHttpError(409, errorCode, message);
+}
+
+function omit(body: any, names: string[]): Record<string, any> {
+  const result: Record<string, any> = { ...(body ?? {}) };
+  for (const name of names) {
+    delete result[name];
+  }
+  return result;
+}
+
+function pick(body: any, names: string[]): Record<string, any> {
+  const result: Record<string, any> = {};
+  for (const name of names) {
+    if (body?.[name] !== undefined) {
+      result[name] = body[name];
+    }
+  }
+  return result;
+}
+
+/** Validates resource data against the collection's published schema, if any. */
+export function checkContent(state: FakeState, collection: CollectionRecord, data: unknown): void {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw validationError({ data: ['Expected an object.'] });
+  }
+  const version = state.publishedVersion(collection);
+  if (!version) {
+    return;
+  }
+  const errors = validateContent(buildJsonSchema(version.fields.values()), data);
+  if (errors.length > 0) {
+    throw new FakeHttpError(422, 'content_validation_failed', 'Content validation failed.', {
+      errors,
+      errors_truncated: false,
+    });
+  }
+}
+
+/** Appends a published revision and makes it the resource's current one. */
+export function publishNewRevision(
+  state: FakeState,
+  collection: CollectionRecord,
+  resource: ResourceRecord,
+  data: Record<string, any>,
+): RevisionRecord {
+  const revision = newRevision(state, collection, resource, data);
+  resource.revisions.push(revision);
+  publishRevision(state, resource, revision);
+  return revision;
+}
+
+function newRevision(
+  state: FakeState,
+  collection: CollectionRecord,
+  resource: ResourceRecord,
+  data: Record<string, any>,
+): RevisionRecord {
+  return {
+    data,
+    summary: {
+      key: state.nextKey('rev'),
+      resource: resource.summary.key,
+      schema_version: state.publishedVersion(collection)?.summary.key ?? '',
+      number: resource.revisions.length + 1,
+      size: new TextEncoder().encode(JSON.stringify(data)).length,
+      created_at: state.now(),
+      status: 'draft',
+      is_valid: null,
+      published_at: null,
+      unpublished_at: null,
+    },
+  };
+}
+
+function publishRevision(state: FakeState, resource: ResourceRecord, revision: RevisionRecord) {
+  const now = state.now();
+  for (const other of resource.revisions) {
+    if (other !== revision && other.summary.status === 'published') {
+      other.summary.status = 'unpublished';
+      other.summary.unpublished_at = now;
+    }
+  }
+  revision.summary.status = 'published';
+  revision.summary.is_valid = true;
+  revision.summary.published_at = now;
+  resource.summary.current_revision = revision.summary.key;
+}
+
+/** Creates a resource with a first published revision. */
+export function createResource(
+  state: FakeState,
+  collection: CollectionRecord,
+  data: Record<string, any>,
+  extra: { name?: string | null; externalId?: string | null } = {},
+): ResourceRecord {
+  checkContent(state, collection, data);
+  if (extra.externalId) {
+    for (const existing of collection.resources.values()) {
+      if (existing.summary.external_id === extra.externalId) {
+        throw conflict(
+          'external_id_conflict',
+          `A resource with external id "${extra.externalId}" already exists.`,
+        );
+      }
+    }
+  }
+  const resource: ResourceRecord = {
+    summary: {
+      key: state.nextKey('res'),
+      folder: collection.summary.key,
+      content_type: collection.summary.content_type,
+      created_at: state.now(),
+      vectors_size: 0,
+      name: extra.name ?? null,
+      resource_owner: null,
+      current_revision: null,
+      external_id: extra.externalId ?? null,
+    },
+    revisions: [],
+  };
+  publishNewRevision(state, collection, resource, data);
+  collection.resources.set(resource.summary.key, resource);
+  return resource;
+}
+
+export function currentRevision(resource: ResourceRecord): RevisionRecord | undefined {
+  return resource.revisions.find((r) => r.summary.key === resource.summary.current_revision);
+}
+
+// ---------------------------------------------------------------------------
+// Schema versions and fields (shared by collections and components)
+// ---------------------------------------------------------------------------
+
+function versionOut(version: VersionRecord, includeSchema: boolean) {
+  return includeSchema
+    ? { ...version.summary, json_schema: buildJsonSchema(version.fields.values()) }
+    : version.summary;
+}
+
+function requireDraft(version: VersionRecord): void {
+  if (version.summary.published_at) {
+    throw conflict(
+      'schema_version_published',
+      'Published schema versions cannot be modified. Create a new version instead.',
+    );
+  }
+}
+
+function fieldOut(version: VersionRecord, field: FieldSummary): FieldSummary {
+  return {
+    ...field,
+    json_schema: fieldSchema(field, [...version.fields.values()]),
+  };
+}
+
+function buildField(body: any, path: string, parent: string | null): FieldSummary {
+  return {
+    ...body,
+    key: body.key,
+    name: body.name,
+    description: body.description ?? null,
+    path,
+    parent,
+    type: body.type,
+    meta: body.meta ?? {},
+    json_schema: null,
+    required: body.required ?? false,
+    nullable: body.nullable ?? false,
+    multiple: body.multiple ?? false,
+    localizable: body.localizable ?? false,
+    searchable: body.searchable ?? false,
+    private: body.private ?? false,
+    vectorizable: body.vectorizable ?? false,
+  };
+}
+
+/**
+ * Publishes `version`, archiving the previously published one. Returns the
+ * published summary.
+ */
+export function publishVersion(state: FakeState, model: ModelRecord, version: VersionRecord) {
+  const now = state.now();
+  let highest = 0;
+  for (const other of model.versions.values()) {
+    highest = Math.max(highest, other.summary.version_number ?? 0);
+    if (other !== version && other.summary.published_at && !other.summary.archived_at) {
+      other.summary.archived_at = now;
+    }
+  }
+  version.summary.version_number = highest + 1;
+  version.summary.published_at = now;
+  return version.summary;
+}
+
+/** Creates a draft version, optionally copying the fields of another one. */
+export function createVersion(
+  state: FakeState,
+  model: ModelRecord,
+  body: { name: string; description?: string | null },
+  copyFrom?: VersionRecord,
+): VersionRecord {
+  const version: VersionRecord = {
+    summary: {
+      key: state.nextKey('ver'),
+      name: body.name,
+      description: body.description ?? null,
+      version_number: null,
+      created_at: state.now(),
+      published_at: null,
+      archived_at: null,
+    },
+    fields: new Map(),
+  };
+  if (copyFrom) {
+    for (const [path, field] of copyFrom.fields) {
+      version.fields.set(path, structuredClone(field));
+    }
+  }
+  model.versions.set(version.summary.key, version);
+  return version;
+}
+
+function registerModelRoutes(
+  router: Router,
+  state: FakeState,
+  base: string,
+  getModel: (key: string) => ModelRecord,
+  pageSize: number,
+  onPublish?: (model: ModelRecord, version: VersionRecord) => void,
+): void {
+  const getVersion = (params: Record<string, string>) =>
+    lookup(getModel(params.model).versions, params.version, 'Schema version');
+  const getField = (req: FakeRequest, version: VersionRecord) =>
+    lookup(version.fields, requireQuery(req, 'path'), 'Field');
+
+  router
+    .add('GET', `${base}/model/versions/`, (req, params) =>
+      paginate(
+        req,
+        [...getModel(params.model).versions.values()].map((v) => v.summary),
+        pageSize,
+      ),
+    )
+    .add('POST', `${base}/model/versions/`, (req, params) => {
+      const model = getModel(params.model);
+      requireFields(req.body, 'name');
+      const copyFromKey = req.query.get('copy_from');
+      const copyFrom = copyFromKey ? model.versions.get(copyFromKey) : undefined;
+      if (copyFromKey && !copyFrom) {
+        throw validationError({ copy_from: ['Schema version not found.'] });
+      }
+      return ok(createVersion(state, model, req.body, copyFrom).summary, 201);
+    })
+    .add('GET', `${base}/model/versions/:version/`, (req, params) =>
+      ok(versionOut(getVersion(params), req.query.get('include_schema') === 'true')),
+    )
+    .add('PUT', `${base}/model/versions/:version/`, (req, params) => {
+      const version = getVersion(params);
+      Object.assign(version.summary, pick(req.body, ['name', 'description']));
+      return ok(version.summary);
+    })
+    .add('DELETE', `${base}/model/versions/:version/`, (_req, params) => {
+      const version = getVersion(params);
+      if (version.summary.published_at && !version.summary.archived_at) {
+        throw conflict('schema_version_in_use', 'The published schema version cannot be deleted.');
+      }
+      getModel(params.model).versions.delete(params.version);
+      return noContent();
+    })
+    .add('POST', `${base}/model/versions/:version/publish/`, (_req, params) => {
+      const model = getModel(params.model);
+      const version = getVersion(params);
+      requireDraft(version);
+      publishVersion(state, model, version);
+      onPublish?.(model, version);
+      return ok(version.summary);
+    })
+    .add('GET', `${base}/model/versions/:version/schema/tree/`, (req, params) => {
+      const version = getVersion(params);
+      return paginate(
+        req,
+        [...version.fields.values()].map((f) => fieldOut(version, f)),
+        pageSize,
+      );
+    })
+    .add('POST', `${base}/model/versions/:version/schema/tree/`, (req, params) => {
+      const version = getVersion(params);
+      requireDraft(version);
+      requireFields(req.body, 'key', 'name', 'type');
+      const parent: string | null = req.body.parent ?? null;
+      if (parent !== null) {
+        const parentField = version.fields.get(parent);
+        if (!parentField || parentField.type !== 'object') {
+          throw validationError({ parent: ['Parent must be an existing object field.'] });
+        }
+      }
+      const path = parent ? `${parent}.${req.body.key}` : String(req.body.key);
+      if (version.fields.has(path)) {
+        throw validationError({ key: ['A field with this key already exists.'] });
+      }
+      const field = buildField(req.body, path, parent);
+      version.fields.set(path, field);
+      return ok(fieldOut(version, field), 201);
+    })
+    .add('GET', `${base}/model/versions/:version/schema/tree/field/`, (req, params) => {
+      const version = getVersion(params);
+      return ok(fieldOut(version, getField(req, version)));
+    })
+    .add('PUT', `${base}/model/versions/:version/schema/tree/field/`, (req, params) => {
+      const version = getVersion(params);
+      requireDraft(version);
+      const field = getField(req, version);
+      const changes = omit(req.body, ['key', 'path', 'parent']);
+      Object.assign(field, changes);
+      return ok(fieldOut(version, field));
+    })
+    .add('DELETE', `${base}/model/versions/:version/schema/tree/field/`, (req, params) => {
+      const version = getVersion(params);
+      requireDraft(version);
+      const field = getField(req, version);
+      for (const path of [...version.fields.keys()]) {
+        if (path === field.path || path.startsWith(`${field.path}.`)) {
+          version.fields.delete(path);
+        }
+      }
+      return noContent();
+    });
+}
+
+// ---------------------------------------------------------------------------
+// Roles
+// ---------------------------------------------------------------------------
+
+function registerRoleRoutes<T extends { key: string }>(
+  router: Router,
+  state: FakeState,
+  base: string,
+  roles: Map<string, RoleRecord<T>>,
+  build: (key: string, body: any) => T,
+  pageSize: number,
+): void {
+  const getRole = (params: Record<string, string>) => lookup(roles, params.role, 'Role');
+  const permission = (body: any): RolePermission => {
+    requireFields(body, 'content_type', 'actions');
+    return {
+      content_type: body.content_type,
+      actions: body.actions,
+      all_objects: body.all_objects ?? false,
+      objects: body.objects ?? null,
+    };
+  };
+
+  router
+    .add('GET', `${base}/`, (req) =>
+      paginate(
+        req,
+        [...roles.values()].map((r) => r.summary),
+        pageSize,
+      ),
+    )
+    .add('POST', `${base}/`, (req) => {
+      requireFields(req.body, 'name');
+      const role: RoleRecord<T> = {
+        summary: build(state.nextKey('role'), req.body),
+        permissions: new Map(),
+        objects: [],
+      };
+      roles.set(role.summary.key, role);
+      return ok(role.summary, 201);
+    })
+    .add('GET', `${base}/:role/`, (_req, params) => ok(getRole(params).summary))
+    .add('PUT', `${base}/:role/`, (req, params) => {
+      const role = getRole(params);
+      Object.assign(role.summary, pick(req.body, ['name', 'description', 'full_access']));
+      return ok(role.summary);
+    })
+    .add('DELETE', `${base}/:role/`, (_req, params) => {
+      getRole(params);
+      roles.delete(params.role);
+      return noContent();
+    })
+    .add('GET', `${base}/:role/permissions/`, (_req, params) =>
+      ok([...getRole(params).permissions.values()]),
+    )
+    .add('POST', `${base}/:role/permissions/`, (req, params) => {
+      const entry = permission(req.body);
+      getRole(params).permissions.set(entry.content_type, entry);
+      return ok(entry);
+    })
+    .add('DELETE', `${base}/:role/permissions/`, (req, params) => {
+      const role = getRole(params);
+      if (!role.permissions.delete(requireQuery(req, 'content_type'))) {
+        throw notFound('Permission');
+      }
+      return noContent();
+    })
+    .add('POST', `${base}/:role/permissions/batch/`, (req, params) => {
+      const role = getRole(params);
+      if (!Array.isArray(req.body)) {
+        throw validationError({ non_field_errors: ['Expected a list of permissions.'] });
+      }
+      const entries = req.body.map(permission);
+      role.permissions.clear();
+      for (const entry of entries) {
+        role.permissions.set(entry.content_type, entry);
+      }
+      return ok(entries);
+    })
+    .add('GET', `${base}/:role/permissions/objects/`, (req, params) => {
+      const contentType = requireQuery(req, 'content_type');
+      return ok(getRole(params).objects.filter((o) => o.content_type === contentType));
+    })
+    .add('POST', `${base}/:role/permissions/objects/`, (req, params) => {
+      requireFields(req.body, 'content_type', 'object_key');
+      const entry: RolePermissionObject = {
+        content_type: req.body.content_type,
+        object_key: req.body.object_key,
+      };
+      getRole(params).objects.push(entry);
+      return ok(entry, 201);
+    })
+    .add('DELETE', `${base}/:role/permissions/objects/`, (req, params) => {
+      const role = getRole(params);
+      const index = role.objects.findIndex(
+        (o) => o.content_type === req.body?.content_type && o.object_key === req.body?.object_key,
+      );
+      if (index < 0) {
+        throw notFound('Permission object');
+      }
+      role.objects.splice(index, 1);
+      return noContent();
+    });
+}
+
+// ---------------------------------------------------------------------------
+// API keys
+// ---------------------------------------------------------------------------
+
+function registerApiKeyRoutes(
+  router: Router,
+  state: FakeState,
+  base: string,
+  keys: Map<string, any>,
+  roles: Map<string, RoleRecord<any>>,
+  pageSize: number,
+): void {
+  const checkRole = (body: any) => {
+    if (body?.role && !roles.has(body.role)) {
+      throw validationError({ role: ['Role not found.'] });
+    }
+  };
+  router
+    .add('GET', `${base}/`, (req) => paginate(req, [...keys.values()], pageSize))
+    .add('POST', `${base}/`, (req) => {
+      checkRole(req.body);
+      const key = state.nextKey('key');
+      const summary = {
+        key,
+        description: req.body?.description ?? null,
+        public_key: `pk_${key}`,
+        secret_key: `sk_${key}`,
+        role: req.body?.role ?? null,
+        environment: state.environmentKey,
+        created_at: state.now(),
+      };
+      keys.set(key, summary);
+      return ok(summary, 201);
+    })
+    .add('GET', `${base}/:key/`, (_req, params) => ok(lookup(keys, params.key, 'API key')))
+    .add('PUT', `${base}/:key/`, (req, params) => {
+      const summary = lookup(keys, params.key, 'API key');
+      checkRole(req.body);
+      Object.assign(summary, pick(req.body, ['description', 'role']));
+      return ok(summary);
+    })
+    .add('DELETE', `${base}/:key/`, (_req, params) => {
+      lookup(keys, params.key, 'API key');
+      keys.delete(params.key);
+      return noContent();
+    });
+}
+
+// ---------------------------------------------------------------------------
+// Router
+// ---------------------------------------------------------------------------
+
+/** Builds the router for every supported Management API endpoint. */
+export function managementRouter(state: FakeState, pageSize: number): Router {
+  const router = new Router();
+  const getCollection = (key: string) => lookup(state.collections, key, 'Collection');
+  const getComponent = (key: string) => lookup(state.components, key, 'Component');
+  const collectionOut = (record: CollectionRecord): CollectionSummary => ({
+    ...record.summary,
+    path: state.collectionPath(record),
+  });
+  const descendants = (key: string): CollectionRecord[] =>
+    [...state.collections.values()].filter((r) => {
+      let parent = r.summary.parent;
+      while (parent) {
+        if (parent === key) {
+          return true;
+        }
+        parent = state.collections.get(parent)?.summary.parent;
+      }
+      return false;
+    });
+  const treeItem = (req: FakeRequest): CollectionRecord => {
+    const key = req.query.get('key');
+    if (key) {
+      return getCollection(key);
+    }
+    const record = state.findCollectionByPath(requireQuery(req, 'path'));
+    if (!record) {
+      throw notFound('Collection');
+    }
+    return record;
+  };
+  const checkAlias = (alias: string, parent: string | null, self?: string) => {
+    for (const record of state.collections.values()) {
+      if (
+        record.summary.alias === alias &&
+        (record.summary.parent ?? null) === parent &&
+        record.summary.key !== self
+      ) {
+        throw validationError({ alias: ['A collection with this alias already exists.'] });
+      }
+    }
+  };
+
+  // Collections (and the deprecated /folders/ alias)
+  for (const [root, item] of [
+    ['/collections', 'collection'],
+    ['/folders', 'folder'],
+  ]) {
+    router
+      .add('GET', `${root}/tree/`, (req) => {
+        const key = req.query.get('key');
+        const records = key ? descendants(getCollection(key).summary.key) : state.collections;
+        return paginate(req, [...records.values()].map(collectionOut), pageSize);
+      })
+      .add('POST', `${root}/tree/`, (req) => {
+        requireFields(req.body, 'name', 'alias');
+        const parent: string | null = req.body.parent ?? null;
+        if (parent !== null && !state.collections.has(parent)) {
+          throw validationError({ parent: ['Collection not found.'] });
+        }
+        checkAlias(req.body.alias, parent);
+        const record: CollectionRecord = {
+          summary: {
+            ...req.body,
+            key: state.nextKey('col'),
+            name: req.body.name,
+            alias: req.body.alias,
+            content_type: req.body.content_type ?? 'document',
+            strict_reference: req.body.strict_reference ?? false,
+            created_at: state.now(),
+            parent,
+            mode: req.body.mode ?? null,
+          },
+          versions: new Map(),
+          resources: new Map(),
+        };
+        state.collections.set(record.summary.key, record);
+        return ok(collectionOut(record), 201);
+      })
+      .add('GET', `${root}/tree/${item}/`, (req) => ok(collectionOut(treeItem(req))))
+      .add('PUT', `${root}/tree/${item}/`, (req) => {
+        const record = treeItem(req);
+        const changes = omit(req.body, ['key', 'created_at', 'parent']);
+        if (changes.alias !== undefined) {
+          checkAlias(changes.alias, record.summary.parent ?? null, record.summary.key);
+        }
+        Object.assign(record.summary, changes);
+        return ok(collectionOut(record));
+      })
+      .add('DELETE', `${root}/tree/${item}/`, (req) => {
+        const record = treeItem(req);
+        for (const doomed of [record, ...descendants(record.summary.key)]) {
+          state.collections.delete(doomed.summary.key);
+          for (const api of state.apis.values()) {
+            api.collections.delete(doomed.summary.key);
+          }
+        }
+        return noContent();
+      });
+    registerModelRoutes(router, state, `${root}/:model`, getCollection, pageSize);
+  }
+
+  router.add('POST', '/collections/:collection/sync_component/', (req, params) =>
+    syncComponent(state, getCollection(params.collection), req.body ?? {}),
+  );
+
+  // Components
+  router
+    .add('GET', '/components/', (req) =>
+      paginate(
+        req,
+        [...state.components.values()].map((c) => c.summary),
+        pageSize,
+      ),
+    )
+    .add('POST', '/components/', (req) => {
+      requireFields(req.body, 'name');
+      const key = state.nextKey('cmp');
+      state.components.set(key, {
+        summary: {
+          key,
+          name: req.body.name,
+          description: req.body.description ?? null,
+          environment: state.environmentKey,
+          content_type: req.body.content_type ?? 'document',
+          created_at: state.now(),
+          current_version: null,
+        },
+        versions: new Map(),
+      });
+      return ok(getComponent(key).summary, 201);
+    })
+    .add('GET', '/components/:component/', (_req, params) =>
+      ok(getComponent(params.component).summary),
+    )
+    .add('PUT', '/components/:component/', (req, params) => {
+      const component = getComponent(params.component);
+      Object.assign(component.summary, pick(req.body, ['name', 'description']));
+      return ok(component.summary);
+    })
+    .add('DELETE', '/components/:component/', (_req, params) => {
+      getComponent(params.component);
+      state.components.delete(params.component);
+      return noContent();
+    });
+  registerModelRoutes(router, state, '/components/:model', getComponent, pageSize, (model, v) => {
+    (model as ReturnType<typeof getComponent>).summary.current_version = v.summary.key;
+  });
+
+  registerResourceRoutes(router, state, getCollection, pageSize);
+
+  // API keys and roles
+  registerRoleRoutes(
+    router,
+    state,
+    '/permissions/management-api/roles',
+    state.managementRoles,
+    (key, body) => ({
+      key,
+      name: body.name,
+      description: body.description ?? null,
+      full_access: body.full_access ?? false,
+      environment: state.environmentKey,
+      created_at: state.now(),
+    }),
+    pageSize,
+  );
+  registerRoleRoutes(
+    router,
+    state,
+    '/permissions/flux-api/roles',
+    state.fluxRoles,
+    (key, body) => ({
+      key,
+      name: body.name,
+      description: body.description ?? null,
+      environment: state.environmentKey,
+      created_at: state.now(),
+    }),
+    pageSize,
+  );
+  registerApiKeyRoutes(
+    router,
+    state,
+    '/permissions/management-api/api-keys',
+    state.managementApiKeys,
+    state.managementRoles,
+    pageSize,
+  );
+  registerApiKeyRoutes(
+    router,
+    state,
+    '/permissions/flux-api/api-keys',
+    state.fluxApiKeys,
+    state.fluxRoles,
+    pageSize,
+  );
+
+  registerApiRoutes(router, state, getCollection, pageSize);
+
+  // Locales
+  router
+    .add('GET', '/locales/', () => ok([...state.locales.values()]))
+    .add('POST', '/locales/', (req) => {
+      requireFields(req.body, 'name', 'code');
+      if (state.locales.has(req.body.code)) {
+        throw validationError({ code: ['A locale with this code already exists.'] });
+      }
+      const locale = {
+        name: req.body.name,
+        code: req.body.code,
+        environment: state.environmentKey,
+        is_default: req.body.is_default ?? state.locales.size === 0,
+        created_at: state.now(),
+      };
+      state.locales.set(locale.code, locale);
+      return ok(locale, 201);
+    })
+    .add('GET', '/locales/:code/', (_req, params) =>
+      ok(lookup(state.locales, params.code, 'Locale')),
+    )
+    .add('PUT', '/locales/:code/', (req, params) => {
+      const locale = lookup(state.locales, params.code, 'Locale');
+      Object.assign(locale, pick(req.body, ['name', 'is_default']));
+      return ok(locale);
+    })
+    .add('DELETE', '/locales/:code/', (_req, params) => {
+      lookup(state.locales, params.code, 'Locale');
+      state.locales.delete(params.code);
+      return noContent();
+    });
+
+  return router;
+}
+
+function registerResourceRoutes(
+  router: Router,
+  state: FakeState,
+  getCollection: (key: string) => CollectionRecord,
+  pageSize: number,
+): void {
+  const base = '/folders/:collection/resources';
+  const getResource = (params: Record<string, string>) =>
+    lookup(getCollection(params.collection).resources, params.resource, 'Resource');
+  const getRevision = (params: Record<string, string>) => {
+    const revision = getResource(params).revisions.find((r) => r.summary.key === params.revision);
+    if (!revision) {
+      throw notFound('Revision');
+    }
+    return revision;
+  };
+
+  router
+    .add('GET', `${base}/`, (req, params) =>
+      paginate(
+        req,
+        [...getCollection(params.collection).resources.values()].map((r) => r.summary),
+        pageSize,
+      ),
+    )
+    .add('POST', `${base}/`, (req, params) => {
+      const collection = getCollection(params.collection);
+      const resource = createResource(state, collection, req.body?.data, {
+        name: req.body?.name,
+        externalId: req.body?.external_id,
+      });
+      return ok(resource.summary, 201);
+    })
+    .add('PUT', `${base}/`, (req, params) => {
+      const collection = getCollection(params.collection);
+      const externalId = requireQuery(req, 'external_id');
+      const existing = [...collection.resources.values()].find(
+        (r) => r.summary.external_id === externalId,
+      );
+      if (!existing) {
+        const resource = createResource(state, collection, req.body?.data, {
+          name: req.body?.name,
+          externalId,
+        });
+        return ok(resource.summary, 201);
+      }
+      checkContent(state, collection, req.body?.data);
+      publishNewRevision(state, collection, existing, req.body.data);
+      if (req.body.name !== undefined) {
+        existing.summary.name = req.body.name;
+      }
+      return ok(existing.summary);
+    })
+    .add('GET', `${base}/:resource/`, (_req, params) => ok(getResource(params).summary))
+    .add('PUT', `${base}/:resource/`, (req, params) => {
+      const resource = getResource(params);
+      Object.assign(resource.summary, pick(req.body, ['name', 'external_id']));
+      return ok(resource.summary);
+    })
+    .add('DELETE', `${base}/:resource/`, (_req, params) => {
+      getResource(params);
+      getCollection(params.collection).resources.delete(params.resource);
+      return noContent();
+    })
+    .add('GET', `${base}/:resource/data/`, (_req, params) => {
+      const revision = currentRevision(getResource(params));
+      if (!revision) {
+        throw notFound('Published revision');
+      }
+      return ok(revision.data);
+    })
+    .add('GET', `${base}/:resource/revisions/`, (req, params) =>
+      paginate(
+        req,
+        getResource(params).revisions.map((r) => r.summary),
+        pageSize,
+      ),
+    )
+    .add('POST', `${base}/:resource/revisions/`, (req, params) => {
+      const collection = getCollection(params.collection);
+      const resource = getResource(params);
+      if (typeof req.body?.data !== 'object' || req.body.data === null) {
+        throw validationError({ data: ['This field is required.'] });
+      }
+      const revision = newRevision(state, collection, resource, req.body.data);
+      resource.revisions.push(revision);
+      return ok(revision.summary, 201);
+    })
+    .add('GET', `${base}/:resource/revisions/:revision/`, (_req, params) =>
+      ok(getRevision(params).summary),
+    )
+    .add('PUT', `${base}/:resource/revisions/:revision/`, (req, params) => {
+      const revision = getRevision(params);
+      if (revision.summary.status !== 'draft') {
+        throw conflict('revision_not_draft', 'Only draft revisions can be modified.');
+      }
+      if (req.body?.data !== undefined) {
+        revision.data = req.body.data;
+        revision.summary.size = new TextEncoder().encode(JSON.stringify(req.body.data)).length;
+        revision.summary.is_valid = null;
+      }
+      return ok(revision.summary);
+    })
+    .add('DELETE', `${base}/:resource/revisions/:revision/`, (_req, params) => {
+      const resource = getResource(params);
+      const revision = getRevision(params);
+      if (revision.summary.key === resource.summary.current_revision) {
+        throw conflict('revision_in_use', 'The current revision cannot be deleted.');
+      }
+      resource.revisions.splice(resource.revisions.indexOf(revision), 1);
+      return noContent();
+    })
+    .add('POST', `${base}/:resource/revisions/:revision/publish/`, (_req, params) => {
+      const revision = getRevision(params);
+      checkContent(state, getCollection(params.collection), revision.data);
+      publishRevision(state, getResource(params), revision);
+      return ok(revision.summary);
+    })
+    .add('POST', `${base}/:resource/revisions/:revision/validate/`, (_req, params) => {
+      const collection = getCollection(params.collection);
+      const revision = getRevision(params);
+      const version = state.publishedVersion(collection);
+      const errors = version
+        ? validateContent(buildJsonSchema(version.fields.values()), revision.data)
+        : [];
+      revision.summary.is_valid = errors.length === 0;
+      return ok({ is_valid: revision.summary.is_valid, errors });
+    })
+    .add('GET', `${base}/:resource/revisions/:revision/data/`, (_req, params) =>
+      ok(getRevision(params).data),
+    );
+}
+
+function registerApiRoutes(
+  router: Router,
+  state: FakeState,
+  getCollection: (key: string) => CollectionRecord,
+  pageSize: number,
+): void {
+  const getApi = (params: Record<string, string>) => lookup(state.apis, params.api, 'API');
+  const checkPrefix = (prefix: string, self?: string) => {
+    for (const api of state.apis.values()) {
+      if (api.info.prefix === prefix && api.info.key !== self) {
+        throw validationError({ prefix: ['An API with this prefix already exists.'] });
+      }
+    }
+  };
+  const connectionOut = (params: Record<string, string>, connection: APIFolderSummary) => ({
+    ...connection,
+    path: `/${getApi(params).info.prefix}/${state.collectionPath(getCollection(connection.folder))}`,
+  });
+  const describe = (body: any) =>
+    pick(body, [
+      'allowed_methods',
+      'description_get_one',
+      'description_get_many',
+      'description_search',
+      'description_schema',
+    ]);
+
+  router
+    .add('GET', '/api/', (req) =>
+      paginate(
+        req,
+        [...state.apis.values()].map((a) => a.info),
+        pageSize,
+      ),
+    )
+    .add('POST', '/api/', (req) => {
+      requireFields(req.body, 'name', 'prefix');
+      checkPrefix(req.body.prefix);
+      const key = state.nextKey('api');
+      state.apis.set(key, {
+        info: {
+          key,
+          name: req.body.name,
+          prefix: req.body.prefix,
+          description: req.body.description ?? null,
+          environment: state.environmentKey,
+          version: req.body.version ?? null,
+          is_auth_required: req.body.is_auth_required ?? true,
+          created_at: state.now(),
+        },
+        collections: new Map(),
+      });
+      return ok(getApi({ api: key }).info, 201);
+    })
+    .add('GET', '/api/:api/', (_req, params) => ok(getApi(params).info))
+    .add('PUT', '/api/:api/', (req, params) => {
+      const api = getApi(params);
+      if (req.body?.prefix !== undefined) {
+        checkPrefix(req.body.prefix, api.info.key);
+      }
+      Object.assign(
+        api.info,
+        pick(req.body, ['name', 'prefix', 'description', 'version', 'is_auth_required']),
+      );
+      return ok(api.info);
+    })
+    .add('DELETE', '/api/:api/', (_req, params) => {
+      getApi(params);
+      state.apis.delete(params.api);
+      return noContent();
+    });
+
+  for (const segment of ['collections', 'folders']) {
+    const base = `/api/:api/${segment}`;
+    router
+      .add('GET', `${base}/`, (req, params): FakeResult => {
+        const connections = [...getApi(params).collections.values()];
+        return paginate(
+          req,
+          connections.map((c) => connectionOut(params, c)),
+          pageSize,
+        );
+      })
+      .add('POST', `${base}/`, (req, params) => {
+        const api = getApi(params);
+        requireFields(req.body, 'folder');
+        if (!state.collections.has(req.body.folder)) {
+          throw validationError({ folder: ['Collection not found.'] });
+        }
+        if (api.collections.has(req.body.folder)) {
+          throw validationError({ folder: ['This collection is already connected.'] });
+        }
+        const connection: APIFolderSummary = {
+          folder: req.body.folder,
+          api: api.info.key,
+          allowed_methods: DEFAULT_ALLOWED_METHODS,
+          description_get_one: null,
+          description_get_many: null,
+          description_search: null,
+          description_schema: null,
+          ...describe(req.body),
+          created_at: state.now(),
+        };
+        api.collections.set(connection.folder, connection);
+        return ok(connectionOut(params, connection), 201);
+      })
+      .add('GET', `${base}/:collection/`, (_req, params) =>
+        ok(
+          connectionOut(
+            params,
+            lookup(getApi(params).collections, params.collection, 'API collection'),
+          ),
+        ),
+      )
+      .add('PUT', `${base}/:collection/`, (req, params) => {
+        const connection = lookup(getApi(params).collections, params.collection, 'API collection');
+        Object.assign(connection, describe(req.body));
+        return ok(connectionOut(params, connection));
+      })
+      .add('DELETE', `${base}/:collection/`, (_req, params) => {
+        const api = getApi(params);
+        lookup(api.collections, params.collection, 'API collection');
+        api.collections.delete(params.collection);
+        return noContent();
+      });
+  }
+}
+
+function syncComponent(state: FakeState, collection: CollectionRecord, body: any): FakeResult {
+  const current = state.publishedVersion(collection);
+  if (!current) {
+    throw notFound('Published schema version');
+  }
+  const requested: string[] | undefined = body.field_paths;
+  const targets: Record<string, string> = body.to_versions ?? {};
+  const synced: Array<{ path: string; version: string }> = [];
+  const skipped: Array<{ path: string; reason: string }> = [];
+
+  for (const field of current.fields.values()) {
+    if (field.type !== 'nested') {
+      continue;
+    }
+    if (requested && !requested.includes(field.path)) {
+      skipped.push({ path: field.path, reason: 'not_requested' });
+      continue;
+    }
+    if (field.meta?.auto_update) {
+      skipped.push({ path: field.path, reason: 'auto_update_mode' });
+      continue;
+    }
+    const component = state.components.get(field.meta?.component);
+    if (!component) {
+      skipped.push({ path: field.path, reason: 'component_not_found' });
+      continue;
+    }
+    const target = targets[field.path] ?? component.summary.current_version;
+    if (!target) {
+      skipped.push({ path: field.path, reason: 'component_unpublished' });
+      continue;
+    }
+    if (!component.versions.has(target)) {
+      throw notFound('Component version');
+    }
+    if (field.meta?.component_version === target) {
+      skipped.push({ path: field.path, reason: 'already_at_target' });
+      continue;
+    }
+    synced.push({ path: field.path, version: target });
+  }
+
+  if (synced.length === 0) {
+    return ok({ synced_paths: [], skipped, schema_version: null });
+  }
+  const next = createVersion(
+    state,
+    collection,
+    { name: `${current.summary.name} (component sync)` },
+    current,
+  );
+  for (const { path, version } of synced) {
+    const field = next.fields.get(path)!;
+    field.meta = { ...field.meta, component_version: version };
+  }
+  publishVersion(state, collection, next);
+  return ok({
+    synced_paths: synced.map((s) => s.path),
+    skipped,
+    schema_version: next.summary.key,
+  });
+}
@@ -0,0 +1,246 @@
+import type { FetchFunction } from '../config.js';
+import type { FakeRequest, FakeResult, Router } from './fake-http.js';
+import { FakeHttpError, notFound } from './fake-http.js';
+import { handleFlux } from './fake-flux.js';
+import { managementRouter } from './fake-management.js';
+import { FakeState } from './fake-state.js';
+
+export interface FakeFoxnoseServerOptions {
+  /** Environment served under `/v1/{environmentKey}`. Defaults to `env-test`. */
+  environmentKey?: string;
+  /** Origin of the Management API. Defaults to `https://api.foxnose.net`. */
+  managementUrl?: string;
+  /** Origin of the Flux API. Defaults to `https://{environmentKey}.fxns.io`. */
+  fluxUrl?: string;
+  /** Default page size of list endpoints when no `limit` is sent. Defaults to 100. */
+  pageSize?: number;
+  /** Clock used for timestamps. Defaults to the system clock. */
+  now?: () => Date;
+}
+
+/** A request recorded by {@link FakeFoxnoseServer}. */
+export interface FakeRequestRecord {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body: unknown;
+  status: number;
+}
+
+/**
+ * A canned failure returned instead of the normal response. The body follows
+ * the API's `{ message, error_code, detail }` shape unless `body` is given.
+ */
+export interface FakeFailure {
+  status: number;
+  errorCode?: string;
+  message?: string;
+  detail?: unknown;
+  /** Raw response body, replacing the error payload. */
+  body?: unknown;
+  headers?: Record<string, string>;
+  /** Only fail requests with this method. */
+  method?: string;
+  /** Only fail requests whose path (without origin and query) matches. */
+  path?: string | RegExp;
+  /** Number of matching requests to fail. Defaults to 1. */
+  times?: number;
+}
+
+function matchesPath(pattern: string | RegExp | undefined, path: string): boolean {
+  if (pattern === undefined) {
+    return true;
+  }
+  return typeof pattern === 'string' ? path === pattern : pattern.test(path);
+}
+
+function decodeBody(body: RequestInit['body']): unknown {
+  if (body === undefined || body === null) {
+    return undefined;
+  }
+  const text = typeof body === 'string' ? body : new TextDecoder().decode(body as Uint8Array);
+  if (!text) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+function lowerCaseHeaders(headers: RequestInit['headers']): Record<string, string> {
+  const result: Record<string, string> = {};
+  new Headers(headers).forEach((value, key) => {
+    result[key] = value;
+  });
+  return result;
+}
+
+/**
+ * In-process fake of the FoxNose Management and Flux APIs for offline tests.
+ *
+ * Pass {@link fetch} to `ManagementClient` and `FluxClient`. Management
+ * requests are matched against `managementUrl`, Flux requests against
+ * `fluxUrl`; any other origin fails like an unreachable host. State lives in
+ * memory and is shared by both APIs, so content written through the
+ * Management API is served by Flux once its collection is connected to an
+ * API.
+ *
+ * Errors use the same status codes and `error_code` values as the real API
+ * where the SDK maps them to typed errors (`content_validation_failed`,
+ * `external_id_conflict`, `collection_not_writable`, ...). Organization,
+ * project and environment endpoints are not implemented and return 404.
+ *
+ * @example
+ * ```ts
+ * const server = new FakeFoxnoseServer({ environmentKey: 'env-1' });
+ * const client = new ManagementClient({
+ *   environmentKey: 'env-1',
+ *   auth: new AnonymousAuth(),
+ *   fetch: server.fetch,
+ * });
+ * const flux = new FluxClient({
+ *   baseUrl: server.fluxUrl,
+ *   apiPrefix: 'v1',
+ *   auth: new SimpleKeyAuth('pk', 'sk'),
+ *   fetch: server.fetch,
+ * });
+ * ```
+ */
+export class FakeFoxnoseServer {
+  readonly environmentKey: string;
+  readonly managementUrl: string;
+  readonly fluxUrl: string;
+  /** Every request received, in order. */
+  readonly requests: FakeRequestRecord[] = [];
+  /** `fetch`-compatible entry point; safe to pass around unbound. */
+  readonly fetch: FetchFunction;
+
+  private readonly pageSize: number;
+  private readonly clock: () => Date;
+  private state: FakeState;
+  private router: Router;
+  private failures: FakeFailure[] = [];
+
+  constructor(options: FakeFoxnoseServerOptions = {}) {
+    this.environmentKey = options.environmentKey ?? 'env-test';
+    this.managementUrl = (options.managementUrl ?? 'https://api.foxnose.net').replace(/\/+$/, '');
+    this.fluxUrl = (options.fluxUrl ?? `https://${this.environmentKey}.fxns.io`).replace(
+      /\/+$/,
+      '',
+    );
+    this.pageSize = options.pageSize ?? 100;
+    this.clock = options.now ?? (() => new Date());
+    this.state = new FakeState(this.environmentKey, this.clock);
+    this.router = managementRouter(this.state, this.pageSize);
+    this.fetch = (url, init) => this.handle(url, init);
+  }
+
+  /**
+   * Queues a failure for the next matching request(s). Failures are checked
+   * in the order they were added.
+   */
+  failNext(failure: FakeFailure): void {
+    this.failures.push({ ...failure, times: failure.times ?? 1 });
+  }
+
+  /** Drops all stored data, recorded requests and queued failures. */
+  reset(): void {
+    this.state = new FakeState(this.environmentKey, this.clock);
+    this.router = managementRouter(this.state, this.pageSize);
+    this.requests.length = 0;
+    this.failures = [];
+  }
+
+  private async handle(url: string, init: RequestInit): Promise<Response> {
+    if (init.signal?.aborted) {
+      throw init.signal.reason ?? new DOMException('The operation was aborted.', 'AbortError');
+    }
+    const method = (init.method ?? 'GET').toUpperCase();
+    const headers = lowerCaseHeaders(init.headers);
+    const body = decodeBody(init.body);
+    const parsed = new URL(url);
+
+    let api: 'management' | 'flux';
+    if (url.startsWith(`${this.fluxUrl}/`)) {
+      api = 'flux';
+    } else if (url.startsWith(`${this.managementUrl}/`)) {
+      api = 'management';
+    } else {
+      throw new TypeError(`fetch failed: no fake server at ${parsed.origin}`);
+    }
+
+    const basePath = new URL(api === 'flux' ? this.fluxUrl : this.managementUrl).pathname.replace(
+      /\/+$/,
+      '',
+    );
+    const path = parsed.pathname.slice(basePath.length) || '/';
+    const request: FakeRequest = {
+      method,
+      url: parsed,
+      path,
+      query: parsed.searchParams,
+      headers,
+      body,
+    };
+
+    let result: FakeResult;
+    try {
+      result = this.takeFailure(method, path) ?? this.route(api, request);
+    } catch (err) {
+      if (!(err instanceof FakeHttpError)) {
+        throw err;
+      }
+      result = err.toResult();
+    }
+    this.requests.push({ method, url, headers, body, status: result.status });
+
+    const responseHeaders = new Headers(result.headers);
+    if (result.body === undefined) {
+      return new Response(null, { status: result.status, headers: responseHeaders });
+    }
+    responseHeaders.set('Content-Type', 'application/json');
+    return new Response(JSON.stringify(result.body), {
+      status: result.status,
+      headers: responseHeaders,
+    });
+  }
+
+  private route(api: 'management' | 'flux', request: FakeRequest): FakeResult {
+    if (api === 'flux') {
+      return handleFlux(this.state, request, this.pageSize);
+    }
+    const envPrefix = `/v1/${this.environmentKey}`;
+    if (!request.path.startsWith(`${envPrefix}/`)) {
+      throw notFound('Endpoint');
+    }
+    return this.router.dispatch({ ...request, path: request.path.slice(envPrefix.length) });
+  }
+
+  private takeFailure(method: string, path: string): FakeResult | undefined {
+    const index = this.failures.findIndex(
+      (f) => (!f.method || f.method.toUpperCase() === method) && matchesPath(f.path, path),
+    );
+    if (index < 0) {
+      return undefined;
+    }
+    const failure = this.failures[index];
+    failure.times = (failure.times ?? 1) - 1;
+    if (failure.times <= 0) {
+      this.failures.splice(index, 1);
+    }
+    return {
+      status: failure.status,
+      headers: failure.headers,
+      body:
+        failure.body !== undefined
+          ? failure.body
+          : {
+              message: failure.message ?? 'Simulated failure.',
+              error_code: failure.errorCode ?? null,
+              detail: failure.detail ?? null,
+            },
+    };
+  }
+}
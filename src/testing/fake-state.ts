@@ -0,0 +1,278 @@
+/**
+ * In-memory storage behind {@link FakeFoxnoseServer}.
+ * @internal
+ */
+
+import type {
+  APIFolderSummary,
+  APIInfo,
+  CollectionSummary,
+  ComponentSummary,
+  FieldSummary,
+  FluxAPIKeySummary,
+  FluxRoleSummary,
+  LocaleSummary,
+  ManagementAPIKeySummary,
+  ManagementRoleSummary,
+  ResourceSummary,
+  RevisionSummary,
+  RolePermission,
+  RolePermissionObject,
+  SchemaVersionSummary,
+} from '../management/models.js';
+
+export interface VersionRecord {
+  summary: SchemaVersionSummary;
+  /** Fields keyed by path, in creation order. */
+  fields: Map<string, FieldSummary>;
+}
+
+export interface ModelRecord {
+  versions: Map<string, VersionRecord>;
+}
+
+export interface CollectionRecord extends ModelRecord {
+  summary: CollectionSummary;
+  resources: Map<string, ResourceRecord>;
+}
+
+export interface ComponentRecord extends ModelRecord {
+  summary: ComponentSummary;
+}
+
+export interface RevisionRecord {
+  summary: RevisionSummary;
+  data: Record<string, any>;
+}
+
+export interface ResourceRecord {
+  summary: ResourceSummary;
+  revisions: RevisionRecord[];
+}
+
+export interface RoleRecord<T> {
+  summary: T;
+  permissions: Map<string, RolePermission>;
+  objects: RolePermissionObject[];
+}
+
+export interface ApiRecord {
+  info: APIInfo;
+  /** Connected collections keyed by collection key. */
+  collections: Map<string, APIFolderSummary>;
+}
+
+export class FakeState {
+  readonly collections = new Map<string, CollectionRecord>();
+  readonly components = new Map<string, ComponentRecord>();
+  readonly managementRoles = new Map<string, RoleRecord<ManagementRoleSummary>>();
+  readonly fluxRoles = new Map<string, RoleRecord<FluxRoleSummary>>();
+  readonly managementApiKeys = new Map<string, ManagementAPIKeySummary>();
+  readonly fluxApiKeys = new Map<string, FluxAPIKeySummary>();
+  readonly apis = new Map<string, ApiRecord>();
+  readonly locales = new Map<string, LocaleSummary>();
+  private counter = 0;
+
+  constructor(
+    readonly environmentKey: string,
+    private readonly clock: () => Date,
+  ) {}
+
+  /** Returns a new key such as `res-12`, unique across the whole server. */
+  nextKey(prefix: string): string {
+    this.counter += 1;
+    return `${prefix}-${this.counter}`;
+  }
+
+  now(): string {
+    return this.clock().toISOString();
+  }
+
+  /** Slash-joined aliases from the root collection down to `record`. */
+  collectionPath(record: CollectionRecord): string {
+    const parts: string[] = [];
+    let current: CollectionRecord | undefined = record;
+    while (current) {
+      parts.unshift(current.summary.alias);
+      current = current.summary.parent ? this.collections.get(current.summary.parent) : undefined;
+    }
+    return parts.join('/');
+  }
+
+  findCollectionByPath(path: string): CollectionRecord | undefined {
+    const normalized = path.replace(/^\/+|\/+$/g, '');
+    for (const record of this.collections.values()) {
+      if (this.collectionPath(record) === normalized) {
+        return record;
+      }
+    }
+    return undefined;
+  }
+
+  /** The most recently published, non-archived schema version of a model. */
+  publishedVersion(model: ModelRecord): VersionRecord | undefined {
+    let latest: VersionRecord | undefined;
+    for (const version of model.versions.values()) {
+      if (version.summary.published_at && !version.summary.archived_at) {
+        latest = version;
+      }
+    }
+    return latest;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// JSON Schema derived from fields
+// ---------------------------------------------------------------------------
+
+const STRING_TYPES = new Set([
+  'string',
+  'text',
+  'html',
+  'markdown',
+  'email',
+  'url',
+  'slug',
+  'select',
+  'reference',
+  'time',
+]);
+
+function baseSchema(field: FieldSummary, children: FieldSummary[], all: FieldSummary[]) {
+  const type = field.type;
+  if (STRING_TYPES.has(type)) {
+    return { type: 'string' };
+  }
+  switch (type) {
+    case 'date':
+      return { type: 'string', format: 'date' };
+    case 'datetime':
+      return { type: 'string', format: 'date-time' };
+    case 'integer':
+      return { type: 'integer' };
+    case 'number':
+    case 'float':
+    case 'decimal':
+      return { type: 'number' };
+    case 'boolean':
+      return { type: 'boolean' };
+    case 'vector':
+      return { type: 'array', items: { type: 'number' } };
+    case 'object':
+      return objectSchema(children, all);
+    case 'array':
+      return { type: 'array' };
+    case 'nested':
+      return { type: 'object' };
+    default:
+      return {};
+  }
+}
+
+/** JSON Schema of one field, with `all` supplying the children of object fields. */
+export function fieldSchema(field: FieldSummary, all: FieldSummary[]): Record<string, any> {
+  const children = all.filter((f) => f.parent === field.path);
+  let schema: Record<string, any> = baseSchema(field, children, all);
+  if (field.multiple) {
+    schema = { type: 'array', items: schema };
+  }
+  if (field.nullable && typeof schema.type === 'string') {
+    schema = { ...schema, type: [schema.type, 'null'] };
+  }
+  if (field.localizable) {
+    schema = { type: 'object', additionalProperties: schema };
+  }
+  if (field.description) {
+    schema = { ...schema, description: field.description };
+  }
+  return schema;
+}
+
+function objectSchema(fields: FieldSummary[], all: FieldSummary[]): Record<string, any> {
+  const properties: Record<string, any> = {};
+  const required: string[] = [];
+  for (const field of fields) {
+    properties[field.key] = fieldSchema(field, all);
+    if (field.required) {
+      required.push(field.key);
+    }
+  }
+  return { type: 'object', properties, required };
+}
+
+/** Builds the JSON Schema the API reports for a set of schema fields. */
+export function buildJsonSchema(fields: Iterable<FieldSummary>): Record<string, any> {
+  const all = [...fields];
+  return objectSchema(
+    all.filter((f) => !f.parent),
+    all,
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Content validation
+// ---------------------------------------------------------------------------
+
+export interface ContentError {
+  json_path: string;
+  message: string;
+}
+
+function typeMatches(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'null':
+      return value === null;
+    case 'string':
+      return typeof value === 'string';
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    default:
+      return true;
+  }
+}
+
+/**
+ * Checks `value` against the subset of JSON Schema produced by
+ * {@link buildJsonSchema}: `type`, `required`, `properties`, `items` and
+ * `additionalProperties`.
+ */
+export function validateContent(
+  schema: Record<string, any>,
+  value: unknown,
+  path = '$',
+  errors: ContentError[] = [],
+): ContentError[] {
+  if (schema.type !== undefined) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((t) => typeMatches(value, t))) {
+      errors.push({ json_path: path, message: `Expected ${types.join(' or ')}.` });
+      return errors;
+    }
+  }
+  if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+    const record = value as Record<string, unknown>;
+    for (const name of schema.required ?? []) {
+      if (record[name] === undefined) {
+        errors.push({ json_path: `${path}.${name}`, message: 'This field is required.' });
+      }
+    }
+    for (const [name, item] of Object.entries(record)) {
+      const child = schema.properties?.[name] ?? schema.additionalProperties;
+      if (child && typeof child === 'object') {
+        validateContent(child, item, `${path}.${name}`, errors);
+      }
+    }
+  }
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, i) => validateContent(schema.items, item, `${path}[${i}]`, errors));
+  }
+  return errors;
+}
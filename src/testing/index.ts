@@ -0,0 +1,11 @@
+export { FakeFoxnoseServer } from './fake-server.js';
+export type { FakeFailure, FakeFoxnoseServerOptions, FakeRequestRecord } from './fake-server.js';
+export { Cassette } from './cassette.js';
+export type {
+  CassetteBody,
+  CassetteInteraction,
+  CassetteMode,
+  CassetteOptions,
+} from './cassette.js';
+export { FakeSigner } from './signer.js';
+export type { FakeSignerOptions } from './signer.js';
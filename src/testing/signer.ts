@@ -0,0 +1,57 @@
+import { generateKeyPairSync } from 'node:crypto';
+
+import { KeySigner } from '../auth/signer.js';
+import type { Signer } from '../auth/signer.js';
+
+export interface FakeSignerOptions {
+  /** Milliseconds each signature takes, to mimic a remote key service. */
+  latency?: number;
+}
+
+/**
+ * A {@link Signer} double for tests. It signs with a fresh P-256 key whose
+ * public half is {@link publicKey} (base64 SPKI DER, usable as the
+ * `SecureKeyAuth` public key and by `verifySecureSignature`), records each
+ * payload, and fails on demand.
+ *
+ * @example
+ * ```ts
+ * const signer = new FakeSigner();
+ * const auth = new SecureKeyAuth(signer.publicKey, signer);
+ * signer.failNext(new Error('KMS throttled'));
+ * ```
+ */
+export class FakeSigner implements Signer {
+  /** Public key of the signing key, as base64 SPKI DER. */
+  readonly publicKey: string;
+  /** Payloads signed so far, decoded as UTF-8. */
+  readonly payloads: string[] = [];
+
+  private readonly signer: KeySigner;
+  private readonly latency: number;
+  private failures: Error[] = [];
+
+  constructor(options: FakeSignerOptions = {}) {
+    const { publicKey, privateKey } = generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+    this.publicKey = publicKey.export({ type: 'spki', format: 'der' }).toString('base64');
+    this.signer = new KeySigner(privateKey);
+    this.latency = options.latency ?? 0;
+  }
+
+  /** Makes the next {@link sign} call reject with `error`. */
+  failNext(error: Error = new Error('Signing failed')): void {
+    this.failures.push(error);
+  }
+
+  async sign(data: Uint8Array): Promise<Uint8Array> {
+    if (this.latency > 0) {
+      await new Promise((resolve) => setTimeout(resolve, this.latency));
+    }
+    const failure = this.failures.shift();
+    if (failure) {
+      throw failure;
+    }
+    this.payloads.push(new TextDecoder().decode(data));
+    return this.signer.sign(data);
+  }
+}
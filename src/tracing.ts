@@ -0,0 +1,130 @@
+/**
+ * Tracing hooks run by {@link HttpTransport}: one span per SDK call, with a
+ * child span per HTTP attempt. The interfaces match the parts of
+ * `@opentelemetry/api` they use, without depending on it.
+ */
+
+import { SDK_VERSION } from './config.js';
+
+export type SpanAttributeValue = string | number | boolean;
+
+/**
+ * A span started by an {@link Instrumentation}. An OpenTelemetry `Span`
+ * satisfies it.
+ */
+export interface InstrumentationSpan {
+  setAttribute(key: string, value: SpanAttributeValue): unknown;
+  /** Called with code 2 (OpenTelemetry's `SpanStatusCode.ERROR`) when the span fails. */
+  setStatus?(status: { code: number; message?: string }): unknown;
+  recordException?(exception: Error): unknown;
+  end(): void;
+}
+
+export interface StartSpanOptions {
+  /** `client` for HTTP attempts, `internal` for the SDK call around them. */
+  kind: 'client' | 'internal';
+  attributes: Record<string, SpanAttributeValue>;
+}
+
+/**
+ * Creates spans for SDK calls and HTTP attempts. Use
+ * {@link openTelemetryInstrumentation} with OpenTelemetry, or implement it to
+ * feed another tracing system.
+ *
+ * The call span has the attributes `http.request.method`, `http.route` (a
+ * template such as `/v1/{environment}/folders/{folder}/resources`),
+ * `foxnose.retry_count`, `http.response.status_code`, `foxnose.error_code`,
+ * `error.type` and, for writes that report it, `foxnose.write_units`. Attempt
+ * spans add `url.full` and `http.request.resend_count`.
+ */
+export interface Instrumentation {
+  /** Starts a span; `parent` is the call span for attempt spans. */
+  startSpan(
+    name: string,
+    options: StartSpanOptions,
+    parent?: InstrumentationSpan,
+  ): InstrumentationSpan;
+  /** Adds the trace context headers of `span` (e.g. `traceparent`) to an attempt. */
+  inject?(span: InstrumentationSpan, headers: Record<string, string>): void;
+}
+
+/**
+ * The parts of the `@opentelemetry/api` module used by
+ * {@link openTelemetryInstrumentation}.
+ */
+export interface OpenTelemetryApi {
+  trace: {
+    getTracer(
+      name: string,
+      version?: string,
+    ): {
+      startSpan(name: string, options?: any, context?: any): InstrumentationSpan;
+    };
+    setSpan(context: any, span: any): any;
+  };
+  context: {
+    active(): any;
+  };
+  propagation: {
+    inject(context: any, carrier: Record<string, string>): void;
+  };
+  SpanKind: { CLIENT: number; INTERNAL: number };
+}
+
+/**
+ * Instrumentation backed by OpenTelemetry. Pass the `@opentelemetry/api`
+ * module; spans come from its global tracer provider, start under the active
+ * context, and attempts carry the propagator's headers (W3C `traceparent` by
+ * default).
+ *
+ * @example
+ * ```ts
+ * import * as otel from '@opentelemetry/api';
+ *
+ * const client = new ManagementClient({
+ *   environmentKey,
+ *   auth,
+ *   instrumentation: openTelemetryInstrumentation(otel),
+ * });
+ * ```
+ */
+export function openTelemetryInstrumentation(
+  api: OpenTelemetryApi,
+  options: { tracerName?: string } = {},
+): Instrumentation {
+  const tracer = api.trace.getTracer(options.tracerName ?? '@foxnose/sdk', SDK_VERSION);
+  return {
+    startSpan(name, { kind, attributes }, parent) {
+      const context = parent
+        ? api.trace.setSpan(api.context.active(), parent)
+        : api.context.active();
+      const spanKind = kind === 'client' ? api.SpanKind.CLIENT : api.SpanKind.INTERNAL;
+      return tracer.startSpan(name, { kind: spanKind, attributes }, context);
+    },
+    inject(span, headers) {
+      api.propagation.inject(api.trace.setSpan(api.context.active(), span), headers);
+    },
+  };
+}
+
+/** OpenTelemetry's `SpanStatusCode.ERROR`. @internal */
+export const SPAN_STATUS_ERROR = 2;
+
+/**
+ * Marks `span` as failed with `error`, recording its status code and error
+ * code when it is an API error.
+ * @internal
+ */
+export function recordSpanError(span: InstrumentationSpan, error: unknown): void {
+  const err = error instanceof Error ? error : new Error(String(error));
+  const { statusCode, errorCode } = err as { statusCode?: unknown; errorCode?: unknown };
+  if (typeof statusCode === 'number') {
+    span.setAttribute('http.response.status_code', statusCode);
+  }
+  if (typeof errorCode === 'string') {
+    span.setAttribute('foxnose.error_code', errorCode);
+  }
+  span.setAttribute('error.type', typeof errorCode === 'string' ? errorCode : err.name);
+  span.recordException?.(err);
+  span.setStatus?.({ code: SPAN_STATUS_ERROR, message: err.message });
+}
@@ -0,0 +1,4 @@
+export { validateJsonSchema } from './json-schema.js';
+export type { ContentValidationIssue } from './json-schema.js';
+export { ContentValidator, fluxSchemaSource, managementSchemaSource } from './validator.js';
+export type { ContentValidatorOptions, SchemaSource } from './validator.js';
@@ -0,0 +1,236 @@
+/**
+ * One validation problem, in the shape of the `errors` of a
+ * {@link ContentValidationFailedError}: `json_path` is `$` for the document
+ * itself, `$.title` for a field and `$.tags[0]` for an array item.
+ */
+export interface ContentValidationIssue {
+  json_path: string;
+  message: string;
+}
+
+const FORMATS: Record<string, RegExp> = {
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  uri: /^[a-zA-Z][a-zA-Z0-9+.-]*:\S+$/,
+  date: /^\d{4}-\d{2}-\d{2}$/,
+  'date-time': /^\d{4}-\d{2}-\d{2}[Tt ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?([Zz]|[+-]\d{2}:?\d{2})?$/,
+  time: /^\d{2}:\d{2}(:\d{2}(\.\d+)?)?([Zz]|[+-]\d{2}:?\d{2})?$/,
+};
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function typeMatches(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'null':
+      return value === null;
+    case 'string':
+      return typeof value === 'string';
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return isObject(value);
+    default:
+      return true;
+  }
+}
+
+/** Compiled `pattern` of each schema; `null` when JavaScript cannot compile it. */
+const patterns = new WeakMap<object, RegExp | null>();
+
+/**
+ * Compiles `schema.pattern` once per schema. Patterns written for another
+ * regex dialect may not compile here; the keyword is then skipped and left
+ * to the server rather than rejecting data it would accept.
+ */
+function compilePattern(schema: Record<string, any>): RegExp | null {
+  let pattern = patterns.get(schema);
+  if (pattern === undefined) {
+    try {
+      pattern = new RegExp(schema.pattern, 'u');
+    } catch {
+      pattern = null;
+    }
+    patterns.set(schema, pattern);
+  }
+  return pattern;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function checkString(
+  schema: Record<string, any>,
+  value: string,
+  path: string,
+  issues: ContentValidationIssue[],
+): void {
+  const length = [...value].length;
+  if (typeof schema.minLength === 'number' && length < schema.minLength) {
+    issues.push({
+      json_path: path,
+      message: `Ensure this value has at least ${schema.minLength} characters.`,
+    });
+  }
+  if (typeof schema.maxLength === 'number' && length > schema.maxLength) {
+    issues.push({
+      json_path: path,
+      message: `Ensure this value has at most ${schema.maxLength} characters.`,
+    });
+  }
+  const pattern = typeof schema.pattern === 'string' ? compilePattern(schema) : null;
+  if (pattern && !pattern.test(value)) {
+    issues.push({ json_path: path, message: `Does not match pattern ${schema.pattern}.` });
+  }
+  const format = typeof schema.format === 'string' ? FORMATS[schema.format] : undefined;
+  if (format && !format.test(value)) {
+    issues.push({ json_path: path, message: `Enter a valid ${schema.format}.` });
+  }
+}
+
+function checkNumber(
+  schema: Record<string, any>,
+  value: number,
+  path: string,
+  issues: ContentValidationIssue[],
+): void {
+  if (typeof schema.minimum === 'number' && value < schema.minimum) {
+    issues.push({
+      json_path: path,
+      message: `Ensure this value is greater than or equal to ${schema.minimum}.`,
+    });
+  }
+  if (typeof schema.exclusiveMinimum === 'number' && value <= schema.exclusiveMinimum) {
+    issues.push({
+      json_path: path,
+      message: `Ensure this value is greater than ${schema.exclusiveMinimum}.`,
+    });
+  }
+  if (typeof schema.maximum === 'number' && value > schema.maximum) {
+    issues.push({
+      json_path: path,
+      message: `Ensure this value is less than or equal to ${schema.maximum}.`,
+    });
+  }
+  if (typeof schema.exclusiveMaximum === 'number' && value >= schema.exclusiveMaximum) {
+    issues.push({
+      json_path: path,
+      message: `Ensure this value is less than ${schema.exclusiveMaximum}.`,
+    });
+  }
+}
+
+function checkObject(
+  schema: Record<string, any>,
+  value: Record<string, unknown>,
+  path: string,
+  issues: ContentValidationIssue[],
+): void {
+  for (const name of schema.required ?? []) {
+    if (value[name] === undefined) {
+      issues.push({ json_path: `${path}.${name}`, message: 'This field is required.' });
+    }
+  }
+  for (const [name, item] of Object.entries(value)) {
+    if (item === undefined) {
+      continue;
+    }
+    const child = schema.properties?.[name] ?? schema.additionalProperties;
+    if (child === false) {
+      issues.push({ json_path: `${path}.${name}`, message: 'Unknown field.' });
+    } else if (isObject(child)) {
+      collectIssues(child, item, `${path}.${name}`, issues);
+    }
+  }
+}
+
+function checkArray(
+  schema: Record<string, any>,
+  value: unknown[],
+  path: string,
+  issues: ContentValidationIssue[],
+): void {
+  if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+    issues.push({
+      json_path: path,
+      message: `Ensure this list has at least ${schema.minItems} items.`,
+    });
+  }
+  if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+    issues.push({
+      json_path: path,
+      message: `Ensure this list has at most ${schema.maxItems} items.`,
+    });
+  }
+  if (isObject(schema.items)) {
+    value.forEach((item, i) => collectIssues(schema.items, item, `${path}[${i}]`, issues));
+  }
+}
+
+function collectIssues(
+  schema: Record<string, any>,
+  value: unknown,
+  path: string,
+  issues: ContentValidationIssue[],
+): void {
+  if (schema.type !== undefined) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => typeMatches(value, type))) {
+      issues.push({ json_path: path, message: `Expected ${types.join(' or ')}.` });
+      return;
+    }
+  }
+  if (schema.const !== undefined && !sameValue(value, schema.const)) {
+    issues.push({ json_path: path, message: `Must be ${JSON.stringify(schema.const)}.` });
+  }
+  if (Array.isArray(schema.enum) && !schema.enum.some((option) => sameValue(value, option))) {
+    const options = schema.enum.map((option) => JSON.stringify(option)).join(', ');
+    issues.push({ json_path: path, message: `Must be one of: ${options}.` });
+  }
+  if (Array.isArray(schema.allOf)) {
+    for (const part of schema.allOf) {
+      if (isObject(part)) {
+        collectIssues(part, value, path, issues);
+      }
+    }
+  }
+  if (typeof value === 'string') {
+    checkString(schema, value, path, issues);
+  } else if (typeof value === 'number') {
+    checkNumber(schema, value, path, issues);
+  } else if (Array.isArray(value)) {
+    checkArray(schema, value, path, issues);
+  } else if (isObject(value)) {
+    checkObject(schema, value, path, issues);
+  }
+}
+
+/**
+ * Validates `value` against a JSON Schema, as published for a collection's
+ * content. Covers the keywords the API uses: `type`, `enum`, `const`,
+ * `required`, `properties`, `additionalProperties`, `items`, `allOf`, string
+ * length, `pattern` and `format`, numeric bounds and array sizes. Other
+ * keywords, and patterns JavaScript cannot compile, are ignored, so data
+ * passing here can still be rejected by the server.
+ *
+ * @example
+ * ```ts
+ * validateJsonSchema(schema, { title: 42 });
+ * // [{ json_path: '$.title', message: 'Expected string.' }]
+ * ```
+ */
+export function validateJsonSchema(
+  schema: Record<string, any>,
+  value: unknown,
+): ContentValidationIssue[] {
+  const issues: ContentValidationIssue[] = [];
+  collectIssues(schema, value, '$', issues);
+  return issues;
+}
@@ -0,0 +1,133 @@
+import { callOptions } from '../config.js';
+import type { RequestOptions } from '../config.js';
+import { LocalValidationError } from '../errors.js';
+import type { FluxClient } from '../flux/client.js';
+import type { FluxSchemaInfo } from '../flux/models.js';
+import type { ManagementClient } from '../management/client.js';
+import { latestPublished } from '../schema/plan.js';
+import type { ContentValidationIssue } from './json-schema.js';
+import { validateJsonSchema } from './json-schema.js';
+
+/**
+ * Fetches the JSON Schema that a collection's content must match, or `null`
+ * when it has none (e.g. nothing is published yet).
+ */
+export type SchemaSource = (
+  collection: string,
+  options: RequestOptions,
+) => Promise<Record<string, any> | null>;
+
+export interface ContentValidatorOptions {
+  /** How long a fetched schema is reused, in milliseconds. Defaults to 5 minutes. */
+  ttl?: number;
+}
+
+/**
+ * Reads a collection's schema from the `json_schema` of its published
+ * version. `collection` is a collection key.
+ */
+export function managementSchemaSource(client: ManagementClient): SchemaSource {
+  return async (collection, options) => {
+    const versions = await client
+      .iterateCollectionVersions(collection, undefined, options)
+      .toArray();
+    const published = latestPublished(versions);
+    if (!published) {
+      return null;
+    }
+    const version = await client.getCollectionVersion(collection, published.key, {
+      includeSchema: true,
+      ...options,
+    });
+    return version.json_schema ?? null;
+  };
+}
+
+/**
+ * Reads a collection's schema from the Flux `_schema` route. `collection` is
+ * the collection path, and the route must allow the `schema` action.
+ */
+export function fluxSchemaSource(client: FluxClient): SchemaSource {
+  return async (collection, options) => {
+    const info = await client.getSchema<FluxSchemaInfo>(collection, options);
+    return info.json_schema ?? null;
+  };
+}
+
+/**
+ * Validates resource data locally against each collection's published JSON
+ * Schema, fetched once per collection and cached for `ttl`. Errors have the
+ * same `json_path` shape as the server's {@link ContentValidationFailedError},
+ * so forms can show them without a round trip.
+ *
+ * Clients created with `validateContent` use one to check data before every
+ * write; it is exposed as `client.contentValidator`.
+ *
+ * @example
+ * ```ts
+ * const validator = new ContentValidator(managementSchemaSource(client));
+ * const errors = await validator.validate('articles', { title: 42 });
+ * // [{ json_path: '$.title', message: 'Expected string.' }]
+ * ```
+ */
+export class ContentValidator {
+  private readonly source: SchemaSource;
+  private readonly ttl: number;
+  private readonly schemas = new Map<
+    string,
+    { schema: Promise<Record<string, any> | null>; expiresAt: number }
+  >();
+
+  constructor(source: SchemaSource, options: ContentValidatorOptions = {}) {
+    this.source = source;
+    this.ttl = options.ttl ?? 5 * 60 * 1000;
+  }
+
+  /** The collection's schema, from the cache while it is fresh. */
+  async schema(collection: string, options?: RequestOptions): Promise<Record<string, any> | null> {
+    const cached = this.schemas.get(collection);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.schema;
+    }
+    const schema = this.source(collection, callOptions(options));
+    this.schemas.set(collection, { schema, expiresAt: Date.now() + this.ttl });
+    // A failed fetch is not cached.
+    schema.catch(() => {
+      if (this.schemas.get(collection)?.schema === schema) {
+        this.schemas.delete(collection);
+      }
+    });
+    return schema;
+  }
+
+  /** Returns the problems with `data`, empty when it is valid or there is no schema. */
+  async validate(
+    collection: string,
+    data: unknown,
+    options?: RequestOptions,
+  ): Promise<ContentValidationIssue[]> {
+    const schema = await this.schema(collection, options);
+    return schema ? validateJsonSchema(schema, data) : [];
+  }
+
+  /**
+   * Like {@link validate}, but throws when there are problems.
+   *
+   * @throws {LocalValidationError} When `data` does not match the schema.
+   */
+  async check(collection: string, data: unknown, options?: RequestOptions): Promise<void> {
+    const errors = await this.validate(collection, data, options);
+    if (errors.length > 0) {
+      throw new LocalValidationError(collection, errors);
+    }
+  }
+
+  /** Drops the cached schema of `collection`, or of every collection. */
+  invalidate(collection?: string): void {
+    if (collection === undefined) {
+      this.schemas.clear();
+    } else {
+      this.schemas.delete(collection);
+    }
+  }
+}
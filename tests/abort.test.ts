@@ -0,0 +1,180 @@
+import { describe, expect, it, vi } from 'vitest';
+import { HttpTransport } from '../src/http.js';
+import { FoxnoseAbortError, FoxnoseTransportError } from '../src/errors.js';
+import type { FoxnoseConfig } from '../src/config.js';
+import { FluxClient } from '../src/flux/client.js';
+import { ManagementClient } from '../src/management/client.js';
+import { AnonymousAuth } from '../src/auth/anonymous.js';
+
+const baseConfig: FoxnoseConfig = {
+  baseUrl: 'https://api.example.com',
+  timeout: 5000,
+  userAgent: 'test-agent/1.0',
+};
+
+const noRetry = { attempts: 1, backoffFactor: 0, statusCodes: [], methods: [] };
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), { status });
+}
+
+/** A fetch that never resolves on its own and rejects when its signal fires. */
+function hangingFetch() {
+  return vi.fn(
+    (_url: string, init: RequestInit) =>
+      new Promise<Response>((_resolve, reject) => {
+        const fail = () => reject(new Error('The operation was aborted'));
+        if (init.signal?.aborted) {
+          fail();
+        }
+        init.signal?.addEventListener('abort', fail);
+      }),
+  );
+}
+
+describe('request cancellation', () => {
+  it('rejects without fetching when the signal is already aborted', async () => {
+    const fetchMock = vi.fn(async () => jsonResponse({}));
+    const transport = new HttpTransport({ config: { ...baseConfig, fetch: fetchMock } });
+    const controller = new AbortController();
+    controller.abort('stop');
+
+    const error = await transport
+      .request('GET', '/test', { signal: controller.signal })
+      .catch((err: unknown) => err);
+
+    expect(error).toBeInstanceOf(FoxnoseAbortError);
+    expect(error).toBeInstanceOf(FoxnoseTransportError);
+    expect((error as FoxnoseAbortError).reason).toBe('stop');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('aborts an in-flight request without retrying it', async () => {
+    const fetchMock = hangingFetch();
+    const transport = new HttpTransport({
+      config: { ...baseConfig, fetch: fetchMock },
+      retryConfig: { attempts: 3, backoffFactor: 0, statusCodes: [], methods: ['GET'] },
+    });
+    const controller = new AbortController();
+
+    const pending = transport.request('GET', '/test', { signal: controller.signal });
+    controller.abort();
+
+    await expect(pending).rejects.toThrow(FoxnoseAbortError);
+    expect(fetchMock).toHaveBeenCalledOnce();
+    expect(fetchMock.mock.calls[0][1].signal?.aborted).toBe(true);
+  });
+
+  it('cancels a pending retry delay', async () => {
+    const fetchMock = vi.fn(async () => new Response('', { status: 503 }));
+    const transport = new HttpTransport({
+      config: { ...baseConfig, fetch: fetchMock },
+      retryConfig: { attempts: 3, backoffFactor: 60, statusCodes: [503], methods: ['GET'] },
+    });
+    const controller = new AbortController();
+
+    const pending = transport.request('GET', '/test', { signal: controller.signal });
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledOnce());
+    controller.abort();
+
+    await expect(pending).rejects.toThrow(FoxnoseAbortError);
+    expect(fetchMock).toHaveBeenCalledOnce();
+  });
+
+  it('applies a per-call timeout instead of the configured one', async () => {
+    const fetchMock = hangingFetch();
+    const transport = new HttpTransport({
+      config: { ...baseConfig, timeout: 60_000, fetch: fetchMock },
+      retryConfig: noRetry,
+    });
+
+    const error = await transport.request('GET', '/test', { timeout: 10 }).catch((err) => err);
+
+    expect(error).toBeInstanceOf(FoxnoseTransportError);
+    expect(error).not.toBeInstanceOf(FoxnoseAbortError);
+  });
+});
+
+describe('client request options', () => {
+  it('forwards signal and timeout from ManagementClient methods', async () => {
+    const fetchMock = hangingFetch();
+    const client = new ManagementClient({
+      environmentKey: 'env-1',
+      auth: new AnonymousAuth(),
+      fetch: fetchMock,
+      retryConfig: noRetry,
+    });
+    const controller = new AbortController();
+
+    const pending = client.getResource('articles', 'r1', { signal: controller.signal });
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledOnce());
+    controller.abort();
+    await expect(pending).rejects.toThrow(FoxnoseAbortError);
+
+    await expect(client.listComponents({}, { timeout: 10 })).rejects.toThrow(FoxnoseTransportError);
+  });
+
+  it('does not send request options as query parameters or body fields', async () => {
+    const fetchMock = vi.fn(async (_url: string, _init: RequestInit) => jsonResponse({}));
+    const client = new ManagementClient({
+      environmentKey: 'env-1',
+      auth: new AnonymousAuth(),
+      fetch: fetchMock,
+    });
+    const signal = new AbortController().signal;
+
+    await client.createResource('articles', { data: {} }, { externalId: 'ext-1', signal });
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://api.foxnose.net/v1/env-1/folders/articles/resources/');
+    expect(JSON.parse(init.body as string)).toEqual({ data: {}, external_id: 'ext-1' });
+  });
+
+  it('stops paginating when the signal aborts', async () => {
+    const controller = new AbortController();
+    const fetchMock = vi.fn(async () => {
+      controller.abort();
+      return jsonResponse({
+        count: 2,
+        next: '/v1/env-1/components/?offset=1',
+        previous: null,
+        results: [{ key: 'a' }],
+      });
+    });
+    const client = new ManagementClient({
+      environmentKey: 'env-1',
+      auth: new AnonymousAuth(),
+      fetch: fetchMock,
+    });
+
+    const seen: string[] = [];
+    const iterate = async () => {
+      for await (const component of client.iterateComponents({}, { signal: controller.signal })) {
+        seen.push(component.key);
+      }
+    };
+
+    await expect(iterate()).rejects.toThrow(FoxnoseAbortError);
+    expect(seen).toEqual(['a']);
+    expect(fetchMock).toHaveBeenCalledOnce();
+  });
+
+  it('forwards signal from FluxClient search helpers', async () => {
+    const fetchMock = hangingFetch();
+    const flux = new FluxClient({
+      baseUrl: 'https://env.fxns.io',
+      apiPrefix: 'v1',
+      auth: new AnonymousAuth(),
+      fetch: fetchMock,
+      retryConfig: noRetry,
+    });
+    const controller = new AbortController();
+
+    const pending = flux.vectorSearch('articles', { query: 'ai' }, { signal: controller.signal });
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledOnce());
+    controller.abort();
+
+    await expect(pending).rejects.toThrow(FoxnoseAbortError);
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body as string)).not.toHaveProperty('signal');
+  });
+});
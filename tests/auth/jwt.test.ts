@@ -1,5 +1,11 @@
-import { describe, expect, it } from 'vitest';
-import { JWTAuth, StaticTokenProvider } from '../../src/auth/jwt.js';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  decodeTokenExpiry,
+  JWTAuth,
+  RefreshingTokenProvider,
+  StaticTokenProvider,
+} from '../../src/auth/jwt.js';
+import { FoxnoseAuthError } from '../../src/errors.js';
 import type { RequestData } from '../../src/auth/types.js';
 
 const dummyRequest: RequestData = {
@@ -62,3 +68,134 @@ describe('JWTAuth', () => {
     expect(auth.buildHeaders(dummyRequest)).toEqual({ Authorization: 'Bearer token-2' });
   });
 });
+
+function makeJwt(payload: Record<string, unknown>): string {
+  const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  return `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(payload)}.signature`;
+}
+
+describe('decodeTokenExpiry', () => {
+  it('reads the exp claim in milliseconds', () => {
+    expect(decodeTokenExpiry(makeJwt({ sub: 'u1', exp: 1_700_000_000 }))).toBe(1_700_000_000_000);
+  });
+
+  it('returns undefined for opaque tokens and tokens without exp', () => {
+    expect(decodeTokenExpiry('opaque-token')).toBeUndefined();
+    expect(decodeTokenExpiry(makeJwt({ sub: 'u1' }))).toBeUndefined();
+    expect(decodeTokenExpiry('a.not-base64!.c')).toBeUndefined();
+  });
+});
+
+describe('RefreshingTokenProvider', () => {
+  const now = new Date('2026-01-01T00:00:00Z').getTime();
+  const inSeconds = (seconds: number) => Math.floor(now / 1000) + seconds;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(now);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('caches the token until it is due for refresh', async () => {
+    const tokens = [makeJwt({ exp: inSeconds(300) }), makeJwt({ exp: inSeconds(600) })];
+    const refresh = vi.fn(async () => tokens[refresh.mock.calls.length - 1]);
+    const provider = new RefreshingTokenProvider({ refresh, refreshMargin: 60_000 });
+
+    expect(await provider.getToken()).toBe(tokens[0]);
+    vi.advanceTimersByTime(239_000);
+    expect(await provider.getToken()).toBe(tokens[0]);
+    expect(refresh).toHaveBeenCalledOnce();
+
+    vi.advanceTimersByTime(1_000);
+    expect(await provider.getToken()).toBe(tokens[1]);
+    expect(refresh).toHaveBeenCalledTimes(2);
+  });
+
+  it('uses the initial token and an explicit expiresAt', async () => {
+    const refresh = vi.fn(async () => ({ token: 'fresh', expiresAt: new Date(now + 3_600_000) }));
+    const provider = new RefreshingTokenProvider({
+      refresh,
+      initialToken: { token: 'initial', expiresAt: now + 120_000 },
+    });
+
+    expect(await provider.getToken()).toBe('initial');
+    vi.advanceTimersByTime(60_000);
+    expect(await provider.getToken()).toBe('fresh');
+    expect(refresh).toHaveBeenCalledOnce();
+  });
+
+  it('shares a single refresh between concurrent callers', async () => {
+    let resolve!: (token: string) => void;
+    const refresh = vi.fn(() => new Promise<string>((r) => (resolve = r)));
+    const provider = new RefreshingTokenProvider({ refresh });
+
+    const pending = Promise.all([provider.getToken(), provider.getToken(), provider.getToken()]);
+    resolve('shared');
+
+    expect(await pending).toEqual(['shared', 'shared', 'shared']);
+    expect(refresh).toHaveBeenCalledOnce();
+  });
+
+  it('keeps tokens without expiry until invalidated', async () => {
+    const refresh = vi.fn(async () => `opaque-${refresh.mock.calls.length}`);
+    const provider = new RefreshingTokenProvider({ refresh });
+
+    expect(await provider.getToken()).toBe('opaque-1');
+    vi.advanceTimersByTime(86_400_000);
+    expect(await provider.getToken()).toBe('opaque-1');
+
+    provider.invalidate('stale-token');
+    expect(await provider.getToken()).toBe('opaque-1');
+    provider.invalidate('opaque-1');
+    expect(await provider.getToken()).toBe('opaque-2');
+  });
+
+  it('wraps refresh failures in FoxnoseAuthError and retries on the next call', async () => {
+    const refresh = vi
+      .fn()
+      .mockRejectedValueOnce(new Error('invalid_grant'))
+      .mockResolvedValueOnce('recovered');
+    const provider = new RefreshingTokenProvider({ refresh });
+
+    await expect(provider.getToken()).rejects.toThrow(FoxnoseAuthError);
+    await expect(provider.getToken()).resolves.toBe('recovered');
+  });
+
+  it('rejects an empty refreshed token and a negative margin', async () => {
+    const provider = new RefreshingTokenProvider({ refresh: async () => '' });
+    await expect(provider.getToken()).rejects.toThrow('empty token');
+    expect(
+      () => new RefreshingTokenProvider({ refresh: async () => 't', refreshMargin: -1 }),
+    ).toThrow('refreshMargin must not be negative');
+  });
+});
+
+describe('JWTAuth with async providers', () => {
+  it('builds headers from a promised token', async () => {
+    const auth = new JWTAuth({ getToken: async () => 'async-token' });
+    await expect(auth.buildHeaders(dummyRequest)).resolves.toEqual({
+      Authorization: 'Bearer async-token',
+    });
+  });
+
+  it('rejects on an empty promised token', async () => {
+    const auth = new JWTAuth({ getToken: async () => '' });
+    await expect(auth.buildHeaders(dummyRequest)).rejects.toThrow('empty token');
+  });
+
+  it('invalidates the rejected token on 401', () => {
+    const invalidate = vi.fn();
+    const auth = new JWTAuth({ getToken: () => 'tok', invalidate }, { scheme: 'Token' });
+    expect(auth.onUnauthorized({ Authorization: 'Token tok' })).toBe(true);
+    expect(invalidate).toHaveBeenCalledWith('tok');
+  });
+
+  it('does not ask for a retry when the provider cannot refresh', () => {
+    expect(JWTAuth.fromStaticToken('tok').onUnauthorized({ Authorization: 'Bearer tok' })).toBe(
+      false,
+    );
+  });
+});
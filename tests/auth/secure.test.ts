@@ -1,7 +1,14 @@
 import { createHash, createVerify, generateKeyPairSync } from 'node:crypto';
-import { describe, expect, it } from 'vitest';
-import { SecureKeyAuth } from '../../src/auth/secure.js';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, expect, it, vi } from 'vitest';
+import { SecureKeyAuth, verifySecureSignature } from '../../src/auth/secure.js';
+import { KeySigner } from '../../src/auth/signer.js';
 import type { RequestData } from '../../src/auth/types.js';
+import { FoxnoseAuthError } from '../../src/errors.js';
+import { HttpTransport } from '../../src/http.js';
+import { FakeSigner } from '../../src/testing/index.js';
 
 function generateTestKeyPair() {
   const { publicKey, privateKey } = generateKeyPairSync('ec', {
@@ -25,28 +32,28 @@ const dummyRequest: RequestData = {
 };
 
 describe('SecureKeyAuth', () => {
-  it('generates Authorization and Date headers', () => {
+  it('generates Authorization and Date headers', async () => {
     const keys = generateTestKeyPair();
     const fixedDate = new Date('2024-06-15T12:00:00Z');
     const auth = new SecureKeyAuth(keys.publicKey, keys.privateKey, {
       clock: () => fixedDate,
     });
 
-    const headers = auth.buildHeaders(dummyRequest);
+    const headers = await auth.buildHeaders(dummyRequest);
 
     expect(headers.Authorization).toMatch(new RegExp(`^Secure ${keys.publicKey}:.+`));
     expect(headers.Date).toBe('2024-06-15T12:00:00Z');
   });
 
-  it('signature changes with different bodies', () => {
+  it('signature changes with different bodies', async () => {
     const keys = generateTestKeyPair();
     const fixedDate = new Date('2024-06-15T12:00:00Z');
     const auth = new SecureKeyAuth(keys.publicKey, keys.privateKey, {
       clock: () => fixedDate,
     });
 
-    const headers1 = auth.buildHeaders(dummyRequest);
-    const headers2 = auth.buildHeaders({
+    const headers1 = await auth.buildHeaders(dummyRequest);
+    const headers2 = await auth.buildHeaders({
       ...dummyRequest,
       body: new TextEncoder().encode('{"data": "value"}'),
     });
@@ -55,15 +62,15 @@ describe('SecureKeyAuth', () => {
     expect(headers1.Authorization).not.toBe(headers2.Authorization);
   });
 
-  it('signature changes with different paths', () => {
+  it('signature changes with different paths', async () => {
     const keys = generateTestKeyPair();
     const fixedDate = new Date('2024-06-15T12:00:00Z');
     const auth = new SecureKeyAuth(keys.publicKey, keys.privateKey, {
       clock: () => fixedDate,
     });
 
-    const headers1 = auth.buildHeaders(dummyRequest);
-    const headers2 = auth.buildHeaders({
+    const headers1 = await auth.buildHeaders(dummyRequest);
+    const headers2 = await auth.buildHeaders({
       ...dummyRequest,
       url: 'https://api.example.com/v1/other',
       path: '/v1/other',
@@ -72,7 +79,7 @@ describe('SecureKeyAuth', () => {
     expect(headers1.Authorization).not.toBe(headers2.Authorization);
   });
 
-  it('signature changes with different timestamps', () => {
+  it('signature changes with different timestamps', async () => {
     const keys = generateTestKeyPair();
     let callCount = 0;
     const auth = new SecureKeyAuth(keys.publicKey, keys.privateKey, {
@@ -84,23 +91,23 @@ describe('SecureKeyAuth', () => {
       },
     });
 
-    const headers1 = auth.buildHeaders(dummyRequest);
-    const headers2 = auth.buildHeaders(dummyRequest);
+    const headers1 = await auth.buildHeaders(dummyRequest);
+    const headers2 = await auth.buildHeaders(dummyRequest);
 
     expect(headers1.Date).toBe('2024-06-15T12:00:00Z');
     expect(headers2.Date).toBe('2024-06-15T12:01:00Z');
     expect(headers1.Authorization).not.toBe(headers2.Authorization);
   });
 
-  it('ignores query string in signed path', () => {
+  it('ignores query string in signed path', async () => {
     const keys = generateTestKeyPair();
     const fixedDate = new Date('2024-06-15T12:00:00Z');
     const auth = new SecureKeyAuth(keys.publicKey, keys.privateKey, {
       clock: () => fixedDate,
     });
 
-    const headers1 = auth.buildHeaders(dummyRequest);
-    const headers2 = auth.buildHeaders({
+    const headers1 = await auth.buildHeaders(dummyRequest);
+    const headers2 = await auth.buildHeaders({
       ...dummyRequest,
       url: 'https://api.example.com/v1/test?page=2',
       path: '/v1/test?page=2',
@@ -134,15 +141,14 @@ describe('SecureKeyAuth', () => {
     expect(() => new SecureKeyAuth('pubkey', '')).toThrow('publicKey and privateKey are required');
   });
 
-  it('throws on invalid private key when signing', () => {
-    // Invalid DER data won't be caught until signing time with node:crypto
-    const auth = new SecureKeyAuth('pubkey', 'not-valid-base64-der', {
-      clock: () => new Date('2024-06-15T12:00:00Z'),
-    });
-    expect(() => auth.buildHeaders(dummyRequest)).toThrow();
+  it('throws on invalid private key at construction', () => {
+    expect(() => new SecureKeyAuth('pubkey', 'bm90LWEta2V5')).toThrow(FoxnoseAuthError);
+    expect(() => new SecureKeyAuth('pubkey', 'bm90LWEta2V5')).toThrow(
+      'Private key is neither a PKCS#8 nor a SEC1 DER private key',
+    );
   });
 
-  it('falls back to request.path when url is not a valid URL', () => {
+  it('falls back to request.path when url is not a valid URL', async () => {
     const keys = generateTestKeyPair();
     const fixedDate = new Date('2024-06-15T12:00:00Z');
     const auth = new SecureKeyAuth(keys.publicKey, keys.privateKey, {
@@ -150,7 +156,7 @@ describe('SecureKeyAuth', () => {
     });
 
     // Use a non-parseable URL to trigger the catch branch
-    const headers = auth.buildHeaders({
+    const headers = await auth.buildHeaders({
       method: 'GET',
       url: 'not-a-url',
       path: '/fallback/path',
@@ -161,16 +167,16 @@ describe('SecureKeyAuth', () => {
     expect(headers.Date).toBe('2024-06-15T12:00:00Z');
   });
 
-  it('uses default clock when not provided', () => {
+  it('uses default clock when not provided', async () => {
     const keys = generateTestKeyPair();
     const auth = new SecureKeyAuth(keys.publicKey, keys.privateKey);
 
-    const headers = auth.buildHeaders(dummyRequest);
+    const headers = await auth.buildHeaders(dummyRequest);
     expect(headers.Authorization).toMatch(/^Secure /);
     expect(headers.Date).toMatch(/^\d{4}-\d{2}-\d{2}T/);
   });
 
-  it('handles empty body via null-coalescing', () => {
+  it('handles empty body via null-coalescing', async () => {
     const keys = generateTestKeyPair();
     const fixedDate = new Date('2024-06-15T12:00:00Z');
     const auth = new SecureKeyAuth(keys.publicKey, keys.privateKey, {
@@ -178,7 +184,7 @@ describe('SecureKeyAuth', () => {
     });
 
     // body as undefined to test the ?? branch
-    const headers = auth.buildHeaders({
+    const headers = await auth.buildHeaders({
       method: 'GET',
       url: 'https://api.example.com/test',
       path: '/test',
@@ -188,14 +194,14 @@ describe('SecureKeyAuth', () => {
     expect(headers.Authorization).toMatch(/^Secure /);
   });
 
-  it('uses "/" as default path when url has no pathname and path is empty', () => {
+  it('uses "/" as default path when url has no pathname and path is empty', async () => {
     const keys = generateTestKeyPair();
     const fixedDate = new Date('2024-06-15T12:00:00Z');
     const auth = new SecureKeyAuth(keys.publicKey, keys.privateKey, {
       clock: () => fixedDate,
     });
 
-    const headers = auth.buildHeaders({
+    const headers = await auth.buildHeaders({
       method: 'GET',
       url: 'invalid:///',
       path: '',
@@ -205,3 +211,352 @@ describe('SecureKeyAuth', () => {
     expect(headers.Authorization).toMatch(/^Secure /);
   });
 });
+
+describe('SecureKeyAuth key loading', () => {
+  const { publicKey, privateKey } = generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+  const spki = publicKey.export({ type: 'spki', format: 'der' }).toString('base64');
+
+  async function verifies(auth: SecureKeyAuth): Promise<boolean> {
+    const headers = await auth.buildHeaders(dummyRequest);
+    const bodyHash = createHash('sha256').update(dummyRequest.body).digest('hex');
+    const verifier = createVerify('SHA256');
+    verifier.update(`/v1/test|${bodyHash}|${headers.Date}`);
+    return verifier.verify(
+      publicKey,
+      Buffer.from(headers.Authorization.split(':', 2)[1], 'base64'),
+    );
+  }
+
+  it('accepts every supported encoding', async () => {
+    const sec1Pem = privateKey.export({ type: 'sec1', format: 'pem' }) as string;
+    const pkcs8Pem = privateKey.export({ type: 'pkcs8', format: 'pem' }) as string;
+    const pkcs8Der = privateKey.export({ type: 'pkcs8', format: 'der' });
+    const jwk = privateKey.export({ format: 'jwk' });
+    const dir = await mkdtemp(join(tmpdir(), 'foxnose-keys-'));
+    try {
+      await writeFile(join(dir, 'key.pem'), pkcs8Pem);
+      await writeFile(join(dir, 'key.der'), pkcs8Der);
+      const inputs = [
+        privateKey,
+        sec1Pem,
+        pkcs8Pem,
+        pkcs8Der,
+        pkcs8Der.toString('base64'),
+        jwk,
+        JSON.stringify(jwk),
+        join(dir, 'key.pem'),
+        join(dir, 'key.der'),
+      ];
+      for (const input of inputs) {
+        expect(await verifies(new SecureKeyAuth(spki, input))).toBe(true);
+      }
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('decrypts encrypted PEM with a passphrase', async () => {
+    const encrypted = privateKey.export({
+      type: 'pkcs8',
+      format: 'pem',
+      cipher: 'aes-256-cbc',
+      passphrase: 'hunter2',
+    }) as string;
+    expect(() => new SecureKeyAuth(spki, encrypted)).toThrow(
+      'Private key is encrypted; pass the passphrase option',
+    );
+    expect(await verifies(new SecureKeyAuth(spki, encrypted, { passphrase: 'hunter2' }))).toBe(
+      true,
+    );
+  });
+
+  it('checks the curve and the public key', async () => {
+    const p384 = generateKeyPairSync('ec', { namedCurve: 'secp384r1' }).privateKey;
+    const rsa = generateKeyPairSync('rsa', { modulusLength: 1024 }).privateKey;
+    const other = generateKeyPairSync('ec', { namedCurve: 'prime256v1' }).privateKey;
+    const { x, y } = publicKey.export({ format: 'jwk' });
+    const rawPoint = Buffer.concat([
+      Buffer.from([4]),
+      Buffer.from(x!, 'base64url'),
+      Buffer.from(y!, 'base64url'),
+    ]).toString('base64');
+
+    expect(await verifies(new SecureKeyAuth(rawPoint, privateKey))).toBe(true);
+    expect(() => new SecureKeyAuth(rawPoint, other)).toThrow(
+      'Private key does not match the public key',
+    );
+    expect(() => new SecureKeyAuth(spki, p384)).toThrow(
+      'Private key must be an EC P-256 key, got EC secp384r1',
+    );
+    expect(() => new SecureKeyAuth(spki, rsa)).toThrow(
+      'Private key must be an EC P-256 key, got rsa',
+    );
+    expect(() => new SecureKeyAuth(spki, other)).toThrow(
+      'Private key does not match the public key',
+    );
+    expect(
+      () => new SecureKeyAuth(publicKey.export({ type: 'spki', format: 'pem' }) as string, other),
+    ).toThrow('Private key does not match the public key');
+    // Public keys that are not key material are taken as opaque IDs.
+    expect(await verifies(new SecureKeyAuth('pk-opaque-id', privateKey))).toBe(true);
+  });
+
+  it('explains unusable inputs', () => {
+    expect(() => new SecureKeyAuth(spki, publicKey)).toThrow(
+      'Expected a private KeyObject, got a public key',
+    );
+    expect(
+      () => new SecureKeyAuth(spki, publicKey.export({ type: 'spki', format: 'pem' }) as string),
+    ).toThrow('Private key holds a public key, not a private key');
+    expect(() => new SecureKeyAuth(spki, publicKey.export({ format: 'jwk' }))).toThrow(
+      'Private key is a public JWK; the private "d" member is missing',
+    );
+    expect(() => new SecureKeyAuth(spki, '/nonexistent/key.pem')).toThrow(
+      /^Cannot read private key file \/nonexistent\/key\.pem/,
+    );
+  });
+});
+
+describe('verifySecureSignature', () => {
+  const { publicKey, privateKey } = generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+  const spki = publicKey.export({ type: 'spki', format: 'der' }).toString('base64');
+  const signedAt = new Date('2024-06-15T12:00:00Z');
+  const auth = new SecureKeyAuth(spki, privateKey, { clock: () => signedAt });
+  const body = '{"title":"Hello"}';
+
+  async function signed(url = 'https://api.example.com/v1/env/folders/?limit=5') {
+    return {
+      url: '/v1/env/folders/?limit=5',
+      headers: await auth.buildHeaders({
+        method: 'POST',
+        url,
+        path: '/v1/env/folders/',
+        body: new TextEncoder().encode(body),
+      }),
+      body,
+    };
+  }
+  const clock = () => new Date('2024-06-15T12:03:00Z');
+
+  it('accepts requests signed by SecureKeyAuth', async () => {
+    expect(await verifySecureSignature(await signed(), { clock })).toEqual({
+      valid: true,
+      publicKey: spki,
+      timestamp: signedAt,
+    });
+    const request = await signed();
+    const lowerCase = {
+      ...request,
+      headers: {
+        authorization: request.headers.Authorization,
+        date: request.headers.Date,
+      },
+    };
+    expect(await verifySecureSignature(lowerCase, { clock, publicKey })).toMatchObject({
+      valid: true,
+    });
+  });
+
+  it('rejects tampered requests', async () => {
+    const request = await signed();
+    expect(
+      await verifySecureSignature({ ...request, body: '{"title":"Bye"}' }, { clock }),
+    ).toMatchObject({ valid: false, reason: 'invalid_signature' });
+    expect(
+      await verifySecureSignature({ ...request, url: '/v1/env/other/' }, { clock }),
+    ).toMatchObject({ valid: false, reason: 'invalid_signature' });
+    const other = generateKeyPairSync('ec', { namedCurve: 'prime256v1' }).publicKey;
+    expect(await verifySecureSignature(request, { clock, publicKey: other })).toMatchObject({
+      valid: false,
+      reason: 'invalid_signature',
+    });
+  });
+
+  it('enforces the clock-skew window', async () => {
+    const late = () => new Date('2024-06-15T12:06:00Z');
+    expect(await verifySecureSignature(await signed(), { clock: late })).toMatchObject({
+      valid: false,
+      reason: 'clock_skew',
+      timestamp: signedAt,
+    });
+    expect(
+      await verifySecureSignature(await signed(), { clock: late, maxClockSkew: 10 * 60 * 1000 }),
+    ).toMatchObject({ valid: true });
+  });
+
+  it('looks up keys by the public key in the header', async () => {
+    const keys = new Map([['pk-1', publicKey]]);
+    const byId = new SecureKeyAuth('pk-1', privateKey, { clock: () => signedAt });
+    const request = {
+      url: '/v1/test',
+      headers: await byId.buildHeaders(dummyRequest),
+    };
+    const lookup = async (id: string) => keys.get(id);
+    expect(await verifySecureSignature(request, { clock, publicKey: lookup })).toMatchObject({
+      valid: true,
+      publicKey: 'pk-1',
+    });
+    expect(
+      await verifySecureSignature(request, { clock, publicKey: () => undefined }),
+    ).toMatchObject({ valid: false, reason: 'unknown_key' });
+    // Without a key, an opaque key ID cannot be verified.
+    expect(await verifySecureSignature(request, { clock })).toMatchObject({
+      valid: false,
+      reason: 'unknown_key',
+    });
+  });
+
+  it('reports missing and malformed headers', async () => {
+    const { headers } = await signed();
+    const check = (h: Record<string, string>) =>
+      verifySecureSignature({ url: '/v1/test', headers: h }, { clock });
+    expect(await check({})).toMatchObject({ reason: 'missing_authorization' });
+    expect(await check({ Authorization: 'Bearer abc' })).toMatchObject({
+      reason: 'malformed_authorization',
+    });
+    expect(await check({ Authorization: headers.Authorization })).toMatchObject({
+      reason: 'missing_date',
+    });
+    expect(await check({ Authorization: headers.Authorization, Date: 'yesterday' })).toMatchObject({
+      reason: 'invalid_date',
+    });
+    await expect(
+      verifySecureSignature(await signed(), { clock, publicKey: 'not a key' }),
+    ).rejects.toBeInstanceOf(FoxnoseAuthError);
+  });
+});
+
+describe('SecureKeyAuth clock-skew compensation', () => {
+  const { publicKey, privateKey } = generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+  const config = { baseUrl: 'https://api.example.com', timeout: 5000, userAgent: 'test' };
+  const SERVER_AHEAD = 10 * 60 * 1000;
+
+  /** A server whose clock runs ten minutes ahead and accepts one minute of skew. */
+  function skewedServer() {
+    const sent: string[] = [];
+    const fetch = vi.fn(async (url: string | URL | Request, init?: RequestInit) => {
+      const headers = init!.headers as Record<string, string>;
+      sent.push(headers.Date);
+      const serverNow = () => new Date(Date.now() + SERVER_AHEAD);
+      const result = await verifySecureSignature(
+        { url: String(url), headers, body: init!.body as string | undefined },
+        { publicKey, clock: serverNow, maxClockSkew: 60_000 },
+      );
+      return new Response(JSON.stringify(result.valid ? { ok: true } : { message: 'Nope' }), {
+        status: result.valid ? 200 : 401,
+        headers: { Date: serverNow().toUTCString() },
+      });
+    });
+    return { fetch, sent };
+  }
+
+  it('re-signs a request rejected for its timestamp and keeps the offset', async () => {
+    const server = skewedServer();
+    const transport = new HttpTransport({
+      config: { ...config, fetch: server.fetch },
+      auth: new SecureKeyAuth('pk', privateKey),
+    });
+
+    expect(await transport.request('POST', '/v1/items', { jsonBody: { a: 1 } })).toEqual({
+      ok: true,
+    });
+    expect(await transport.request('GET', '/v1/items')).toEqual({ ok: true });
+    expect(server.fetch).toHaveBeenCalledTimes(3);
+    const [stale, resigned, next] = server.sent.map((date) => Date.parse(date) - Date.now());
+    expect(stale).toBeLessThan(5000);
+    expect(resigned).toBeGreaterThan(SERVER_AHEAD - 5000);
+    expect(next).toBeGreaterThan(SERVER_AHEAD - 5000);
+  });
+
+  it('does not retry rejections of timestamps that match the server clock', async () => {
+    const other = generateKeyPairSync('ec', { namedCurve: 'prime256v1' }).privateKey;
+    const server = skewedServer();
+    const auth = new SecureKeyAuth('pk', other);
+    auth.onClockOffset(SERVER_AHEAD);
+    const transport = new HttpTransport({ config: { ...config, fetch: server.fetch }, auth });
+
+    await expect(transport.request('GET', '/v1/items')).rejects.toMatchObject({ statusCode: 401 });
+    expect(server.fetch).toHaveBeenCalledOnce();
+  });
+
+  it('can be disabled', async () => {
+    const server = skewedServer();
+    const transport = new HttpTransport({
+      config: { ...config, fetch: server.fetch },
+      auth: new SecureKeyAuth('pk', privateKey, { compensateClockSkew: false }),
+    });
+
+    await expect(transport.request('GET', '/v1/items')).rejects.toMatchObject({ statusCode: 401 });
+    await expect(transport.request('GET', '/v1/items')).rejects.toMatchObject({ statusCode: 401 });
+    expect(server.fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('ignores offsets below the Date header resolution', async () => {
+    const at = new Date('2024-06-15T12:00:00Z');
+    const auth = new SecureKeyAuth('pk', privateKey, { clock: () => at });
+    auth.onClockOffset(800);
+    expect((await auth.buildHeaders(dummyRequest)).Date).toBe('2024-06-15T12:00:00Z');
+    auth.onClockOffset(-90_000);
+    expect((await auth.buildHeaders(dummyRequest)).Date).toBe('2024-06-15T11:58:30Z');
+  });
+});
+
+describe('SecureKeyAuth with a Signer', () => {
+  it('delegates signing to the signer', async () => {
+    const signer = new FakeSigner({ latency: 5 });
+    const auth = new SecureKeyAuth(signer.publicKey, signer, {
+      clock: () => new Date('2024-06-15T12:00:00Z'),
+    });
+
+    const headers = await auth.buildHeaders(dummyRequest);
+    const bodyHash = createHash('sha256').update(dummyRequest.body).digest('hex');
+    expect(signer.payloads).toEqual([`/v1/test|${bodyHash}|2024-06-15T12:00:00Z`]);
+    const result = await verifySecureSignature(
+      { url: dummyRequest.url, headers },
+      { clock: () => new Date('2024-06-15T12:00:30Z') },
+    );
+    expect(result).toMatchObject({ valid: true, publicKey: signer.publicKey });
+  });
+
+  it('signs in process with KeySigner', async () => {
+    const { publicKey, privateKey } = generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+    const data = new TextEncoder().encode('payload');
+    const signature = await new KeySigner(privateKey).sign(data);
+    const verifier = createVerify('SHA256');
+    verifier.update(data);
+    expect(verifier.verify(publicKey, Buffer.from(signature))).toBe(true);
+  });
+
+  it('raises signer failures as FoxnoseAuthError', async () => {
+    const signer = new FakeSigner();
+    const auth = new SecureKeyAuth(signer.publicKey, signer);
+    signer.failNext(new Error('KMS throttled'));
+    await expect(auth.buildHeaders(dummyRequest)).rejects.toThrow(
+      new FoxnoseAuthError('Signer failed: KMS throttled'),
+    );
+
+    const empty = new SecureKeyAuth('pk', { sign: async () => new Uint8Array(0) });
+    await expect(empty.buildHeaders(dummyRequest)).rejects.toThrow(
+      'Signer returned an empty signature',
+    );
+  });
+
+  it('signs each transport attempt', async () => {
+    const signer = new FakeSigner();
+    const fetch = vi.fn(async (url: string | URL | Request, init?: RequestInit) => {
+      const headers = init!.headers as Record<string, string>;
+      const result = await verifySecureSignature({ url: String(url), headers });
+      return new Response(null, {
+        status: result.valid && fetch.mock.calls.length > 1 ? 204 : 503,
+      });
+    });
+    const transport = new HttpTransport({
+      config: { baseUrl: 'https://api.example.com', timeout: 5000, userAgent: 'test', fetch },
+      auth: new SecureKeyAuth(signer.publicKey, signer),
+      retryConfig: { attempts: 2, backoffFactor: 0, statusCodes: [503], methods: ['GET'] },
+    });
+
+    await transport.request('GET', '/v1/items', { parseJson: false });
+    expect(signer.payloads).toHaveLength(2);
+  });
+});
@@ -0,0 +1,150 @@
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { createReadStream } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { AnonymousAuth } from '../../src/auth/anonymous.js';
+import { exportResources, exportResourcesToFile, restoreResources } from '../../src/bulk/index.js';
+import type { ExportedResource } from '../../src/bulk/index.js';
+import { ManagementClient } from '../../src/management/client.js';
+import { FakeFoxnoseServer } from '../../src/testing/index.js';
+
+function clientFor(server: FakeFoxnoseServer, fetch = server.fetch): ManagementClient {
+  return new ManagementClient({
+    environmentKey: server.environmentKey,
+    auth: new AnonymousAuth(),
+    fetch,
+    retryConfig: { attempts: 1, backoffFactor: 0, statusCodes: [], methods: [] },
+  });
+}
+
+async function createArticles(client: ManagementClient): Promise<string> {
+  const folder = (await client.createCollection({ name: 'Articles', alias: 'articles' })).key;
+  const version = await client.createCollectionVersion(folder, { name: 'v1' });
+  await client.createCollectionField(folder, version.key, {
+    key: 'title',
+    name: 'Title',
+    type: 'string',
+  });
+  await client.publishCollectionVersion(folder, version.key);
+  return folder;
+}
+
+function parse(text: string): ExportedResource[] {
+  return text
+    .trim()
+    .split('\n')
+    .map((line) => JSON.parse(line));
+}
+
+describe('resource export', () => {
+  let server: FakeFoxnoseServer;
+  let client: ManagementClient;
+  let folder: string;
+  let dir: string;
+  let path: string;
+
+  beforeEach(async () => {
+    server = new FakeFoxnoseServer();
+    client = clientFor(server);
+    folder = await createArticles(client);
+    for (let i = 0; i < 5; i++) {
+      await client.createResource(
+        folder,
+        { data: { title: `Article ${i}` } },
+        { externalId: `a-${i}` },
+      );
+    }
+    dir = await mkdtemp(join(tmpdir(), 'foxnose-export-'));
+    path = join(dir, 'articles.ndjson');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('streams resources in listing order with bounded concurrency', async () => {
+    let active = 0;
+    let peak = 0;
+    const tracked = clientFor(server, async (url, init) => {
+      active++;
+      peak = Math.max(peak, active);
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      try {
+        return await server.fetch(url, init);
+      } finally {
+        active--;
+      }
+    });
+
+    const exported: ExportedResource[] = [];
+    for await (const resource of exportResources(tracked, folder, { maxConcurrency: 2 })) {
+      exported.push(resource);
+    }
+    expect(exported.map((r) => [r.external_id, r.data])).toEqual(
+      [0, 1, 2, 3, 4].map((i) => [`a-${i}`, { title: `Article ${i}` }]),
+    );
+    expect(exported[0]).toMatchObject({ folder, current_revision: expect.any(String) });
+    expect(exported[0].created_at).toBeTruthy();
+    expect(exported[0].revisions).toBeUndefined();
+    expect(peak).toBe(2);
+  });
+
+  it('exports revisions and restores into another environment', async () => {
+    const [first] = await client.iterateResources(folder).toArray();
+    const revision = await client.createRevision(folder, first.key, {
+      data: { title: 'Article 0, edited' },
+    });
+    await client.publishRevision(folder, first.key, revision.key);
+    const anonymous = await client.createResource(folder, { data: { title: 'No ID' } });
+
+    const result = await exportResourcesToFile(client, folder, path, { includeRevisions: true });
+    expect(result).toEqual({ exported: 6, skipped: 0 });
+    const records = parse(await readFile(path, 'utf8'));
+    expect(records[0].data).toEqual({ title: 'Article 0, edited' });
+    expect(records[0].revisions!.map((r) => [r.number, r.data.title])).toEqual([
+      [1, 'Article 0'],
+      [2, 'Article 0, edited'],
+    ]);
+
+    const target = new FakeFoxnoseServer({ environmentKey: 'restore' });
+    const targetClient = clientFor(target);
+    const targetFolder = await createArticles(targetClient);
+    const restored = await restoreResources(targetClient, targetFolder, createReadStream(path));
+    expect(restored).toMatchObject({ read: 6, succeeded: 6, failed: 0 });
+    // Restoring again updates the same resources.
+    await restoreResources(targetClient, targetFolder, createReadStream(path));
+
+    const resources = await targetClient.iterateResources(targetFolder).toArray();
+    expect(resources.map((r) => r.external_id)).toEqual([
+      'a-0',
+      'a-1',
+      'a-2',
+      'a-3',
+      'a-4',
+      anonymous.key,
+    ]);
+    expect(await targetClient.getResourceData(targetFolder, resources[0].key)).toEqual({
+      title: 'Article 0, edited',
+    });
+  });
+
+  it('resumes an interrupted export after the last complete line', async () => {
+    await exportResourcesToFile(client, folder, path);
+    const complete = parse(await readFile(path, 'utf8'));
+    const lines = complete.map((record) => JSON.stringify(record));
+    await writeFile(path, `${lines[0]}\n${lines[1]}\n${lines[2].slice(0, 20)}`);
+
+    server.requests.length = 0;
+    const exported: number[] = [];
+    const result = await exportResourcesToFile(client, folder, path, {
+      resume: true,
+      onProgress: (count) => exported.push(count),
+    });
+    expect(result).toEqual({ exported: 3, skipped: 2 });
+    expect(exported).toEqual([1, 2, 3]);
+    expect(parse(await readFile(path, 'utf8'))).toEqual(complete);
+    const dataRequests = server.requests.filter((r) => r.url.endsWith('/data/'));
+    expect(dataRequests).toHaveLength(3);
+  });
+});
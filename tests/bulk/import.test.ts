@@ -0,0 +1,161 @@
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { AnonymousAuth } from '../../src/auth/anonymous.js';
+import { FileCheckpoint, importResources } from '../../src/bulk/index.js';
+import type { ImportProgress } from '../../src/bulk/index.js';
+import { FoxnoseAbortError } from '../../src/errors.js';
+import { ManagementClient } from '../../src/management/client.js';
+import type { BatchItemError, BatchUpsertItem } from '../../src/management/models.js';
+import { FakeFoxnoseServer } from '../../src/testing/index.js';
+
+function items(count: number, invalid: number[] = []): BatchUpsertItem[] {
+  return Array.from({ length: count }, (_, i) => ({
+    external_id: `item-${i}`,
+    payload: { data: invalid.includes(i) ? {} : { title: `Item ${i}` } },
+  }));
+}
+
+describe('importResources', () => {
+  let server: FakeFoxnoseServer;
+  let client: ManagementClient;
+  let folder: string;
+  let dir: string;
+
+  beforeEach(async () => {
+    server = new FakeFoxnoseServer();
+    client = new ManagementClient({
+      environmentKey: server.environmentKey,
+      auth: new AnonymousAuth(),
+      fetch: server.fetch,
+      retryConfig: { attempts: 1, backoffFactor: 0, statusCodes: [], methods: [] },
+    });
+    folder = (await client.createCollection({ name: 'Articles', alias: 'articles' })).key;
+    const version = await client.createCollectionVersion(folder, { name: 'v1' });
+    await client.createCollectionField(folder, version.key, {
+      key: 'title',
+      name: 'Title',
+      type: 'string',
+      required: true,
+    });
+    await client.publishCollectionVersion(folder, version.key);
+    dir = await mkdtemp(join(tmpdir(), 'foxnose-bulk-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const upserts = () =>
+    server.requests
+      .filter((r) => r.method === 'PUT' && new URL(r.url).pathname.endsWith('/resources/'))
+      .map((r) => new URL(r.url).searchParams.get('external_id'));
+
+  it('imports a stream and reports failures with their source position', async () => {
+    const failures: BatchItemError[] = [];
+    const reports: ImportProgress[] = [];
+    async function* source() {
+      yield* items(6, [2, 4]);
+    }
+
+    const result = await importResources(client, folder, source(), {
+      maxConcurrency: 2,
+      onFailure: (failure) => failures.push(failure),
+      onProgress: (progress) => reports.push(progress),
+    });
+
+    expect(result).toMatchObject({ read: 6, succeeded: 4, failed: 2, skipped: 0 });
+    expect(reports.at(-1)).toEqual(result);
+    expect(failures.map((f) => [f.index, f.external_id])).toEqual([
+      [2, 'item-2'],
+      [4, 'item-4'],
+    ]);
+    expect(failures[0].error.message).toContain('Content validation failed');
+    expect(upserts()).toHaveLength(6);
+  });
+
+  it('retries uploads in the pool only, not again in the transport', async () => {
+    const retrying = new ManagementClient({
+      environmentKey: server.environmentKey,
+      auth: new AnonymousAuth(),
+      fetch: server.fetch,
+    });
+    server.failNext({ status: 503, method: 'PUT', path: /\/resources\/$/, times: 10 });
+    server.requests.length = 0;
+
+    const result = await importResources(retrying, folder, items(1), { backoffFactor: 0 });
+    expect(result).toMatchObject({ succeeded: 0, failed: 1 });
+    expect(upserts()).toHaveLength(4);
+  });
+
+  it('resumes from the checkpoint file, skipping imported items', async () => {
+    const checkpoint = join(dir, 'articles.checkpoint');
+    const controller = new AbortController();
+    async function* interrupted() {
+      for (const item of items(10)) {
+        if (item.external_id === 'item-4') {
+          controller.abort();
+        }
+        yield item;
+      }
+    }
+    await expect(
+      importResources(client, folder, interrupted(), {
+        checkpoint,
+        checkpointInterval: 3,
+        maxConcurrency: 1,
+        signal: controller.signal,
+      }),
+    ).rejects.toBeInstanceOf(FoxnoseAbortError);
+
+    expect(await new FileCheckpoint(checkpoint).load()).toEqual([
+      'item-0',
+      'item-1',
+      'item-2',
+      'item-3',
+    ]);
+
+    server.requests.length = 0;
+    const result = await importResources(client, folder, items(10), { checkpoint });
+    expect(result).toMatchObject({ read: 10, skipped: 4, succeeded: 6, failed: 0 });
+    expect(upserts()).toEqual(['item-4', 'item-5', 'item-6', 'item-7', 'item-8', 'item-9']);
+    expect(await new FileCheckpoint(checkpoint).load()).toHaveLength(10);
+  });
+
+  it('flushes the checkpoint when failFast stops the import', async () => {
+    const checkpoint = join(dir, 'articles.checkpoint');
+    await expect(
+      importResources(client, folder, items(5, [3]), {
+        checkpoint,
+        maxConcurrency: 1,
+        failFast: true,
+      }),
+    ).rejects.toThrow('Content validation failed');
+    expect(await new FileCheckpoint(checkpoint).load()).toEqual(['item-0', 'item-1', 'item-2']);
+  });
+
+  it('ignores a truncated last checkpoint line', async () => {
+    const checkpoint = join(dir, 'articles.checkpoint');
+    await writeFile(checkpoint, '"item-0"\n"item-1"\n"ite');
+    const result = await importResources(client, folder, items(3), { checkpoint });
+    expect(result).toMatchObject({ skipped: 2, succeeded: 1 });
+    expect(await readFile(checkpoint, 'utf8')).toBe('"item-0"\n"item-1"\n"ite\n"item-2"\n');
+    expect(await new FileCheckpoint(checkpoint).load()).toEqual(['item-0', 'item-1', 'item-2']);
+  });
+
+  it('closes the source when the import stops early', async () => {
+    let closed = false;
+    async function* source() {
+      try {
+        yield* items(5, [1]);
+      } finally {
+        closed = true;
+      }
+    }
+    await expect(
+      importResources(client, folder, source(), { maxConcurrency: 1, failFast: true }),
+    ).rejects.toThrow('Content validation failed');
+    expect(closed).toBe(true);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { readCsv, readJsonl } from '../../src/bulk/index.js';
+import { BulkDataError } from '../../src/errors.js';
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterable) {
+    items.push(item);
+  }
+  return items;
+}
+
+describe('readJsonl', () => {
+  it('reads items across chunk boundaries and skips blank lines', async () => {
+    const chunks = [
+      '{"external_id":"a","payload":{"data":{"title":"A"}}}\n{"external_id":"b",',
+      '"payload":{"data":{"title":"B"}}}\r\n\n',
+      '{"external_id":"c","payload":{"data":{"title":"C"}}}',
+    ];
+    expect(await collect(readJsonl(chunks))).toEqual([
+      { external_id: 'a', payload: { data: { title: 'A' } } },
+      { external_id: 'b', payload: { data: { title: 'B' } } },
+      { external_id: 'c', payload: { data: { title: 'C' } } },
+    ]);
+  });
+
+  it('decodes multibyte characters split between byte chunks', async () => {
+    const bytes = new TextEncoder().encode('{"external_id":"ü","payload":{"data":{}}}\n');
+    const split = bytes.indexOf(0xc3) + 1;
+    const items = await collect(readJsonl([bytes.slice(0, split), bytes.slice(split)]));
+    expect(items).toEqual([{ external_id: 'ü', payload: { data: {} } }]);
+  });
+
+  it('reports the line of invalid input', async () => {
+    const valid = '{"external_id":"a","payload":{}}\n';
+    await expect(collect(readJsonl([valid, '{oops\n']))).rejects.toThrow(/^line 2: invalid JSON/);
+    await expect(collect(readJsonl([valid, '\n{"external_id":1}\n']))).rejects.toThrow(
+      /^line 3: expected an object with a string "external_id"/,
+    );
+  });
+
+  it('maps records with toItem', async () => {
+    const items = await collect(
+      readJsonl(['{"id":"x","title":"X"}\n'], {
+        toItem: (record) => ({
+          external_id: record.id,
+          payload: { data: { title: record.title } },
+        }),
+      }),
+    );
+    expect(items).toEqual([{ external_id: 'x', payload: { data: { title: 'X' } } }]);
+  });
+});
+
+describe('readCsv', () => {
+  it('parses quoted fields, escaped quotes and embedded line breaks', async () => {
+    const csv = [
+      'external_id,title,body\r\n',
+      'a,"Hello, world","He said ""hi""."\r\n',
+      '\r\n',
+      'b,Multi,"line one\nline ',
+      'two"\n',
+      'c,,""',
+    ];
+    expect(await collect(readCsv(csv))).toEqual([
+      { external_id: 'a', payload: { data: { title: 'Hello, world', body: 'He said "hi".' } } },
+      { external_id: 'b', payload: { data: { title: 'Multi', body: 'line one\nline two' } } },
+      { external_id: 'c', payload: { data: { title: '', body: '' } } },
+    ]);
+  });
+
+  it('supports custom delimiters, id columns and mappings', async () => {
+    const csv = ['sku;price\n', 'p-1;9.5\n'];
+    expect(await collect(readCsv(csv, { delimiter: ';', externalIdColumn: 'sku' }))).toEqual([
+      { external_id: 'p-1', payload: { data: { price: '9.5' } } },
+    ]);
+    const items = await collect(
+      readCsv(csv, {
+        delimiter: ';',
+        toItem: (row) => ({
+          external_id: row.sku,
+          payload: { data: { price: Number(row.price) } },
+        }),
+      }),
+    );
+    expect(items).toEqual([{ external_id: 'p-1', payload: { data: { price: 9.5 } } }]);
+  });
+
+  it('rejects malformed input with the line number', async () => {
+    await expect(collect(readCsv(['id,title\n', 'a,A\n']))).rejects.toThrow(
+      'line 1: header has no "external_id" column',
+    );
+    await expect(
+      collect(readCsv(['external_id,title\n', '"a\nb",A\n', 'c,C,extra\n'])),
+    ).rejects.toThrow('line 4: expected 2 columns, found 3');
+    await expect(collect(readCsv(['external_id,title\n', ',A\n']))).rejects.toThrow(
+      'line 2: empty "external_id"',
+    );
+    await expect(collect(readCsv(['external_id,title\n', 'a,"open\n']))).rejects.toThrow(
+      BulkDataError,
+    );
+  });
+});
@@ -0,0 +1,219 @@
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import ts from 'typescript';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { AnonymousAuth } from '../../src/auth/anonymous.js';
+import { SimpleKeyAuth } from '../../src/auth/simple.js';
+import { runCodegenCli } from '../../src/codegen/cli.js';
+import { generateFluxTypes, introspectFlux, renderFluxTypes } from '../../src/codegen/flux.js';
+import { FluxClient } from '../../src/flux/client.js';
+import { ManagementClient } from '../../src/management/client.js';
+import { FakeFoxnoseServer } from '../../src/testing/index.js';
+
+const sdkEntry = fileURLToPath(new URL('../../src/index.ts', import.meta.url));
+let previous: ts.Program | undefined;
+
+/**
+ * Type-checks generated source against the SDK sources, which stand in for
+ * `@foxnose/sdk`, and returns the diagnostic messages.
+ */
+function typeCheck(source: string): string[] {
+  const file = join(dirname(fileURLToPath(import.meta.url)), 'generated.ts');
+  const options: ts.CompilerOptions = {
+    noEmit: true,
+    strict: true,
+    target: ts.ScriptTarget.ES2022,
+    module: ts.ModuleKind.ESNext,
+    moduleResolution: ts.ModuleResolutionKind.Bundler,
+    lib: ['lib.es2022.d.ts'],
+    skipLibCheck: true,
+    paths: { '@foxnose/sdk': [sdkEntry] },
+  };
+  const host = ts.createCompilerHost(options);
+  const { fileExists, getSourceFile } = host;
+  host.fileExists = (name) => name === file || fileExists(name);
+  host.getSourceFile = (name, language, ...rest) =>
+    name === file
+      ? ts.createSourceFile(name, source, language)
+      : getSourceFile(name, language, ...rest);
+  // Reuses the SDK's parsed sources across checks.
+  previous = ts.createProgram([file], options, host, previous);
+  return [
+    ...previous.getOptionsDiagnostics(),
+    ...previous.getSyntacticDiagnostics(previous.getSourceFile(file)),
+    ...previous.getSemanticDiagnostics(previous.getSourceFile(file)),
+  ].map((diagnostic) => ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'));
+}
+
+async function seed(server: FakeFoxnoseServer) {
+  const client = new ManagementClient({
+    environmentKey: server.environmentKey,
+    auth: new AnonymousAuth(),
+    fetch: server.fetch,
+  });
+  const articles = await client.createCollection({ name: 'Articles', alias: 'articles' });
+  const version = await client.createCollectionVersion(articles.key, { name: 'v1' });
+  await client.createCollectionField(articles.key, version.key, {
+    key: 'title',
+    name: 'Title',
+    type: 'string',
+    required: true,
+    description: 'Headline',
+  });
+  await client.createCollectionField(articles.key, version.key, {
+    key: 'tags',
+    name: 'Tags',
+    type: 'string',
+    multiple: true,
+  });
+  await client.publishCollectionVersion(articles.key, version.key);
+  await client.createResource(articles.key, { data: { title: 'Hello', tags: ['a'] } });
+
+  const authors = await client.createCollection({ name: 'Authors', alias: 'authors' });
+  const api = await client.createApi({ name: 'Public', prefix: 'v1' });
+  await client.addApiCollection(api.key, articles.key, {
+    allowedMethods: ['get_many', 'get_one', 'search', 'schema', 'create'],
+    descriptionGetMany: 'All published articles',
+  });
+  await client.addApiCollection(api.key, authors.key, { allowedMethods: ['get_one'] });
+}
+
+describe('Flux type generation', () => {
+  let server: FakeFoxnoseServer;
+  let flux: FluxClient;
+
+  beforeEach(async () => {
+    server = new FakeFoxnoseServer();
+    await seed(server);
+    flux = new FluxClient({
+      baseUrl: server.fluxUrl,
+      apiPrefix: 'v1',
+      auth: new SimpleKeyAuth('pk', 'sk'),
+      fetch: server.fetch,
+    });
+  });
+
+  it('introspects routes and their schemas', async () => {
+    const introspection = await introspectFlux(flux);
+    expect(introspection.api).toBe('v1');
+    expect(introspection.routes.map((r) => [r.route.path, r.schema?.path ?? null])).toEqual([
+      ['/v1/articles', '/v1/articles'],
+      ['/v1/authors', null],
+    ]);
+  });
+
+  it('renders interfaces and a typed client for the allowed actions', async () => {
+    const source = await generateFluxTypes(flux, { clientName: 'ContentClient' });
+    expect(source).toContain(
+      [
+        '/** Data of `/v1/articles` (Articles). */',
+        'export interface Articles {',
+        '  /** Headline */',
+        '  title: string;',
+        '  tags?: string[];',
+        '}',
+      ].join('\n'),
+    );
+    expect(source).toContain('export type Authors = Record<string, unknown>;');
+    expect(source).toContain('export class ContentClient {');
+    expect(source).toContain('  /** All published articles */\n  listArticles(');
+    expect(source).toContain('Promise<FluxResourceList<Articles>>');
+    expect(source).toContain('createArticles(data: Articles,');
+    expect(source).toContain('getAuthors(key: string,');
+    expect(source).not.toContain('listAuthors');
+    expect(source).not.toContain('updateArticles');
+
+    expect(typeCheck(source)).toEqual([]);
+  });
+
+  it('produces a client that calls the matching FluxClient methods', async () => {
+    const source = await generateFluxTypes(flux);
+    const { outputText } = ts.transpileModule(source, {
+      compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2022 },
+    });
+    const module = await import(`data:text/javascript,${encodeURIComponent(outputText)}`);
+    const typed = new module.TypedFluxClient(flux);
+
+    const list = await typed.listArticles();
+    expect(list.results[0].data).toEqual({ title: 'Hello', tags: ['a'] });
+    const found = await typed.searchArticles({ find_text: { query: 'hel' } });
+    expect(found.results).toHaveLength(1);
+    const created = await typed.createArticles({ title: 'New' }, { key: 'new' });
+    expect(created.published).toBe(true);
+  });
+
+  it('turns path parameters into method arguments', () => {
+    const source = renderFluxTypes({
+      api: 'v1',
+      routes: [
+        {
+          route: { path: '/v1/users/{user}/memories', actions: ['get_many', 'update'] },
+          schema: null,
+        },
+      ],
+    });
+    expect(source).toContain('listUsersMemories(user: string, params?: Record<string, any>');
+    expect(source).toContain('return this.client.listResources(`users/${user}/memories`');
+    expect(source).toContain('updateUsersMemories(user: string, key: string, data: UsersMemories');
+    expect(typeCheck(source)).toEqual([]);
+  });
+
+  describe('CLI', () => {
+    it('prints the generated source', async () => {
+      let output = '';
+      const code = await runCodegenCli(
+        ['--base-url', server.fluxUrl, '--api-prefix', 'v1', '--import-path', '../sdk'],
+        {
+          stdout: (text) => (output += text),
+          env: { FOXNOSE_FLUX_PUBLIC_KEY: 'pk', FOXNOSE_FLUX_SECRET_KEY: 'sk' },
+          fetch: server.fetch,
+        },
+      );
+      expect(code).toBe(0);
+      expect(output).toContain("} from '../sdk';");
+      expect(output).toContain('export interface Articles {');
+      expect(server.requests.at(-1)?.headers.authorization).toBe('Simple pk:sk');
+    });
+
+    it('writes to --out', async () => {
+      const dir = await mkdtemp(join(tmpdir(), 'foxnose-codegen-'));
+      try {
+        const out = join(dir, 'flux.ts');
+        const messages: string[] = [];
+        const code = await runCodegenCli(
+          ['--base-url', server.fluxUrl, '--api-prefix', 'v1', '--out', out],
+          {
+            stderr: (text) => messages.push(text),
+            env: { FOXNOSE_FLUX_PUBLIC_KEY: 'pk', FOXNOSE_FLUX_SECRET_KEY: 'sk' },
+            fetch: server.fetch,
+          },
+        );
+        expect(code).toBe(0);
+        expect(messages).toEqual([`Wrote ${out}\n`]);
+        expect(await readFile(out, 'utf8')).toContain('export class TypedFluxClient {');
+      } finally {
+        await rm(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('reports usage errors and API failures', async () => {
+      const errors: string[] = [];
+      const io = { stderr: (text: string) => errors.push(text), env: {}, fetch: server.fetch };
+
+      expect(await runCodegenCli(['--api-prefix', 'v1'], io)).toBe(2);
+      expect(errors.pop()).toContain('--base-url and --api-prefix are required');
+      expect(await runCodegenCli(['--bogus'], io)).toBe(2);
+      expect(
+        await runCodegenCli(
+          ['--base-url', server.fluxUrl, '--api-prefix', 'v1', '--public-key', 'pk'],
+          io,
+        ),
+      ).toBe(2);
+      expect(errors.pop()).toContain('Both a public and a secret key');
+      expect(await runCodegenCli(['--base-url', server.fluxUrl, '--api-prefix', 'v2'], io)).toBe(1);
+      expect(errors.pop()).toMatch(/^foxnose-codegen: API not found/);
+    });
+  });
+});
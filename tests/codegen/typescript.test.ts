@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import {
+  pascalCase,
+  propertyName,
+  renderInterface,
+  schemaToType,
+} from '../../src/codegen/typescript.js';
+
+describe('schemaToType', () => {
+  it.each([
+    [{ type: 'string' }, 'string'],
+    [{ type: 'integer' }, 'number'],
+    [{ type: 'boolean' }, 'boolean'],
+    [{ type: ['string', 'null'] }, 'string | null'],
+    [{ type: 'array', items: { type: 'number' } }, 'number[]'],
+    [{ type: 'array', items: { type: ['string', 'null'] } }, 'Array<string | null>'],
+    [{ type: 'array' }, 'unknown[]'],
+    [{ enum: ['draft', 'live', 1] }, '"draft" | "live" | 1'],
+    [{ const: 'fixed' }, '"fixed"'],
+    [{ anyOf: [{ type: 'string' }, { type: 'integer' }] }, 'string | number'],
+    [{ type: 'object', additionalProperties: { type: 'string' } }, 'Record<string, string>'],
+    [{ type: 'object' }, 'Record<string, unknown>'],
+    [{ $ref: '#/definitions/x' }, 'unknown'],
+    [true, 'unknown'],
+  ])('converts %j', (schema, expected) => {
+    expect(schemaToType(schema)).toBe(expected);
+  });
+
+  it('renders objects with optional and quoted properties', () => {
+    const type = schemaToType({
+      type: 'object',
+      required: ['title'],
+      properties: {
+        title: { type: 'string', description: 'Headline' },
+        'seo-title': { type: 'string' },
+        author: {
+          type: ['object', 'null'],
+          properties: { name: { type: 'string' } },
+        },
+      },
+    });
+    expect(type).toBe(
+      [
+        '{',
+        '  /** Headline */',
+        '  title: string;',
+        '  "seo-title"?: string;',
+        '  author?: {',
+        '    name?: string;',
+        '  } | null;',
+        '}',
+      ].join('\n'),
+    );
+  });
+
+  it('adds an index signature next to declared properties', () => {
+    const type = schemaToType({
+      type: 'object',
+      properties: { a: { type: 'string' } },
+      additionalProperties: { type: 'number' },
+    });
+    expect(type).toBe('{\n  a?: string;\n  [key: string]: unknown;\n}');
+  });
+});
+
+describe('renderInterface', () => {
+  it('emits an interface for objects and a type alias otherwise', () => {
+    expect(renderInterface('A', { type: 'object', properties: { x: { type: 'string' } } })).toBe(
+      'export interface A {\n  x?: string;\n}\n',
+    );
+    expect(renderInterface('B', { type: 'object' }, 'Loose')).toBe(
+      '/** Loose */\nexport type B = Record<string, unknown>;\n',
+    );
+  });
+});
+
+describe('naming helpers', () => {
+  it('builds PascalCase names and quotes invalid identifiers', () => {
+    expect(pascalCase('blog posts/comments')).toBe('BlogPostsComments');
+    expect(pascalCase('2024-archive')).toBe('_2024Archive');
+    expect(propertyName('valid_name')).toBe('valid_name');
+    expect(propertyName('with space')).toBe('"with space"');
+  });
+});
@@ -0,0 +1,172 @@
+import { generateKeyPairSync } from 'node:crypto';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { JWTAuth } from '../src/auth/jwt.js';
+import { SecureKeyAuth } from '../src/auth/secure.js';
+import { SimpleKeyAuth } from '../src/auth/simple.js';
+import {
+  createFluxClient,
+  createManagementClient,
+  credentialsAuth,
+  resolveCredentials,
+} from '../src/credentials.js';
+import { FoxnoseAuthError } from '../src/errors.js';
+import { FakeFoxnoseServer } from '../src/testing/index.js';
+
+const CONFIG = `
+# FoxNose profiles
+[default]
+environment_key = env-default
+auth_type = simple
+public_key = pk-default
+secret_key = sk-default
+
+[profile staging]
+base_url = https://staging.foxnose.test
+environment_key = env-staging
+api_prefix = v2
+token = eyJ.staging.token
+`;
+
+describe('resolveCredentials', () => {
+  let dir: string;
+  let configFile: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'foxnose-credentials-'));
+    configFile = join(dir, 'config');
+    await writeFile(configFile, CONFIG);
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('reads the default profile', async () => {
+    expect(await resolveCredentials({ configFile, env: {} })).toEqual({
+      profile: 'default',
+      source: `profile "default" of ${configFile}`,
+      environmentKey: 'env-default',
+      authType: 'simple',
+      publicKey: 'pk-default',
+      secretKey: 'sk-default',
+    });
+  });
+
+  it('selects profiles and infers the auth type', async () => {
+    const credentials = await resolveCredentials({
+      env: { FOXNOSE_PROFILE: 'staging', FOXNOSE_CONFIG_FILE: configFile },
+    });
+    expect(credentials).toMatchObject({
+      profile: 'staging',
+      baseUrl: 'https://staging.foxnose.test',
+      apiPrefix: 'v2',
+      authType: 'jwt',
+      token: 'eyJ.staging.token',
+    });
+    expect(credentialsAuth(credentials)).toBeInstanceOf(JWTAuth);
+  });
+
+  it('prefers environment variables, taking auth settings as a unit', async () => {
+    const credentials = await resolveCredentials({
+      configFile,
+      env: {
+        FOXNOSE_ENVIRONMENT_KEY: 'env-from-var',
+        FOXNOSE_PUBLIC_KEY: 'pk-var',
+        FOXNOSE_PRIVATE_KEY: 'MHcCAQEE',
+      },
+    });
+    expect(credentials).toMatchObject({
+      source: 'environment',
+      environmentKey: 'env-from-var',
+      authType: 'secure',
+      publicKey: 'pk-var',
+      privateKey: 'MHcCAQEE',
+    });
+    expect(credentials.secretKey).toBeUndefined();
+
+    const named = await resolveCredentials({
+      configFile,
+      profile: 'default',
+      env: { FOXNOSE_ENVIRONMENT_KEY: 'env-from-var', FOXNOSE_TOKEN: 'token' },
+    });
+    expect(named).toMatchObject({ environmentKey: 'env-default', authType: 'simple' });
+  });
+
+  it('explains what is missing', async () => {
+    const missingFile = join(dir, 'missing');
+    await expect(resolveCredentials({ configFile: missingFile, env: {} })).rejects.toThrow(
+      new FoxnoseAuthError(
+        'No FoxNose credentials found: set FOXNOSE_PUBLIC_KEY and FOXNOSE_SECRET_KEY ' +
+          `(or FOXNOSE_PRIVATE_KEY, FOXNOSE_TOKEN), or add a [default] profile to ${missingFile}`,
+      ),
+    );
+    await expect(resolveCredentials({ configFile, profile: 'prod', env: {} })).rejects.toThrow(
+      `Profile "prod" not found in ${configFile}`,
+    );
+    await expect(
+      resolveCredentials({
+        configFile,
+        env: { FOXNOSE_AUTH_TYPE: 'secure', FOXNOSE_PUBLIC_KEY: 'pk' },
+      }),
+    ).rejects.toThrow('secure auth from environment is missing FOXNOSE_PRIVATE_KEY');
+    await expect(
+      resolveCredentials({ configFile, env: { FOXNOSE_AUTH_TYPE: 'oauth', FOXNOSE_TOKEN: 't' } }),
+    ).rejects.toBeInstanceOf(FoxnoseAuthError);
+  });
+});
+
+describe('client factories', () => {
+  const env = {
+    FOXNOSE_CONFIG_FILE: '/nonexistent/foxnose/config',
+    FOXNOSE_ENVIRONMENT_KEY: 'env-test',
+    FOXNOSE_API_PREFIX: 'v1',
+    FOXNOSE_PUBLIC_KEY: 'pk',
+    FOXNOSE_SECRET_KEY: 'sk',
+  };
+
+  it('creates ready-to-use clients', async () => {
+    const server = new FakeFoxnoseServer();
+    const management = await createManagementClient({ env, fetch: server.fetch });
+    const collection = await management.createCollection({ alias: 'articles', name: 'Articles' });
+    const api = await management.createApi({ name: 'Public', prefix: 'v1' });
+    await management.addApiCollection(api.key, collection.key, { allowedMethods: ['get_many'] });
+
+    const flux = await createFluxClient({ env, fetch: server.fetch });
+    expect(await flux.listResources('articles')).toMatchObject({ results: [] });
+    expect(server.requests.at(-1)!.headers.authorization).toBe('Simple pk:sk');
+    expect(server.requests.at(-1)!.url).toMatch(/^https:\/\/env-test\.fxns\.io\/v1\/articles/);
+  });
+
+  it('requires an environment key and API prefix', async () => {
+    const keysOnly = {
+      FOXNOSE_CONFIG_FILE: env.FOXNOSE_CONFIG_FILE,
+      FOXNOSE_PUBLIC_KEY: 'pk',
+      FOXNOSE_SECRET_KEY: 'sk',
+    };
+    await expect(createManagementClient({ env: keysOnly })).rejects.toThrow(
+      'No environment key configured',
+    );
+    await expect(createFluxClient({ env: keysOnly })).rejects.toThrow('No Flux URL configured');
+    await expect(
+      createFluxClient({ env: { ...keysOnly, FOXNOSE_FLUX_URL: 'https://flux.test' } }),
+    ).rejects.toThrow('No Flux API prefix configured');
+    const client = await createManagementClient({ env: keysOnly, environmentKey: 'env-1' });
+    expect(client).toBeDefined();
+  });
+
+  it('builds each auth strategy', () => {
+    const base = { source: 'environment' };
+    const sec1 = generateKeyPairSync('ec', { namedCurve: 'prime256v1' })
+      .privateKey.export({ type: 'sec1', format: 'der' })
+      .toString('base64');
+    expect(
+      credentialsAuth({ ...base, authType: 'simple', publicKey: 'p', secretKey: 's' }),
+    ).toBeInstanceOf(SimpleKeyAuth);
+    expect(
+      credentialsAuth({ ...base, authType: 'secure', publicKey: 'p', privateKey: sec1 }),
+    ).toBeInstanceOf(SecureKeyAuth);
+  });
+});
@@ -0,0 +1,247 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { AnonymousAuth } from '../../src/auth/anonymous.js';
+import {
+  diffEnvironments,
+  exportEnvironment,
+  formatEnvironmentDiff,
+  importEnvironment,
+} from '../../src/environment/index.js';
+import { ManagementClient } from '../../src/management/client.js';
+import type { ManagementClientOptions } from '../../src/management/client.js';
+import { nestedFieldMeta } from '../../src/management/models.js';
+import { FakeFoxnoseServer } from '../../src/testing/index.js';
+
+function optionsFor(server: FakeFoxnoseServer): ManagementClientOptions {
+  return {
+    environmentKey: server.environmentKey,
+    auth: new AnonymousAuth(),
+    fetch: server.fetch,
+    retryConfig: { attempts: 1, backoffFactor: 0, statusCodes: [], methods: [] },
+  };
+}
+
+async function seed(client: ManagementClient) {
+  await client.createLocale({ code: 'en', name: 'English', is_default: true });
+  const seo = await client.createComponent({ name: 'SEO', content_type: 'document' });
+  const seoV1 = await client.createComponentVersion(seo.key, { name: 'v1' });
+  await client.createComponentField(seo.key, seoV1.key, {
+    key: 'slug',
+    name: 'Slug',
+    type: 'string',
+  });
+  await client.publishComponentVersion(seo.key, seoV1.key);
+
+  const blog = await client.createCollection({ name: 'Blog', alias: 'blog' });
+  const posts = await client.createCollection({ name: 'Posts', alias: 'posts', parent: blog.key });
+  const version = await client.createCollectionVersion(posts.key, { name: 'v1' });
+  await client.createCollectionField(posts.key, version.key, {
+    key: 'title',
+    name: 'Title',
+    type: 'string',
+    required: true,
+  });
+  await client.createCollectionField(posts.key, version.key, {
+    key: 'seo',
+    name: 'SEO',
+    type: 'nested',
+    meta: nestedFieldMeta({ component: seo.key, componentVersion: seoV1.key }),
+  });
+  await client.publishCollectionVersion(posts.key, version.key);
+
+  const api = await client.createApi({ name: 'Public', prefix: 'public' });
+  await client.addApiCollection(api.key, posts.key, { allowedMethods: ['get_many', 'get_one'] });
+}
+
+/** Publishes a copy of the collection's current version after `change` edits the draft. */
+async function publishChange(
+  client: ManagementClient,
+  alias: string,
+  change: (collection: string, draft: string) => Promise<unknown>,
+) {
+  const collection = (await client.iterateCollections().toArray()).find((c) => c.alias === alias)!;
+  const versions = await client.iterateCollectionVersions(collection.key).toArray();
+  const current = versions.find((v) => v.published_at && !v.archived_at)!;
+  const draft = await client.createCollectionVersion(
+    collection.key,
+    { name: 'v2' },
+    { copyFrom: current.key },
+  );
+  await change(collection.key, draft.key);
+  await client.publishCollectionVersion(collection.key, draft.key);
+}
+
+describe('diffEnvironments', () => {
+  let stagingServer: FakeFoxnoseServer;
+  let productionServer: FakeFoxnoseServer;
+  let staging: ManagementClient;
+  let production: ManagementClient;
+
+  beforeEach(async () => {
+    stagingServer = new FakeFoxnoseServer({ environmentKey: 'staging' });
+    productionServer = new FakeFoxnoseServer({ environmentKey: 'production' });
+    staging = new ManagementClient(optionsFor(stagingServer));
+    production = new ManagementClient(optionsFor(productionServer));
+    // Offset production's keys so that only names can line things up.
+    await production.createComponent({ name: 'Unused' });
+    await production.deleteComponent((await production.iterateComponents().toArray())[0].key);
+    await seed(staging);
+    await importEnvironment(production, await exportEnvironment(staging));
+  });
+
+  it('finds no differences between identical setups with different keys', async () => {
+    const diff = await diffEnvironments(optionsFor(stagingServer), optionsFor(productionServer));
+    expect(diff).toMatchObject({ source: 'staging', target: 'production', hasDifferences: false });
+    expect(formatEnvironmentDiff(diff)).toBe('--- staging\n+++ production\nNo differences.');
+    expect(formatEnvironmentDiff(diff, { format: 'markdown' })).toBe(
+      '### Environment diff: `staging` → `production`\n\n_No differences._',
+    );
+  });
+
+  it('treats omitted field flags as false', async () => {
+    // Production leaves out flags that are off, as older API versions do.
+    const omitting: typeof fetch = async (input, init) => {
+      const response = await productionServer.fetch(input, init);
+      if (!String(input).includes('/schema/tree/')) {
+        return response;
+      }
+      const body = JSON.stringify(await response.json(), (key, value) =>
+        key === 'localizable' && value === false ? undefined : value,
+      );
+      return new Response(body, { status: response.status, headers: response.headers });
+    };
+    const diff = await diffEnvironments(staging, {
+      ...optionsFor(productionServer),
+      fetch: omitting,
+    });
+    expect(diff.hasDifferences).toBe(false);
+  });
+
+  it('reports schema, locale and route differences', async () => {
+    await publishChange(staging, 'posts', async (collection, draft) => {
+      await staging.updateCollectionField(collection, draft, 'title', { required: false });
+      await staging.createCollectionField(collection, draft, {
+        key: 'body',
+        name: 'Body',
+        type: 'text',
+        localizable: true,
+      });
+    });
+    await production.createCollection({ name: 'Legacy', alias: 'legacy' });
+    await staging.createLocale({ code: 'de', name: 'German' });
+    const [api] = await staging.iterateApis().toArray();
+    const [posts] = await staging.iterateApiCollections(api.key).toArray();
+    await staging.updateApiCollection(api.key, posts.folder, {
+      allowedMethods: ['get_one', 'get_many', 'search'],
+    });
+
+    const diff = await diffEnvironments(staging, production);
+    expect(diff.hasDifferences).toBe(true);
+    expect(diff.models).toEqual([
+      {
+        kind: 'collection',
+        id: 'blog/posts',
+        status: 'changed',
+        sourceVersion: 'v2',
+        targetVersion: 'v1',
+        attributes: [],
+        fields: [
+          { path: 'body', status: 'source-only', type: 'text', diffs: [] },
+          {
+            path: 'title',
+            status: 'changed',
+            type: 'string',
+            diffs: [{ attribute: 'required', source: false, target: true }],
+          },
+        ],
+      },
+      {
+        kind: 'collection',
+        id: 'legacy',
+        status: 'target-only',
+        sourceVersion: null,
+        targetVersion: null,
+        attributes: [],
+        fields: [],
+      },
+    ]);
+    expect(diff.locales).toEqual([{ code: 'de', status: 'source-only', diffs: [] }]);
+    expect(diff.apis).toEqual([
+      {
+        prefix: 'public',
+        status: 'changed',
+        attributes: [],
+        routes: [
+          {
+            path: '/public/blog/posts',
+            status: 'changed',
+            diffs: [
+              {
+                attribute: 'allowed_methods',
+                source: ['get_many', 'get_one', 'search'],
+                target: ['get_many', 'get_one'],
+              },
+            ],
+          },
+        ],
+      },
+    ]);
+
+    expect(formatEnvironmentDiff(diff)).toBe(
+      [
+        '--- staging',
+        '+++ production',
+        '~ collection blog/posts (published "v2" -> "v1")',
+        '    - field body (text)',
+        '    ~ field title: required false -> true',
+        '+ collection legacy',
+        '- locale de',
+        '~ api public',
+        '    ~ route /public/blog/posts: allowed_methods ["get_many","get_one","search"] -> ["get_many","get_one"]',
+      ].join('\n'),
+    );
+    const markdown = formatEnvironmentDiff(diff, { format: 'markdown' });
+    expect(markdown).toContain(
+      '#### Collections\n\n- **blog/posts**: changed (published `v2` → `v1`)',
+    );
+    expect(markdown).toContain('  - `body` (text): only in `staging`');
+    expect(markdown).toContain('  - `title`: required `false` → `true`');
+    expect(markdown).toContain('- **legacy**: only in `production`');
+    expect(markdown).toContain('#### Locales\n\n- **de**: only in `staging`');
+    expect(markdown).not.toContain('#### Components');
+  });
+
+  it('compares nested-field component pins by name', async () => {
+    const [seo] = await production.iterateComponents().toArray();
+    const v2 = await production.createComponentVersion(seo.key, { name: 'v2' });
+    await production.createComponentField(seo.key, v2.key, {
+      key: 'slug',
+      name: 'Slug',
+      type: 'string',
+    });
+    await production.publishComponentVersion(seo.key, v2.key);
+    await publishChange(production, 'posts', (collection, draft) =>
+      production.updateCollectionField(collection, draft, 'seo', {
+        meta: { component: seo.key, component_version: v2.key },
+      }),
+    );
+
+    const diff = await diffEnvironments(staging, production);
+    const posts = diff.models.find((model) => model.id === 'blog/posts')!;
+    expect(posts.fields).toEqual([
+      {
+        path: 'seo',
+        status: 'changed',
+        type: 'nested',
+        diffs: [
+          {
+            attribute: 'meta',
+            source: { component: 'SEO', component_version: 'v1', auto_update: false },
+            target: { component: 'SEO', component_version: 'v2' },
+          },
+        ],
+      },
+    ]);
+    // Same fields under a different version name is not a difference.
+    expect(diff.models.some((model) => model.kind === 'component')).toBe(false);
+  });
+});
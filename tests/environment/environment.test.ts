@@ -0,0 +1,255 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { AnonymousAuth } from '../../src/auth/anonymous.js';
+import {
+  exportEnvironment,
+  importEnvironment,
+  parseEnvironmentBundle,
+} from '../../src/environment/index.js';
+import type { EnvironmentBundle } from '../../src/environment/index.js';
+import { EnvironmentBundleError } from '../../src/errors.js';
+import { ManagementClient } from '../../src/management/client.js';
+import { nestedFieldMeta } from '../../src/management/models.js';
+import { FakeFoxnoseServer } from '../../src/testing/index.js';
+
+function clientFor(server: FakeFoxnoseServer): ManagementClient {
+  return new ManagementClient({
+    environmentKey: server.environmentKey,
+    auth: new AnonymousAuth(),
+    fetch: server.fetch,
+    retryConfig: { attempts: 1, backoffFactor: 0, statusCodes: [], methods: [] },
+  });
+}
+
+async function seed(client: ManagementClient) {
+  await client.createLocale({ code: 'en', name: 'English', is_default: true });
+  await client.createLocale({ code: 'de', name: 'German' });
+
+  const seo = await client.createComponent({ name: 'SEO', content_type: 'document' });
+  const seoV1 = await client.createComponentVersion(seo.key, { name: 'v1' });
+  await client.createComponentField(seo.key, seoV1.key, {
+    key: 'title',
+    name: 'Title',
+    type: 'string',
+  });
+  await client.publishComponentVersion(seo.key, seoV1.key);
+
+  const blog = await client.createCollection({ name: 'Blog', alias: 'blog' });
+  const posts = await client.createCollection({ name: 'Posts', alias: 'posts', parent: blog.key });
+  const v1 = await client.createCollectionVersion(posts.key, { name: 'v1' });
+  await client.createCollectionField(posts.key, v1.key, {
+    key: 'title',
+    name: 'Title',
+    type: 'string',
+    required: true,
+    localizable: true,
+  });
+  await client.publishCollectionVersion(posts.key, v1.key);
+  const v2 = await client.createCollectionVersion(posts.key, { name: 'v2' }, { copyFrom: v1.key });
+  await client.createCollectionField(posts.key, v2.key, {
+    key: 'author',
+    name: 'Author',
+    type: 'object',
+  });
+  await client.createCollectionField(posts.key, v2.key, {
+    key: 'name',
+    name: 'Name',
+    type: 'string',
+    parent: 'author',
+  });
+  await client.createCollectionField(posts.key, v2.key, {
+    key: 'seo',
+    name: 'SEO',
+    type: 'nested',
+    meta: nestedFieldMeta({ component: seo.key, componentVersion: seoV1.key }),
+  });
+  await client.publishCollectionVersion(posts.key, v2.key);
+  await client.createCollectionVersion(posts.key, { name: 'v3 draft' }, { copyFrom: v2.key });
+
+  const api = await client.createApi({ name: 'Public', prefix: 'v1' });
+  await client.addApiCollection(api.key, posts.key, {
+    allowedMethods: ['get_many', 'get_one'],
+    descriptionGetMany: 'All posts',
+  });
+
+  const editor = await client.createManagementRole({ name: 'Editor' });
+  await client.replaceManagementRolePermissions(editor.key, [
+    { content_type: 'resources', actions: ['read', 'update'], all_objects: false },
+  ]);
+  await client.addManagementPermissionObject(editor.key, {
+    content_type: 'resources',
+    object_key: posts.key,
+  });
+  const reader = await client.createFluxRole({ name: 'Reader' });
+  await client.replaceFluxRolePermissions(reader.key, [
+    { content_type: 'flux-apis', actions: ['read'], all_objects: true },
+  ]);
+  return { seo, seoV1, blog, posts, api, editor };
+}
+
+describe('environment bundles', () => {
+  let source: ManagementClient;
+  let target: ManagementClient;
+  let targetServer: FakeFoxnoseServer;
+  let seeded: Awaited<ReturnType<typeof seed>>;
+
+  beforeEach(async () => {
+    source = clientFor(new FakeFoxnoseServer({ environmentKey: 'staging' }));
+    targetServer = new FakeFoxnoseServer({ environmentKey: 'production' });
+    target = clientFor(targetServer);
+    seeded = await seed(source);
+    // Shift the target's key sequence so remapping is actually exercised.
+    await target.createCollection({ name: 'Scratch', alias: 'scratch' });
+  });
+
+  it('exports the environment configuration', async () => {
+    const bundle = await exportEnvironment(source);
+    expect(bundle).toMatchObject({ format: 'foxnose.environment', version: 1 });
+    expect(bundle.source).toEqual({ environment: 'staging' });
+    expect(bundle.locales.map((l) => l.code)).toEqual(['en', 'de']);
+    expect(bundle.collections.map((c) => [c.alias, c.parent])).toEqual([
+      ['blog', null],
+      ['posts', seeded.blog.key],
+    ]);
+
+    const posts = bundle.collections[1];
+    expect(posts.versions.map((v) => [v.name, v.published])).toEqual([
+      ['v1', true],
+      ['v2', true],
+      ['v3 draft', false],
+    ]);
+    expect(posts.versions[1].fields.map((f) => f.path)).toEqual([
+      'title',
+      'author',
+      'seo',
+      'author.name',
+    ]);
+    expect(posts.versions[1].fields[0]).not.toHaveProperty('json_schema');
+
+    expect(bundle.apis[0].collections).toEqual([
+      expect.objectContaining({
+        collection: seeded.posts.key,
+        allowed_methods: ['get_many', 'get_one'],
+        description_get_many: 'All posts',
+      }),
+    ]);
+    expect(bundle.management_roles[0]).toMatchObject({
+      name: 'Editor',
+      full_access: false,
+      objects: [{ content_type: 'resources', object_key: seeded.posts.key }],
+    });
+    expect(bundle.flux_roles[0].objects).toEqual([]);
+  });
+
+  it('recreates a bundle in another environment with remapped keys', async () => {
+    const bundle = JSON.stringify(await exportEnvironment(source));
+    const { keys, skippedLocales } = await importEnvironment(target, bundle);
+    expect(skippedLocales).toEqual([]);
+
+    const newPosts = keys.collections[seeded.posts.key];
+    expect(newPosts).toBeDefined();
+    expect(newPosts).not.toBe(seeded.posts.key);
+
+    const seo = await target.getComponent(keys.components[seeded.seo.key]);
+    expect(seo.current_version).toBe(keys.versions[seeded.seoV1.key]);
+
+    const posts = await target.getCollection(newPosts);
+    expect(posts.parent).toBe(keys.collections[seeded.blog.key]);
+    const versions = await target.iterateCollectionVersions(newPosts).toArray();
+    expect(versions.map((v) => [v.name, Boolean(v.published_at), Boolean(v.archived_at)])).toEqual(
+      expect.arrayContaining([
+        ['v1', true, true],
+        ['v2', true, false],
+        ['v3 draft', false, false],
+      ]),
+    );
+    const published = versions.find((v) => v.name === 'v2')!;
+    const fields = await target.iterateCollectionFields(newPosts, published.key).toArray();
+    expect(fields.find((f) => f.path === 'seo')?.meta).toMatchObject({
+      component: keys.components[seeded.seo.key],
+      component_version: keys.versions[seeded.seoV1.key],
+    });
+    expect(fields.find((f) => f.path === 'author.name')?.parent).toBe('author');
+
+    const apis = await target.iterateApis().toArray();
+    const connections = await target.iterateApiCollections(apis[0].key).toArray();
+    expect(connections.map((c) => c.folder)).toEqual([newPosts]);
+
+    const editor = keys.managementRoles[seeded.editor.key];
+    expect(await target.listManagementPermissionObjects(editor, 'resources')).toEqual([
+      { content_type: 'resources', object_key: newPosts },
+    ]);
+
+    const roundTrip = await exportEnvironment(target);
+    expect(roundTrip.components.map((c) => c.name)).toEqual(['SEO']);
+    expect(roundTrip.flux_roles[0].permissions).toEqual(
+      (JSON.parse(bundle) as EnvironmentBundle).flux_roles[0].permissions,
+    );
+  });
+
+  it('creates pinned components before the components that nest them', async () => {
+    const bundle = await exportEnvironment(source);
+    const seo = bundle.components[0];
+    const page: typeof seo = {
+      ...seo,
+      key: 'cmp-page',
+      name: 'Page',
+      versions: [
+        {
+          key: 'ver-page',
+          name: 'v1',
+          description: null,
+          published: true,
+          fields: [
+            {
+              ...seo.versions[0].fields[0],
+              key: 'seo',
+              path: 'seo',
+              type: 'nested',
+              meta: { component: seo.key, component_version: seo.versions[0].key },
+            },
+          ],
+        },
+      ],
+    };
+    bundle.components = [page, seo];
+
+    const { keys } = await importEnvironment(target, bundle);
+    const created = targetServer.requests
+      .filter((r) => r.method === 'POST' && new URL(r.url).pathname.endsWith('/components/'))
+      .map((r) => (r.body as { name: string }).name);
+    expect(created).toEqual(['SEO', 'Page']);
+    const fields = await target
+      .iterateComponentFields(keys.components['cmp-page'], keys.versions['ver-page'])
+      .toArray();
+    expect(fields[0].meta.component).toBe(keys.components[seo.key]);
+  });
+
+  it('refuses to import into an environment with conflicting objects', async () => {
+    const bundle = await exportEnvironment(source);
+    await importEnvironment(target, bundle);
+    const before = targetServer.requests.length;
+
+    await expect(importEnvironment(target, bundle)).rejects.toThrow(
+      /already contains component "SEO", root collection "blog", API prefix "v1"/,
+    );
+    expect(targetServer.requests.slice(before).every((r) => r.method === 'GET')).toBe(true);
+  });
+
+  it('skips locales that already exist', async () => {
+    await target.createLocale({ code: 'en', name: 'English' });
+    const { skippedLocales } = await importEnvironment(target, await exportEnvironment(source));
+    expect(skippedLocales).toEqual(['en']);
+    expect((await target.listLocales()).map((l) => l.code)).toEqual(['en', 'de']);
+  });
+
+  it('validates the bundle envelope', () => {
+    expect(() => parseEnvironmentBundle('{')).toThrow(EnvironmentBundleError);
+    expect(() => parseEnvironmentBundle({ format: 'other' })).toThrow(/format marker/);
+    expect(() => parseEnvironmentBundle({ format: 'foxnose.environment', version: 2 })).toThrow(
+      /Unsupported bundle version 2/,
+    );
+    expect(() =>
+      parseEnvironmentBundle({ format: 'foxnose.environment', version: 1, locales: [] }),
+    ).toThrow(/"components" must be an array/);
+  });
+});
@@ -174,6 +174,81 @@ describe('HttpTransport', () => {
     expect(headers['Authorization']).toBe('Bearer tok');
   });
 
+  it('awaits async auth headers', async () => {
+    const fetchMock = mockFetch([{ status: 200, body: {} }]);
+    globalThis.fetch = fetchMock;
+
+    const auth = {
+      buildHeaders: async () => ({ Authorization: 'Bearer async-tok' }),
+    };
+    const transport = new HttpTransport({ config: baseConfig, auth });
+    await transport.request('GET', '/test');
+
+    const [, init] = fetchMock.mock.calls[0];
+    expect((init?.headers as Record<string, string>)['Authorization']).toBe('Bearer async-tok');
+  });
+
+  describe('401 re-authentication', () => {
+    function tokenAuth(accepts: (sentHeaders: Record<string, string>) => boolean) {
+      let token = 'expired';
+      return {
+        buildHeaders: vi.fn(async () => ({ Authorization: `Bearer ${token}` })),
+        onUnauthorized: vi.fn((sentHeaders: Record<string, string>) => {
+          token = 'fresh';
+          return accepts(sentHeaders);
+        }),
+      };
+    }
+
+    it('retries once with fresh headers, including for writes', async () => {
+      const fetchMock = mockFetch([
+        { status: 401, body: { message: 'Token expired' } },
+        { status: 201, body: { key: 'r1' } },
+      ]);
+      globalThis.fetch = fetchMock;
+      const auth = tokenAuth(() => true);
+      const transport = new HttpTransport({
+        config: baseConfig,
+        auth,
+        retryConfig: { attempts: 1, backoffFactor: 0, statusCodes: [], methods: [] },
+      });
+
+      const result = await transport.request('POST', '/items', {
+        jsonBody: { a: 1 },
+        allowRetries: false,
+      });
+
+      expect(result).toEqual({ key: 'r1' });
+      expect(auth.onUnauthorized).toHaveBeenCalledWith(
+        expect.objectContaining({ Authorization: 'Bearer expired' }),
+      );
+      const sent = fetchMock.mock.calls.map(
+        ([, init]) => (init?.headers as Record<string, string>)['Authorization'],
+      );
+      expect(sent).toEqual(['Bearer expired', 'Bearer fresh']);
+    });
+
+    it('throws the second 401 instead of looping', async () => {
+      const fetchMock = mockFetch([{ status: 401, body: { message: 'Unauthorized' } }]);
+      globalThis.fetch = fetchMock;
+      const auth = tokenAuth(() => true);
+      const transport = new HttpTransport({ config: baseConfig, auth });
+
+      await expect(transport.request('GET', '/test')).rejects.toMatchObject({ statusCode: 401 });
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(auth.onUnauthorized).toHaveBeenCalledOnce();
+    });
+
+    it('does not retry when the strategy declines', async () => {
+      const fetchMock = mockFetch([{ status: 401, body: { message: 'Unauthorized' } }]);
+      globalThis.fetch = fetchMock;
+      const transport = new HttpTransport({ config: baseConfig, auth: tokenAuth(() => false) });
+
+      await expect(transport.request('GET', '/test')).rejects.toThrow(FoxnoseAPIError);
+      expect(fetchMock).toHaveBeenCalledOnce();
+    });
+  });
+
   describe('error handling', () => {
     it('throws FoxnoseAPIError on 4xx', async () => {
       const fetchMock = mockFetch([
@@ -1,4 +1,6 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FoxnoseAbortError } from '../../src/errors.js';
+import { runUpsertPool } from '../../src/management/batch.js';
 import { ManagementClient } from '../../src/management/client.js';
 import type { AuthStrategy, RequestData } from '../../src/auth/types.js';
 
@@ -971,6 +973,172 @@ describe('ManagementClient', () => {
       ).rejects.toThrow();
     });
 
+    const batchItems = (count: number) =>
+      Array.from({ length: count }, (_, i) => ({
+        external_id: `ext-${i}`,
+        payload: { title: String(i) },
+      }));
+    const externalId = (url: unknown) => new URL(String(url)).searchParams.get('external_id');
+
+    it('batchUpsertResources keeps the pool busy while one item is slow', async () => {
+      let releaseSlow!: () => void;
+      const slow = new Promise<void>((resolve) => (releaseSlow = resolve));
+      const finished: string[] = [];
+      globalThis.fetch = vi.fn(async (url: unknown) => {
+        const id = externalId(url)!;
+        if (id === 'ext-0') {
+          await slow;
+        }
+        finished.push(id);
+        if (finished.length === 3) {
+          releaseSlow();
+        }
+        return new Response(JSON.stringify({ key: id }), { status: 200 });
+      });
+      const client = createClient();
+      const result = await client.batchUpsertResources('f1', batchItems(4), { maxConcurrency: 2 });
+      expect(finished).toEqual(['ext-1', 'ext-2', 'ext-3', 'ext-0']);
+      expect(result.succeeded.map((r) => r.key)).toEqual(['ext-0', 'ext-1', 'ext-2', 'ext-3']);
+      expect(result.results.map((r) => r.index)).toEqual([0, 1, 2, 3]);
+    });
+
+    it('batchUpsertResources retries server errors and rate limits', async () => {
+      const calls: Record<string, number> = {};
+      globalThis.fetch = vi.fn(async (url: unknown) => {
+        const id = externalId(url)!;
+        calls[id] = (calls[id] ?? 0) + 1;
+        if (id === 'ext-0' && calls[id] === 1) {
+          return new Response(JSON.stringify({ message: 'Unavailable' }), { status: 503 });
+        }
+        if (id === 'ext-1' && calls[id] < 3) {
+          return new Response(
+            JSON.stringify({ message: 'Slow down', error_code: 'rate_limited' }),
+            { status: 429, headers: { 'Retry-After': '0' } },
+          );
+        }
+        if (id === 'ext-2') {
+          return new Response(JSON.stringify({ message: 'Invalid' }), { status: 422 });
+        }
+        return new Response(JSON.stringify({ key: id }), { status: 200 });
+      });
+      const client = createClient();
+      const result = await client.batchUpsertResources('f1', batchItems(3), { backoffFactor: 0 });
+      expect(result.results.map((r) => [r.status, r.attempts])).toEqual([
+        ['succeeded', 2],
+        ['succeeded', 3],
+        ['failed', 1],
+      ]);
+      expect(result.failed).toEqual([
+        expect.objectContaining({ index: 2, external_id: 'ext-2' }),
+      ]);
+    });
+
+    it('batchUpsertResources gives up after maxRetries', async () => {
+      const fetchMock = setupMockFetch({ message: 'Down' }, 500);
+      const client = createClient();
+      const result = await client.batchUpsertResources('f1', batchItems(1), {
+        maxRetries: 2,
+        backoffFactor: 0,
+      });
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+      expect(result.results[0]).toMatchObject({ status: 'failed', attempts: 3 });
+    });
+
+    it('batchUpsertResources does not stack transport retries on its own', async () => {
+      const fetchMock = setupMockFetch({ message: 'Down' }, 503);
+      const client = new ManagementClient({
+        baseUrl: 'https://api.test.com',
+        environmentKey: 'env-123',
+        auth: dummyAuth,
+      });
+      const result = await client.batchUpsertResources('f1', batchItems(1), { backoffFactor: 0 });
+      expect(fetchMock).toHaveBeenCalledTimes(4);
+      expect(result.results[0]).toMatchObject({ status: 'failed', attempts: 4 });
+    });
+
+    it('batchUpsertResources backs off concurrency on 429', async () => {
+      // A server that rate limits any request arriving while another is in flight.
+      const run = async (adaptiveConcurrency: boolean) => {
+        let inFlight = 0;
+        let rejected = 0;
+        globalThis.fetch = vi.fn(async () => {
+          const overloaded = ++inFlight > 1;
+          await new Promise((resolve) => setTimeout(resolve, 1));
+          inFlight--;
+          if (overloaded) {
+            rejected++;
+            return new Response(JSON.stringify({ message: 'Slow down' }), { status: 429 });
+          }
+          return new Response(JSON.stringify({ key: 'r' }), { status: 200 });
+        });
+        const result = await createClient().batchUpsertResources('f1', batchItems(12), {
+          maxConcurrency: 4,
+          maxRetries: 10,
+          backoffFactor: 0,
+          adaptiveConcurrency,
+        });
+        return { rejected, failed: result.failed.length };
+      };
+      const fixed = await run(false);
+      const adaptive = await run(true);
+      expect(adaptive.failed).toBe(0);
+      expect(adaptive.rejected).toBeLessThan(fixed.rejected / 4);
+    });
+
+    it('batchUpsertResources stops on abort', async () => {
+      const controller = new AbortController();
+      globalThis.fetch = vi.fn(async () => {
+        controller.abort();
+        return new Response(JSON.stringify({ key: 'r' }), { status: 200 });
+      });
+      const client = createClient();
+      await expect(
+        client.batchUpsertResources('f1', batchItems(5), {
+          maxConcurrency: 1,
+          signal: controller.signal,
+        }),
+      ).rejects.toThrow(FoxnoseAbortError);
+      expect(globalThis.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('batchUpsertResources rethrows errors from onProgress', async () => {
+      setupMockFetch({ key: 'r' });
+      const client = createClient();
+      const progress = vi.fn(() => {
+        throw new Error('progress failed');
+      });
+      await expect(
+        client.batchUpsertResources('f1', batchItems(3), {
+          maxConcurrency: 1,
+          onProgress: progress,
+        }),
+      ).rejects.toThrow('progress failed');
+      expect(progress).toHaveBeenCalledOnce();
+      expect(globalThis.fetch).toHaveBeenCalledOnce();
+    });
+
+    it('closes the item source when the pool stops early', async () => {
+      setupMockFetch({ message: 'Invalid' }, 422);
+      const client = createClient();
+      const finished = vi.fn();
+      async function* source() {
+        try {
+          yield* batchItems(5);
+        } finally {
+          finished();
+        }
+      }
+      await expect(
+        runUpsertPool(
+          source(),
+          (item) => client.upsertResource('f1', item.payload, { externalId: item.external_id }),
+          { maxConcurrency: 1, failFast: true },
+          () => undefined,
+        ),
+      ).rejects.toThrow('Invalid');
+      expect(finished).toHaveBeenCalledOnce();
+      expect(globalThis.fetch).toHaveBeenCalledOnce();
+    });
   });
 
   describe('Legacy component-option guards', () => {
@@ -0,0 +1,160 @@
+import { describe, expect, it } from 'vitest';
+import { AnonymousAuth } from '../../src/auth/anonymous.js';
+import { SchemaDefinitionError } from '../../src/errors.js';
+import { ManagementClient } from '../../src/management/client.js';
+import { field } from '../../src/management/fields.js';
+import { nestedFieldMeta } from '../../src/management/models.js';
+import { defineSchema, planSchema } from '../../src/schema/index.js';
+import { FakeFoxnoseServer } from '../../src/testing/index.js';
+
+describe('field builders', () => {
+  it('builds payloads with flags and typed meta', () => {
+    expect(
+      field
+        .text('title')
+        .name('Title')
+        .description('Shown in lists')
+        .required()
+        .localizable()
+        .searchable(false)
+        .maxLength(200)
+        .build(),
+    ).toEqual({
+      key: 'title',
+      name: 'Title',
+      type: 'text',
+      description: 'Shown in lists',
+      required: true,
+      localizable: true,
+      searchable: false,
+      meta: { max_length: 200 },
+    });
+    expect(field.boolean('featured').build()).toEqual({
+      key: 'featured',
+      name: 'featured',
+      type: 'boolean',
+    });
+    expect(field.integer('rating').min(1).max(5).private().build()).toMatchObject({
+      type: 'integer',
+      private: true,
+      meta: { min_value: 1, max_value: 5 },
+    });
+    expect(field.select('status', ['draft', 'live']).multiple().build()).toMatchObject({
+      type: 'select',
+      multiple: true,
+      meta: { options: ['draft', 'live'] },
+    });
+    expect(
+      field
+        .reference('author', { key: 'fld-authors' } as any)
+        .meta({ label: 'name' })
+        .build(),
+    ).toMatchObject({ type: 'reference', meta: { label: 'name', collection: 'fld-authors' } });
+    expect(field.vector('embedding', 1536).build().meta).toEqual({ dimensions: 1536 });
+    expect(
+      field
+        .nested('seo', nestedFieldMeta({ component: 'cmp-seo', componentVersion: 'ver-1' }))
+        .required()
+        .build(),
+    ).toEqual({
+      key: 'seo',
+      name: 'seo',
+      type: 'nested',
+      required: true,
+      meta: { component: 'cmp-seo', component_version: 'ver-1', auto_update: false },
+    });
+  });
+
+  it('flattens object fields parents first', () => {
+    const author = field.object('author', [
+      field.string('name').required(),
+      field.object('links', [field.url('website')]),
+    ]);
+    expect(author.flatten().map((payload) => [payload.key, payload.parent])).toEqual([
+      ['author', undefined],
+      ['name', 'author'],
+      ['links', 'author'],
+      ['website', 'author.links'],
+    ]);
+    expect(author.toDefinition()).toEqual({
+      key: 'author',
+      type: 'object',
+      fields: [
+        { key: 'name', type: 'string', required: true },
+        { key: 'links', type: 'object', fields: [{ key: 'website', type: 'url' }] },
+      ],
+    });
+  });
+
+  it.each([
+    [() => field.text('a.b'), 'field "a.b": key must be non-empty and must not contain "."'],
+    [() => field.text('t').minLength(5).maxLength(2), 'minLength 5 is greater than maxLength 2'],
+    [() => field.string('t').maxLength(-1), 'maxLength must be a non-negative integer, got -1'],
+    [() => field.integer('n').min(0.5), 'min of an integer field must be an integer, got 0.5'],
+    [() => field.number('n').min(3).max(1), 'min 3 is greater than max 1'],
+    [() => field.select('s', []), 'select fields need at least one option'],
+    [() => field.select('s', ['a', 'a']), 'duplicate select option "a"'],
+    [() => field.vector('v', 0), 'dimensions must be a positive integer, got 0'],
+    [() => field.select('s', ['a']).meta({ options: ['b'] }), 'meta keys options must be set'],
+    [() => field.object('o', [field.text('x'), field.integer('x')]), 'duplicate child field "x"'],
+  ])('rejects invalid fields (%#)', (create, message) => {
+    expect(() => create().build()).toThrow(SchemaDefinitionError);
+    expect(() => create().build()).toThrow(message);
+  });
+
+  it('is accepted by createCollectionField and defineSchema', async () => {
+    const server = new FakeFoxnoseServer();
+    const client = new ManagementClient({
+      environmentKey: server.environmentKey,
+      auth: new AnonymousAuth(),
+      fetch: server.fetch,
+      retryConfig: { attempts: 1, backoffFactor: 0, statusCodes: [], methods: [] },
+    });
+    const collection = await client.createCollection({ name: 'Articles', alias: 'articles' });
+    const version = await client.createCollectionVersion(collection.key, { name: 'v1' });
+    const title = field.text('title').name('Title').required().maxLength(200);
+    const created = await client.createCollectionField(collection.key, version.key, title);
+    expect(created).toMatchObject({
+      key: 'title',
+      name: 'Title',
+      type: 'text',
+      required: true,
+      meta: { max_length: 200 },
+    });
+    await client.publishCollectionVersion(collection.key, version.key);
+
+    const plan = await planSchema(
+      client,
+      defineSchema({
+        collections: [{ alias: 'articles', name: 'Articles', fields: [title.toDefinition()] }],
+      }),
+    );
+    expect(plan.hasChanges).toBe(false);
+  });
+
+  it('creates the children of object fields', async () => {
+    const server = new FakeFoxnoseServer();
+    const client = new ManagementClient({
+      environmentKey: server.environmentKey,
+      auth: new AnonymousAuth(),
+      fetch: server.fetch,
+      retryConfig: { attempts: 1, backoffFactor: 0, statusCodes: [], methods: [] },
+    });
+    const component = await client.createComponent({ name: 'Author', alias: 'author' });
+    const version = await client.createComponentVersion(component.key, { name: 'v1' });
+    const author = field.object('author', [
+      field.string('name').required(),
+      field.object('links', [field.url('website')]),
+    ]);
+
+    const created = await client.createComponentField(component.key, version.key, author);
+    expect(created).toMatchObject({ key: 'author', type: 'object' });
+    const fields = await client.listComponentFields(component.key, version.key);
+    expect(fields.results.map((f) => [f.path, f.parent])).toEqual([
+      ['author', null],
+      ['author.name', 'author'],
+      ['author.links', 'author'],
+      ['author.links.website', 'author.links'],
+    ]);
+  });
+});
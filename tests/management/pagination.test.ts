@@ -0,0 +1,206 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ManagementClient } from '../../src/management/client.js';
+import { nextPagePath, PageIterator } from '../../src/management/pagination.js';
+import type { PaginatedResponse } from '../../src/management/models.js';
+import type { AuthStrategy, RequestData } from '../../src/auth/types.js';
+
+const dummyAuth: AuthStrategy = {
+  buildHeaders(_request: RequestData) {
+    return { Authorization: 'Bearer test-token' };
+  },
+};
+
+function page<T>(results: T[], next: string | null, count = results.length): PaginatedResponse<T> {
+  return { count, next, previous: null, results };
+}
+
+function setupPagedFetch(pages: Array<PaginatedResponse<any> | any[]>) {
+  let index = 0;
+  const fetchMock = vi.fn(async () => {
+    const body = pages[index] ?? pages[pages.length - 1];
+    index++;
+    return new Response(JSON.stringify(body), { status: 200 });
+  });
+  globalThis.fetch = fetchMock;
+  return fetchMock;
+}
+
+function createClient(baseUrl = 'https://api.test.com') {
+  return new ManagementClient({
+    baseUrl,
+    environmentKey: 'env-123',
+    auth: dummyAuth,
+    timeout: 1000,
+    retryConfig: { attempts: 1, backoffFactor: 0, statusCodes: [], methods: [] },
+  });
+}
+
+describe('PageIterator', () => {
+  it('follows next links until exhausted', async () => {
+    const fetchPage = vi.fn(async (next: string | null) => {
+      if (next === null) return page([1, 2], 'p2', 5);
+      if (next === 'p2') return page([3, 4], 'p3', 5);
+      return page([5], null, 5);
+    });
+    const items = await new PageIterator<number>(fetchPage).toArray();
+    expect(items).toEqual([1, 2, 3, 4, 5]);
+    expect(fetchPage.mock.calls.map((c) => c[0])).toEqual([null, 'p2', 'p3']);
+  });
+
+  it('trims the final page to maxItems and stops fetching', async () => {
+    const fetchPage = vi.fn(async (next: string | null) =>
+      next === null ? page([1, 2], 'p2') : page([3, 4], 'p3'),
+    );
+    const iterator = new PageIterator<number>(fetchPage, { maxItems: 3 });
+    const pages: number[][] = [];
+    for await (const p of iterator.pages()) {
+      pages.push(p.results);
+    }
+    expect(pages).toEqual([[1, 2], [3]]);
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+  });
+
+  it('makes no request when maxItems is 0', async () => {
+    const fetchPage = vi.fn(async () => page([1], null));
+    expect(await new PageIterator<number>(fetchPage, { maxItems: 0 }).toArray()).toEqual([]);
+    expect(fetchPage).not.toHaveBeenCalled();
+  });
+
+  it('rejects a negative maxItems', () => {
+    expect(() => new PageIterator(async () => page([], null), { maxItems: -1 })).toThrow(
+      'maxItems must not be negative',
+    );
+  });
+
+  it('stops fetching when the consumer breaks early', async () => {
+    const fetchPage = vi.fn(async (next: string | null) =>
+      next === null ? page([1, 2], 'p2') : page([3, 4], null),
+    );
+    const seen: number[] = [];
+    for await (const item of new PageIterator<number>(fetchPage)) {
+      seen.push(item);
+      if (item === 1) break;
+    }
+    expect(seen).toEqual([1]);
+    expect(fetchPage).toHaveBeenCalledOnce();
+  });
+
+  it('stops when the server repeats a next link', async () => {
+    const fetchPage = vi.fn(async () => page([1], 'same'));
+    const items = await new PageIterator<number>(fetchPage).toArray();
+    expect(items).toEqual([1, 1]);
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+  });
+
+  it('treats array and empty payloads as a single page', async () => {
+    expect(await new PageIterator<number>(async () => [7, 8]).toArray()).toEqual([7, 8]);
+    expect(await new PageIterator<number>(async () => null).toArray()).toEqual([]);
+  });
+});
+
+describe('nextPagePath', () => {
+  it('strips the base URL', () => {
+    expect(nextPagePath('https://api.test.com/v1/x/?offset=2', 'https://api.test.com')).toBe(
+      '/v1/x/?offset=2',
+    );
+  });
+
+  it('keeps relative links', () => {
+    expect(nextPagePath('/v1/x/?offset=2', 'https://api.test.com')).toBe('/v1/x/?offset=2');
+  });
+
+  it('reduces foreign origins to path and query without the base prefix', () => {
+    expect(
+      nextPagePath('http://internal:8000/api/v1/x/?offset=2', 'https://gateway.test.com/api'),
+    ).toBe('/v1/x/?offset=2');
+  });
+});
+
+describe('ManagementClient iterate methods', () => {
+  let originalFetch: typeof globalThis.fetch;
+
+  beforeEach(() => {
+    originalFetch = globalThis.fetch;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+    vi.restoreAllMocks();
+  });
+
+  it('iterateResources follows next links through the transport', async () => {
+    const fetchMock = setupPagedFetch([
+      page([{ key: 'r1' }], 'https://api.test.com/v1/env-123/folders/f1/resources/?offset=1', 2),
+      page([{ key: 'r2' }], null, 2),
+    ]);
+    const client = createClient();
+    const keys: string[] = [];
+    for await (const resource of client.iterateResources('f1', { ordering: 'created_at' })) {
+      keys.push(resource.key);
+    }
+    expect(keys).toEqual(['r1', 'r2']);
+    expect(fetchMock.mock.calls[0][0]).toBe(
+      'https://api.test.com/v1/env-123/folders/f1/resources/?ordering=created_at',
+    );
+    expect(fetchMock.mock.calls[1][0]).toBe(
+      'https://api.test.com/v1/env-123/folders/f1/resources/?offset=1',
+    );
+  });
+
+  it('sends pageSize as limit on the first request', async () => {
+    const fetchMock = setupPagedFetch([page([], null)]);
+    const client = createClient();
+    await client.iterateCollections(undefined, { pageSize: 50 }).toArray();
+    expect(fetchMock.mock.calls[0][0]).toBe(
+      'https://api.test.com/v1/env-123/collections/tree/?limit=50',
+    );
+  });
+
+  it('rejects a pageSize below 1', () => {
+    const client = createClient();
+    expect(() => client.iterateComponents({}, { pageSize: 0 })).toThrow(
+      'pageSize must be at least 1',
+    );
+  });
+
+  it('exposes page-level iteration', async () => {
+    setupPagedFetch([
+      page([{ key: 'v1' }, { key: 'v2' }], '/next', 3),
+      page([{ key: 'v3' }], null, 3),
+    ]);
+    const client = createClient();
+    const sizes: number[] = [];
+    for await (const p of client.iterateCollectionVersions('c1').pages()) {
+      sizes.push(p.results.length);
+    }
+    expect(sizes).toEqual([2, 1]);
+  });
+
+  it.each([
+    ['iterateManagementApiKeys', [], '/v1/env-123/permissions/management-api/api-keys/'],
+    ['iterateFluxApiKeys', [], '/v1/env-123/permissions/flux-api/api-keys/'],
+    ['iterateApis', [], '/v1/env-123/api/'],
+    ['iterateApiCollections', ['api-1'], '/v1/env-123/api/api-1/collections/'],
+    ['iterateManagementRoles', [], '/v1/env-123/permissions/management-api/roles/'],
+    ['iterateFluxRoles', [], '/v1/env-123/permissions/flux-api/roles/'],
+    [
+      'iterateCollectionFields',
+      ['c1', 'v1'],
+      '/v1/env-123/collections/c1/model/versions/v1/schema/tree/',
+    ],
+    ['iterateComponentVersions', ['cmp-1'], '/v1/env-123/components/cmp-1/model/versions/'],
+    [
+      'iterateComponentFields',
+      ['cmp-1', 'v1'],
+      '/v1/env-123/components/cmp-1/model/versions/v1/schema/tree/',
+    ],
+    ['iterateRevisions', ['f1', 'r1'], '/v1/env-123/folders/f1/resources/r1/revisions/'],
+    ['iterateProjects', ['org-1'], '/organizations/org-1/projects/'],
+  ])('%s requests the list endpoint', async (method, args, path) => {
+    const fetchMock = setupPagedFetch([page([{ key: 'x' }], null)]);
+    const client = createClient() as any;
+    const items = await client[method](...args).toArray();
+    expect(items).toEqual([{ key: 'x' }]);
+    expect(fetchMock.mock.calls[0][0]).toBe(`https://api.test.com${path}`);
+  });
+});
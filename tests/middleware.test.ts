@@ -0,0 +1,216 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { HttpTransport } from '../src/http.js';
+import { FoxnoseAPIError, FoxnoseTransportError } from '../src/errors.js';
+import type { FoxnoseConfig } from '../src/config.js';
+import type { Middleware, MiddlewareContext } from '../src/middleware.js';
+import { FluxClient } from '../src/flux/client.js';
+import { ManagementClient } from '../src/management/client.js';
+import { AnonymousAuth } from '../src/auth/anonymous.js';
+
+const baseConfig: FoxnoseConfig = {
+  baseUrl: 'https://api.example.com',
+  timeout: 5000,
+  userAgent: 'test-agent/1.0',
+};
+
+const noRetry = { attempts: 1, backoffFactor: 0, statusCodes: [], methods: [] };
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), { status });
+}
+
+describe('custom fetch', () => {
+  let originalFetch: typeof globalThis.fetch;
+
+  beforeEach(() => {
+    originalFetch = globalThis.fetch;
+    globalThis.fetch = vi.fn(async () => {
+      throw new Error('global fetch must not be used');
+    });
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+    vi.restoreAllMocks();
+  });
+
+  it('uses the configured fetch instead of the global one', async () => {
+    const customFetch = vi.fn(async () => jsonResponse({ ok: true }));
+    const transport = new HttpTransport({ config: { ...baseConfig, fetch: customFetch } });
+
+    const result = await transport.request('GET', '/test');
+
+    expect(result).toEqual({ ok: true });
+    expect(customFetch).toHaveBeenCalledOnce();
+    expect(globalThis.fetch).not.toHaveBeenCalled();
+  });
+
+  it('forwards the dispatcher to fetch', async () => {
+    const dispatcher = { name: 'proxy-agent' };
+    const customFetch = vi.fn(async (_url: string, _init: RequestInit) => jsonResponse({}));
+    const transport = new HttpTransport({
+      config: { ...baseConfig, fetch: customFetch, dispatcher },
+    });
+
+    await transport.request('GET', '/test');
+
+    expect((customFetch.mock.calls[0][1] as any).dispatcher).toBe(dispatcher);
+  });
+
+  it('is accepted by ManagementClient and FluxClient options', async () => {
+    const customFetch = vi.fn(async () => jsonResponse({ results: [] }));
+    const management = new ManagementClient({
+      environmentKey: 'env-1',
+      auth: new AnonymousAuth(),
+      fetch: customFetch,
+    });
+    const flux = new FluxClient({
+      baseUrl: 'https://env.fxns.io',
+      apiPrefix: 'v1',
+      auth: new AnonymousAuth(),
+      fetch: customFetch,
+    });
+
+    await management.listComponents();
+    await flux.listResources('articles');
+
+    expect(customFetch.mock.calls.map((c) => c[0])).toEqual([
+      'https://api.foxnose.net/v1/env-1/components/',
+      'https://env.fxns.io/v1/articles',
+    ]);
+  });
+});
+
+describe('middleware', () => {
+  it('lets beforeRequest add headers and rewrite the URL', async () => {
+    const customFetch = vi.fn(async (_url: string, _init: RequestInit) => jsonResponse({}));
+    const tracing: Middleware = {
+      beforeRequest(ctx) {
+        ctx.headers['X-Trace-Id'] = 'trace-1';
+        ctx.url = ctx.url.replace('api.example.com', 'proxy.example.com');
+      },
+    };
+    const transport = new HttpTransport({
+      config: { ...baseConfig, fetch: customFetch, middleware: [tracing] },
+    });
+
+    await transport.request('GET', '/test');
+
+    const [url, init] = customFetch.mock.calls[0];
+    expect(url).toBe('https://proxy.example.com/test');
+    expect((init.headers as Record<string, string>)['X-Trace-Id']).toBe('trace-1');
+  });
+
+  it('runs hooks in registration order with async support', async () => {
+    const order: string[] = [];
+    const customFetch = vi.fn(async () => jsonResponse({}));
+    const first: Middleware = {
+      async beforeRequest() {
+        await Promise.resolve();
+        order.push('first.before');
+      },
+      afterResponse() {
+        order.push('first.after');
+      },
+    };
+    const second: Middleware = {
+      beforeRequest() {
+        order.push('second.before');
+      },
+      afterResponse() {
+        order.push('second.after');
+      },
+    };
+    const transport = new HttpTransport({
+      config: { ...baseConfig, fetch: customFetch, middleware: [first, second] },
+    });
+
+    await transport.request('GET', '/test');
+
+    expect(order).toEqual(['first.before', 'second.before', 'first.after', 'second.after']);
+  });
+
+  it('lets afterResponse replace the response', async () => {
+    const customFetch = vi.fn(async () => jsonResponse({ original: true }));
+    const transport = new HttpTransport({
+      config: {
+        ...baseConfig,
+        fetch: customFetch,
+        middleware: [{ afterResponse: () => jsonResponse({ replaced: true }) }],
+      },
+    });
+
+    expect(await transport.request('GET', '/test')).toEqual({ replaced: true });
+  });
+
+  it('sees every retry attempt', async () => {
+    const attempts: number[] = [];
+    const customFetch = vi
+      .fn()
+      .mockResolvedValueOnce(new Response('', { status: 503 }))
+      .mockResolvedValueOnce(jsonResponse({ ok: true }));
+    const transport = new HttpTransport({
+      config: {
+        ...baseConfig,
+        fetch: customFetch,
+        middleware: [{ beforeRequest: (ctx) => void attempts.push(ctx.attempt) }],
+      },
+      retryConfig: { attempts: 2, backoffFactor: 0, statusCodes: [503], methods: ['GET'] },
+    });
+
+    await transport.request('GET', '/test');
+
+    expect(attempts).toEqual([1, 2]);
+  });
+
+  it('calls onError for network failures and for API errors', async () => {
+    const errors: Array<{ ctx: MiddlewareContext; error: unknown }> = [];
+    const onError = (ctx: MiddlewareContext, error: unknown) => void errors.push({ ctx, error });
+
+    const failing = new HttpTransport({
+      config: {
+        ...baseConfig,
+        fetch: vi.fn(async () => {
+          throw new Error('socket hang up');
+        }),
+        middleware: [{ onError }],
+      },
+      retryConfig: noRetry,
+    });
+    await expect(failing.request('GET', '/a')).rejects.toThrow(FoxnoseTransportError);
+
+    const notFound = new HttpTransport({
+      config: {
+        ...baseConfig,
+        fetch: vi.fn(async () => jsonResponse({ message: 'nope' }, 404)),
+        middleware: [{ onError }],
+      },
+      retryConfig: noRetry,
+    });
+    await expect(notFound.request('GET', '/b')).rejects.toThrow(FoxnoseAPIError);
+
+    expect(errors).toHaveLength(2);
+    expect((errors[0].error as Error).message).toBe('socket hang up');
+    expect(errors[0].ctx.path).toBe('/a');
+    expect(errors[1].error).toBeInstanceOf(FoxnoseAPIError);
+    expect(errors[1].ctx.path).toBe('/b');
+  });
+
+  it('exposes the request body and auth headers to hooks', async () => {
+    let seen: MiddlewareContext | undefined;
+    const transport = new HttpTransport({
+      config: {
+        ...baseConfig,
+        fetch: vi.fn(async () => jsonResponse({})),
+        middleware: [{ beforeRequest: (ctx) => void (seen = { ...ctx }) }],
+      },
+      auth: { buildHeaders: () => ({ Authorization: 'Bearer tok' }) },
+    });
+
+    await transport.request('POST', '/items', { jsonBody: { a: 1 } });
+
+    expect(seen?.method).toBe('POST');
+    expect(seen?.headers.Authorization).toBe('Bearer tok');
+    expect(new TextDecoder().decode(seen?.body)).toBe('{"a":1}');
+  });
+});
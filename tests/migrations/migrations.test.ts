@@ -0,0 +1,256 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { AnonymousAuth } from '../../src/auth/anonymous.js';
+import { MigrationError, MigrationLockError } from '../../src/errors.js';
+import { ManagementClient } from '../../src/management/client.js';
+import {
+  CollectionMigrationStore,
+  FileMigrationStore,
+  loadMigrations,
+  migrate,
+  migrationStatus,
+  rollbackMigrations,
+  transformResources,
+} from '../../src/migrations/index.js';
+import type { Migration, MigrationStore } from '../../src/migrations/index.js';
+import { FakeFoxnoseServer } from '../../src/testing/index.js';
+
+describe('migrations', () => {
+  let server: FakeFoxnoseServer;
+  let client: ManagementClient;
+  let dir: string;
+  let log: string[];
+
+  const migration = (id: string, down = true): Migration => ({
+    id,
+    up: () => {
+      log.push(`up ${id}`);
+    },
+    down: down
+      ? () => {
+          log.push(`down ${id}`);
+        }
+      : undefined,
+  });
+
+  beforeEach(async () => {
+    server = new FakeFoxnoseServer();
+    client = new ManagementClient({
+      environmentKey: server.environmentKey,
+      auth: new AnonymousAuth(),
+      fetch: server.fetch,
+      retryConfig: { attempts: 1, backoffFactor: 0, statusCodes: [], methods: [] },
+    });
+    dir = await mkdtemp(join(tmpdir(), 'foxnose-migrations-'));
+    log = [];
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const stores: Array<[string, () => MigrationStore]> = [
+    ['FileMigrationStore', () => new FileMigrationStore(join(dir, 'state.json'))],
+    ['CollectionMigrationStore', () => new CollectionMigrationStore(client)],
+  ];
+
+  describe.each(stores)('with %s', (_name, createStore) => {
+    it('applies pending migrations once, in ID order, and rolls them back', async () => {
+      const store = createStore();
+      const migrations = [migration('002-b'), migration('001-a'), migration('003-c')];
+
+      expect(await migrate(client, migrations, { store, to: '002-b' })).toEqual(['001-a', '002-b']);
+      expect(await migrate(client, migrations, { store })).toEqual(['003-c']);
+      expect(await migrate(client, migrations, { store })).toEqual([]);
+      expect(log).toEqual(['up 001-a', 'up 002-b', 'up 003-c']);
+
+      const status = await migrationStatus(migrations, { store });
+      expect(status.map((s) => [s.id, s.status])).toEqual([
+        ['001-a', 'applied'],
+        ['002-b', 'applied'],
+        ['003-c', 'applied'],
+      ]);
+      expect(status[0].appliedAt).toEqual(expect.any(String));
+
+      log = [];
+      expect(await rollbackMigrations(client, migrations, { store })).toEqual(['003-c']);
+      expect(await rollbackMigrations(client, migrations, { store, to: '001-a' })).toEqual([
+        '002-b',
+      ]);
+      expect(log).toEqual(['down 003-c', 'down 002-b']);
+      expect((await migrationStatus(migrations, { store })).map((s) => s.status)).toEqual([
+        'applied',
+        'pending',
+        'pending',
+      ]);
+    });
+
+    it('refuses to run while another process holds the lock', async () => {
+      const store = createStore();
+      const held = await store.lock('deploy-1', 60_000);
+      const error = await migrate(client, [migration('001-a')], { store }).catch((e) => e);
+      expect(error).toBeInstanceOf(MigrationLockError);
+      expect(error.owner).toBe('deploy-1');
+      expect(log).toEqual([]);
+
+      await held.release();
+      expect(await migrate(client, [migration('001-a')], { store })).toEqual(['001-a']);
+    });
+
+    it('takes over an expired lock', async () => {
+      const store = createStore();
+      await store.lock('crashed-deploy', -1000);
+      expect(await migrate(client, [migration('001-a')], { store })).toEqual(['001-a']);
+      // The lock was released after the run.
+      await (await store.lock('next', 60_000)).release();
+    });
+
+    it('lets only one of several processes take over an expired lock', async () => {
+      await createStore().lock('crashed-deploy', -1000);
+      const results = await Promise.allSettled(
+        ['a', 'b', 'c', 'd'].map((owner) => createStore().lock(owner, 60_000)),
+      );
+      expect(results.filter((result) => result.status === 'fulfilled')).toHaveLength(1);
+      for (const result of results) {
+        if (result.status === 'rejected') {
+          expect(result.reason).toBeInstanceOf(MigrationLockError);
+        }
+      }
+    });
+  });
+
+  it('stops at a failing migration and resumes from it', async () => {
+    const store = new FileMigrationStore(join(dir, 'state.json'));
+    let broken = true;
+    const migrations: Migration[] = [
+      migration('001-a'),
+      {
+        id: '002-b',
+        up: () => {
+          if (broken) {
+            throw new Error('boom');
+          }
+          log.push('up 002-b');
+        },
+      },
+      migration('003-c'),
+    ];
+
+    const error = await migrate(client, migrations, { store }).catch((e) => e);
+    expect(error).toBeInstanceOf(MigrationError);
+    expect(error).toMatchObject({
+      migrationId: '002-b',
+      message: 'Migration "002-b" failed (up): boom',
+    });
+    expect((error.cause as Error).message).toBe('boom');
+    expect(log).toEqual(['up 001-a']);
+
+    broken = false;
+    expect(await migrate(client, migrations, { store })).toEqual(['002-b', '003-c']);
+
+    await expect(rollbackMigrations(client, migrations, { store, steps: 2 })).rejects.toThrow(
+      'Migration "002-b" has no down() to roll back',
+    );
+    expect(log).toEqual(['up 001-a', 'up 002-b', 'up 003-c']);
+  });
+
+  it('reports applied migrations that no longer exist', async () => {
+    const store = new FileMigrationStore(join(dir, 'state.json'));
+    await migrate(client, [migration('001-a'), migration('002-b')], { store });
+    const status = await migrationStatus([migration('002-b')], { store });
+    expect(status.map((s) => [s.id, s.status])).toEqual([
+      ['002-b', 'applied'],
+      ['001-a', 'missing'],
+    ]);
+  });
+
+  it('loads migrations from a directory', async () => {
+    await writeFile(
+      join(dir, '002-second.mjs'),
+      'export const description = "Second";\nexport async function up() {}\n',
+    );
+    await writeFile(
+      join(dir, '001-first.mjs'),
+      'export async function up() {}\nexport async function down() {}\n',
+    );
+    await writeFile(join(dir, 'README.md'), '# Migrations\n');
+
+    const migrations = await loadMigrations(dir, { extensions: ['.mjs'] });
+    expect(migrations.map((m) => [m.id, m.description, typeof m.down])).toEqual([
+      ['001-first', undefined, 'function'],
+      ['002-second', 'Second', 'undefined'],
+    ]);
+
+    await writeFile(join(dir, '003-broken.mjs'), 'export const down = 1;\n');
+    await expect(loadMigrations(dir, { extensions: ['.mjs'] })).rejects.toThrow(
+      'Migration "003-broken" (003-broken.mjs) does not export an up() function',
+    );
+  });
+});
+
+describe('transformResources', () => {
+  let client: ManagementClient;
+  let folder: string;
+
+  beforeEach(async () => {
+    const server = new FakeFoxnoseServer();
+    client = new ManagementClient({
+      environmentKey: server.environmentKey,
+      auth: new AnonymousAuth(),
+      fetch: server.fetch,
+      retryConfig: { attempts: 1, backoffFactor: 0, statusCodes: [], methods: [] },
+    });
+    folder = (await client.createCollection({ name: 'Articles', alias: 'articles' })).key;
+    for (const title of ['Hello World', 'Second Post', 'Already']) {
+      await client.createResource(folder, {
+        data: title === 'Already' ? { title, slug: 'already' } : { title },
+      });
+    }
+  });
+
+  const addSlug = (data: Record<string, any>) => {
+    data.slug ??= data.title.toLowerCase().replace(/\s+/g, '-');
+    return data;
+  };
+
+  it('publishes a new revision for changed resources only', async () => {
+    expect(await transformResources(client, folder, addSlug, { dryRun: true })).toEqual({
+      updated: 2,
+      unchanged: 1,
+    });
+    const resources = await client.iterateResources(folder).toArray();
+    expect(await client.getResourceData(folder, resources[0].key)).toEqual({
+      title: 'Hello World',
+    });
+
+    expect(await transformResources(client, folder, addSlug, { maxConcurrency: 2 })).toEqual({
+      updated: 2,
+      unchanged: 1,
+    });
+    expect(await client.getResourceData(folder, resources[0].key)).toEqual({
+      title: 'Hello World',
+      slug: 'hello-world',
+    });
+    const revisions = await client.iterateRevisions(folder, resources[0].key).toArray();
+    expect(revisions).toHaveLength(2);
+
+    // Running it again is a no-op.
+    expect(await transformResources(client, folder, addSlug)).toEqual({
+      updated: 0,
+      unchanged: 3,
+    });
+  });
+
+  it('stops at the first error', async () => {
+    await expect(
+      transformResources(client, folder, (data) => {
+        if (data.title === 'Second Post') {
+          throw new Error('cannot transform');
+        }
+        return undefined;
+      }),
+    ).rejects.toThrow('cannot transform');
+  });
+});
@@ -0,0 +1,146 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { AnonymousAuth } from '../../src/auth/anonymous.js';
+import { ManagementClient } from '../../src/management/client.js';
+import { nestedFieldMeta } from '../../src/management/models.js';
+import type { ComponentSummary, SchemaVersionSummary } from '../../src/management/models.js';
+import {
+  componentGraph,
+  componentImpact,
+  syncComponentDependents,
+} from '../../src/schema/index.js';
+import { FakeFoxnoseServer } from '../../src/testing/index.js';
+
+describe('component dependencies', () => {
+  let server: FakeFoxnoseServer;
+  let client: ManagementClient;
+  let seo: ComponentSummary;
+  let v1: SchemaVersionSummary;
+  let v2: SchemaVersionSummary;
+
+  async function publishComponentVersion(
+    name: string,
+    fields: Record<string, any>[],
+  ): Promise<SchemaVersionSummary> {
+    const version = await client.createComponentVersion(seo.key, { name });
+    for (const field of fields) {
+      await client.createComponentField(seo.key, version.key, field);
+    }
+    return client.publishComponentVersion(seo.key, version.key);
+  }
+
+  async function createCollection(
+    alias: string,
+    nested: Record<string, { version: string; autoUpdate?: boolean }>,
+  ): Promise<void> {
+    const collection = await client.createCollection({ alias, name: alias });
+    const version = await client.createCollectionVersion(collection.key, { name: 'v1' });
+    await client.createCollectionField(collection.key, version.key, {
+      key: 'title',
+      name: 'Title',
+      type: 'string',
+    });
+    for (const [key, pin] of Object.entries(nested)) {
+      await client.createCollectionField(collection.key, version.key, {
+        key,
+        name: key,
+        type: 'nested',
+        meta: nestedFieldMeta({
+          component: seo.key,
+          componentVersion: pin.version,
+          autoUpdate: pin.autoUpdate,
+        }),
+      });
+    }
+    await client.publishCollectionVersion(collection.key, version.key);
+  }
+
+  beforeEach(async () => {
+    server = new FakeFoxnoseServer();
+    client = new ManagementClient({
+      environmentKey: server.environmentKey,
+      auth: new AnonymousAuth(),
+      retryConfig: { attempts: 1, backoffFactor: 0, statusCodes: [], methods: [] },
+      fetch: server.fetch,
+    });
+    seo = await client.createComponent({ name: 'seo' });
+    v1 = await publishComponentVersion('v1', [
+      { key: 'slug', name: 'Slug', type: 'string' },
+      { key: 'keywords', name: 'Keywords', type: 'text' },
+    ]);
+    await createCollection('articles', { seo: { version: v1.key } });
+    await createCollection('pages', {
+      seo: { version: v1.key, autoUpdate: true },
+      meta: { version: v1.key },
+    });
+    v2 = await publishComponentVersion('v2', [{ key: 'slug', name: 'Slug', type: 'string' }]);
+    await createCollection('products', { seo: { version: v2.key } });
+  });
+
+  it('builds the component graph from published collection versions', async () => {
+    const graph = await componentGraph(client);
+    expect(graph.unresolved).toEqual([]);
+    expect(graph.components).toHaveLength(1);
+    const [node] = graph.components;
+    expect(node).toMatchObject({ component: seo.key, name: 'seo', currentVersion: v2.key });
+    expect(
+      node.dependents.map((d) => [d.collectionPath, d.fieldPath, d.autoUpdate, d.outdated]),
+    ).toEqual([
+      ['articles', 'seo', false, true],
+      ['pages', 'meta', false, true],
+      ['pages', 'seo', true, true],
+      ['products', 'seo', false, false],
+    ]);
+  });
+
+  it('reports the collections pinned behind the current version', async () => {
+    const impact = await componentImpact(client, seo);
+    expect(impact.dependents).toHaveLength(4);
+    expect(impact.outdated.map((d) => `${d.collectionPath}.${d.fieldPath}`)).toEqual([
+      'articles.seo',
+      'pages.meta',
+      'pages.seo',
+    ]);
+  });
+
+  it('reports what a sync would do without syncing', async () => {
+    const report = await syncComponentDependents(client, seo, { dryRun: true });
+    expect(report).toMatchObject({ component: seo.key, currentVersion: v2.key, dryRun: true });
+    expect(
+      report.collections.map((c) => [c.collectionPath, c.synced, c.skipped, c.conflicts]),
+    ).toEqual([
+      ['articles', ['seo'], [], [{ field_path: 'seo.keywords', blocking_reason: 'field_removed' }]],
+      [
+        'pages',
+        ['meta'],
+        [{ path: 'seo', reason: 'auto_update_mode' }],
+        [{ field_path: 'meta.keywords', blocking_reason: 'field_removed' }],
+      ],
+      ['products', [], [{ path: 'seo', reason: 'already_at_target' }], []],
+    ]);
+    expect((await componentImpact(client, seo)).outdated).toHaveLength(3);
+  });
+
+  it('syncs every dependent collection to the current version', async () => {
+    const report = await syncComponentDependents(client, seo);
+    expect(report.collections.map((c) => [c.collectionPath, c.synced, c.skipped, c.error])).toEqual(
+      [
+        ['articles', ['seo'], [], null],
+        ['pages', ['meta'], [{ path: 'seo', reason: 'auto_update_mode' }], null],
+        ['products', [], [{ path: 'seo', reason: 'already_at_target' }], null],
+      ],
+    );
+    expect(report.collections[0].schemaVersion).not.toBeNull();
+    expect(report.collections[2].schemaVersion).toBeNull();
+
+    const impact = await componentImpact(client, seo);
+    expect(impact.outdated.map((d) => `${d.collectionPath}.${d.fieldPath}`)).toEqual(['pages.seo']);
+  });
+
+  it('records API errors per collection and carries on', async () => {
+    const graph = await componentGraph(client);
+    server.failNext({ status: 409, errorCode: 'component_sync_conflict', method: 'POST' });
+    const report = await syncComponentDependents(client, seo, { graph });
+    expect(report.collections[0].error?.statusCode).toBe(409);
+    expect(report.collections[1].synced).toEqual(['meta']);
+  });
+});
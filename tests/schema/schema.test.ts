@@ -0,0 +1,244 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { AnonymousAuth } from '../../src/auth/anonymous.js';
+import { ContentValidationFailedError, SchemaDefinitionError } from '../../src/errors.js';
+import { ManagementClient } from '../../src/management/client.js';
+import {
+  applySchemaPlan,
+  defineSchema,
+  formatSchemaPlan,
+  parseSchemaDefinition,
+  planSchema,
+} from '../../src/schema/index.js';
+import type { SchemaDefinition } from '../../src/schema/index.js';
+import { FakeFoxnoseServer } from '../../src/testing/index.js';
+
+const schema = defineSchema({
+  components: [
+    {
+      name: 'seo',
+      fields: [{ key: 'slug', type: 'string', required: true }],
+    },
+  ],
+  collections: [
+    {
+      alias: 'articles',
+      name: 'Articles',
+      fields: [
+        { key: 'title', type: 'string', required: true, searchable: true },
+        {
+          key: 'author',
+          type: 'object',
+          fields: [{ key: 'name', type: 'string' }],
+        },
+      ],
+    },
+    {
+      alias: 'comments',
+      parent: 'articles',
+      fields: [{ key: 'body', type: 'text' }],
+    },
+  ],
+});
+
+function withChanges(change: (copy: SchemaDefinition) => void): SchemaDefinition {
+  const copy = structuredClone(schema);
+  change(copy);
+  return copy;
+}
+
+describe('schema as code', () => {
+  let server: FakeFoxnoseServer;
+  let client: ManagementClient;
+
+  beforeEach(() => {
+    server = new FakeFoxnoseServer();
+    client = new ManagementClient({
+      environmentKey: server.environmentKey,
+      auth: new AnonymousAuth(),
+      retryConfig: { attempts: 1, backoffFactor: 0, statusCodes: [], methods: [] },
+      fetch: server.fetch,
+    });
+  });
+
+  async function liveFields(collectionPath: string) {
+    const collection = await client.getCollectionByPath(collectionPath);
+    const versions = await client.iterateCollectionVersions(collection.key).toArray();
+    const published = versions.find((v) => v.published_at && !v.archived_at)!;
+    return client.iterateCollectionFields(collection.key, published.key).toArray();
+  }
+
+  it('plans and applies new models', async () => {
+    const plan = await planSchema(client, schema);
+    expect(plan.hasChanges).toBe(true);
+    expect(plan.models.map((m) => [m.kind, m.id, m.action])).toEqual([
+      ['component', 'seo', 'create'],
+      ['collection', 'articles', 'create'],
+      ['collection', 'articles/comments', 'create'],
+    ]);
+    expect(formatSchemaPlan(plan)).toBe(
+      [
+        '+ component seo',
+        '    + field slug (string)',
+        '+ collection articles',
+        '    + field title (string)',
+        '    + field author (object)',
+        '    + field author.name (string)',
+        '+ collection articles/comments',
+        '    + field body (text)',
+        'Plan: 3 to create, 0 to update, 0 unchanged.',
+      ].join('\n'),
+    );
+
+    const result = await applySchemaPlan(client, plan);
+    expect(result.models.every((m) => m.version?.published_at)).toBe(true);
+
+    const fields = await liveFields('articles');
+    expect(fields.map((f) => [f.path, f.parent, f.required])).toEqual([
+      ['title', null, true],
+      ['author', null, false],
+      ['author.name', 'author', false],
+    ]);
+    const comments = await client.getCollectionByPath('articles/comments');
+    expect(comments.parent).toBe(result.models[1].key);
+
+    const again = await planSchema(client, schema);
+    expect(again.hasChanges).toBe(false);
+    expect(formatSchemaPlan(again)).toBe(
+      'No changes.\nPlan: 0 to create, 0 to update, 3 unchanged.',
+    );
+  });
+
+  it('updates, replaces and deletes fields in a new published version', async () => {
+    await applySchemaPlan(client, await planSchema(client, schema));
+    const changed = withChanges((copy) => {
+      const articles = copy.collections![0];
+      articles.name = 'Blog posts';
+      articles.fields = [
+        { key: 'title', type: 'string', searchable: true, meta: { max_length: 120 } },
+        { key: 'summary', type: 'text' },
+        { key: 'author', type: 'string' },
+      ];
+    });
+
+    const plan = await planSchema(client, changed);
+    expect(plan.models.map((m) => m.action)).toEqual(['noop', 'update', 'noop']);
+    expect(formatSchemaPlan(plan)).toBe(
+      [
+        '~ collection articles',
+        '    ~ name: "Articles" -> "Blog posts"',
+        '    ~ field title: required true -> false, meta.max_length unset -> 120',
+        '    + field summary (text)',
+        '    -/+ field author: type "object" -> "string"',
+        'Plan: 0 to create, 1 to update, 2 unchanged.',
+      ].join('\n'),
+    );
+
+    const result = await applySchemaPlan(client, plan, { versionName: 'v2' });
+    expect(result.models[0].version).toMatchObject({ name: 'v2', version_number: 2 });
+    const fields = await liveFields('articles');
+    expect(fields.map((f) => [f.path, f.type, f.required, f.meta])).toEqual([
+      ['title', 'string', false, { max_length: 120 }],
+      ['summary', 'text', false, {}],
+      ['author', 'string', false, {}],
+    ]);
+    expect((await client.getCollectionByPath('articles')).name).toBe('Blog posts');
+    expect((await planSchema(client, changed)).hasChanges).toBe(false);
+  });
+
+  it('deletes only the top-most removed field and keeps extras without prune', async () => {
+    await applySchemaPlan(client, await planSchema(client, schema));
+    const changed = withChanges((copy) => {
+      copy.collections![0].fields = [{ key: 'title', type: 'string', required: true }];
+    });
+
+    const kept = await planSchema(client, changed, { prune: false });
+    expect(kept.models[1].fields.map((f) => f.action)).toEqual(['update']);
+
+    const plan = await planSchema(client, changed);
+    expect(plan.models[1].fields.map((f) => [f.action, f.path])).toEqual([
+      ['delete', 'author'],
+      ['update', 'title'],
+    ]);
+    await applySchemaPlan(client, plan);
+    expect((await liveFields('articles')).map((f) => f.path)).toEqual(['title']);
+  });
+
+  it('leaves the draft unpublished when publish is false', async () => {
+    const result = await applySchemaPlan(client, await planSchema(client, schema), {
+      publish: false,
+    });
+    expect(result.models[0].version?.published_at).toBeNull();
+    expect((await planSchema(client, schema)).models[0].action).toBe('update');
+  });
+
+  it('deletes the draft when a field change fails', async () => {
+    await applySchemaPlan(client, await planSchema(client, schema));
+    const plan = await planSchema(
+      client,
+      withChanges((copy) => {
+        copy.collections![0].fields.push({ key: 'views', type: 'integer' });
+      }),
+    );
+    server.failNext({
+      status: 422,
+      errorCode: 'content_validation_failed',
+      method: 'POST',
+      path: /schema\/tree/,
+    });
+
+    await expect(applySchemaPlan(client, plan)).rejects.toBeInstanceOf(
+      ContentValidationFailedError,
+    );
+    const articles = await client.getCollectionByPath('articles');
+    const versions = await client.iterateCollectionVersions(articles.key).toArray();
+    expect(versions).toHaveLength(1);
+  });
+
+  describe('definition validation', () => {
+    it('parses JSON definitions', () => {
+      const parsed = parseSchemaDefinition(JSON.stringify(schema));
+      expect(parsed).toEqual(schema);
+    });
+
+    it.each([
+      ['not json', /not valid JSON/],
+      [{ collections: {} }, /"collections" must be an array/],
+      [{ collections: [{ alias: 'a', fields: [{ key: 'x' }] }] }, /fields\[0\]: "type"/],
+      [
+        { components: [{ name: 'c', fields: [{ key: 'x', type: 'string', fields: [] }] }] },
+        /only "object" fields can have child fields/,
+      ],
+      [
+        {
+          collections: [
+            { alias: 'a', fields: [] },
+            { alias: 'a', fields: [] },
+          ],
+        },
+        /duplicate collection "a"/,
+      ],
+      [
+        {
+          collections: [
+            {
+              alias: 'a',
+              fields: [
+                { key: 'x', type: 'string' },
+                { key: 'x', type: 'string' },
+              ],
+            },
+          ],
+        },
+        /duplicate field key "x"/,
+      ],
+    ])('rejects %j', (input, message) => {
+      expect(() => parseSchemaDefinition(input)).toThrow(SchemaDefinitionError);
+      expect(() => parseSchemaDefinition(input)).toThrow(message);
+    });
+
+    it('rejects a parent collection that does not exist', async () => {
+      const orphan = { collections: [{ alias: 'child', parent: 'missing', fields: [] }] };
+      await expect(planSchema(client, orphan)).rejects.toThrow(/parent "missing"/);
+    });
+  });
+});
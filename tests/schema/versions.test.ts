@@ -0,0 +1,141 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { AnonymousAuth } from '../../src/auth/anonymous.js';
+import { BreakingSchemaChangeError } from '../../src/errors.js';
+import { ManagementClient } from '../../src/management/client.js';
+import type { CollectionSummary, SchemaVersionSummary } from '../../src/management/models.js';
+import { diffSchemaVersions, safePublish } from '../../src/schema/index.js';
+import { FakeFoxnoseServer } from '../../src/testing/index.js';
+
+describe('schema version diffs', () => {
+  let server: FakeFoxnoseServer;
+  let client: ManagementClient;
+  let collection: CollectionSummary;
+  let published: SchemaVersionSummary;
+
+  beforeEach(async () => {
+    server = new FakeFoxnoseServer();
+    client = new ManagementClient({
+      environmentKey: server.environmentKey,
+      auth: new AnonymousAuth(),
+      retryConfig: { attempts: 1, backoffFactor: 0, statusCodes: [], methods: [] },
+      fetch: server.fetch,
+    });
+    collection = await client.createCollection({ alias: 'articles', name: 'Articles' });
+    published = await client.createCollectionVersion(collection.key, { name: 'v1' });
+    for (const payload of [
+      { key: 'title', name: 'Title', type: 'string', required: true },
+      { key: 'views', name: 'Views', type: 'integer' },
+      {
+        key: 'status',
+        name: 'Status',
+        type: 'select',
+        meta: { options: ['draft', 'live', 'archived'] },
+      },
+      { key: 'summary', name: 'Summary', type: 'text' },
+    ]) {
+      await client.createCollectionField(collection.key, published.key, payload);
+    }
+    await client.publishCollectionVersion(collection.key, published.key);
+  });
+
+  async function draft(): Promise<SchemaVersionSummary> {
+    return client.createCollectionVersion(
+      collection.key,
+      { name: 'v2' },
+      { copyFrom: published.key },
+    );
+  }
+
+  it('reports no changes between identical versions', async () => {
+    const next = await draft();
+    const diff = await diffSchemaVersions(client, collection.key, published.key, next.key);
+    expect(diff.changes).toEqual([]);
+    expect(diff.breaking).toBe(false);
+    expect(diff.jsonSchemaChanged).toBe(false);
+  });
+
+  it('classifies breaking changes with the sync conflict vocabulary', async () => {
+    const next = await draft();
+    await client.deleteCollectionField(collection.key, next.key, 'summary');
+    await client.createCollectionField(collection.key, next.key, {
+      key: 'slug',
+      name: 'Slug',
+      type: 'string',
+      required: true,
+    });
+    await client.updateCollectionField(collection.key, next.key, 'status', {
+      meta: { options: ['draft', 'live'] },
+    });
+
+    const diff = await diffSchemaVersions(client, collection, published, next);
+    expect(diff.changes.map((c) => [c.path, c.change, c.blockingReason])).toEqual([
+      ['slug', 'added', 'required_field_added_no_default'],
+      ['status', 'changed', 'type_narrowed'],
+      ['summary', 'removed', 'field_removed'],
+    ]);
+    expect(diff.conflicts).toEqual([
+      { field_path: 'slug', blocking_reason: 'required_field_added_no_default' },
+      { field_path: 'status', blocking_reason: 'type_narrowed' },
+      { field_path: 'summary', blocking_reason: 'field_removed' },
+    ]);
+    expect(diff.breaking).toBe(true);
+    expect(diff.jsonSchemaChanged).toBe(true);
+  });
+
+  it('tells widening from narrowing type changes', async () => {
+    const next = await draft();
+    await client.updateCollectionField(collection.key, next.key, 'views', { type: 'number' });
+    await client.updateCollectionField(collection.key, next.key, 'summary', { type: 'integer' });
+    await client.createCollectionField(collection.key, next.key, {
+      key: 'subtitle',
+      name: 'Subtitle',
+      type: 'string',
+      required: true,
+      meta: { default: '' },
+    });
+
+    const diff = await diffSchemaVersions(client, collection, published, next);
+    expect(diff.changes.map((c) => [c.path, c.change, c.blockingReason])).toEqual([
+      ['subtitle', 'added', null],
+      ['summary', 'changed', 'type_narrowed'],
+      ['views', 'changed', null],
+    ]);
+    expect(diff.changes.find((c) => c.path === 'views')!.diffs).toContainEqual({
+      attribute: 'type',
+      before: 'integer',
+      after: 'number',
+    });
+  });
+
+  it('refuses to publish breaking changes unless forced', async () => {
+    const next = await draft();
+    await client.deleteCollectionField(collection.key, next.key, 'summary');
+
+    const error = await safePublish(client, collection, next).catch((err) => err);
+    expect(error).toBeInstanceOf(BreakingSchemaChangeError);
+    expect(error.diff.conflicts).toEqual([
+      { field_path: 'summary', blocking_reason: 'field_removed' },
+    ]);
+    expect((await client.getCollectionVersion(collection.key, next.key)).published_at).toBeNull();
+
+    const result = await safePublish(client, collection, next, { force: true });
+    expect(result.version.published_at).not.toBeNull();
+    expect(result.diff!.breaking).toBe(true);
+  });
+
+  it('publishes compatible changes and first versions directly', async () => {
+    const next = await draft();
+    await client.createCollectionField(collection.key, next.key, {
+      key: 'tags',
+      name: 'Tags',
+      type: 'string',
+    });
+    const result = await safePublish(client, collection, next);
+    expect(result.version.published_at).not.toBeNull();
+    expect(result.diff!.changes.map((c) => [c.path, c.change])).toEqual([['tags', 'added']]);
+
+    const other = await client.createCollection({ alias: 'pages', name: 'Pages' });
+    const first = await client.createCollectionVersion(other.key, { name: 'v1' });
+    expect((await safePublish(client, other, first)).diff).toBeNull();
+  });
+});
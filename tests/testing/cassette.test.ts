@@ -0,0 +1,99 @@
+import { generateKeyPairSync } from 'node:crypto';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SecureKeyAuth } from '../../src/auth/secure.js';
+import { CassetteMismatchError } from '../../src/errors.js';
+import { ManagementClient } from '../../src/management/client.js';
+import { Cassette, FakeFoxnoseServer } from '../../src/testing/index.js';
+import type { FetchFunction } from '../../src/config.js';
+
+function secureAuth(at: string) {
+  const { privateKey } = generateKeyPairSync('ec', {
+    namedCurve: 'prime256v1',
+    privateKeyEncoding: { type: 'sec1', format: 'der' },
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+  });
+  return new SecureKeyAuth('public-key', (privateKey as Buffer).toString('base64'), {
+    clock: () => new Date(at),
+  });
+}
+
+describe('Cassette', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'foxnose-cassette-'));
+    path = join(dir, 'cassettes', 'collections.json');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  function client(fetch: FetchFunction, auth: SecureKeyAuth) {
+    return new ManagementClient({
+      environmentKey: 'env-test',
+      auth,
+      fetch,
+      retryConfig: { attempts: 3, backoffFactor: 0, statusCodes: [503], methods: ['GET'] },
+    });
+  }
+
+  async function record() {
+    const server = new FakeFoxnoseServer();
+    const cassette = new Cassette(path, { mode: 'record', fetch: server.fetch });
+    const api = client(cassette.fetch, secureAuth('2024-01-01T00:00:00Z'));
+    const before = await api.listCollections();
+    const created = await api.createCollection({ alias: 'articles', name: 'Articles' });
+    const after = await api.listCollections();
+    await expect(api.getCollection('missing')).rejects.toMatchObject({ statusCode: 404 });
+    return { before, created, after };
+  }
+
+  it('records interactions with credentials redacted', async () => {
+    await record();
+
+    const stored = JSON.parse(await readFile(path, 'utf8'));
+    expect(stored.interactions).toHaveLength(4);
+    const [, create] = stored.interactions;
+    expect(create.request).toMatchObject({
+      method: 'POST',
+      url: 'https://api.foxnose.net/v1/env-test/collections/tree/',
+      body: { alias: 'articles', name: 'Articles' },
+    });
+    expect(create.request.headers.authorization).toBe('Secure [REDACTED]');
+    expect(create.response.status).toBe(201);
+    expect(create.response.body).toMatchObject({ alias: 'articles' });
+  });
+
+  it('replays in order, ignoring the Date header and signature', async () => {
+    const recorded = await record();
+    const cassette = new Cassette(path, { mode: 'replay' });
+    const api = client(cassette.fetch, secureAuth('2030-06-01T12:00:00Z'));
+
+    expect(await api.listCollections()).toEqual(recorded.before);
+    expect(await api.createCollection({ alias: 'articles', name: 'Articles' })).toEqual(
+      recorded.created,
+    );
+    expect(await api.listCollections()).toEqual(recorded.after);
+    await expect(api.getCollection('missing')).rejects.toMatchObject({ statusCode: 404 });
+  });
+
+  it('fails unmatched requests without retrying them', async () => {
+    await record();
+    const cassette = new Cassette(path, { mode: 'replay' });
+    const fetch = vi.fn(cassette.fetch);
+    const api = client(fetch, secureAuth('2030-06-01T12:00:00Z'));
+
+    const error = await api.createCollection({ alias: 'pages', name: 'Pages' }).catch((err) => err);
+    expect(error).toBeInstanceOf(CassetteMismatchError);
+    expect(error.method).toBe('POST');
+
+    await api.getCollection('missing').catch(() => undefined);
+    await expect(api.getCollection('missing')).rejects.toBeInstanceOf(CassetteMismatchError);
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+});
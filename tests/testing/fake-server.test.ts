@@ -0,0 +1,208 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { AnonymousAuth } from '../../src/auth/anonymous.js';
+import { SimpleKeyAuth } from '../../src/auth/simple.js';
+import {
+  CollectionNotWritableError,
+  ContentValidationFailedError,
+  ExternalIdConflictError,
+  FoxnoseAPIError,
+  FoxnoseTransportError,
+  RateLimitExceededError,
+} from '../../src/errors.js';
+import { FluxClient } from '../../src/flux/client.js';
+import { ManagementClient } from '../../src/management/client.js';
+import { FakeFoxnoseServer } from '../../src/testing/index.js';
+
+const noRetry = { attempts: 1, backoffFactor: 0, statusCodes: [], methods: [] };
+
+function setup(server: FakeFoxnoseServer) {
+  const management = new ManagementClient({
+    environmentKey: server.environmentKey,
+    auth: new AnonymousAuth(),
+    retryConfig: noRetry,
+    fetch: server.fetch,
+  });
+  const flux = new FluxClient({
+    baseUrl: server.fluxUrl,
+    apiPrefix: 'v1',
+    auth: new SimpleKeyAuth('pk', 'sk'),
+    retryConfig: noRetry,
+    fetch: server.fetch,
+  });
+  return { management, flux };
+}
+
+async function createArticles(management: ManagementClient) {
+  const collection = await management.createCollection({ name: 'Articles', alias: 'articles' });
+  const version = await management.createCollectionVersion(collection.key, { name: 'v1' });
+  await management.createCollectionField(collection.key, version.key, {
+    key: 'title',
+    name: 'Title',
+    type: 'string',
+    required: true,
+    searchable: true,
+  });
+  await management.createCollectionField(collection.key, version.key, {
+    key: 'views',
+    name: 'Views',
+    type: 'integer',
+  });
+  await management.publishCollectionVersion(collection.key, version.key);
+  return collection;
+}
+
+describe('FakeFoxnoseServer', () => {
+  let server: FakeFoxnoseServer;
+  let management: ManagementClient;
+  let flux: FluxClient;
+
+  beforeEach(() => {
+    server = new FakeFoxnoseServer({
+      environmentKey: 'env-1',
+      now: () => new Date('2026-01-01T00:00:00Z'),
+    });
+    ({ management, flux } = setup(server));
+  });
+
+  it('builds a schema and stores resources through the Management API', async () => {
+    const collection = await createArticles(management);
+    const version = await management.listCollectionVersions(collection.key);
+    expect(version.results[0].version_number).toBe(1);
+    expect(version.results[0].published_at).toBe('2026-01-01T00:00:00.000Z');
+
+    const resource = await management.createResource(
+      collection.key,
+      { data: { title: 'Hello', views: 3 } },
+      { externalId: 'hello' },
+    );
+    expect(resource.external_id).toBe('hello');
+    expect(await management.getResourceData(collection.key, resource.key)).toEqual({
+      title: 'Hello',
+      views: 3,
+    });
+  });
+
+  it('rejects content that does not match the published schema', async () => {
+    const collection = await createArticles(management);
+    const error = await management
+      .createResource(collection.key, { data: { views: 'many' } })
+      .catch((err) => err);
+    expect(error).toBeInstanceOf(ContentValidationFailedError);
+    expect(error.detail.errors).toEqual([
+      { json_path: '$.title', message: 'This field is required.' },
+      { json_path: '$.views', message: 'Expected integer.' },
+    ]);
+  });
+
+  it('refuses to modify a published schema version', async () => {
+    const collection = await createArticles(management);
+    const [version] = (await management.listCollectionVersions(collection.key)).results;
+    const error = await management
+      .createCollectionField(collection.key, version.key, {
+        key: 'body',
+        name: 'Body',
+        type: 'text',
+      })
+      .catch((err) => err);
+    expect(error).toBeInstanceOf(FoxnoseAPIError);
+    expect(error.statusCode).toBe(409);
+    expect(error.errorCode).toBe('schema_version_published');
+  });
+
+  it('paginates list endpoints', async () => {
+    const small = new FakeFoxnoseServer({ environmentKey: 'env-1', pageSize: 2 });
+    ({ management } = setup(small));
+    const collection = await createArticles(management);
+    for (let i = 0; i < 5; i++) {
+      await management.createResource(collection.key, { data: { title: `Post ${i}` } });
+    }
+    const items = await management.iterateResources(collection.key).toArray();
+    expect(items).toHaveLength(5);
+    expect(small.requests.filter((r) => r.method === 'GET').length).toBe(3);
+  });
+
+  describe('Flux', () => {
+    beforeEach(async () => {
+      const collection = await createArticles(management);
+      const api = await management.createApi({ name: 'Public', prefix: 'v1' });
+      await management.addApiCollection(api.key, collection.key, {
+        allowedMethods: ['get_many', 'get_one', 'search', 'schema', 'create'],
+      });
+      await management.createResource(collection.key, { data: { title: 'Alpha', views: 5 } });
+      await management.createResource(collection.key, { data: { title: 'Beta', views: 1 } });
+    });
+
+    it('serves content written through the Management API', async () => {
+      const page = await flux.listResources('articles');
+      expect(page.count).toBe(2);
+      expect(page.results.map((r: any) => r.data.title)).toEqual(['Alpha', 'Beta']);
+
+      const one = await flux.getResource('articles', page.results[1]._sys.key);
+      expect(one.data).toEqual({ title: 'Beta', views: 1 });
+    });
+
+    it('searches with text queries, filters and sorting', async () => {
+      const text = await flux.search('articles', { find_text: { query: 'alp' } });
+      expect(text.results.map((r: any) => r.data.title)).toEqual(['Alpha']);
+
+      const filtered = await flux.search('articles', {
+        where: { views: { $lt: 10 } },
+        sort: ['views'],
+      });
+      expect(filtered.results.map((r: any) => r.data.title)).toEqual(['Beta', 'Alpha']);
+    });
+
+    it('describes routes and schemas', async () => {
+      const router = await flux.getRouter();
+      expect(router.routes).toEqual([
+        expect.objectContaining({ path: '/v1/articles', name: 'Articles' }),
+      ]);
+      const schema = await flux.getSchema('articles');
+      expect(schema.json_schema.required).toEqual(['title']);
+      expect(schema.searchable_fields).toEqual(['title']);
+    });
+
+    it('creates resources and rejects duplicate keys', async () => {
+      const created = await flux.createResource('articles', { title: 'Gamma' }, { key: 'g' });
+      expect(created).toMatchObject({ write_units: 1, published: true });
+
+      const error = await flux
+        .createResource('articles', { title: 'Gamma' }, { key: 'g' })
+        .catch((err) => err);
+      expect(error).toBeInstanceOf(ExternalIdConflictError);
+    });
+
+    it('rejects writes to collections that are not writable', async () => {
+      const error = await flux
+        .updateResource('articles', 'res-1', { title: 'Nope' })
+        .catch((err) => err);
+      expect(error).toBeInstanceOf(CollectionNotWritableError);
+    });
+  });
+
+  it('returns queued failures before handling requests normally', async () => {
+    server.failNext({ status: 429, errorCode: 'rate_limited', method: 'GET' });
+    await expect(management.listCollections()).rejects.toBeInstanceOf(RateLimitExceededError);
+    await expect(management.listCollections()).resolves.toMatchObject({ count: 0 });
+  });
+
+  it('fails like an unreachable host for unknown origins', async () => {
+    const other = new FluxClient({
+      baseUrl: 'https://elsewhere.example',
+      apiPrefix: 'v1',
+      auth: new AnonymousAuth(),
+      retryConfig: noRetry,
+      fetch: server.fetch,
+    });
+    await expect(other.getRouter()).rejects.toBeInstanceOf(FoxnoseTransportError);
+  });
+
+  it('records requests and forgets everything on reset', async () => {
+    await createArticles(management);
+    expect(server.requests[0]).toMatchObject({ method: 'POST', status: 201 });
+
+    server.reset();
+    expect(server.requests).toEqual([]);
+    await expect(management.listCollections()).resolves.toMatchObject({ count: 0 });
+  });
+});
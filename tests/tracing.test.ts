@@ -0,0 +1,248 @@
+import { describe, expect, it } from 'vitest';
+import { AnonymousAuth } from '../src/auth/anonymous.js';
+import { SimpleKeyAuth } from '../src/auth/simple.js';
+import { FoxnoseAPIError } from '../src/errors.js';
+import { FluxClient } from '../src/flux/client.js';
+import { ManagementClient } from '../src/management/client.js';
+import { managementRouteTemplate } from '../src/management/paths.js';
+import { FakeFoxnoseServer } from '../src/testing/index.js';
+import type { Instrumentation, InstrumentationSpan, StartSpanOptions } from '../src/tracing.js';
+import { openTelemetryInstrumentation } from '../src/tracing.js';
+
+interface RecordedSpan extends InstrumentationSpan {
+  name: string;
+  kind: StartSpanOptions['kind'];
+  attributes: Record<string, unknown>;
+  parent?: RecordedSpan;
+  status?: { code: number; message?: string };
+  ended: boolean;
+}
+
+function recorder(): Instrumentation & { spans: RecordedSpan[] } {
+  const spans: RecordedSpan[] = [];
+  return {
+    spans,
+    startSpan(name, { kind, attributes }, parent) {
+      const span: RecordedSpan = {
+        name,
+        kind,
+        attributes: { ...attributes },
+        parent: parent as RecordedSpan | undefined,
+        ended: false,
+        setAttribute(key, value) {
+          span.attributes[key] = value;
+        },
+        setStatus(status) {
+          span.status = status;
+        },
+        end() {
+          span.ended = true;
+        },
+      };
+      spans.push(span);
+      return span;
+    },
+    inject(span, headers) {
+      headers.traceparent = `00-trace-${spans.indexOf(span as RecordedSpan)}-01`;
+    },
+  };
+}
+
+describe('managementRouteTemplate', () => {
+  const route = managementRouteTemplate();
+
+  it('replaces keys with the placeholders of managementPaths', () => {
+    expect(route('/v1/env-1/folders/f-1/resources/')).toBe(
+      '/v1/{environment}/folders/{folder}/resources',
+    );
+    expect(route('/v1/env-1/folders/f-1/resources/r-1/revisions/rv-1/publish/')).toBe(
+      '/v1/{environment}/folders/{folder}/resources/{resource}/revisions/{revision}/publish',
+    );
+    expect(route('/v1/env-1/collections/c-1/model/versions/v-1/schema/tree/field/')).toBe(
+      '/v1/{environment}/collections/{collection}/model/versions/{version}/schema/tree/field',
+    );
+    expect(route('/v1/env-1/collections/tree/collection/')).toBe(
+      '/v1/{environment}/collections/tree/collection',
+    );
+    expect(route('/v1/env-1/permissions/flux-api/api-keys/k-1/')).toBe(
+      '/v1/{environment}/permissions/flux-api/api-keys/{api-key}',
+    );
+    expect(route('/organizations/o-1/projects/p-1/')).toBe(
+      '/organizations/{organization}/projects/{project}',
+    );
+  });
+
+  it('does not take keys equal to listing names as listings', () => {
+    expect(route('/v1/env-1/collections/c1/model/versions/v1/publish/')).toBe(
+      '/v1/{environment}/collections/{collection}/model/versions/{version}/publish',
+    );
+    expect(route('/v1/env-1/folders/resources/resources/r-1/revisions/')).toBe(
+      '/v1/{environment}/folders/{folder}/resources/{resource}/revisions',
+    );
+    expect(route('/v1/env-1/folders/f-1/resources/folders/revisions/rv-1/')).toBe(
+      '/v1/{environment}/folders/{folder}/resources/{resource}/revisions/{revision}',
+    );
+    expect(route('/v1/v1/folders/folders/resources/')).toBe(
+      '/v1/{environment}/folders/{folder}/resources',
+    );
+  });
+});
+
+describe('tracing', () => {
+  function management(server: FakeFoxnoseServer, instrumentation: Instrumentation) {
+    return new ManagementClient({
+      environmentKey: server.environmentKey,
+      auth: new AnonymousAuth(),
+      retryConfig: { attempts: 3, backoffFactor: 0, statusCodes: [503], methods: ['GET'] },
+      fetch: server.fetch,
+      instrumentation,
+    });
+  }
+
+  it('creates a call span with a child span per attempt', async () => {
+    const server = new FakeFoxnoseServer();
+    const tracing = recorder();
+    const client = management(server, tracing);
+    server.failNext({ status: 503, method: 'GET' });
+
+    await client.listLocales();
+
+    const [call, first, second] = tracing.spans;
+    expect(tracing.spans).toHaveLength(3);
+    expect(call).toMatchObject({
+      name: 'GET /v1/{environment}/locales',
+      kind: 'internal',
+      ended: true,
+      attributes: {
+        'http.request.method': 'GET',
+        'http.route': '/v1/{environment}/locales',
+        'http.response.status_code': 200,
+        'foxnose.retry_count': 1,
+      },
+    });
+    expect(first).toMatchObject({
+      name: 'GET',
+      kind: 'client',
+      parent: call,
+      ended: true,
+      status: { code: 2 },
+      attributes: { 'http.response.status_code': 503, 'error.type': '503' },
+    });
+    expect(first.attributes['url.full']).toMatch(/\/locales\/$/);
+    expect(second).toMatchObject({
+      parent: call,
+      attributes: { 'http.response.status_code': 200, 'http.request.resend_count': 1 },
+    });
+    expect(server.requests.map((r) => r.headers.traceparent)).toEqual([
+      '00-trace-1-01',
+      '00-trace-2-01',
+    ]);
+  });
+
+  it('records the error code of failed calls', async () => {
+    const server = new FakeFoxnoseServer();
+    const tracing = recorder();
+    const client = management(server, tracing);
+
+    await expect(client.getCollection('missing')).rejects.toBeInstanceOf(FoxnoseAPIError);
+
+    const [call] = tracing.spans;
+    expect(call.status?.code).toBe(2);
+    expect(call.attributes).toMatchObject({
+      'http.response.status_code': 404,
+      'foxnose.error_code': expect.any(String),
+      'foxnose.retry_count': 0,
+    });
+    expect(call.attributes['error.type']).toBe(call.attributes['foxnose.error_code']);
+  });
+
+  it('ends attempt spans when middleware throws', async () => {
+    const server = new FakeFoxnoseServer();
+    const tracing = recorder();
+    for (const hook of ['beforeRequest', 'afterResponse'] as const) {
+      const client = new ManagementClient({
+        environmentKey: server.environmentKey,
+        auth: new AnonymousAuth(),
+        fetch: server.fetch,
+        instrumentation: tracing,
+        middleware: [
+          {
+            [hook]: () => {
+              throw new Error(`${hook} failed`);
+            },
+          },
+        ],
+      });
+      await expect(client.listLocales()).rejects.toThrow(`${hook} failed`);
+    }
+
+    const attempts = tracing.spans.filter((span) => span.kind === 'client');
+    expect(attempts).toHaveLength(2);
+    for (const span of attempts) {
+      expect(span).toMatchObject({ ended: true, status: { code: 2 } });
+      expect(span.attributes['error.type']).toBe('Error');
+    }
+  });
+
+  it('records write units and Flux route templates', async () => {
+    const server = new FakeFoxnoseServer();
+    const setup = management(server, recorder());
+    const collection = await setup.createCollection({ alias: 'articles', name: 'Articles' });
+    const api = await setup.createApi({ name: 'Public', prefix: 'v1' });
+    await setup.addApiCollection(api.key, collection.key, { allowedMethods: ['create'] });
+
+    const tracing = recorder();
+    const flux = new FluxClient({
+      baseUrl: server.fluxUrl,
+      apiPrefix: 'v1',
+      auth: new SimpleKeyAuth('pk', 'sk'),
+      fetch: server.fetch,
+      instrumentation: tracing,
+    });
+    await flux.createResource('articles', { title: 'Hello' });
+
+    expect(tracing.spans[0]).toMatchObject({
+      name: 'POST /v1/{collection}',
+      attributes: { 'foxnose.write_units': 1, 'foxnose.retry_count': 0 },
+    });
+  });
+
+  it('adapts the OpenTelemetry API', () => {
+    const started: { name: string; options: any; context: any }[] = [];
+    const span = { setAttribute: () => span, end: () => undefined };
+    const api = {
+      trace: {
+        getTracer: () => ({
+          startSpan: (name: string, options: any, context: any) => {
+            started.push({ name, options, context });
+            return span;
+          },
+        }),
+        setSpan: (context: any, parent: any) => ({ ...context, parent }),
+      },
+      context: { active: () => ({ active: true }) },
+      propagation: {
+        inject: (context: any, carrier: Record<string, string>) => {
+          carrier.traceparent = context.parent === span ? 'from-span' : 'other';
+        },
+      },
+      SpanKind: { INTERNAL: 0, CLIENT: 2 },
+    };
+    const instrumentation = openTelemetryInstrumentation(api);
+
+    const call = instrumentation.startSpan('call', { kind: 'internal', attributes: { a: 1 } });
+    instrumentation.startSpan('attempt', { kind: 'client', attributes: {} }, call);
+    const headers: Record<string, string> = {};
+    instrumentation.inject!(span, headers);
+
+    expect(started).toEqual([
+      { name: 'call', options: { kind: 0, attributes: { a: 1 } }, context: { active: true } },
+      {
+        name: 'attempt',
+        options: { kind: 2, attributes: {} },
+        context: { active: true, parent: span },
+      },
+    ]);
+    expect(headers.traceparent).toBe('from-span');
+  });
+});
@@ -0,0 +1,213 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { AnonymousAuth } from '../../src/auth/anonymous.js';
+import { SimpleKeyAuth } from '../../src/auth/simple.js';
+import { ContentValidationFailedError, LocalValidationError } from '../../src/errors.js';
+import { FluxClient } from '../../src/flux/client.js';
+import { ManagementClient } from '../../src/management/client.js';
+import type { CollectionSummary } from '../../src/management/models.js';
+import { FakeFoxnoseServer } from '../../src/testing/index.js';
+import {
+  ContentValidator,
+  managementSchemaSource,
+  validateJsonSchema,
+} from '../../src/validation/index.js';
+
+const noRetry = { attempts: 1, backoffFactor: 0, statusCodes: [], methods: [] };
+
+describe('validateJsonSchema', () => {
+  const schema = {
+    type: 'object',
+    properties: {
+      title: { type: 'string', minLength: 3 },
+      views: { type: ['integer', 'null'], minimum: 0 },
+      status: { type: 'string', enum: ['draft', 'live'] },
+      email: { type: 'string', format: 'email' },
+      tags: { type: 'array', maxItems: 2, items: { type: 'string' } },
+      author: {
+        type: 'object',
+        properties: { name: { type: 'string' } },
+        required: ['name'],
+        additionalProperties: false,
+      },
+    },
+    required: ['title'],
+  };
+
+  it('accepts valid data', () => {
+    expect(
+      validateJsonSchema(schema, {
+        title: 'Hello',
+        views: null,
+        status: 'live',
+        email: 'a@example.com',
+        tags: ['a', 'b'],
+        author: { name: 'Ann' },
+      }),
+    ).toEqual([]);
+  });
+
+  it('reports problems with the json_path of each value', () => {
+    expect(
+      validateJsonSchema(schema, {
+        views: 1.5,
+        status: 'gone',
+        email: 'nope',
+        tags: ['a', 2, 'c'],
+        author: { nickname: 'A' },
+      }),
+    ).toEqual([
+      { json_path: '$.title', message: 'This field is required.' },
+      { json_path: '$.views', message: 'Expected integer or null.' },
+      { json_path: '$.status', message: 'Must be one of: "draft", "live".' },
+      { json_path: '$.email', message: 'Enter a valid email.' },
+      { json_path: '$.tags', message: 'Ensure this list has at most 2 items.' },
+      { json_path: '$.tags[1]', message: 'Expected string.' },
+      { json_path: '$.author.name', message: 'This field is required.' },
+      { json_path: '$.author.nickname', message: 'Unknown field.' },
+    ]);
+    expect(validateJsonSchema(schema, { title: 'Hi', views: -1 })).toEqual([
+      { json_path: '$.title', message: 'Ensure this value has at least 3 characters.' },
+      { json_path: '$.views', message: 'Ensure this value is greater than or equal to 0.' },
+    ]);
+    expect(validateJsonSchema(schema, [])).toEqual([
+      { json_path: '$', message: 'Expected object.' },
+    ]);
+  });
+
+  it('checks patterns and skips those JavaScript cannot compile', () => {
+    const patterned = {
+      type: 'object',
+      properties: {
+        slug: { type: 'string', pattern: '^[a-z-]+$' },
+        // PCRE possessive quantifier and an escape rejected under the `u` flag.
+        code: { type: 'string', pattern: '^\\d++$' },
+        ref: { type: 'string', pattern: '^\\_ref$' },
+      },
+    };
+    expect(validateJsonSchema(patterned, { slug: 'ok-slug', code: '12', ref: 'x' })).toEqual([]);
+    expect(validateJsonSchema(patterned, { slug: 'Not OK', code: 'ab' })).toEqual([
+      { json_path: '$.slug', message: 'Does not match pattern ^[a-z-]+$.' },
+    ]);
+  });
+});
+
+describe('content validation before writes', () => {
+  let server: FakeFoxnoseServer;
+  let client: ManagementClient;
+  let collection: CollectionSummary;
+
+  beforeEach(async () => {
+    server = new FakeFoxnoseServer();
+    client = new ManagementClient({
+      environmentKey: server.environmentKey,
+      auth: new AnonymousAuth(),
+      retryConfig: noRetry,
+      fetch: server.fetch,
+      validateContent: true,
+    });
+    collection = await client.createCollection({ alias: 'articles', name: 'Articles' });
+    const version = await client.createCollectionVersion(collection.key, { name: 'v1' });
+    await client.createCollectionField(collection.key, version.key, {
+      key: 'title',
+      name: 'Title',
+      type: 'string',
+      required: true,
+    });
+    await client.createCollectionField(collection.key, version.key, {
+      key: 'views',
+      name: 'Views',
+      type: 'integer',
+    });
+    await client.publishCollectionVersion(collection.key, version.key);
+  });
+
+  const writes = () => server.requests.filter((r) => r.method !== 'GET').length;
+
+  it('rejects invalid data without sending the write', async () => {
+    const before = writes();
+    const error = await client
+      .createResource(collection.key, { data: { views: 'many' } })
+      .catch((err) => err);
+    expect(error).toBeInstanceOf(LocalValidationError);
+    expect(error).toBeInstanceOf(ContentValidationFailedError);
+    expect(error.statusCode).toBe(422);
+    expect(error.errors).toEqual([
+      { json_path: '$.title', message: 'This field is required.' },
+      { json_path: '$.views', message: 'Expected integer.' },
+    ]);
+    await expect(
+      client.upsertResource(collection.key, { data: {} }, { externalId: 'a' }),
+    ).rejects.toBeInstanceOf(LocalValidationError);
+    expect(writes()).toBe(before);
+  });
+
+  it('validates revisions and lets valid data through', async () => {
+    const resource = await client.createResource(collection.key, { data: { title: 'Hello' } });
+    await expect(
+      client.createRevision(collection.key, resource.key, { data: { title: 1 } }),
+    ).rejects.toBeInstanceOf(LocalValidationError);
+    const revision = await client.createRevision(collection.key, resource.key, {
+      data: { title: 'Hello again', views: 2 },
+    });
+    expect(revision.key).toBeTruthy();
+  });
+
+  it('caches schemas until invalidated', async () => {
+    const schemaFetches = () =>
+      server.requests.filter((r) => r.url.includes('include_schema=true')).length;
+    await client.createResource(collection.key, { data: { title: 'One' } });
+    await client.createResource(collection.key, { data: { title: 'Two' } });
+    expect(schemaFetches()).toBe(1);
+
+    client.contentValidator!.invalidate(collection.key);
+    await client.createResource(collection.key, { data: { title: 'Three' } });
+    expect(schemaFetches()).toBe(2);
+  });
+
+  it('reports invalid batch items as failed without sending them', async () => {
+    const before = writes();
+    const result = await client.batchUpsertResources(collection.key, [
+      { external_id: 'a', payload: { data: { title: 'A' } } },
+      { external_id: 'b', payload: { data: { views: 'many' } } },
+      { external_id: 'c', payload: { data: { title: 'C', views: 3 } } },
+    ]);
+    expect(result.results.map((r) => [r.status, r.attempts])).toEqual([
+      ['succeeded', 1],
+      ['failed', 0],
+      ['succeeded', 1],
+    ]);
+    expect(result.failed[0]).toMatchObject({ index: 1, external_id: 'b' });
+    expect(result.failed[0].error).toBeInstanceOf(LocalValidationError);
+    expect(writes() - before).toBe(2);
+  });
+
+  it('skips collections with nothing published', async () => {
+    const drafts = await client.createCollection({ alias: 'drafts', name: 'Drafts' });
+    const validator = new ContentValidator(managementSchemaSource(client));
+    expect(await validator.validate(drafts.key, { anything: true })).toEqual([]);
+  });
+
+  it('validates Flux writes against the route schema', async () => {
+    const api = await client.createApi({ name: 'Public', prefix: 'v1' });
+    await client.addApiCollection(api.key, collection.key, {
+      allowedMethods: ['get_one', 'schema', 'create', 'update'],
+    });
+    const flux = new FluxClient({
+      baseUrl: server.fluxUrl,
+      apiPrefix: 'v1',
+      auth: new SimpleKeyAuth('pk', 'sk'),
+      retryConfig: noRetry,
+      fetch: server.fetch,
+      validateContent: { ttl: 60_000 },
+    });
+    const error = await flux.createResource('articles', { views: 1 }).catch((err) => err);
+    expect(error).toBeInstanceOf(LocalValidationError);
+    expect(error.collection).toBe('articles');
+    expect(error.errors).toEqual([{ json_path: '$.title', message: 'This field is required.' }]);
+
+    const created = await flux.createResource('articles', { title: 'Hello' });
+    await expect(
+      flux.updateResource('articles', created.resource_key, { title: null }),
+    ).rejects.toBeInstanceOf(LocalValidationError);
+  });
+});